@@ -0,0 +1,92 @@
+-- Migration: Create scoring profiles for the fusion layer
+-- Description: Named, versioned score-fusion profiles (stage weights, per-stage cutoffs and soft penalties)
+-- that can be selected per vacancy and are recorded in match_cache and benchmark results
+-- Date: 2025-01-XX
+
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    version text NOT NULL UNIQUE, -- Stable identifier used by benchmarks (e.g., 'v1', 'v2')
+    name text NOT NULL,
+    description text,
+    pre_score_weight float NOT NULL DEFAULT 0.20,
+    neural_rank_weight float NOT NULL DEFAULT 0.50,
+    llm_weight float NOT NULL DEFAULT 0.30,
+    pre_score_limit int NOT NULL DEFAULT 50, -- Candidates kept after the pre-score layer
+    neural_rank_limit int NOT NULL DEFAULT 10, -- Candidates kept after the neural ranking layer
+    soft_penalties jsonb NOT NULL DEFAULT '{"skills": 0.15, "industry": 0.15, "title": 0.15, "location": 0.15}'::jsonb,
+    is_default boolean NOT NULL DEFAULT false,
+    created_at timestamptz DEFAULT now(),
+    created_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    CONSTRAINT scoring_profiles_weights_positive CHECK (
+        pre_score_weight >= 0 AND neural_rank_weight >= 0 AND llm_weight >= 0
+    ),
+    CONSTRAINT scoring_profiles_limits_positive CHECK (
+        pre_score_limit > 0 AND neural_rank_limit > 0 AND neural_rank_limit <= pre_score_limit
+    )
+);
+
+-- Only one profile can be the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_profiles_single_default
+    ON scoring_profiles(is_default) WHERE is_default = true;
+
+-- Seed the profile that reproduces the original hard-coded fusion formula
+INSERT INTO scoring_profiles (version, name, description, is_default)
+VALUES (
+    'v1',
+    'Default',
+    'final_score = 0.20 * pre_score + 0.50 * neural_rank_score + 0.30 * llm_score, top 50 / top 10 cutoffs',
+    true
+)
+ON CONFLICT (version) DO NOTHING;
+
+-- Per-vacancy profile selection (NULL = use the default profile)
+ALTER TABLE vacancies
+    ADD COLUMN IF NOT EXISTS scoring_profile_id uuid REFERENCES scoring_profiles(id) ON DELETE SET NULL;
+
+-- Record which profile produced each cached score
+ALTER TABLE match_cache
+    ADD COLUMN IF NOT EXISTS scoring_profile_id uuid REFERENCES scoring_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_match_cache_scoring_profile_id ON match_cache(scoring_profile_id);
+
+-- Benchmark versions now refer to real profiles
+INSERT INTO scoring_profiles (version, name, description)
+SELECT DISTINCT r.version, r.version, 'Imported from existing benchmark results'
+FROM matching_benchmark_results r
+WHERE NOT EXISTS (SELECT 1 FROM scoring_profiles sp WHERE sp.version = r.version);
+
+INSERT INTO scoring_profiles (version, name, description)
+SELECT DISTINCT s.version, s.version, 'Imported from existing benchmark schedule'
+FROM benchmark_schedule s
+WHERE s.version IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM scoring_profiles sp WHERE sp.version = s.version);
+
+ALTER TABLE matching_benchmark_results
+    ADD CONSTRAINT matching_benchmark_results_version_fkey
+    FOREIGN KEY (version) REFERENCES scoring_profiles(version) ON UPDATE CASCADE;
+
+ALTER TABLE benchmark_schedule
+    ADD CONSTRAINT benchmark_schedule_version_fkey
+    FOREIGN KEY (version) REFERENCES scoring_profiles(version) ON UPDATE CASCADE;
+
+-- Enable RLS
+ALTER TABLE scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view scoring profiles"
+    ON scoring_profiles FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can manage scoring profiles"
+    ON scoring_profiles FOR ALL
+    USING (auth.uid() IN (
+        SELECT id FROM auth.users WHERE raw_user_meta_data->>'role' = 'admin'
+    ))
+    WITH CHECK (auth.uid() IN (
+        SELECT id FROM auth.users WHERE raw_user_meta_data->>'role' = 'admin'
+    ));
+
+-- Add comments for documentation
+COMMENT ON TABLE scoring_profiles IS 'Named, versioned score-fusion profiles used by the matching pipeline';
+COMMENT ON COLUMN scoring_profiles.soft_penalties IS 'Multiplicative pre_score penalties per soft filter: skills, industry, title, location';
+COMMENT ON COLUMN vacancies.scoring_profile_id IS 'Scoring profile selected for this vacancy (NULL = default profile)';
+COMMENT ON COLUMN match_cache.scoring_profile_id IS 'Scoring profile that produced final_score for this row';
@@ -0,0 +1,179 @@
+-- Migration: Record the embedding model next to stored vectors
+-- Description: Adds embedding_model / embedding_dimensions to every table holding matching vectors,
+-- and restricts match_candidates_pre_score to candidates embedded with the vacancy's model.
+-- The title and location vectors are written separately (normalization jobs, candidate edits), so each
+-- gets its own <column>_model / <column>_dimensions pair.
+-- Date: 2025-01-XX
+
+ALTER TABLE candidates
+  ADD COLUMN IF NOT EXISTS embedding_model text,
+  ADD COLUMN IF NOT EXISTS embedding_dimensions int;
+
+ALTER TABLE vacancies
+  ADD COLUMN IF NOT EXISTS embedding_model text,
+  ADD COLUMN IF NOT EXISTS embedding_dimensions int;
+
+ALTER TABLE job_embeddings
+  ADD COLUMN IF NOT EXISTS embedding_model text,
+  ADD COLUMN IF NOT EXISTS embedding_dimensions int;
+
+ALTER TABLE job_query_expanded
+  ADD COLUMN IF NOT EXISTS embedding_model text,
+  ADD COLUMN IF NOT EXISTS embedding_dimensions int;
+
+-- Existing vectors were produced by OpenAI text-embedding-3-small (the only model that fits vector(1536))
+UPDATE candidates
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dimensions = vector_dims(COALESCE(meta_embedding, content_embedding))
+WHERE embedding_model IS NULL
+  AND (meta_embedding IS NOT NULL OR content_embedding IS NOT NULL);
+
+UPDATE vacancies
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dimensions = vector_dims(COALESCE(meta_embedding, content_embedding))
+WHERE embedding_model IS NULL
+  AND (meta_embedding IS NOT NULL OR content_embedding IS NOT NULL);
+
+UPDATE job_embeddings
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dimensions = vector_dims(combined_vector)
+WHERE embedding_model IS NULL
+  AND combined_vector IS NOT NULL;
+
+UPDATE job_query_expanded
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dimensions = vector_dims(job_vector_enhanced)
+WHERE embedding_model IS NULL
+  AND job_vector_enhanced IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_candidates_embedding_model ON candidates(embedding_model);
+
+COMMENT ON COLUMN candidates.embedding_model IS 'Model that produced meta_embedding/content_embedding';
+COMMENT ON COLUMN vacancies.embedding_model IS 'Model that produced meta_embedding/content_embedding';
+COMMENT ON COLUMN job_embeddings.embedding_model IS 'Model that produced title_vector/description_vector/combined_vector';
+COMMENT ON COLUMN job_query_expanded.embedding_model IS 'Model that produced job_vector_enhanced';
+
+-- Title/location vectors were created as vector(3072); all providers now produce 1536 dimensions.
+-- Old 3072-dimension values cannot be compared with new ones, so they are cleared and
+-- must be regenerated with the "Normalize All" actions.
+DO $$
+DECLARE
+  col record;
+BEGIN
+  FOR col IN
+    SELECT c.relname AS table_name, a.attname AS column_name
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+      AND (c.relname, a.attname) IN (
+        ('candidates', 'job_title_embedding'),
+        ('candidates', 'location_embedding'),
+        ('jobs', 'title_embedding'),
+        ('jobs', 'location_embedding')
+      )
+      AND format_type(a.atttypid, a.atttypmod) <> 'vector(1536)'
+  LOOP
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN %I TYPE vector(1536) USING NULL', col.table_name, col.column_name);
+  END LOOP;
+END $$;
+
+ALTER TABLE candidates
+  ADD COLUMN IF NOT EXISTS job_title_embedding_model text,
+  ADD COLUMN IF NOT EXISTS job_title_embedding_dimensions int,
+  ADD COLUMN IF NOT EXISTS location_embedding_model text,
+  ADD COLUMN IF NOT EXISTS location_embedding_dimensions int;
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS title_embedding_model text,
+  ADD COLUMN IF NOT EXISTS title_embedding_dimensions int,
+  ADD COLUMN IF NOT EXISTS location_embedding_model text,
+  ADD COLUMN IF NOT EXISTS location_embedding_dimensions int;
+
+-- Title/location vectors left after the conversion above were produced by text-embedding-3-small as well
+UPDATE candidates
+SET job_title_embedding_model = 'text-embedding-3-small',
+    job_title_embedding_dimensions = vector_dims(job_title_embedding)
+WHERE job_title_embedding IS NOT NULL AND job_title_embedding_model IS NULL;
+
+UPDATE candidates
+SET location_embedding_model = 'text-embedding-3-small',
+    location_embedding_dimensions = vector_dims(location_embedding)
+WHERE location_embedding IS NOT NULL AND location_embedding_model IS NULL;
+
+UPDATE jobs
+SET title_embedding_model = 'text-embedding-3-small',
+    title_embedding_dimensions = vector_dims(title_embedding)
+WHERE title_embedding IS NOT NULL AND title_embedding_model IS NULL;
+
+UPDATE jobs
+SET location_embedding_model = 'text-embedding-3-small',
+    location_embedding_dimensions = vector_dims(location_embedding)
+WHERE location_embedding IS NOT NULL AND location_embedding_model IS NULL;
+
+COMMENT ON COLUMN candidates.job_title_embedding_model IS 'Model that produced job_title_embedding';
+COMMENT ON COLUMN candidates.location_embedding_model IS 'Model that produced location_embedding';
+COMMENT ON COLUMN jobs.title_embedding_model IS 'Model that produced title_embedding';
+COMMENT ON COLUMN jobs.location_embedding_model IS 'Model that produced location_embedding';
+
+-- Pre-score only compares vectors produced by the same model
+CREATE OR REPLACE FUNCTION match_candidates_pre_score(vacancy_uuid uuid)
+RETURNS TABLE (
+    candidate_id uuid,
+    meta_similarity float,
+    content_similarity float,
+    enhanced_query_similarity float,
+    pre_score float,
+    title_bonus float
+)
+AS $$
+DECLARE
+    vacancy_general_title text;
+    vacancy_embedding_model text;
+    vacancy_embedding_dimensions int;
+    enhanced_vector vector(1536);
+BEGIN
+  -- Get vacancy general_title, embedding model and enhanced vector (only if embedded with the same model)
+  SELECT
+    v.general_title,
+    v.embedding_model,
+    v.embedding_dimensions,
+    CASE WHEN qe.embedding_model = v.embedding_model THEN qe.job_vector_enhanced END
+  INTO vacancy_general_title, vacancy_embedding_model, vacancy_embedding_dimensions, enhanced_vector
+  FROM vacancies v
+  LEFT JOIN job_query_expanded qe ON qe.job_id = v.id
+  WHERE v.id = vacancy_uuid;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    (1 - (v.meta_embedding <=> c.meta_embedding)) AS meta_similarity,
+    (1 - (v.content_embedding <=> c.content_embedding)) AS content_similarity,
+    CASE
+      WHEN enhanced_vector IS NOT NULL AND c.content_embedding IS NOT NULL
+      THEN (1 - (enhanced_vector <=> c.content_embedding))
+      ELSE 0.0
+    END AS enhanced_query_similarity,
+    (
+      0.35 * (1 - (v.meta_embedding <=> c.meta_embedding)) +
+      0.65 * (1 - (v.content_embedding <=> c.content_embedding))
+    ) AS pre_score,
+    CASE
+      -- Exact title match: +0.4
+      WHEN LOWER(COALESCE(c.general_title, '')) = LOWER(COALESCE(vacancy_general_title, ''))
+        AND c.general_title IS NOT NULL
+        AND vacancy_general_title IS NOT NULL
+        THEN 0.4
+      -- Related title match: +0.2 (handled in application layer)
+      ELSE 0.0
+    END AS title_bonus
+  FROM candidates c, vacancies v
+  WHERE v.id = vacancy_uuid
+    AND c.embedding_model = vacancy_embedding_model
+    AND c.embedding_dimensions = vacancy_embedding_dimensions
+  ORDER BY pre_score DESC
+  LIMIT 50;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION match_candidates_pre_score(uuid) IS 'Computes pre-score similarity between a vacancy and all candidates embedded with the same model. Returns top 50 candidates by pre_score. Includes enhanced query vector similarity and title matching bonus.';
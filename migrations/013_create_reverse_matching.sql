@@ -0,0 +1,60 @@
+-- Migration: Reverse matching (candidate -> vacancies)
+-- Description: Adds vacancies.status so only open vacancies are ranked, and creates match_vacancies_pre_score,
+-- the mirror of match_candidates_pre_score. Results are cached in match_cache under the same (vacancy_id, candidate_id) key.
+-- Date: 2025-01-XX
+
+ALTER TABLE vacancies
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'paused', 'closed'));
+
+CREATE INDEX IF NOT EXISTS idx_vacancies_status ON vacancies(status);
+
+COMMENT ON COLUMN vacancies.status IS 'Only active vacancies are offered by reverse matching';
+
+CREATE OR REPLACE FUNCTION match_vacancies_pre_score(candidate_uuid uuid)
+RETURNS TABLE (
+    vacancy_id uuid,
+    meta_similarity float,
+    content_similarity float,
+    pre_score float,
+    title_bonus float
+)
+AS $$
+DECLARE
+    candidate_general_title text;
+    candidate_embedding_model text;
+    candidate_embedding_dimensions int;
+BEGIN
+  SELECT c.general_title, c.embedding_model, c.embedding_dimensions
+  INTO candidate_general_title, candidate_embedding_model, candidate_embedding_dimensions
+  FROM candidates c
+  WHERE c.id = candidate_uuid;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    (1 - (v.meta_embedding <=> c.meta_embedding)) AS meta_similarity,
+    (1 - (v.content_embedding <=> c.content_embedding)) AS content_similarity,
+    (
+      0.35 * (1 - (v.meta_embedding <=> c.meta_embedding)) +
+      0.65 * (1 - (v.content_embedding <=> c.content_embedding))
+    ) AS pre_score,
+    CASE
+      -- Exact title match: +0.4
+      WHEN LOWER(COALESCE(v.general_title, '')) = LOWER(COALESCE(candidate_general_title, ''))
+        AND v.general_title IS NOT NULL
+        AND candidate_general_title IS NOT NULL
+        THEN 0.4
+      ELSE 0.0
+    END AS title_bonus
+  FROM vacancies v, candidates c
+  WHERE c.id = candidate_uuid
+    AND v.status = 'active'
+    AND v.embedding_model = candidate_embedding_model
+    AND v.embedding_dimensions = candidate_embedding_dimensions
+  ORDER BY pre_score DESC
+  LIMIT 50;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION match_vacancies_pre_score(uuid) IS 'Computes pre-score similarity between a candidate and all active vacancies embedded with the same model. Returns top 50 vacancies by pre_score. Same formula as match_candidates_pre_score.';
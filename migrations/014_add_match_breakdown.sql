@@ -0,0 +1,10 @@
+-- Migration: Store the factor breakdown with each match
+-- Description: Adds match_cache.breakdown (jsonb) holding meta/content similarity, title score,
+-- location factors, skill overlap, industry relatedness and the soft penalties that fired.
+-- Written by computeFinalScores on every match run; see MatchBreakdown in supabase/functions/_shared/matching/types.ts
+-- Date: 2025-01-XX
+
+ALTER TABLE match_cache
+  ADD COLUMN IF NOT EXISTS breakdown jsonb;
+
+COMMENT ON COLUMN match_cache.breakdown IS 'Factor-level explanation of the rank (MatchBreakdown)';
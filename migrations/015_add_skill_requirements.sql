@@ -0,0 +1,34 @@
+-- Migration: Skill priorities on jobs and vacancies
+-- Description: Adds skill_requirements (jsonb array of { skill, priority, min_years }) where priority is
+-- 'required', 'preferred' or 'bonus'. Only required skills hard-filter candidates; skills_required / skills
+-- keep the flat list of all skill names for embeddings and clustering.
+-- min_years is passed to the LLM ranking stages (candidates have no per-skill experience to filter on).
+-- Date: 2025-01-XX
+
+ALTER TABLE vacancies
+  ADD COLUMN IF NOT EXISTS skill_requirements jsonb;
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS skill_requirements jsonb;
+
+-- Existing flat skill lists were all treated as must-have
+UPDATE vacancies
+SET skill_requirements = (
+  SELECT jsonb_agg(jsonb_build_object('skill', s, 'priority', 'required', 'min_years', NULL))
+  FROM unnest(skills_required) AS s
+)
+WHERE skill_requirements IS NULL
+  AND skills_required IS NOT NULL
+  AND cardinality(skills_required) > 0;
+
+UPDATE jobs
+SET skill_requirements = (
+  SELECT jsonb_agg(jsonb_build_object('skill', s, 'priority', 'required', 'min_years', NULL))
+  FROM unnest(skills) AS s
+)
+WHERE skill_requirements IS NULL
+  AND skills IS NOT NULL
+  AND cardinality(skills) > 0;
+
+COMMENT ON COLUMN vacancies.skill_requirements IS 'Skills with priority (required | preferred | bonus) and optional min_years';
+COMMENT ON COLUMN jobs.skill_requirements IS 'Skills with priority (required | preferred | bonus) and optional min_years';
@@ -0,0 +1,34 @@
+-- Migration: Job compensation and salary fit
+-- Description: Adds a pay range with currency and unit (year | month | hour) to jobs and vacancies,
+-- matching candidates.salary_min / salary_max / salary_unit. The matcher annualizes both sides
+-- (hour x 2080, month x 12) and compares them; salary is skipped when either side is empty.
+-- scoring_profiles.max_over_budget_pct turns "over budget by more than X" into a hard filter
+-- (0.2 = 20% over the job's maximum); NULL keeps it a soft penalty only.
+-- Date: 2025-01-XX
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS salary_min numeric,
+  ADD COLUMN IF NOT EXISTS salary_max numeric,
+  ADD COLUMN IF NOT EXISTS salary_currency text,
+  ADD COLUMN IF NOT EXISTS salary_unit text CHECK (salary_unit IN ('year', 'month', 'hour'));
+
+ALTER TABLE vacancies
+  ADD COLUMN IF NOT EXISTS salary_min numeric,
+  ADD COLUMN IF NOT EXISTS salary_max numeric,
+  ADD COLUMN IF NOT EXISTS salary_currency text,
+  ADD COLUMN IF NOT EXISTS salary_unit text CHECK (salary_unit IN ('year', 'month', 'hour'));
+
+ALTER TABLE scoring_profiles
+  ADD COLUMN IF NOT EXISTS max_over_budget_pct float CHECK (max_over_budget_pct IS NULL OR max_over_budget_pct >= 0);
+
+-- Existing profiles get the same salary penalty as the other soft filters
+UPDATE scoring_profiles
+SET soft_penalties = soft_penalties || '{"salary": 0.15}'::jsonb
+WHERE NOT soft_penalties ? 'salary';
+
+ALTER TABLE scoring_profiles
+  ALTER COLUMN soft_penalties SET DEFAULT '{"skills": 0.15, "industry": 0.15, "title": 0.15, "location": 0.15, "salary": 0.15}'::jsonb;
+
+COMMENT ON COLUMN jobs.salary_unit IS 'Pay period of salary_min / salary_max: year, month or hour';
+COMMENT ON COLUMN vacancies.salary_unit IS 'Pay period of salary_min / salary_max: year, month or hour';
+COMMENT ON COLUMN scoring_profiles.max_over_budget_pct IS 'Exclude candidates whose minimum exceeds the job maximum by more than this share (NULL = no hard filter)';
@@ -0,0 +1,46 @@
+-- Migration: Seniority and years-of-experience matching
+-- Description: Candidates get a numeric experience_years (parsed from the free-text experience field)
+-- and a normalized seniority_level band; vacancies get the seniority_level of their job.
+-- Bands follow jobs.seniority_level; typical years per band (see _shared/matching/seniority.ts):
+-- Internship < 1, Entry level 1-3, Associate 3-5, Mid-Senior level 5-10, Director 10-15, Executive 15+.
+-- The matcher excludes candidates two or more bands below the vacancy and penalizes one band below
+-- or two or more bands above. The app re-derives both columns whenever a candidate is saved.
+-- Date: 2025-01-XX
+
+ALTER TABLE candidates
+  ADD COLUMN IF NOT EXISTS experience_years numeric CHECK (experience_years IS NULL OR experience_years >= 0),
+  ADD COLUMN IF NOT EXISTS seniority_level text CHECK (seniority_level IN ('Internship', 'Entry level', 'Associate', 'Mid-Senior level', 'Director', 'Executive'));
+
+ALTER TABLE vacancies
+  ADD COLUMN IF NOT EXISTS seniority_level text DEFAULT 'Not Applicable' CHECK (seniority_level IN ('Internship', 'Entry level', 'Associate', 'Mid-Senior level', 'Director', 'Executive', 'Not Applicable'));
+
+-- Backfill years from text like "5 years" or "7+ yrs"
+UPDATE candidates
+SET experience_years = substring(experience FROM '\d+(?:\.\d+)?')::numeric
+WHERE experience_years IS NULL
+  AND experience ~ '\d';
+
+-- Backfill bands from years only; title keywords are applied when the app next saves the candidate
+UPDATE candidates
+SET seniority_level = CASE
+    WHEN experience_years < 1 THEN 'Internship'
+    WHEN experience_years < 3 THEN 'Entry level'
+    WHEN experience_years < 5 THEN 'Associate'
+    WHEN experience_years < 10 THEN 'Mid-Senior level'
+    WHEN experience_years < 15 THEN 'Director'
+    ELSE 'Executive'
+  END
+WHERE seniority_level IS NULL
+  AND experience_years IS NOT NULL;
+
+-- Existing profiles get the same seniority penalty as the other soft filters
+UPDATE scoring_profiles
+SET soft_penalties = soft_penalties || '{"seniority": 0.15}'::jsonb
+WHERE NOT soft_penalties ? 'seniority';
+
+ALTER TABLE scoring_profiles
+  ALTER COLUMN soft_penalties SET DEFAULT '{"skills": 0.15, "industry": 0.15, "title": 0.15, "location": 0.15, "salary": 0.15, "seniority": 0.15}'::jsonb;
+
+COMMENT ON COLUMN candidates.experience_years IS 'Total years of work experience (numeric form of experience)';
+COMMENT ON COLUMN candidates.seniority_level IS 'Normalized seniority band derived from title keywords and experience_years';
+COMMENT ON COLUMN vacancies.seniority_level IS 'Seniority level of the job (Not Applicable disables seniority filtering)';
@@ -0,0 +1,128 @@
+-- Migration: Hiring pipeline per job
+-- Description: An application links a candidate to one of the recruiter's jobs and sits in a pipeline
+-- stage (sourced, screened, interview, offer, hired, rejected). Stages are rows in pipeline_stages so
+-- they can be renamed, reordered or extended without a code change. Every stage change is recorded in
+-- application_stage_history with who moved the application and when (filled by a trigger).
+-- vacancies.job_id links a matching-engine vacancy back to the job it was created from, so matches
+-- found on the Matching Dashboard can be added to that job's pipeline.
+-- Date: 2025-01-XX
+
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    key text NOT NULL UNIQUE, -- Stable identifier used by the app (e.g., 'screened')
+    label text NOT NULL,
+    position int NOT NULL, -- Column order on the board
+    is_closed boolean NOT NULL DEFAULT false, -- Final stages (hired, rejected)
+    created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO pipeline_stages (key, label, position, is_closed)
+VALUES
+    ('sourced', 'Sourced', 1, false),
+    ('screened', 'Screened', 2, false),
+    ('interview', 'Interview', 3, false),
+    ('offer', 'Offer', 4, false),
+    ('hired', 'Hired', 5, true),
+    ('rejected', 'Rejected', 6, true)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS applications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    job_id bigint NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    stage_id uuid NOT NULL REFERENCES pipeline_stages(id),
+    position float NOT NULL DEFAULT 0, -- Order inside the stage column
+    source text, -- Where the candidate was added from (e.g., 'job_matches', 'matching_dashboard')
+    match_score float, -- Score at the time the candidate was added, if any
+    created_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE (candidate_id, job_id)
+);
+
+CREATE TABLE IF NOT EXISTS application_stage_history (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+    from_stage_id uuid REFERENCES pipeline_stages(id), -- NULL when the application was created
+    to_stage_id uuid NOT NULL REFERENCES pipeline_stages(id),
+    moved_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    moved_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_applications_job_id ON applications(job_id, stage_id, position);
+CREATE INDEX IF NOT EXISTS idx_applications_candidate_id ON applications(candidate_id);
+CREATE INDEX IF NOT EXISTS idx_application_stage_history_application_id
+    ON application_stage_history(application_id, moved_at);
+
+-- Record the initial stage and every later stage change
+CREATE OR REPLACE FUNCTION record_application_stage_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.stage_id IS DISTINCT FROM OLD.stage_id THEN
+        INSERT INTO application_stage_history (application_id, from_stage_id, to_stage_id, moved_by_user_id)
+        VALUES (
+            NEW.id,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END,
+            NEW.stage_id,
+            auth.uid()
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER applications_stage_history
+    AFTER INSERT OR UPDATE OF stage_id ON applications
+    FOR EACH ROW
+    EXECUTE FUNCTION record_application_stage_change();
+
+-- Link vacancies to the job they were created from
+ALTER TABLE vacancies
+    ADD COLUMN IF NOT EXISTS job_id bigint REFERENCES jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vacancies_job_id ON vacancies(job_id);
+
+-- Enable Row Level Security
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pipeline stages"
+    ON pipeline_stages FOR SELECT
+    USING (true);
+
+-- Applications belong to the owner of the job
+CREATE POLICY "Users can view applications for their jobs"
+    ON applications FOR SELECT
+    USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = applications.job_id AND jobs.user_id = auth.uid()));
+
+CREATE POLICY "Users can create applications for their jobs"
+    ON applications FOR INSERT
+    WITH CHECK (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = applications.job_id AND jobs.user_id = auth.uid()));
+
+CREATE POLICY "Users can update applications for their jobs"
+    ON applications FOR UPDATE
+    USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = applications.job_id AND jobs.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete applications for their jobs"
+    ON applications FOR DELETE
+    USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = applications.job_id AND jobs.user_id = auth.uid()));
+
+-- History is written by the trigger only
+CREATE POLICY "Users can view stage history for their jobs"
+    ON application_stage_history FOR SELECT
+    USING (EXISTS (
+        SELECT 1
+        FROM applications a
+        JOIN jobs j ON j.id = a.job_id
+        WHERE a.id = application_stage_history.application_id AND j.user_id = auth.uid()
+    ));
+
+COMMENT ON TABLE pipeline_stages IS 'Configurable hiring pipeline stages, ordered by position';
+COMMENT ON TABLE applications IS 'A candidate in the hiring pipeline of a job';
+COMMENT ON TABLE application_stage_history IS 'Stage changes of an application with who moved it and when';
+COMMENT ON COLUMN vacancies.job_id IS 'Job this vacancy was created from (NULL for standalone vacancies)';
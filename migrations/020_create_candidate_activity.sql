@@ -0,0 +1,171 @@
+-- Migration: Candidate activity timeline
+-- Description: One timeline per candidate combining recruiter notes (with @mentions of teammates)
+-- and system events. Notes are written by the app; system events are written by triggers so they
+-- are recorded no matter who made the change (app, job-worker, match edge function):
+--   resume_parsed         candidates.resume_data / resume_text changed
+--   embeddings_generated  candidates.meta_embedding / content_embedding changed
+--   added_to_job          application created (see 019_create_hiring_pipeline.sql)
+--   stage_changed         application moved to another pipeline stage
+--   matched               new or changed final_score in match_cache
+-- Date: 2025-01-XX
+
+CREATE TABLE IF NOT EXISTS candidate_activities (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    type text NOT NULL CHECK (type IN (
+        'note',
+        'resume_parsed',
+        'embeddings_generated',
+        'added_to_job',
+        'stage_changed',
+        'matched'
+    )),
+    body text, -- Note text; NULL for system events
+    mentions uuid[] NOT NULL DEFAULT '{}', -- Teammates mentioned in a note
+    job_id bigint REFERENCES jobs(id) ON DELETE SET NULL,
+    vacancy_id uuid REFERENCES vacancies(id) ON DELETE SET NULL,
+    metadata jsonb NOT NULL DEFAULT '{}'::jsonb, -- Event details, e.g. {"to_stage": "Interview"}
+    created_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT candidate_activities_note_has_body CHECK (type <> 'note' OR length(trim(body)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_activities_candidate_id
+    ON candidate_activities(candidate_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_candidate_activities_mentions
+    ON candidate_activities USING gin(mentions);
+
+-- Teammates that can be @mentioned (auth.users is not readable from the client)
+CREATE OR REPLACE FUNCTION list_teammates()
+RETURNS TABLE (id uuid, email text, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT u.id, u.email::text, COALESCE(u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name', split_part(u.email, '@', 1))
+    FROM auth.users u
+    WHERE auth.uid() IS NOT NULL
+    ORDER BY u.email;
+$$;
+
+-- Resume and embedding changes on candidates
+CREATE OR REPLACE FUNCTION record_candidate_system_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.resume_data IS DISTINCT FROM OLD.resume_data OR NEW.resume_text IS DISTINCT FROM OLD.resume_text THEN
+        INSERT INTO candidate_activities (candidate_id, type, created_by_user_id)
+        VALUES (NEW.id, 'resume_parsed', auth.uid());
+    END IF;
+
+    IF NEW.meta_embedding IS DISTINCT FROM OLD.meta_embedding OR NEW.content_embedding IS DISTINCT FROM OLD.content_embedding THEN
+        INSERT INTO candidate_activities (candidate_id, type, metadata, created_by_user_id)
+        VALUES (NEW.id, 'embeddings_generated', jsonb_build_object('model', NEW.embedding_model), auth.uid());
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER candidates_system_activity
+    AFTER UPDATE OF resume_data, resume_text, meta_embedding, content_embedding ON candidates
+    FOR EACH ROW
+    EXECUTE FUNCTION record_candidate_system_activity();
+
+-- Pipeline events, from the stage history written by record_application_stage_change()
+CREATE OR REPLACE FUNCTION record_application_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_application applications%ROWTYPE;
+BEGIN
+    SELECT * INTO v_application FROM applications WHERE id = NEW.application_id;
+
+    INSERT INTO candidate_activities (candidate_id, type, job_id, metadata, created_by_user_id)
+    VALUES (
+        v_application.candidate_id,
+        CASE WHEN NEW.from_stage_id IS NULL THEN 'added_to_job' ELSE 'stage_changed' END,
+        v_application.job_id,
+        jsonb_build_object(
+            'job_title', (SELECT title FROM jobs WHERE id = v_application.job_id),
+            'from_stage', (SELECT label FROM pipeline_stages WHERE id = NEW.from_stage_id),
+            'to_stage', (SELECT label FROM pipeline_stages WHERE id = NEW.to_stage_id),
+            'source', v_application.source
+        ),
+        NEW.moved_by_user_id
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER application_stage_history_activity
+    AFTER INSERT ON application_stage_history
+    FOR EACH ROW
+    EXECUTE FUNCTION record_application_activity();
+
+-- Match results; cache refreshes that leave the score unchanged are not recorded
+CREATE OR REPLACE FUNCTION record_match_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_vacancy vacancies%ROWTYPE;
+BEGIN
+    IF NEW.final_score IS NULL OR (TG_OP = 'UPDATE' AND NEW.final_score IS NOT DISTINCT FROM OLD.final_score) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_vacancy FROM vacancies WHERE id = NEW.vacancy_id;
+
+    INSERT INTO candidate_activities (candidate_id, type, vacancy_id, job_id, metadata, created_by_user_id)
+    VALUES (
+        NEW.candidate_id,
+        'matched',
+        v_vacancy.id,
+        v_vacancy.job_id,
+        jsonb_build_object('vacancy_title', v_vacancy.title, 'final_score', NEW.final_score),
+        auth.uid()
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER match_cache_activity
+    AFTER INSERT OR UPDATE OF final_score ON match_cache
+    FOR EACH ROW
+    EXECUTE FUNCTION record_match_activity();
+
+-- Enable Row Level Security
+ALTER TABLE candidate_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view candidate activity"
+    ON candidate_activities FOR SELECT
+    USING (auth.uid() IS NOT NULL); -- Candidates are shared, so is their timeline
+
+-- System events are written by the triggers above only
+CREATE POLICY "Users can add notes"
+    ON candidate_activities FOR INSERT
+    WITH CHECK (type = 'note' AND auth.uid() = created_by_user_id);
+
+CREATE POLICY "Users can edit their own notes"
+    ON candidate_activities FOR UPDATE
+    USING (type = 'note' AND auth.uid() = created_by_user_id);
+
+CREATE POLICY "Users can delete their own notes"
+    ON candidate_activities FOR DELETE
+    USING (type = 'note' AND auth.uid() = created_by_user_id);
+
+COMMENT ON TABLE candidate_activities IS 'Per-candidate timeline of recruiter notes and system events';
+COMMENT ON COLUMN candidate_activities.mentions IS 'Users @mentioned in a note';
@@ -0,0 +1,193 @@
+-- Migration: Candidate de-duplication and merge
+-- Description: The app scores likely duplicate candidates (same email, phone or LinkedIn from the resume
+-- contacts, similar names, shared companies) and stores the pairs in candidate_duplicate_pairs for review.
+-- merge_candidates() folds one record into the other in a single transaction:
+--   - scalar fields are taken from the loser where the reviewer picked it, array fields are unioned
+--   - the resume that is not kept is archived in candidates.additional_resumes, so both survive
+--   - match_cache, candidate_unified_titles, applications and candidate_activities move to the winner
+--     (where both records have a row for the same vacancy/job, the winner's row is kept)
+--   - the loser is deleted after a snapshot is written to candidate_merges
+-- Date: 2025-01-XX
+
+ALTER TABLE candidates
+    ADD COLUMN IF NOT EXISTS additional_resumes jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS candidate_duplicate_pairs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    candidate_a_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    candidate_b_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    score float NOT NULL, -- 0-1 likelihood that both records are the same person
+    reasons jsonb NOT NULL DEFAULT '[]'::jsonb, -- [{"signal": "email", "detail": "...", "weight": 0.6}, ...]
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+    reviewed_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT candidate_duplicate_pairs_ordered CHECK (candidate_a_id < candidate_b_id),
+    UNIQUE (candidate_a_id, candidate_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_duplicate_pairs_status ON candidate_duplicate_pairs(status, score DESC);
+
+CREATE TABLE IF NOT EXISTS candidate_merges (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    winner_id uuid REFERENCES candidates(id) ON DELETE SET NULL,
+    loser_id uuid NOT NULL, -- Deleted by the merge
+    loser_snapshot jsonb NOT NULL, -- The loser row as it was before the merge (without embeddings)
+    fields_from_loser text[] NOT NULL DEFAULT '{}',
+    merged_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    merged_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_merges_winner_id ON candidate_merges(winner_id);
+
+-- Merges show up on the winner's activity timeline
+ALTER TABLE candidate_activities DROP CONSTRAINT IF EXISTS candidate_activities_type_check;
+ALTER TABLE candidate_activities ADD CONSTRAINT candidate_activities_type_check CHECK (type IN (
+    'note',
+    'resume_parsed',
+    'embeddings_generated',
+    'added_to_job',
+    'stage_changed',
+    'matched',
+    'merged'
+));
+
+CREATE OR REPLACE FUNCTION merge_candidates(
+    p_winner_id uuid,
+    p_loser_id uuid,
+    p_fields_from_loser text[] DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    -- Scalar columns the reviewer can take from the loser
+    v_mergeable text[] := ARRAY[
+        'name', 'job_title', 'normalized_job_title', 'job_title_embedding', 'job_title_embedding_model',
+        'job_title_embedding_dimensions', 'location', 'normalized_location', 'location_embedding',
+        'location_embedding_model', 'location_embedding_dimensions', 'experience', 'experience_years', 'seniority_level',
+        'availability', 'status', 'summary', 'salary_min', 'salary_max', 'salary_unit',
+        'social_links', 'calendly', 'resume_data', 'resume_text'
+    ];
+    v_winner candidates%ROWTYPE;
+    v_loser candidates%ROWTYPE;
+    v_column text;
+    v_archived jsonb;
+BEGIN
+    -- Same rule as the candidates write policies
+    IF NOT public.is_admin_user() THEN
+        RAISE EXCEPTION 'Only admins can merge candidates';
+    END IF;
+
+    IF p_winner_id = p_loser_id THEN
+        RAISE EXCEPTION 'Cannot merge a candidate into itself';
+    END IF;
+
+    SELECT * INTO v_winner FROM candidates WHERE id = p_winner_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Candidate % not found', p_winner_id;
+    END IF;
+
+    SELECT * INTO v_loser FROM candidates WHERE id = p_loser_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Candidate % not found', p_loser_id;
+    END IF;
+
+    FOREACH v_column IN ARRAY p_fields_from_loser LOOP
+        IF NOT v_column = ANY (v_mergeable) THEN
+            RAISE EXCEPTION 'Column % cannot be merged', v_column;
+        END IF;
+        EXECUTE format('UPDATE candidates SET %1$I = (SELECT %1$I FROM candidates WHERE id = $2) WHERE id = $1', v_column)
+            USING p_winner_id, p_loser_id;
+    END LOOP;
+
+    -- Keep the resume that was not chosen next to the loser's own archived resumes
+    IF 'resume_data' = ANY (p_fields_from_loser) THEN
+        v_archived := jsonb_build_object('resume_data', v_winner.resume_data, 'resume_text', v_winner.resume_text,
+            'from_candidate_id', v_winner.id, 'archived_at', now());
+    ELSE
+        v_archived := jsonb_build_object('resume_data', v_loser.resume_data, 'resume_text', v_loser.resume_text,
+            'from_candidate_id', v_loser.id, 'archived_at', now());
+    END IF;
+
+    UPDATE candidates w
+    SET skills = ARRAY(SELECT DISTINCT unnest(COALESCE(w.skills, '{}') || COALESCE(v_loser.skills, '{}'))),
+        industries = ARRAY(SELECT DISTINCT unnest(COALESCE(w.industries, '{}') || COALESCE(v_loser.industries, '{}'))),
+        related_industries = ARRAY(SELECT DISTINCT unnest(COALESCE(w.related_industries, '{}') || COALESCE(v_loser.related_industries, '{}'))),
+        company_names = ARRAY(SELECT DISTINCT unnest(COALESCE(w.company_names, '{}') || COALESCE(v_loser.company_names, '{}'))),
+        ready_to_relocate_to = ARRAY(SELECT DISTINCT unnest(COALESCE(w.ready_to_relocate_to, '{}') || COALESCE(v_loser.ready_to_relocate_to, '{}'))),
+        unified_titles = ARRAY(SELECT DISTINCT unnest(COALESCE(w.unified_titles, '{}') || COALESCE(v_loser.unified_titles, '{}'))),
+        additional_resumes = w.additional_resumes || v_loser.additional_resumes
+            || CASE WHEN v_archived->'resume_data' = 'null'::jsonb AND v_archived->'resume_text' = 'null'::jsonb
+                    THEN '[]'::jsonb ELSE jsonb_build_array(v_archived) END,
+        updated_at = now()
+    WHERE w.id = p_winner_id;
+
+    -- Re-point rows that reference the loser; the winner's row wins on conflict
+    UPDATE match_cache m
+    SET candidate_id = p_winner_id
+    WHERE m.candidate_id = p_loser_id
+      AND NOT EXISTS (SELECT 1 FROM match_cache w WHERE w.candidate_id = p_winner_id AND w.vacancy_id = m.vacancy_id);
+    DELETE FROM match_cache WHERE candidate_id = p_loser_id;
+
+    INSERT INTO candidate_unified_titles (candidate_id, unified_title)
+    SELECT p_winner_id, unified_title FROM candidate_unified_titles WHERE candidate_id = p_loser_id
+    ON CONFLICT (candidate_id, unified_title) DO NOTHING;
+
+    UPDATE applications a
+    SET candidate_id = p_winner_id, updated_at = now()
+    WHERE a.candidate_id = p_loser_id
+      AND NOT EXISTS (SELECT 1 FROM applications w WHERE w.candidate_id = p_winner_id AND w.job_id = a.job_id);
+
+    UPDATE candidate_activities SET candidate_id = p_winner_id WHERE candidate_id = p_loser_id;
+
+    INSERT INTO candidate_merges (winner_id, loser_id, loser_snapshot, fields_from_loser)
+    VALUES (
+        p_winner_id,
+        p_loser_id,
+        to_jsonb(v_loser) - 'meta_embedding' - 'content_embedding' - 'job_title_embedding' - 'location_embedding',
+        p_fields_from_loser
+    );
+
+    INSERT INTO candidate_activities (candidate_id, type, metadata, created_by_user_id)
+    VALUES (
+        p_winner_id,
+        'merged',
+        jsonb_build_object('merged_name', v_loser.name, 'merged_candidate_id', p_loser_id, 'fields_from_loser', p_fields_from_loser),
+        auth.uid()
+    );
+
+    -- Remaining loser rows (conflicting applications, unified titles, duplicate pairs) cascade
+    DELETE FROM candidates WHERE id = p_loser_id;
+
+    RETURN p_winner_id;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE candidate_duplicate_pairs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE candidate_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view duplicate pairs"
+    ON candidate_duplicate_pairs FOR SELECT
+    USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can record duplicate pairs"
+    ON candidate_duplicate_pairs FOR INSERT
+    WITH CHECK (public.is_admin_user());
+
+CREATE POLICY "Admins can review duplicate pairs"
+    ON candidate_duplicate_pairs FOR UPDATE
+    USING (public.is_admin_user());
+
+CREATE POLICY "Users can view candidate merges"
+    ON candidate_merges FOR SELECT
+    USING (auth.uid() IS NOT NULL);
+
+COMMENT ON TABLE candidate_duplicate_pairs IS 'Likely duplicate candidates waiting for review (candidate_a_id < candidate_b_id)';
+COMMENT ON TABLE candidate_merges IS 'Audit log of merged candidates with a snapshot of the deleted record';
+COMMENT ON COLUMN candidates.additional_resumes IS 'Resumes kept from merged duplicates: [{resume_data, resume_text, from_candidate_id, archived_at}]';
+COMMENT ON FUNCTION merge_candidates(uuid, uuid, text[]) IS 'Merge p_loser_id into p_winner_id, taking p_fields_from_loser from the loser';
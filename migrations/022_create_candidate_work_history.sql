@@ -0,0 +1,65 @@
+-- Migration: Structured work history and education
+-- Description: Positions and education entries extracted from resumes (or imported from JSON Resume /
+-- HR-Open), one row each. Dates have month precision and are stored as the first of the month;
+-- a year-only date on the resume is stored as January. The matcher reads positions to check how recent
+-- the candidate's relevant experience is (soft penalty 'recency', see _shared/matching/workHistory.ts);
+-- tenure and employment gaps are shown in the match breakdown only.
+-- Date: 2025-01-XX
+
+CREATE TABLE IF NOT EXISTS candidate_positions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    sort_order integer NOT NULL DEFAULT 0, -- Order on the resume, 0 = most recent
+    title text NOT NULL,
+    company text,
+    location text,
+    start_date date,
+    end_date date, -- NULL with is_current = true for the present role, NULL alone when unknown
+    is_current boolean NOT NULL DEFAULT false,
+    bullets text[] NOT NULL DEFAULT '{}',
+    created_at timestamptz DEFAULT now(),
+    CONSTRAINT candidate_positions_dates CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS candidate_education (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    sort_order integer NOT NULL DEFAULT 0,
+    institution text NOT NULL,
+    degree text, -- e.g. "Bachelor of Science", "MBA"
+    field_of_study text,
+    start_date date,
+    end_date date,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_positions_candidate_id
+    ON candidate_positions(candidate_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_candidate_education_candidate_id
+    ON candidate_education(candidate_id, sort_order);
+
+-- Enable Row Level Security
+ALTER TABLE candidate_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE candidate_education ENABLE ROW LEVEL SECURITY;
+
+-- Candidates are shared, so is their history
+CREATE POLICY "Users can manage candidate positions"
+    ON candidate_positions FOR ALL
+    USING (auth.uid() IS NOT NULL)
+    WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can manage candidate education"
+    ON candidate_education FOR ALL
+    USING (auth.uid() IS NOT NULL)
+    WITH CHECK (auth.uid() IS NOT NULL);
+
+-- Existing profiles get the same recency penalty as the other soft filters
+UPDATE scoring_profiles
+SET soft_penalties = soft_penalties || '{"recency": 0.15}'::jsonb
+WHERE NOT soft_penalties ? 'recency';
+
+ALTER TABLE scoring_profiles
+  ALTER COLUMN soft_penalties SET DEFAULT '{"skills": 0.15, "industry": 0.15, "title": 0.15, "location": 0.15, "salary": 0.15, "seniority": 0.15, "recency": 0.15}'::jsonb;
+
+COMMENT ON TABLE candidate_positions IS 'Positions from the candidate''s resume, most recent first';
+COMMENT ON TABLE candidate_education IS 'Education entries from the candidate''s resume';
@@ -0,0 +1,207 @@
+-- Migration: Resume storage with versioning
+-- Description: Uploaded resume files used to live only in the browser (Candidate.resume.file was null
+-- after a reload). Originals are now stored in the private 'resumes' storage bucket under
+-- <candidate_id>/<version>-<file name>, with one candidate_resume_versions row per upload holding
+-- the HTML rendering, extracted contacts and the parser output of that file.
+-- The newest version is the current one and is mirrored to candidates.resume_data / resume_text.
+-- Date: 2025-01-XX
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('resumes', 'resumes', false, 10485760) -- 10 MB
+ON CONFLICT (id) DO NOTHING;
+
+-- Candidates are shared, so are their resumes; like candidates, only admins change them
+CREATE POLICY "Users can read resumes"
+    ON storage.objects FOR SELECT
+    USING (bucket_id = 'resumes' AND auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can upload resumes"
+    ON storage.objects FOR INSERT
+    WITH CHECK (bucket_id = 'resumes' AND public.is_admin_user());
+
+CREATE POLICY "Admins can replace resumes"
+    ON storage.objects FOR UPDATE
+    USING (bucket_id = 'resumes' AND public.is_admin_user())
+    WITH CHECK (bucket_id = 'resumes' AND public.is_admin_user());
+
+CREATE POLICY "Admins can delete resumes"
+    ON storage.objects FOR DELETE
+    USING (bucket_id = 'resumes' AND public.is_admin_user());
+
+CREATE TABLE IF NOT EXISTS candidate_resume_versions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+    version integer NOT NULL, -- 1 for the first upload
+    storage_path text NOT NULL, -- Object path in the 'resumes' bucket
+    file_name text NOT NULL,
+    mime_type text,
+    file_size bigint,
+    html_content text NOT NULL DEFAULT '',
+    contacts jsonb NOT NULL DEFAULT '{}'::jsonb, -- {"email", "phone", "linkedin"}
+    parsed_data jsonb, -- Candidate fields the parser extracted from this file
+    uploaded_by_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    uploaded_at timestamptz DEFAULT now(),
+    -- Deferrable so merge_candidates can renumber a candidate's versions in one statement
+    CONSTRAINT candidate_resume_versions_candidate_version UNIQUE (candidate_id, version) DEFERRABLE
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_resume_versions_candidate_id
+    ON candidate_resume_versions(candidate_id, version DESC);
+
+-- Enable Row Level Security
+ALTER TABLE candidate_resume_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view candidate resume versions"
+    ON candidate_resume_versions FOR SELECT
+    USING (auth.uid() IS NOT NULL);
+
+-- Version history is only written by those who can edit the candidate
+CREATE POLICY "Admins can add candidate resume versions"
+    ON candidate_resume_versions FOR INSERT
+    WITH CHECK (public.is_admin_user());
+
+CREATE POLICY "Admins can update candidate resume versions"
+    ON candidate_resume_versions FOR UPDATE
+    USING (public.is_admin_user())
+    WITH CHECK (public.is_admin_user());
+
+CREATE POLICY "Admins can delete candidate resume versions"
+    ON candidate_resume_versions FOR DELETE
+    USING (public.is_admin_user());
+
+-- Same as 021, plus moving the loser's resume versions (and, with its resume, its work history)
+-- to the winner instead of letting them cascade
+CREATE OR REPLACE FUNCTION merge_candidates(
+    p_winner_id uuid,
+    p_loser_id uuid,
+    p_fields_from_loser text[] DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    -- Scalar columns the reviewer can take from the loser
+    v_mergeable text[] := ARRAY[
+        'name', 'job_title', 'normalized_job_title', 'job_title_embedding', 'job_title_embedding_model',
+        'job_title_embedding_dimensions', 'location', 'normalized_location', 'location_embedding',
+        'location_embedding_model', 'location_embedding_dimensions', 'experience', 'experience_years', 'seniority_level',
+        'availability', 'status', 'summary', 'salary_min', 'salary_max', 'salary_unit',
+        'social_links', 'calendly', 'resume_data', 'resume_text'
+    ];
+    v_winner candidates%ROWTYPE;
+    v_loser candidates%ROWTYPE;
+    v_column text;
+    v_archived jsonb;
+    v_offset int;
+BEGIN
+    -- Same rule as the candidates write policies
+    IF NOT public.is_admin_user() THEN
+        RAISE EXCEPTION 'Only admins can merge candidates';
+    END IF;
+
+    IF p_winner_id = p_loser_id THEN
+        RAISE EXCEPTION 'Cannot merge a candidate into itself';
+    END IF;
+
+    SELECT * INTO v_winner FROM candidates WHERE id = p_winner_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Candidate % not found', p_winner_id;
+    END IF;
+
+    SELECT * INTO v_loser FROM candidates WHERE id = p_loser_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Candidate % not found', p_loser_id;
+    END IF;
+
+    FOREACH v_column IN ARRAY p_fields_from_loser LOOP
+        IF NOT v_column = ANY (v_mergeable) THEN
+            RAISE EXCEPTION 'Column % cannot be merged', v_column;
+        END IF;
+        EXECUTE format('UPDATE candidates SET %1$I = (SELECT %1$I FROM candidates WHERE id = $2) WHERE id = $1', v_column)
+            USING p_winner_id, p_loser_id;
+    END LOOP;
+
+    -- Keep the resume that was not chosen next to the loser's own archived resumes
+    IF 'resume_data' = ANY (p_fields_from_loser) THEN
+        v_archived := jsonb_build_object('resume_data', v_winner.resume_data, 'resume_text', v_winner.resume_text,
+            'from_candidate_id', v_winner.id, 'archived_at', now());
+    ELSE
+        v_archived := jsonb_build_object('resume_data', v_loser.resume_data, 'resume_text', v_loser.resume_text,
+            'from_candidate_id', v_loser.id, 'archived_at', now());
+    END IF;
+
+    UPDATE candidates w
+    SET skills = ARRAY(SELECT DISTINCT unnest(COALESCE(w.skills, '{}') || COALESCE(v_loser.skills, '{}'))),
+        industries = ARRAY(SELECT DISTINCT unnest(COALESCE(w.industries, '{}') || COALESCE(v_loser.industries, '{}'))),
+        related_industries = ARRAY(SELECT DISTINCT unnest(COALESCE(w.related_industries, '{}') || COALESCE(v_loser.related_industries, '{}'))),
+        company_names = ARRAY(SELECT DISTINCT unnest(COALESCE(w.company_names, '{}') || COALESCE(v_loser.company_names, '{}'))),
+        ready_to_relocate_to = ARRAY(SELECT DISTINCT unnest(COALESCE(w.ready_to_relocate_to, '{}') || COALESCE(v_loser.ready_to_relocate_to, '{}'))),
+        unified_titles = ARRAY(SELECT DISTINCT unnest(COALESCE(w.unified_titles, '{}') || COALESCE(v_loser.unified_titles, '{}'))),
+        additional_resumes = w.additional_resumes || v_loser.additional_resumes
+            || CASE WHEN v_archived->'resume_data' = 'null'::jsonb AND v_archived->'resume_text' = 'null'::jsonb
+                    THEN '[]'::jsonb ELSE jsonb_build_array(v_archived) END,
+        updated_at = now()
+    WHERE w.id = p_winner_id;
+
+    -- Re-point rows that reference the loser; the winner's row wins on conflict
+    UPDATE match_cache m
+    SET candidate_id = p_winner_id
+    WHERE m.candidate_id = p_loser_id
+      AND NOT EXISTS (SELECT 1 FROM match_cache w WHERE w.candidate_id = p_winner_id AND w.vacancy_id = m.vacancy_id);
+    DELETE FROM match_cache WHERE candidate_id = p_loser_id;
+
+    INSERT INTO candidate_unified_titles (candidate_id, unified_title)
+    SELECT p_winner_id, unified_title FROM candidate_unified_titles WHERE candidate_id = p_loser_id
+    ON CONFLICT (candidate_id, unified_title) DO NOTHING;
+
+    UPDATE applications a
+    SET candidate_id = p_winner_id, updated_at = now()
+    WHERE a.candidate_id = p_loser_id
+      AND NOT EXISTS (SELECT 1 FROM applications w WHERE w.candidate_id = p_winner_id AND w.job_id = a.job_id);
+
+    UPDATE candidate_activities SET candidate_id = p_winner_id WHERE candidate_id = p_loser_id;
+
+    -- Resume versions follow the candidate; the side whose resume was kept stays current (highest version)
+    IF 'resume_data' = ANY (p_fields_from_loser) THEN
+        SELECT COALESCE(MAX(version), 0) INTO v_offset FROM candidate_resume_versions WHERE candidate_id = p_winner_id;
+        UPDATE candidate_resume_versions SET candidate_id = p_winner_id, version = version + v_offset
+        WHERE candidate_id = p_loser_id;
+
+        -- Work history is extracted from the resume, so it goes with it
+        DELETE FROM candidate_positions WHERE candidate_id = p_winner_id;
+        DELETE FROM candidate_education WHERE candidate_id = p_winner_id;
+        UPDATE candidate_positions SET candidate_id = p_winner_id WHERE candidate_id = p_loser_id;
+        UPDATE candidate_education SET candidate_id = p_winner_id WHERE candidate_id = p_loser_id;
+    ELSE
+        SELECT COALESCE(MAX(version), 0) INTO v_offset FROM candidate_resume_versions WHERE candidate_id = p_loser_id;
+        UPDATE candidate_resume_versions SET version = version + v_offset WHERE candidate_id = p_winner_id;
+        UPDATE candidate_resume_versions SET candidate_id = p_winner_id WHERE candidate_id = p_loser_id;
+    END IF;
+
+    INSERT INTO candidate_merges (winner_id, loser_id, loser_snapshot, fields_from_loser)
+    VALUES (
+        p_winner_id,
+        p_loser_id,
+        to_jsonb(v_loser) - 'meta_embedding' - 'content_embedding' - 'job_title_embedding' - 'location_embedding',
+        p_fields_from_loser
+    );
+
+    INSERT INTO candidate_activities (candidate_id, type, metadata, created_by_user_id)
+    VALUES (
+        p_winner_id,
+        'merged',
+        jsonb_build_object('merged_name', v_loser.name, 'merged_candidate_id', p_loser_id, 'fields_from_loser', p_fields_from_loser),
+        auth.uid()
+    );
+
+    -- Remaining loser rows (conflicting applications, unified titles, duplicate pairs) cascade
+    DELETE FROM candidates WHERE id = p_loser_id;
+
+    RETURN p_winner_id;
+END;
+$$;
+
+COMMENT ON TABLE candidate_resume_versions IS 'Every uploaded resume file per candidate; the highest version is current';
+COMMENT ON COLUMN candidate_resume_versions.storage_path IS 'Objects are removed by the app before the candidate is deleted; the row cascades';
@@ -0,0 +1,238 @@
+-- Migration: Blind review mode
+-- Description: Candidates can be reviewed anonymized: names, photos, contacts, employers, graduation
+-- years and locations are replaced with stable pseudonyms in the app (src/utils/blindReview.ts).
+-- Blind review applies when the job has blind_review set, or always for users whose role is
+-- 'hiring_manager'. A reviewer reveals a candidate explicitly; every reveal is an 'identity_revealed'
+-- event on the candidate's timeline, and the reviewer's own reveals decide what they see unmasked.
+-- The database enforces it too: hiring managers read only the candidates they revealed (and their
+-- resumes and work history) directly, and everyone else blind-reviews through review_candidates,
+-- which returns the others with their identity columns masked.
+-- Date: 2025-01-XX
+
+ALTER TABLE jobs
+    ADD COLUMN IF NOT EXISTS blind_review boolean NOT NULL DEFAULT false;
+
+-- Users without a row are recruiters
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    role text NOT NULL DEFAULT 'recruiter' CHECK (role IN ('recruiter', 'hiring_manager')),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE candidate_activities DROP CONSTRAINT IF EXISTS candidate_activities_type_check;
+ALTER TABLE candidate_activities ADD CONSTRAINT candidate_activities_type_check CHECK (type IN (
+    'note',
+    'resume_parsed',
+    'embeddings_generated',
+    'added_to_job',
+    'stage_changed',
+    'matched',
+    'merged',
+    'identity_revealed'
+));
+
+-- Reveals go through this function so the client cannot write other system events
+CREATE OR REPLACE FUNCTION reveal_candidate_identity(
+    p_candidate_id uuid,
+    p_job_id bigint DEFAULT NULL,
+    p_vacancy_id uuid DEFAULT NULL,
+    p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO candidate_activities (candidate_id, type, job_id, vacancy_id, metadata, created_by_user_id)
+    VALUES (
+        p_candidate_id,
+        'identity_revealed',
+        p_job_id,
+        p_vacancy_id,
+        jsonb_strip_nulls(jsonb_build_object(
+            'job_title', (SELECT title FROM jobs WHERE id = p_job_id),
+            'reason', NULLIF(trim(p_reason), '')
+        )),
+        auth.uid()
+    );
+END;
+$$;
+
+-- Whether the current user reviews every candidate blind (admins never do)
+CREATE OR REPLACE FUNCTION is_blind_reviewer()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'hiring_manager'
+    ) AND NOT public.is_admin_user();
+$$;
+
+-- Whether the current user revealed the candidate
+CREATE OR REPLACE FUNCTION has_revealed_candidate(p_candidate_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM candidate_activities
+        WHERE candidate_id = p_candidate_id
+          AND type = 'identity_revealed'
+          AND created_by_user_id = auth.uid()
+    );
+$$;
+
+-- Whether the current user sees the candidate unmasked, in a review that is blind for everyone
+-- when p_blind_review is set (a blind job) and for hiring managers otherwise
+CREATE OR REPLACE FUNCTION can_view_candidate_identity(p_candidate_id uuid, p_blind_review boolean DEFAULT false)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN public.is_admin_user() THEN true
+        WHEN p_blind_review OR public.is_blind_reviewer() THEN public.has_revealed_candidate(p_candidate_id)
+        ELSE true
+    END;
+$$;
+
+-- The candidate with the columns blind review hides cleared; the app pseudonymizes the rest
+CREATE OR REPLACE FUNCTION mask_candidate_identity(c candidates)
+RETURNS candidates
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT jsonb_populate_record(c, '{
+        "name": null,
+        "full_name": null,
+        "summary": null,
+        "social_links": null,
+        "calendly": null,
+        "company_names": [],
+        "resume_data": null,
+        "resume_text": null,
+        "additional_resumes": [],
+        "source_details": null
+    }'::jsonb);
+$$;
+
+-- Candidates for a review, masked unless the current user can view their identity
+CREATE OR REPLACE FUNCTION review_candidates(p_blind_review boolean DEFAULT false)
+RETURNS SETOF candidates
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT (r.candidate).*
+    FROM candidates c
+    CROSS JOIN LATERAL (
+        SELECT CASE
+            WHEN public.can_view_candidate_identity(c.id, p_blind_review) THEN c
+            ELSE public.mask_candidate_identity(c)
+        END AS candidate
+        OFFSET 0 -- Evaluate the CASE once per row, not once per column
+    ) r
+    WHERE auth.uid() IS NOT NULL;
+$$;
+
+-- Hiring managers read unrevealed candidates only through review_candidates and candidate_catalogue
+DROP POLICY IF EXISTS "Anyone can view candidates" ON candidates;
+CREATE POLICY "Users can view candidates they may identify"
+    ON candidates FOR SELECT
+    TO authenticated
+    USING (NOT (SELECT public.is_blind_reviewer()) OR public.has_revealed_candidate(id));
+
+-- Resumes and work history name the candidate and their employers, so they follow the same rule
+DROP POLICY IF EXISTS "Users can read resumes" ON storage.objects;
+CREATE POLICY "Users can read resumes"
+    ON storage.objects FOR SELECT
+    USING (
+        bucket_id = 'resumes'
+        AND auth.uid() IS NOT NULL
+        AND (
+            NOT (SELECT public.is_blind_reviewer())
+            OR public.has_revealed_candidate(((storage.foldername(name))[1])::uuid)
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can view candidate resume versions" ON candidate_resume_versions;
+CREATE POLICY "Users can view candidate resume versions"
+    ON candidate_resume_versions FOR SELECT
+    USING (
+        auth.uid() IS NOT NULL
+        AND (NOT (SELECT public.is_blind_reviewer()) OR public.has_revealed_candidate(candidate_id))
+    );
+
+DROP POLICY IF EXISTS "Users can manage candidate positions" ON candidate_positions;
+CREATE POLICY "Users can view candidate positions"
+    ON candidate_positions FOR SELECT
+    USING (
+        auth.uid() IS NOT NULL
+        AND (NOT (SELECT public.is_blind_reviewer()) OR public.has_revealed_candidate(candidate_id))
+    );
+
+CREATE POLICY "Users can add candidate positions"
+    ON candidate_positions FOR INSERT
+    WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update candidate positions"
+    ON candidate_positions FOR UPDATE
+    USING (auth.uid() IS NOT NULL)
+    WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete candidate positions"
+    ON candidate_positions FOR DELETE
+    USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can manage candidate education" ON candidate_education;
+CREATE POLICY "Users can view candidate education"
+    ON candidate_education FOR SELECT
+    USING (
+        auth.uid() IS NOT NULL
+        AND (NOT (SELECT public.is_blind_reviewer()) OR public.has_revealed_candidate(candidate_id))
+    );
+
+CREATE POLICY "Users can add candidate education"
+    ON candidate_education FOR INSERT
+    WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can update candidate education"
+    ON candidate_education FOR UPDATE
+    USING (auth.uid() IS NOT NULL)
+    WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can delete candidate education"
+    ON candidate_education FOR DELETE
+    USING (auth.uid() IS NOT NULL);
+
+-- Enable Row Level Security
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own role"
+    ON user_roles FOR SELECT
+    USING (auth.uid() = user_id OR public.is_admin_user());
+
+CREATE POLICY "Admins can manage roles"
+    ON user_roles FOR ALL
+    USING (public.is_admin_user())
+    WITH CHECK (public.is_admin_user());
+
+COMMENT ON COLUMN jobs.blind_review IS 'Show this job''s candidates anonymized until a reviewer reveals them';
+COMMENT ON TABLE user_roles IS 'Reviewer role per user; hiring managers always review candidates blind';
+COMMENT ON FUNCTION reveal_candidate_identity(uuid, bigint, uuid, text) IS 'Log that the current user revealed a blind-reviewed candidate';
+COMMENT ON FUNCTION is_blind_reviewer() IS 'Whether the current user reviews every candidate blind (hiring managers)';
+COMMENT ON FUNCTION can_view_candidate_identity(uuid, boolean) IS 'Whether the current user sees the candidate unmasked, in a blind review when p_blind_review is set';
+COMMENT ON FUNCTION review_candidates(boolean) IS 'Candidates for a review, with names, contacts, employers and resumes masked unless the current user can view their identity';
@@ -0,0 +1,239 @@
+-- Migration: One job model
+-- Description: jobs becomes the only job table. The matching engine's vacancies table is folded into
+-- it: each job carries the uuid the engine keys on (jobs.vacancy_id) plus the meta/content embeddings
+-- and scoring profile, and vacancies is recreated as a view over jobs with its old columns, so the
+-- matching, clustering, query expansion and benchmark code keeps reading it unchanged.
+-- Vacancies linked to a job (vacancies.job_id, migration 019) keep their uuid as the job's
+-- vacancy_id; vacancies without a job become ownerless jobs. References to vacancies now point at
+-- jobs(vacancy_id).
+-- Editing a job clears whatever was derived from the changed fields (embeddings, cached scores,
+-- clustering vectors, expanded queries, normalized title and location); the app then queues the
+-- background jobs that regenerate them (src/services/jobService.ts).
+-- Behavior change: the vacancies view applies the jobs policies (security_invoker), so matching and
+-- benchmarks run as a user only see that user's own jobs, jobs without an owner and, for admins, all
+-- jobs. Vacancies used to be readable by every signed-in user; the ones without a job become ownerless
+-- jobs and stay readable by every signed-in user (editing them is admin-only). The match edge function
+-- queries as the caller for this reason.
+-- Date: 2025-01-XX
+
+ALTER TABLE jobs
+    ADD COLUMN IF NOT EXISTS vacancy_id uuid NOT NULL DEFAULT gen_random_uuid(),
+    ADD COLUMN IF NOT EXISTS meta_embedding vector(1536),
+    ADD COLUMN IF NOT EXISTS content_embedding vector(1536),
+    ADD COLUMN IF NOT EXISTS embedding_model text,
+    ADD COLUMN IF NOT EXISTS embedding_dimensions int,
+    ADD COLUMN IF NOT EXISTS scoring_profile_id uuid REFERENCES scoring_profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS created_at timestamptz DEFAULT now();
+
+-- Vacancies without a job have no owner
+ALTER TABLE jobs ALTER COLUMN user_id DROP NOT NULL;
+
+-- Re-pointed at jobs(vacancy_id) below
+ALTER TABLE job_query_expanded DROP CONSTRAINT IF EXISTS job_query_expanded_job_id_fkey;
+ALTER TABLE benchmark_jobs DROP CONSTRAINT IF EXISTS benchmark_jobs_job_id_fkey;
+ALTER TABLE matching_benchmark_results DROP CONSTRAINT IF EXISTS matching_benchmark_results_job_id_fkey;
+ALTER TABLE benchmark_schedule DROP CONSTRAINT IF EXISTS benchmark_schedule_job_id_fkey;
+ALTER TABLE job_embeddings DROP CONSTRAINT IF EXISTS job_embeddings_job_id_fkey;
+ALTER TABLE job_clusters DROP CONSTRAINT IF EXISTS job_clusters_job_id_fkey;
+ALTER TABLE candidate_activities DROP CONSTRAINT IF EXISTS candidate_activities_vacancy_id_fkey;
+
+-- A job linked to several vacancies keeps the embedded, newest one
+CREATE TEMP TABLE vacancy_folds AS
+SELECT
+    id AS vacancy_id,
+    job_id,
+    first_value(id) OVER (
+        PARTITION BY job_id
+        ORDER BY (meta_embedding IS NULL), created_at DESC
+    ) AS canonical_id
+FROM vacancies
+WHERE job_id IS NOT NULL;
+
+-- Derived caches of the other vacancies are dropped; history moves to the kept one
+DELETE FROM job_query_expanded WHERE job_id IN (SELECT vacancy_id FROM vacancy_folds WHERE vacancy_id <> canonical_id);
+DELETE FROM job_embeddings WHERE job_id IN (SELECT vacancy_id FROM vacancy_folds WHERE vacancy_id <> canonical_id);
+DELETE FROM job_clusters WHERE job_id IN (SELECT vacancy_id FROM vacancy_folds WHERE vacancy_id <> canonical_id);
+DELETE FROM match_cache WHERE vacancy_id IN (SELECT vacancy_id FROM vacancy_folds WHERE vacancy_id <> canonical_id);
+
+UPDATE benchmark_jobs b SET job_id = f.canonical_id
+FROM vacancy_folds f WHERE b.job_id = f.vacancy_id AND f.vacancy_id <> f.canonical_id;
+UPDATE matching_benchmark_results r SET job_id = f.canonical_id
+FROM vacancy_folds f WHERE r.job_id = f.vacancy_id AND f.vacancy_id <> f.canonical_id;
+UPDATE benchmark_schedule s SET job_id = f.canonical_id
+FROM vacancy_folds f WHERE s.job_id = f.vacancy_id AND f.vacancy_id <> f.canonical_id;
+UPDATE candidate_activities a SET vacancy_id = f.canonical_id
+FROM vacancy_folds f WHERE a.vacancy_id = f.vacancy_id AND f.vacancy_id <> f.canonical_id;
+
+UPDATE jobs j
+SET
+    vacancy_id = v.id,
+    meta_embedding = v.meta_embedding,
+    content_embedding = v.content_embedding,
+    embedding_model = v.embedding_model,
+    embedding_dimensions = v.embedding_dimensions,
+    scoring_profile_id = v.scoring_profile_id
+FROM vacancies v
+JOIN vacancy_folds f ON f.vacancy_id = v.id AND f.vacancy_id = f.canonical_id
+WHERE j.id = v.job_id;
+
+DROP TABLE vacancy_folds;
+
+INSERT INTO jobs (
+    vacancy_id, title, location, locations, industry, skills, skill_requirements, description, status,
+    seniority_level, salary_min, salary_max, salary_currency, salary_unit, posted_date, match_count,
+    meta_embedding, content_embedding, embedding_model, embedding_dimensions, scoring_profile_id, created_at
+)
+SELECT
+    v.id,
+    v.title,
+    v.location,
+    CASE WHEN coalesce(v.location, '') = '' THEN '{}'::text[] ELSE ARRAY[v.location] END,
+    CASE WHEN coalesce(v.industry, '') = '' THEN '{}'::text[] ELSE string_to_array(v.industry, ', ') END,
+    coalesce(v.skills_required, '{}'),
+    v.skill_requirements,
+    v.job_text,
+    v.status,
+    coalesce(v.seniority_level, 'Not Applicable'),
+    v.salary_min,
+    v.salary_max,
+    v.salary_currency,
+    v.salary_unit,
+    to_char(coalesce(v.created_at, now()), 'Mon FMDD, YYYY'),
+    0,
+    v.meta_embedding,
+    v.content_embedding,
+    v.embedding_model,
+    v.embedding_dimensions,
+    v.scoring_profile_id,
+    coalesce(v.created_at, now())
+FROM vacancies v
+WHERE v.job_id IS NULL;
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_vacancy_id_key UNIQUE (vacancy_id);
+
+DROP TABLE vacancies;
+
+-- The matching engine's columns, read from jobs. security_invoker applies the jobs table's access
+-- rules, so a job is visible to matching exactly where it is visible itself.
+CREATE VIEW vacancies WITH (security_invoker = true) AS
+SELECT
+    vacancy_id AS id,
+    id AS job_id,
+    title,
+    location,
+    array_to_string(industry, ', ') AS industry,
+    skills AS skills_required,
+    skill_requirements,
+    coalesce(nullif(description, ''), title) AS job_text,
+    meta_embedding,
+    content_embedding,
+    embedding_model,
+    embedding_dimensions,
+    scoring_profile_id,
+    status,
+    salary_min,
+    salary_max,
+    salary_currency,
+    salary_unit,
+    seniority_level,
+    blind_review,
+    created_at,
+    normalized_title AS general_title -- Read by the pre-score functions' title bonus
+FROM jobs;
+
+-- Former vacancies without a job stay visible to every signed-in user
+DROP POLICY IF EXISTS "Authenticated users can view ownerless jobs" ON public.jobs;
+
+CREATE POLICY "Authenticated users can view ownerless jobs"
+    ON public.jobs FOR SELECT
+    TO authenticated
+    USING (user_id IS NULL);
+
+-- Scores of vacancies deleted before this migration had nothing to cascade from
+DELETE FROM match_cache WHERE vacancy_id NOT IN (SELECT vacancy_id FROM jobs);
+
+ALTER TABLE job_query_expanded
+    ADD CONSTRAINT job_query_expanded_job_id_fkey FOREIGN KEY (job_id) REFERENCES jobs(vacancy_id) ON DELETE CASCADE;
+ALTER TABLE benchmark_jobs
+    ADD CONSTRAINT benchmark_jobs_job_id_fkey FOREIGN KEY (job_id) REFERENCES jobs(vacancy_id) ON DELETE CASCADE;
+ALTER TABLE matching_benchmark_results
+    ADD CONSTRAINT matching_benchmark_results_job_id_fkey FOREIGN KEY (job_id) REFERENCES jobs(vacancy_id) ON DELETE CASCADE;
+ALTER TABLE benchmark_schedule
+    ADD CONSTRAINT benchmark_schedule_job_id_fkey FOREIGN KEY (job_id) REFERENCES jobs(vacancy_id) ON DELETE CASCADE;
+ALTER TABLE job_embeddings
+    ADD CONSTRAINT job_embeddings_job_id_fkey FOREIGN KEY (job_id) REFERENCES jobs(vacancy_id) ON DELETE CASCADE;
+ALTER TABLE job_clusters
+    ADD CONSTRAINT job_clusters_job_id_fkey FOREIGN KEY (job_id) REFERENCES jobs(vacancy_id) ON DELETE CASCADE;
+ALTER TABLE candidate_activities
+    ADD CONSTRAINT candidate_activities_vacancy_id_fkey FOREIGN KEY (vacancy_id) REFERENCES jobs(vacancy_id) ON DELETE SET NULL;
+ALTER TABLE match_cache
+    ADD CONSTRAINT match_cache_vacancy_id_fkey FOREIGN KEY (vacancy_id) REFERENCES jobs(vacancy_id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+
+-- Clear what an edit made stale; the background jobs regenerate rows left without it
+CREATE OR REPLACE FUNCTION invalidate_job_matching_data()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title AND NEW.normalized_title IS NOT DISTINCT FROM OLD.normalized_title THEN
+        NEW.normalized_title := NULL;
+        NEW.title_embedding := NULL;
+        NEW.title_embedding_model := NULL;
+        NEW.title_embedding_dimensions := NULL;
+    END IF;
+
+    IF NEW.location IS DISTINCT FROM OLD.location AND NEW.normalized_location IS NOT DISTINCT FROM OLD.normalized_location THEN
+        NEW.normalized_location := NULL;
+        NEW.location_embedding := NULL;
+        NEW.location_embedding_model := NULL;
+        NEW.location_embedding_dimensions := NULL;
+    END IF;
+
+    -- The text that meta_embedding, content_embedding and the clustering vectors are built from
+    IF (NEW.title, NEW.location, NEW.industry, NEW.skills, NEW.description)
+        IS DISTINCT FROM (OLD.title, OLD.location, OLD.industry, OLD.skills, OLD.description) THEN
+        NEW.meta_embedding := NULL;
+        NEW.content_embedding := NULL;
+        NEW.embedding_model := NULL;
+        NEW.embedding_dimensions := NULL;
+        DELETE FROM job_embeddings WHERE job_id = NEW.vacancy_id;
+        DELETE FROM job_query_expanded WHERE job_id = NEW.vacancy_id;
+        DELETE FROM job_clusters WHERE job_id = NEW.vacancy_id; -- Assigned from the old vectors
+        DELETE FROM match_cache WHERE vacancy_id = NEW.vacancy_id;
+    ELSIF (NEW.skill_requirements, NEW.seniority_level, NEW.salary_min, NEW.salary_max, NEW.salary_currency, NEW.salary_unit)
+        IS DISTINCT FROM (OLD.skill_requirements, OLD.seniority_level, OLD.salary_min, OLD.salary_max, OLD.salary_currency, OLD.salary_unit) THEN
+        -- Scores depend on these but the embeddings do not
+        DELETE FROM match_cache WHERE vacancy_id = NEW.vacancy_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER jobs_invalidate_matching_data
+    BEFORE UPDATE ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION invalidate_job_matching_data();
+
+ALTER TABLE background_jobs DROP CONSTRAINT IF EXISTS background_jobs_type_check;
+ALTER TABLE background_jobs ADD CONSTRAINT background_jobs_type_check CHECK (type IN (
+    'normalize_candidate_job_titles',
+    'renormalize_candidate_job_titles',
+    'normalize_job_titles',
+    'normalize_candidate_locations',
+    'normalize_job_locations',
+    'update_candidate_skills',
+    'update_candidate_unified_titles',
+    'generate_candidate_embeddings',
+    'generate_job_embeddings',
+    'purge_expired_candidates'
+));
+
+COMMENT ON COLUMN jobs.vacancy_id IS 'Id of the job in the matching engine (match_cache, benchmarks, clustering, query expansion)';
+COMMENT ON COLUMN jobs.meta_embedding IS 'Embedding of title, location, industry and skills; NULL until generate_job_embeddings runs';
+COMMENT ON COLUMN jobs.content_embedding IS 'Embedding of the description';
+COMMENT ON VIEW vacancies IS 'Matching-engine view of jobs (id = jobs.vacancy_id, job_id = jobs.id)';
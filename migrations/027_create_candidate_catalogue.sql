@@ -0,0 +1,85 @@
+-- Migration: Candidate catalogue view
+-- Description: The Star Catalogue pages, filters and sorts candidates in the database instead of loading
+-- every row. candidate_catalogue is one row per candidate with the columns the list shows, plus:
+--   unified_titles      - the row's own array, else the titles in candidate_unified_titles (older
+--                         candidates only have the latter), so the list needs no per-candidate lookup
+--   display_name        - name, else the matching engine's full_name (the name sort key)
+--   salary_expectation  - salary_min (else salary_max) as a yearly number; salaries are free text
+--   industry_keys       - lowercased industries, for case-insensitive industry filters
+--   search_text         - lowercased name, titles, location, industries and skills for the search box
+-- Pages are keyset pages on (sort column, id), so deep pages cost the same as the first one.
+-- Date: 2025-01-XX
+
+-- Same rules as parseSalaryAmount / annualizeSalary in supabase/functions/_shared/matching/salary.ts:
+-- "$95k" = 95000, hour x 2080, month x 12, anything else counts as yearly; NULL when not a positive amount
+CREATE OR REPLACE FUNCTION annual_salary_amount(amount text, unit text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN parsed.value IS NULL OR parsed.value <= 0 THEN NULL
+        WHEN unit = 'hour' THEN parsed.value * 2080
+        WHEN unit = 'month' THEN parsed.value * 12
+        ELSE parsed.value
+    END
+    FROM (
+        SELECT substring(cleaned FROM '^[0-9]*\.?[0-9]+')::numeric
+            * CASE WHEN cleaned LIKE '%k' THEN 1000 ELSE 1 END AS value
+        FROM (SELECT regexp_replace(lower(trim(amount)), '[\s,$€£]', '', 'g') AS cleaned) c
+    ) parsed;
+$$;
+
+CREATE OR REPLACE VIEW candidate_catalogue WITH (security_invoker = true) AS
+SELECT
+    c.id,
+    c.name,
+    c.full_name,
+    c.job_title,
+    c.general_title,
+    c.location,
+    c.experience,
+    c.experience_years,
+    c.seniority_level,
+    c.availability,
+    c.ready_to_relocate_to,
+    c.last_updated,
+    c.match_score,
+    c.status,
+    c.industries,
+    c.related_industries,
+    c.company_names,
+    c.skills,
+    c.summary,
+    c.social_links,
+    c.calendly,
+    c.salary_min,
+    c.salary_max,
+    c.salary_unit,
+    c.resume_data,
+    c.created_at,
+    COALESCE(NULLIF(c.unified_titles, '{}'), t.titles, '{}') AS unified_titles,
+    COALESCE(NULLIF(c.name, ''), c.full_name, '') AS display_name,
+    COALESCE(
+        annual_salary_amount(c.salary_min, c.salary_unit),
+        annual_salary_amount(c.salary_max, c.salary_unit)
+    ) AS salary_expectation,
+    ARRAY(SELECT lower(industry) FROM unnest(c.industries) AS industry) AS industry_keys,
+    lower(concat_ws(' ',
+        c.name, c.full_name, c.job_title, c.general_title, c.location,
+        array_to_string(c.industries, ' '), array_to_string(c.skills, ' ')
+    )) AS search_text
+FROM candidates c
+LEFT JOIN LATERAL (
+    SELECT array_agg(unified_title ORDER BY unified_title) AS titles
+    FROM candidate_unified_titles
+    WHERE candidate_id = c.id
+) t ON true;
+
+-- Default order (newest first) and its keyset tiebreaker
+CREATE INDEX IF NOT EXISTS idx_candidates_created_at_id ON candidates(created_at DESC, id);
+CREATE INDEX IF NOT EXISTS idx_candidates_industries ON candidates USING GIN(industries);
+CREATE INDEX IF NOT EXISTS idx_candidate_unified_titles_candidate_id ON candidate_unified_titles(candidate_id);
+
+COMMENT ON VIEW candidate_catalogue IS 'Candidates as listed in the Star Catalogue: merged unified titles and derived sort/filter columns';
+COMMENT ON FUNCTION annual_salary_amount(text, text) IS 'Free-text salary amount in the given unit (year | month | hour) as a yearly number';
@@ -0,0 +1,103 @@
+-- Migration: Catalogue search language
+-- Description: Columns for field searches in the Star Catalogue query language (title:, location:, company:,
+-- industry:, skills:) and a function listing known field values for its autocomplete.
+-- The *_text columns are lowercased and never NULL, so NOT field:value keeps candidates without the field.
+-- Array elements are joined with ' | ' so a phrase cannot match across two of them; skills_text is
+-- '|go|rust|' so skills:go matches the whole skill only.
+-- Hiring managers review blind (migration 024) and cannot read unrevealed candidates, so the view now runs
+-- as its owner and masks what can_view_candidate_identity hides: names, contacts, employers and resume
+-- data, and the same in the search columns (the name and company searches find revealed candidates only).
+-- Date: 2025-01-XX
+
+-- Same columns as migration 027, plus the search columns at the end
+CREATE OR REPLACE VIEW candidate_catalogue WITH (security_invoker = false) AS
+SELECT
+    c.id,
+    CASE WHEN i.visible THEN c.name END AS name,
+    CASE WHEN i.visible THEN c.full_name END AS full_name,
+    c.job_title,
+    c.general_title,
+    c.location,
+    c.experience,
+    c.experience_years,
+    c.seniority_level,
+    c.availability,
+    c.ready_to_relocate_to,
+    c.last_updated,
+    c.match_score,
+    c.status,
+    c.industries,
+    c.related_industries,
+    CASE WHEN i.visible THEN c.company_names ELSE '{}' END AS company_names,
+    c.skills,
+    CASE WHEN i.visible THEN c.summary END AS summary,
+    CASE WHEN i.visible THEN c.social_links END AS social_links,
+    CASE WHEN i.visible THEN c.calendly END AS calendly,
+    c.salary_min,
+    c.salary_max,
+    c.salary_unit,
+    CASE WHEN i.visible THEN c.resume_data END AS resume_data,
+    c.created_at,
+    COALESCE(NULLIF(c.unified_titles, '{}'), t.titles, '{}') AS unified_titles,
+    CASE WHEN i.visible THEN COALESCE(NULLIF(c.name, ''), c.full_name, '') ELSE '' END AS display_name,
+    COALESCE(
+        annual_salary_amount(c.salary_min, c.salary_unit),
+        annual_salary_amount(c.salary_max, c.salary_unit)
+    ) AS salary_expectation,
+    ARRAY(SELECT lower(industry) FROM unnest(c.industries) AS industry) AS industry_keys,
+    lower(concat_ws(' ',
+        CASE WHEN i.visible THEN c.name END, CASE WHEN i.visible THEN c.full_name END, c.job_title, c.general_title, c.location,
+        array_to_string(c.industries, ' '), array_to_string(c.skills, ' ')
+    )) AS search_text,
+    lower(concat_ws(' | ',
+        c.job_title, c.general_title,
+        array_to_string(COALESCE(NULLIF(c.unified_titles, '{}'), t.titles), ' | ')
+    )) AS title_text,
+    lower(concat_ws(' | ', c.location, c.normalized_location)) AS location_text,
+    lower(COALESCE(array_to_string(c.industries, ' | '), '')) AS industry_text,
+    CASE WHEN i.visible THEN lower(COALESCE(array_to_string(c.company_names, ' | '), '')) ELSE '' END AS company_text,
+    '|' || lower(COALESCE(array_to_string(c.skills, '|'), '')) || '|' AS skills_text
+FROM candidates c
+CROSS JOIN (SELECT public.is_blind_reviewer() AS blind) viewer
+CROSS JOIN LATERAL (
+    -- Only blind reviewers pay for the per-candidate reveal lookup
+    SELECT CASE WHEN viewer.blind THEN public.has_revealed_candidate(c.id) ELSE true END AS visible
+) i
+LEFT JOIN LATERAL (
+    SELECT array_agg(unified_title ORDER BY unified_title) AS titles
+    FROM candidate_unified_titles
+    WHERE candidate_id = c.id
+) t ON true
+WHERE auth.uid() IS NOT NULL; -- The owner bypasses the candidates policies, so keep anonymous callers out
+
+-- Values of a field (skills | location | industry | company) starting with a prefix, most common first
+CREATE OR REPLACE FUNCTION catalogue_field_values(
+    p_field text,
+    p_prefix text DEFAULT '',
+    p_limit integer DEFAULT 10
+)
+RETURNS TABLE (value text, candidates bigint)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT v.value, count(*) AS candidates
+    FROM candidates c
+    CROSS JOIN LATERAL (
+        SELECT unnest(c.skills) AS value WHERE p_field = 'skills'
+        UNION ALL
+        SELECT COALESCE(NULLIF(c.normalized_location, ''), c.location) WHERE p_field = 'location'
+        UNION ALL
+        SELECT unnest(c.industries) WHERE p_field = 'industry'
+        UNION ALL
+        SELECT unnest(c.company_names) WHERE p_field = 'company'
+    ) v
+    WHERE v.value IS NOT NULL
+      AND v.value <> ''
+      AND starts_with(lower(v.value), lower(p_prefix))
+    GROUP BY v.value
+    ORDER BY count(*) DESC, v.value
+    LIMIT p_limit;
+$$;
+
+COMMENT ON VIEW candidate_catalogue IS 'Candidates as listed in the Star Catalogue: merged unified titles and derived sort/filter columns, with the identity columns masked for hiring managers until they reveal the candidate';
+COMMENT ON FUNCTION catalogue_field_values(text, text, integer) IS 'Known values of a Star Catalogue search field, for autocomplete';
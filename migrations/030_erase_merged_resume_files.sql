@@ -0,0 +1,119 @@
+-- Migration: Erase resume files of merged candidates
+-- Description: merge_candidates (migration 023) moves the loser's candidate_resume_versions rows to the
+-- winner, but their storage_path keeps the loser's '<loser_id>/' prefix. Erasure only removed and checked
+-- objects under '<candidate_id>/', so erasing a merged candidate left those files in the 'resumes' bucket
+-- while the erasure was logged as verified.
+-- candidate_resume_objects() lists every object of a candidate: under its own prefix, every version's
+-- storage_path, and under the prefix of each candidate merged into it (following merges of merges, for
+-- files without a version row). eraseCandidate removes that list, and erase_candidate and
+-- candidate_data_references check it.
+-- Date: 2025-01-XX
+
+CREATE OR REPLACE FUNCTION candidate_resume_objects(p_candidate_id uuid)
+RETURNS SETOF text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Object names can carry the original file name, so only erasure callers may list them
+    IF NOT (public.is_admin_user() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Only admins can list resume files';
+    END IF;
+
+    RETURN QUERY
+    WITH RECURSIVE merged(candidate_id) AS (
+        SELECT p_candidate_id
+        UNION
+        SELECT m.loser_id FROM candidate_merges m JOIN merged ON m.winner_id = merged.candidate_id
+    )
+    SELECT o.name
+    FROM storage.objects o
+    WHERE o.bucket_id = 'resumes'
+      AND (
+          EXISTS (SELECT 1 FROM merged WHERE o.name LIKE merged.candidate_id::text || '/%')
+          OR o.name IN (SELECT storage_path FROM candidate_resume_versions WHERE candidate_id = p_candidate_id)
+      );
+END;
+$$;
+
+-- Same as migration 025, with resume_files counted from candidate_resume_objects
+CREATE OR REPLACE FUNCTION candidate_data_references(p_candidate_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'candidates', (SELECT count(*) FROM candidates WHERE id = p_candidate_id),
+        'match_cache', (SELECT count(*) FROM match_cache WHERE candidate_id = p_candidate_id),
+        'candidate_unified_titles', (SELECT count(*) FROM candidate_unified_titles WHERE candidate_id = p_candidate_id),
+        'candidate_positions', (SELECT count(*) FROM candidate_positions WHERE candidate_id = p_candidate_id),
+        'candidate_education', (SELECT count(*) FROM candidate_education WHERE candidate_id = p_candidate_id),
+        'candidate_resume_versions', (SELECT count(*) FROM candidate_resume_versions WHERE candidate_id = p_candidate_id),
+        'candidate_activities', (SELECT count(*) FROM candidate_activities WHERE candidate_id = p_candidate_id),
+        'applications', (SELECT count(*) FROM applications WHERE candidate_id = p_candidate_id),
+        'candidate_duplicate_pairs', (SELECT count(*) FROM candidate_duplicate_pairs
+            WHERE candidate_a_id = p_candidate_id OR candidate_b_id = p_candidate_id),
+        'candidate_merges', (SELECT count(*) FROM candidate_merges WHERE winner_id = p_candidate_id OR loser_id = p_candidate_id),
+        'benchmark_jobs', (SELECT count(*) FROM benchmark_jobs WHERE ground_truth_candidates ? p_candidate_id::text),
+        'background_job_failures', (SELECT count(*) FROM background_job_failures WHERE item_id = p_candidate_id::text),
+        'background_jobs', (SELECT count(*) FROM background_jobs WHERE params->'item_ids' ? p_candidate_id::text),
+        'resume_files', (SELECT count(*) FROM candidate_resume_objects(p_candidate_id))
+    );
+$$;
+
+-- Same as migration 025, refusing while any of candidate_resume_objects remains
+CREATE OR REPLACE FUNCTION erase_candidate(p_candidate_id uuid, p_reason text DEFAULT 'erasure_request')
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_remaining jsonb;
+BEGIN
+    -- Admins from the app; the purge job runs with the service role
+    IF NOT (public.is_admin_user() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Only admins can erase candidates';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM candidates WHERE id = p_candidate_id) THEN
+        RAISE EXCEPTION 'Candidate % not found', p_candidate_id;
+    END IF;
+
+    -- Storage objects cannot be removed from SQL without orphaning the files. Checked before the
+    -- merge snapshots and version rows that locate them are deleted below.
+    IF EXISTS (SELECT 1 FROM candidate_resume_objects(p_candidate_id)) THEN
+        RAISE EXCEPTION 'Remove the resume files of candidate % before erasing it', p_candidate_id;
+    END IF;
+
+    -- References without a foreign key
+    DELETE FROM match_cache WHERE candidate_id = p_candidate_id;
+    DELETE FROM candidate_merges WHERE winner_id = p_candidate_id OR loser_id = p_candidate_id;
+    DELETE FROM background_job_failures WHERE item_id = p_candidate_id::text;
+    UPDATE benchmark_jobs
+    SET ground_truth_candidates = ground_truth_candidates - p_candidate_id::text, updated_at = now()
+    WHERE ground_truth_candidates ? p_candidate_id::text;
+    UPDATE background_jobs
+    SET params = jsonb_set(params, '{item_ids}', (params->'item_ids') - p_candidate_id::text), updated_at = now()
+    WHERE params->'item_ids' ? p_candidate_id::text;
+
+    -- Unified titles, work history, resume versions, activity, applications and duplicate pairs cascade
+    DELETE FROM candidates WHERE id = p_candidate_id;
+
+    v_remaining := candidate_data_references(p_candidate_id);
+    IF EXISTS (SELECT 1 FROM jsonb_each_text(v_remaining) WHERE value::int > 0) THEN
+        RAISE EXCEPTION 'Erasure of candidate % is incomplete: %', p_candidate_id, v_remaining;
+    END IF;
+
+    INSERT INTO data_erasure_log (candidate_id, reason, verification, erased_by_user_id)
+    VALUES (p_candidate_id, p_reason, v_remaining, auth.uid());
+
+    RETURN v_remaining;
+END;
+$$;
+
+COMMENT ON FUNCTION candidate_resume_objects(uuid) IS 'Names of every object in the resumes bucket holding a resume of the candidate, including ones merged into it';
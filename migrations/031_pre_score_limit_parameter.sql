@@ -0,0 +1,140 @@
+-- Migration: Pre-score limit and filters in SQL
+-- Description: match_candidates_pre_score and match_vacancies_pre_score returned a fixed top 50, and the
+-- matching engine applied its hard filters and soft penalties to those 50 afterwards. A scoring profile's
+-- pre_score_limit above 50 had no effect, and a filtered run returned fewer rows than configured.
+-- Both functions now take the rows that passed the filters with their soft penalty (p_soft_penalties,
+-- id -> penalty; NULL ranks every row without a penalty) and the limit (p_limit), and rank by the
+-- penalized pre-score before cutting. pre_score itself stays unpenalized; the engine applies the penalty.
+-- Date: 2025-01-XX
+
+-- The one-argument versions would stay callable next to the new ones
+DROP FUNCTION IF EXISTS match_candidates_pre_score(uuid);
+DROP FUNCTION IF EXISTS match_vacancies_pre_score(uuid);
+
+-- Same scores as migration 012
+CREATE OR REPLACE FUNCTION match_candidates_pre_score(
+    vacancy_uuid uuid,
+    p_soft_penalties jsonb DEFAULT NULL,
+    p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+    candidate_id uuid,
+    meta_similarity float,
+    content_similarity float,
+    enhanced_query_similarity float,
+    pre_score float,
+    title_bonus float
+)
+AS $$
+DECLARE
+    vacancy_general_title text;
+    vacancy_embedding_model text;
+    vacancy_embedding_dimensions int;
+    enhanced_vector vector(1536);
+BEGIN
+  -- Get vacancy general_title, embedding model and enhanced vector (only if embedded with the same model)
+  SELECT
+    v.general_title,
+    v.embedding_model,
+    v.embedding_dimensions,
+    CASE WHEN qe.embedding_model = v.embedding_model THEN qe.job_vector_enhanced END
+  INTO vacancy_general_title, vacancy_embedding_model, vacancy_embedding_dimensions, enhanced_vector
+  FROM vacancies v
+  LEFT JOIN job_query_expanded qe ON qe.job_id = v.id
+  WHERE v.id = vacancy_uuid;
+
+  RETURN QUERY
+  SELECT s.id, s.meta_similarity, s.content_similarity, s.enhanced_query_similarity, s.pre_score, s.title_bonus
+  FROM (
+    SELECT
+      c.id,
+      (1 - (v.meta_embedding <=> c.meta_embedding)) AS meta_similarity,
+      (1 - (v.content_embedding <=> c.content_embedding)) AS content_similarity,
+      CASE
+        WHEN enhanced_vector IS NOT NULL AND c.content_embedding IS NOT NULL
+        THEN (1 - (enhanced_vector <=> c.content_embedding))
+        ELSE 0.0
+      END AS enhanced_query_similarity,
+      (
+        0.35 * (1 - (v.meta_embedding <=> c.meta_embedding)) +
+        0.65 * (1 - (v.content_embedding <=> c.content_embedding))
+      ) AS pre_score,
+      CASE
+        -- Exact title match: +0.4
+        WHEN LOWER(COALESCE(c.general_title, '')) = LOWER(COALESCE(vacancy_general_title, ''))
+          AND c.general_title IS NOT NULL
+          AND vacancy_general_title IS NOT NULL
+          THEN 0.4
+        -- Related title match: +0.2 (handled in application layer)
+        ELSE 0.0
+      END AS title_bonus,
+      COALESCE((p_soft_penalties ->> c.id::text)::float, 0.0) AS soft_penalty
+    FROM candidates c, vacancies v
+    WHERE v.id = vacancy_uuid
+      AND c.embedding_model = vacancy_embedding_model
+      AND c.embedding_dimensions = vacancy_embedding_dimensions
+      AND (p_soft_penalties IS NULL OR p_soft_penalties ? c.id::text)
+  ) s
+  ORDER BY s.pre_score * (1 - s.soft_penalty) DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same scores as migration 013
+CREATE OR REPLACE FUNCTION match_vacancies_pre_score(
+    candidate_uuid uuid,
+    p_soft_penalties jsonb DEFAULT NULL,
+    p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+    vacancy_id uuid,
+    meta_similarity float,
+    content_similarity float,
+    pre_score float,
+    title_bonus float
+)
+AS $$
+DECLARE
+    candidate_general_title text;
+    candidate_embedding_model text;
+    candidate_embedding_dimensions int;
+BEGIN
+  SELECT c.general_title, c.embedding_model, c.embedding_dimensions
+  INTO candidate_general_title, candidate_embedding_model, candidate_embedding_dimensions
+  FROM candidates c
+  WHERE c.id = candidate_uuid;
+
+  RETURN QUERY
+  SELECT s.id, s.meta_similarity, s.content_similarity, s.pre_score, s.title_bonus
+  FROM (
+    SELECT
+      v.id,
+      (1 - (v.meta_embedding <=> c.meta_embedding)) AS meta_similarity,
+      (1 - (v.content_embedding <=> c.content_embedding)) AS content_similarity,
+      (
+        0.35 * (1 - (v.meta_embedding <=> c.meta_embedding)) +
+        0.65 * (1 - (v.content_embedding <=> c.content_embedding))
+      ) AS pre_score,
+      CASE
+        -- Exact title match: +0.4
+        WHEN LOWER(COALESCE(v.general_title, '')) = LOWER(COALESCE(candidate_general_title, ''))
+          AND v.general_title IS NOT NULL
+          AND candidate_general_title IS NOT NULL
+          THEN 0.4
+        ELSE 0.0
+      END AS title_bonus,
+      COALESCE((p_soft_penalties ->> v.id::text)::float, 0.0) AS soft_penalty
+    FROM vacancies v, candidates c
+    WHERE c.id = candidate_uuid
+      AND v.status = 'active'
+      AND v.embedding_model = candidate_embedding_model
+      AND v.embedding_dimensions = candidate_embedding_dimensions
+      AND (p_soft_penalties IS NULL OR p_soft_penalties ? v.id::text)
+  ) s
+  ORDER BY s.pre_score * (1 - s.soft_penalty) DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION match_candidates_pre_score(uuid, jsonb, integer) IS 'Computes pre-score similarity between a vacancy and the candidates embedded with the same model (only those in p_soft_penalties when given). Returns the top p_limit candidates by pre_score after their soft penalty. Includes enhanced query vector similarity and title matching bonus.';
+COMMENT ON FUNCTION match_vacancies_pre_score(uuid, jsonb, integer) IS 'Computes pre-score similarity between a candidate and the active vacancies embedded with the same model (only those in p_soft_penalties when given). Returns the top p_limit vacancies by pre_score after their soft penalty. Same formula as match_candidates_pre_score.';
@@ -0,0 +1,62 @@
+-- Migration: Only admins queue candidate jobs
+-- Description: The job-worker edge function now runs every job with the service role instead of the
+-- caller's rights, so the candidates policies (admin-only writes) and erase_candidate no longer stop a
+-- non-admin's job. Jobs that write candidates (normalization, skills, unified titles, embeddings and
+-- 'purge_expired_candidates') are created, retried and changed by admins only (the nightly schedule
+-- inserts as the database owner). Other users can still queue the jobs on the jobs table
+-- (normalize_job_titles, ...), and change only the ones they created: before, any user could update
+-- anyone's background job, e.g. point it at other rows.
+-- Failures are written by the worker, which is service-role only.
+-- Date: 2025-01-XX
+
+CREATE OR REPLACE FUNCTION background_job_writes_candidates(p_type text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT p_type IN (
+        'normalize_candidate_job_titles',
+        'renormalize_candidate_job_titles',
+        'normalize_candidate_locations',
+        'update_candidate_skills',
+        'update_candidate_unified_titles',
+        'generate_candidate_embeddings',
+        'purge_expired_candidates'
+    );
+$$;
+
+DROP POLICY IF EXISTS "Users can create background jobs" ON background_jobs;
+DROP POLICY IF EXISTS "Users can update background jobs" ON background_jobs;
+
+CREATE POLICY "Users can create background jobs"
+    ON background_jobs FOR INSERT
+    WITH CHECK (
+        auth.uid() = created_by_user_id
+        AND (NOT background_job_writes_candidates(type) OR public.is_admin_user())
+    );
+
+CREATE POLICY "Users can update background jobs"
+    ON background_jobs FOR UPDATE
+    USING ( -- Cancel/resume from the app
+        (created_by_user_id = auth.uid() OR public.is_admin_user())
+        AND (NOT background_job_writes_candidates(type) OR public.is_admin_user())
+    )
+    WITH CHECK (
+        (created_by_user_id = auth.uid() OR public.is_admin_user())
+        AND (NOT background_job_writes_candidates(type) OR public.is_admin_user())
+    );
+
+DROP POLICY IF EXISTS "Service role can record background job failures" ON background_job_failures;
+DROP POLICY IF EXISTS "Service role can update background job failures" ON background_job_failures;
+
+CREATE POLICY "Service role can record background job failures"
+    ON background_job_failures FOR INSERT
+    TO service_role
+    WITH CHECK (true);
+
+CREATE POLICY "Service role can update background job failures"
+    ON background_job_failures FOR UPDATE
+    TO service_role
+    USING (true);
+
+COMMENT ON FUNCTION background_job_writes_candidates(text) IS 'Background job types that write candidates; only admins queue them';
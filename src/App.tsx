@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useEffect } from 'react'
 import SearchPage from './components/SearchPage'
 import MyJobsPage from './components/MyJobsPage'
 import SearchResultsPage from './components/SearchResultsPage'
@@ -7,28 +7,23 @@ import MatchingDashboard from './components/MatchingDashboard'
 import ChatBot from './components/ChatBot'
 import AuthPage from './components/AuthPage'
 import { useAuth } from './hooks/useAuth'
+import { navigate, useRoute } from './hooks/useRouter'
+import { PAGE_PATHS, type Page } from './utils/routes'
 import { Loader2 } from 'lucide-react'
 
-type Page = 'Star Catalogue' | 'My Jobs' | 'Analytics' | 'Benchmark' | 'Search Results' | 'Match'
-
 function App() {
-  const [currentPage, setCurrentPage] = useState<Page>('Star Catalogue')
+  const route = useRoute()
   const { user, loading } = useAuth()
 
+  // Unknown paths land on the catalogue
   useEffect(() => {
-    const handleNavigate = (event: CustomEvent) => {
-      const page = event.detail as Page
-      setCurrentPage(page)
-    }
-
-    window.addEventListener('navigate' as any, handleNavigate)
-    return () => {
-      window.removeEventListener('navigate' as any, handleNavigate)
+    if (route.page === 'Not Found') {
+      navigate(PAGE_PATHS['Star Catalogue'], { replace: true })
     }
-  }, [])
+  }, [route])
 
   const handleNavigation = (page: Page) => {
-    setCurrentPage(page)
+    navigate(PAGE_PATHS[page])
   }
 
   const handleAuthSuccess = () => {
@@ -49,25 +44,25 @@ function App() {
     return <AuthPage onAuthSuccess={handleAuthSuccess} />
   }
 
-  // Simple navigation context - in production, use React Router
-  if (currentPage === 'My Jobs') {
-    return <MyJobsPage onNavigate={handleNavigation} />
+  // Pages by URL (src/utils/routes.ts)
+  if (route.page === 'My Jobs') {
+    return <MyJobsPage onNavigate={handleNavigation} jobId={route.jobId} jobView={route.jobView} />
   }
 
-  if (currentPage === 'Search Results') {
+  if (route.page === 'Search Results') {
     return <SearchResultsPage onNavigate={handleNavigation} />
   }
 
-  if (currentPage === 'Star Catalogue') {
-    return <SearchPage onNavigate={handleNavigation} />
+  if (route.page === 'Star Catalogue' || route.page === 'Not Found') {
+    return <SearchPage onNavigate={handleNavigation} candidateId={route.page === 'Star Catalogue' ? route.candidateId : undefined} />
   }
 
-  if (currentPage === 'Benchmark') {
-    return <BenchmarkDashboard />
+  if (route.page === 'Benchmark') {
+    return <BenchmarkDashboard jobId={route.jobId} />
   }
 
-  if (currentPage === 'Match') {
-    return <MatchingDashboard onNavigate={handleNavigation} />
+  if (route.page === 'Match') {
+    return <MatchingDashboard vacancyId={route.vacancyId} />
   }
 
   return (
@@ -2,9 +2,7 @@ import React, { useState, useRef } from 'react';
 import { X, Upload, Loader2, Save, AlertCircle } from 'lucide-react';
 import { Candidate } from '../types';
 import { UNIFIED_TITLES_SORTED, addRelatedTitles } from '../utils/unifiedTitlesMapping';
-import { parseResumeWithAI, convertDocxToText, convertPdfToText, generateSummariesWithAllModels, reformatResumeWithTemplate } from '../services/resumeParserService';
-import mammoth from 'mammoth';
-import { extractContacts, removeContactsFromHtml, removeNameAndLocationFromHtml, formatResumeHtml } from '../utils/resumeParser';
+import { RESUME_FILE_ACCEPT, isResumeFile, parseResumeFile } from '../services/resumeImportService';
 
 interface AddCandidateModalProps {
   open: boolean;
@@ -40,11 +38,8 @@ const AddCandidateModal: React.FC<AddCandidateModalProps> = ({ open, onClose, on
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const isDocx = file.name.endsWith('.docx');
-    const isPdf = file.name.endsWith('.pdf');
-
-    if (!isDocx && !isPdf) {
-      alert('Please upload a .docx or .pdf file');
+    if (!isResumeFile(file)) {
+      alert('Please upload a .docx, .pdf or JSON Resume file');
       return;
     }
 
@@ -52,198 +47,8 @@ const AddCandidateModal: React.FC<AddCandidateModalProps> = ({ open, onClose, on
     setIsLoading(true);
 
     try {
-      // STEP 1: Convert file to text (DOCX or PDF)
-      let resumeText: string;
-      let htmlContent: string;
-
-      if (isDocx) {
-        // Convert DOCX to text
-        resumeText = await convertDocxToText(file);
-        
-        // Convert DOCX to HTML for display
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.convertToHtml({ arrayBuffer });
-        htmlContent = result.value;
-      } else if (isPdf) {
-        // Convert PDF to text for parsing
-        resumeText = await convertPdfToText(file);
-        
-        // Convert PDF to HTML with precise formatting (NO ChatGPT reformatting)
-        const { convertPdfToHtml } = await import('../services/resumeParserService');
-        htmlContent = await convertPdfToHtml(file);
-      } else {
-        throw new Error('Unsupported file type');
-      }
-      
-      // STEP 2: Parse resume with AI (now also reformats resume according to template)
-      const { data: parsedData, rawJson: reformattedResumeText } = await parseResumeWithAI(resumeText);
-      
-      // STEP 2.5: Generate Summaries with GPT-3.5-turbo
-      const summariesByModel = await generateSummariesWithAllModels(resumeText);
-      // Use gpt-3.5-turbo as default summary
-      const summary = summariesByModel['gpt-3.5-turbo'] || '';
-
-      // Extract contacts for later use
-      const contacts = extractContacts(htmlContent);
-
-      // Use reformatted resume from ChatGPT if available, otherwise use original
-      if (reformattedResumeText && reformattedResumeText.trim()) {
-        // Convert reformatted text to HTML with proper formatting
-        const formattedHtml = reformattedResumeText
-          .split('\n')
-          .map((line) => {
-            const trimmedLine = line.trim();
-            // Skip empty lines but add spacing
-            if (!trimmedLine) return '<div style="height: 0.5em;"></div>';
-            // Format section headers (all caps, bold, no special chars)
-            if (trimmedLine === trimmedLine.toUpperCase() && 
-                trimmedLine.length < 50 && 
-                !trimmedLine.includes('│') && 
-                !trimmedLine.includes('@') &&
-                !trimmedLine.includes('http') &&
-                trimmedLine.length > 3) {
-              return `<h3 style="font-weight: bold; font-size: 1.2em; margin-top: 2em; margin-bottom: 1em; color: #1f2937; text-transform: uppercase; border-bottom: 2px solid #e5e7eb; padding-bottom: 0.5em;">${trimmedLine}</h3>`;
-            }
-            // Format header line (name, title, contact info)
-            if (trimmedLine.includes('│') || (trimmedLine.includes('@') && trimmedLine.includes('http'))) {
-              return `<p style="font-weight: 600; font-size: 1.05em; margin-top: 1.5em; margin-bottom: 0.5em; color: #374151; line-height: 1.8;">${trimmedLine}</p>`;
-            }
-            // Format company names and job titles (lines with dates)
-            if (trimmedLine.match(/\d{4}/) && (trimmedLine.includes('–') || trimmedLine.includes('-'))) {
-              return `<p style="font-weight: 600; margin-top: 1.5em; margin-bottom: 0.5em; color: #4b5563; font-size: 1.05em;">${trimmedLine}</p>`;
-            }
-            // Format bullet points (lines starting with bullet or dash)
-            if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-') || trimmedLine.match(/^[A-Z][a-z].*:$/)) {
-              return `<p style="margin-left: 2em; margin-bottom: 0.6em; line-height: 1.7; text-indent: -1em; padding-left: 1em;">${trimmedLine}</p>`;
-            }
-            // Format lines that look like achievements (start with action verb)
-            if (trimmedLine.match(/^(Built|Launched|Developed|Created|Implemented|Led|Managed|Designed|Established|Scaled|Enhanced|Delivered|Organized)/i)) {
-              return `<p style="margin-left: 1.5em; margin-bottom: 0.6em; line-height: 1.7;">${trimmedLine}</p>`;
-            }
-            // Regular paragraphs
-            return `<p style="margin-bottom: 0.6em; line-height: 1.7; color: #374151;">${trimmedLine}</p>`;
-          })
-          .join('\n');
-        
-        htmlContent = `<div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #1f2937; padding: 30px; max-width: 900px; margin: 0 auto; background: #ffffff;">${formattedHtml}</div>`;
-        console.log('Using reformatted resume from ChatGPT');
-      } else {
-        // Fallback to original formatting
-        if (isDocx) {
-          // Remove contacts from HTML
-          htmlContent = removeContactsFromHtml(htmlContent, contacts);
-          
-          // Remove name and location from resume (they're already in the card)
-          const fullName = parsedData.full_name || '';
-          const location = parsedData.location || '';
-          htmlContent = removeNameAndLocationFromHtml(htmlContent, fullName, location);
-          
-          // Format resume HTML for better display
-          htmlContent = formatResumeHtml(htmlContent);
-        } else if (isPdf) {
-          // For PDF: Only remove contacts, name, and location
-          htmlContent = removeContactsFromHtml(htmlContent, contacts);
-          
-          const fullName = parsedData.full_name || '';
-          const location = parsedData.location || '';
-          htmlContent = removeNameAndLocationFromHtml(htmlContent, fullName, location);
-        }
-      }
-
-      
-      // Map parsed data to candidate format
-      // Ensure arrays are properly initialized
-      const mainIndustries = Array.isArray(parsedData.main_industries) 
-        ? parsedData.main_industries.filter(i => i && i.trim() !== '') 
-        : [];
-      const relatedIndustries = Array.isArray(parsedData.other_related_industries)
-        ? parsedData.other_related_industries.filter(i => i && i.trim() !== '')
-        : [];
-      const companyNames = Array.isArray(parsedData.company_names)
-        ? parsedData.company_names.filter(c => c && c.trim() !== '')
-        : [];
-      
-      // Extract and normalize skills from parsed data
-      let extractedSkills: string[] = [];
-      if (Array.isArray(parsedData.skills) && parsedData.skills.length > 0) {
-        extractedSkills = parsedData.skills.filter(s => s && s.trim() !== '');
-      }
-      
-      // Normalize skills using ChatGPT (translate to English, lowercase, standardize)
-      let normalizedSkills: string[] = [];
-      if (extractedSkills.length > 0) {
-        try {
-          const { normalizeSkills } = await import('../services/skillsNormalization');
-          normalizedSkills = await normalizeSkills(extractedSkills);
-          console.log('Normalized skills:', normalizedSkills);
-        } catch (normalizationError) {
-          console.error('Error normalizing skills:', normalizationError);
-          // Fallback: use extracted skills with basic normalization
-          normalizedSkills = extractedSkills.map(s => s.trim().toLowerCase()).filter(s => s.length > 0);
-        }
-      }
-      
-      // Process LinkedIn - prioritize parsed data, fallback to extracted contacts
-      let linkedinUrl = parsedData.linkedin && parsedData.linkedin !== 'Not found' ? parsedData.linkedin : null;
-      if (!linkedinUrl && contacts.linkedin) {
-        linkedinUrl = contacts.linkedin;
-      }
-      // Ensure LinkedIn URL is complete (add https:// if missing)
-      if (linkedinUrl && !linkedinUrl.startsWith('http')) {
-        linkedinUrl = `https://${linkedinUrl}`;
-      }
-      
-      // Process email and phone - prioritize parsed data, fallback to extracted contacts
-      const email = parsedData.email && parsedData.email !== 'Not found' 
-        ? parsedData.email 
-        : (contacts.email || null);
-      const phone = parsedData.phone_number && parsedData.phone_number !== 'Not found'
-        ? parsedData.phone_number
-        : (contacts.phone || null);
-      
-      
-      let unifiedTitles = Array.isArray(parsedData.unified_titles) 
-        ? parsedData.unified_titles.filter(t => t && t.trim() !== '') 
-        : [];
-      
-      // Add related titles for C-level positions (e.g., CMO → Marketing Manager)
-      if (unifiedTitles.length > 0) {
-        unifiedTitles = addRelatedTitles(unifiedTitles);
-      }
-      
-      const newCandidate: Partial<Candidate> = {
-        name: parsedData.full_name || '',
-        jobTitle: parsedData.main_job_title || '',
-        location: parsedData.location || 'Not specified',
-        experience: `${parsedData.total_work_experience_years || 0} years`,
-        availability: 'Available',
-        readyToRelocateTo: [],
-        lastUpdated: parsedData.last_updated_date || new Date().toISOString().split('T')[0],
-        matchScore: 0,
-        status: 'actively_looking',
-        industries: mainIndustries,
-        relatedIndustries: relatedIndustries,
-        companyNames: companyNames,
-        skills: normalizedSkills, // Use normalized skills from resume parsing
-        summary: summary || '',
-        unifiedTitles: unifiedTitles,
-        summariesByModel: summariesByModel,
-        socialLinks: {
-          linkedin: linkedinUrl || undefined,
-          github: parsedData.github && parsedData.github !== 'Not found' ? parsedData.github : undefined,
-          portfolio: parsedData.portfolio && parsedData.portfolio !== 'Not found' ? parsedData.portfolio : undefined,
-          otherSocialMedia: parsedData.other_social_media && parsedData.other_social_media !== 'Not found' ? parsedData.other_social_media : undefined,
-        },
-        resume: {
-          file,
-          htmlContent,
-          contacts: {
-            email,
-            phone,
-            linkedin: linkedinUrl,
-          },
-        },
-      };
+      // Same pipeline as the bulk importer: text extraction, AI parsing, summary and skills normalization
+      const newCandidate = await parseResumeFile(file);
 
       // Debug: log parsed data
 
@@ -314,7 +119,7 @@ const AddCandidateModal: React.FC<AddCandidateModalProps> = ({ open, onClose, on
     }
 
     const newCandidate: Candidate = {
-      id: editingCandidate?.id || Date.now(), // Use existing ID if editing
+      id: editingCandidate?.id || String(Date.now()), // Use existing ID if editing
       name: candidateData.name || '',
       jobTitle: candidateData.jobTitle || '',
       location: candidateData.location || 'Not specified',
@@ -339,6 +144,8 @@ const AddCandidateModal: React.FC<AddCandidateModalProps> = ({ open, onClose, on
       salaryMin: candidateData.salaryMin,
       salaryMax: candidateData.salaryMax,
       salaryUnit: candidateData.salaryUnit || 'year',
+      workHistory: candidateData.workHistory,
+      education: candidateData.education,
       resume: candidateData.resume ? {
         ...candidateData.resume,
         // Preserve existing file if editing, use new file if adding
@@ -416,11 +223,12 @@ const AddCandidateModal: React.FC<AddCandidateModalProps> = ({ open, onClose, on
                   <h3 className="text-xl font-semibold text-gray-800 mb-2">Upload Resume</h3>
                   <p className="text-gray-600 mb-6 text-center">
                     Upload a .docx or .pdf resume file. We'll automatically extract candidate information using AI.
+                    JSON Resume and HR-Open .json profiles are imported as they are.
                   </p>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".docx,.pdf"
+                    accept={RESUME_FILE_ACCEPT}
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -1,40 +1,48 @@
 import React, { useState, useRef } from 'react';
 import { X, Upload, Loader2, Save, AlertCircle, FileText, Plus } from 'lucide-react';
-import { JobDescription } from '../types';
+import { JobFormData } from '../types';
 import { parseBasicJobInfo, parseIndustryAndSkills, validateAndStandardizeJobData } from '../services/jobDescriptionParserService';
 import mammoth from 'mammoth';
 
+/**
+ * Fields parsed from the description and edited before it is saved as a job
+ */
+interface JobDescriptionDraft {
+  jobTitle: string;
+  location: string;
+  jobDescription: string;
+  companyName: string;
+  consideringRelocation: boolean;
+  industry: string[];
+  hardSkills: string[];
+  rawJson?: string; // Raw JSON from ChatGPT for debugging
+}
+
 interface AddJobDescriptionModalProps {
   open: boolean;
   onClose: () => void;
-  onSave: (jobDescription: JobDescription) => void;
-  editingJobDescription?: JobDescription | null;
+  onSave: (jobData: JobFormData) => void;
 }
 
 const AddJobDescriptionModal: React.FC<AddJobDescriptionModalProps> = ({ 
   open, 
   onClose, 
   onSave, 
-  editingJobDescription 
 }) => {
   const [step, setStep] = useState<'upload' | 'editing'>('upload');
   const [isLoading, setIsLoading] = useState(false);
   const [jobDescriptionFile, setJobDescriptionFile] = useState<File | null>(null);
   const [jobDescriptionText, setJobDescriptionText] = useState<string>('');
-  const [jobDescriptionData, setJobDescriptionData] = useState<Partial<JobDescription> | null>(null);
+  const [jobDescriptionData, setJobDescriptionData] = useState<Partial<JobDescriptionDraft> | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [validationError, setValidationError] = useState<{ title: string; message: string; missingFields: string[] } | null>(null);
   const [newIndustryInput, setNewIndustryInput] = useState<string>('');
   const [newSkillInput, setNewSkillInput] = useState<string>('');
 
-  // When editingJobDescription changes or modal opens, populate form with existing data
+  // Start from an empty form whenever the modal opens
   React.useEffect(() => {
-    if (open && editingJobDescription) {
-      setJobDescriptionData(editingJobDescription);
-      setStep('editing');
-      setJobDescriptionText(editingJobDescription.jobDescription);
-    } else if (open && !editingJobDescription) {
+    if (open) {
       setStep('upload');
       setJobDescriptionData(null);
       setJobDescriptionFile(null);
@@ -42,7 +50,7 @@ const AddJobDescriptionModal: React.FC<AddJobDescriptionModalProps> = ({
       setNewIndustryInput('');
       setNewSkillInput('');
     }
-  }, [open, editingJobDescription]);
+  }, [open]);
 
   const convertDocxToText = async (file: File): Promise<string> => {
     try {
@@ -186,8 +194,6 @@ const AddJobDescriptionModal: React.FC<AddJobDescriptionModalProps> = ({
         industry: industries,
         hardSkills: hardSkills,
         rawJson: rawJson,
-        createdAt: new Date().toISOString().split('T')[0],
-        status: 'active',
       });
 
       setStep('editing');
@@ -264,7 +270,7 @@ const AddJobDescriptionModal: React.FC<AddJobDescriptionModalProps> = ({
     }
   };
 
-  const updateJobDescriptionField = (field: keyof JobDescription, value: any) => {
+  const updateJobDescriptionField = (field: keyof JobDescriptionDraft, value: any) => {
     setJobDescriptionData(prev => ({
       ...prev,
       [field]: value,
@@ -296,22 +302,20 @@ const AddJobDescriptionModal: React.FC<AddJobDescriptionModalProps> = ({
       return;
     }
 
-    const newJobDescription: JobDescription = {
-      id: editingJobDescription?.id || Date.now(),
-      jobTitle: jobDescriptionData.jobTitle || '',
-      location: jobDescriptionData.location || '',
-      jobDescription: jobDescriptionData.jobDescription || jobDescriptionText, // Keep full text
+    const location = jobDescriptionData.location || '';
+    const jobData: JobFormData = {
+      title: jobDescriptionData.jobTitle || '',
+      location,
+      locations: [location],
+      description: jobDescriptionData.jobDescription || jobDescriptionText, // Keep full text
       companyName: jobDescriptionData.companyName || '',
       consideringRelocation: jobDescriptionData.consideringRelocation || false,
       industry: Array.isArray(jobDescriptionData.industry) ? jobDescriptionData.industry : 
                 (jobDescriptionData.industry ? [jobDescriptionData.industry] : []),
-      hardSkills: jobDescriptionData.hardSkills || [],
-      createdAt: jobDescriptionData.createdAt || new Date().toISOString().split('T')[0],
-      status: jobDescriptionData.status || 'active',
-      rawJson: jobDescriptionData.rawJson || editingJobDescription?.rawJson,
+      skills: jobDescriptionData.hardSkills || [],
     };
 
-    onSave(newJobDescription);
+    onSave(jobData);
     handleClose();
   };
 
@@ -365,7 +369,7 @@ const AddJobDescriptionModal: React.FC<AddJobDescriptionModalProps> = ({
         {/* Header */}
         <div className="bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] p-6 flex items-center justify-between">
           <h2 className="text-2xl font-bold text-white">
-            {editingJobDescription ? 'Edit Job Description' : 'Review Job Description Details'}
+            Review Job Description Details
           </h2>
           <button
             onClick={handleClose}
@@ -1,8 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { X, Upload, Loader2, Save, AlertCircle, FileText, Plus, Globe } from 'lucide-react';
 import Dialog from './Dialog';
-import { JobFormData } from '../types';
-import { parseBasicJobInfo, validateAndStandardizeJobData } from '../services/jobDescriptionParserService';
+import { JobFormData, SkillPriority, SkillRequirement } from '../types';
+import { parseBasicJobInfo, parseIndustryAndSkills, validateAndStandardizeJobData } from '../services/jobDescriptionParserService';
+import {
+  SKILL_PRIORITIES,
+  SKILL_PRIORITY_LABELS,
+  SALARY_CURRENCIES,
+  SALARY_UNITS,
+  SALARY_UNIT_LABELS,
+  normalizeSkillRequirements,
+  resolveSkillRequirements,
+} from '../../supabase/functions/_shared/matching/index.ts';
 import mammoth from 'mammoth';
 import { standardizeLocations } from '../utils/locationStandardizer';
 import CustomSelect from './CustomSelect';
@@ -31,6 +40,9 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
     workplaceType: 'Remote',
     employmentType: 'Full-time',
     seniorityLevel: 'Not Applicable',
+    salaryCurrency: 'USD',
+    salaryUnit: 'year',
+    blindReview: false,
   });
   const [locationInput, setLocationInput] = useState<string>('');
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -53,6 +65,7 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
         location: editingJob.location || '',
         locations: editingJob.locations || [],
         skills: editingJob.skills || [],
+        skillRequirements: resolveSkillRequirements(editingJob.skillRequirements, editingJob.skills),
         industry: Array.isArray(editingJob.industry) ? editingJob.industry.join(', ') : (editingJob.industry || ''),
         companyName: editingJob.companyName || '',
         consideringRelocation: editingJob.consideringRelocation || false,
@@ -61,6 +74,11 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
         workplaceType: editingJob.workplaceType || 'Remote',
         employmentType: editingJob.employmentType || 'Full-time',
         seniorityLevel: editingJob.seniorityLevel || 'Not Applicable',
+        salaryMin: editingJob.salaryMin,
+        salaryMax: editingJob.salaryMax,
+        salaryCurrency: editingJob.salaryCurrency || 'USD',
+        salaryUnit: editingJob.salaryUnit || 'year',
+        blindReview: editingJob.blindReview || false,
       });
       setJobDescriptionText(editingJob.description || '');
       setStep('editing');
@@ -85,6 +103,9 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
       workplaceType: 'Remote',
       employmentType: 'Full-time',
       seniorityLevel: 'Not Applicable',
+      salaryCurrency: 'USD',
+      salaryUnit: 'year',
+      blindReview: false,
     });
     setLocationInput('');
     setJobDescriptionFile(null);
@@ -200,9 +221,25 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
         ? validated.hard_skills_mentioned_in_job_description.split(',').map(s => s.trim()).filter(s => s.length > 0)
         : [];
 
+      // Propose the required / preferred / bonus split; fall back to every skill required
+      let skillRequirements: SkillRequirement[] = resolveSkillRequirements(null, hardSkills);
+      try {
+        const { data: parsedSkills } = await parseIndustryAndSkills(
+          validated.job_title,
+          validated.company_name,
+          validated.location,
+          validated.job_description || jobDescriptionText
+        );
+        // Validated skills missing from the proposal stay required
+        skillRequirements = normalizeSkillRequirements([...parsedSkills.skill_requirements, ...hardSkills]);
+      } catch (error) {
+        console.error('Error proposing skill priorities:', error);
+      }
+
       console.log('Setting form data and switching to editing step...', {
         industries,
         hardSkills,
+        skillRequirements,
       });
 
       // Normalize location from parsed data using ChatGPT (LinkedIn format)
@@ -223,7 +260,8 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
         location: normalizedLocationValue, // Use normalized location
         locations: [normalizedLocationValue], // Use normalized location in array
         industry: industries.join(', '),
-        skills: hardSkills,
+        skills: skillRequirements.map(req => req.skill),
+        skillRequirements,
         description: validated.job_description,
         unifiedTitles: validated.unified_titles || [],
         workplaceType: validated.workplace_type,
@@ -281,15 +319,33 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
     setFormData({
       ...formData,
       skills: formData.skills.filter(s => s !== skill),
+      skillRequirements: skillRequirements.filter(req => req.skill !== skill),
+    });
+  };
+
+  const handleSkillRequirementChange = (skill: string, updates: Partial<SkillRequirement>) => {
+    setFormData({
+      ...formData,
+      skillRequirements: skillRequirements.map(req => (req.skill === skill ? { ...req, ...updates } : req)),
     });
   };
 
+  const handleSalaryChange = (field: 'salaryMin' | 'salaryMax', value: string) => {
+    const amount = parseFloat(value);
+    setFormData({ ...formData, [field]: Number.isFinite(amount) && amount > 0 ? amount : undefined });
+  };
+
   const handleSave = async () => {
     if (!formData.title) {
       alert('Please fill in Job Title');
       return;
     }
 
+    if (formData.salaryMin && formData.salaryMax && formData.salaryMin > formData.salaryMax) {
+      alert('Minimum salary cannot be greater than maximum salary');
+      return;
+    }
+
     if (!formData.locations || formData.locations.length === 0) {
       alert('Please add at least one location');
       return;
@@ -318,6 +374,8 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
 
     onSave({
       ...formData,
+      skills: skillRequirements.map(req => req.skill),
+      skillRequirements,
       locations: normalizedLocations,
       location: normalizedLocations[0] || formData.location, // Update main location field with normalized first location
       industry: industryArray,
@@ -327,6 +385,8 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
     onClose();
   };
 
+  const skillRequirements = resolveSkillRequirements(formData.skillRequirements, formData.skills);
+
   const industriesArray = typeof formData.industry === 'string' 
     ? formData.industry.split(',').map(i => i.trim()).filter(i => i.length > 0)
     : (Array.isArray(formData.industry) ? formData.industry : []);
@@ -503,6 +563,15 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
                     />
                     Accept Remote Candidates?
                   </label>
+                  <label className="flex items-center gap-2 text-sm font-medium text-purple-300">
+                    <input
+                      type="checkbox"
+                      checked={formData.blindReview || false}
+                      onChange={(e) => setFormData({ ...formData, blindReview: e.target.checked })}
+                      className="rounded"
+                    />
+                    Blind Review (hide candidate names, contacts, employers and locations until revealed)
+                  </label>
                 </div>
               </div>
             )}
@@ -673,6 +742,40 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
                 />
               </div>
 
+              {/* Compensation */}
+              <div>
+                <label className="block text-sm font-medium text-purple-300 mb-2">Compensation</label>
+                <div className="grid grid-cols-4 gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.salaryMin ?? ''}
+                    onChange={(e) => handleSalaryChange('salaryMin', e.target.value)}
+                    className="bg-white/5 border border-purple-500/30 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+                    placeholder="Min"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.salaryMax ?? ''}
+                    onChange={(e) => handleSalaryChange('salaryMax', e.target.value)}
+                    className="bg-white/5 border border-purple-500/30 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+                    placeholder="Max"
+                  />
+                  <CustomSelect
+                    value={formData.salaryCurrency || 'USD'}
+                    onChange={(value) => setFormData({ ...formData, salaryCurrency: value })}
+                    options={SALARY_CURRENCIES.map(currency => ({ value: currency, label: currency }))}
+                  />
+                  <CustomSelect
+                    value={formData.salaryUnit || 'year'}
+                    onChange={(value) => setFormData({ ...formData, salaryUnit: value as any })}
+                    options={SALARY_UNITS.map(unit => ({ value: unit, label: SALARY_UNIT_LABELS[unit] }))}
+                  />
+                </div>
+                <p className="text-xs text-purple-300/70 mt-1">Used to score candidates' salary expectations (leave empty to skip)</p>
+              </div>
+
               {/* Industries */}
               <div>
                 <label className="block text-sm font-medium text-purple-300 mb-2">Industries</label>
@@ -714,21 +817,41 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ open, onClose, onSave, editin
               {/* Hard Skills */}
               <div>
                 <label className="block text-sm font-medium text-purple-300 mb-2">Hard Skills</label>
-                <div className="flex flex-wrap gap-2">
-                  {formData.skills.map((skill, idx) => (
-                    <span
-                      key={idx}
-                      className="inline-flex items-center gap-2 px-3 py-1 bg-purple-500/20 border border-purple-500/50 rounded-full text-sm text-purple-200"
+                <p className="text-xs text-[#e0e7ff]/60 mb-2">
+                  Only required skills exclude candidates; preferred and bonus skills affect ranking.
+                </p>
+                <div className="space-y-2">
+                  {skillRequirements.map((req) => (
+                    <div
+                      key={req.skill}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-purple-500/10 border border-purple-500/30 rounded-lg"
                     >
-                      {skill}
+                      <span className="flex-1 text-sm text-purple-200">{req.skill}</span>
+                      <CustomSelect
+                        value={req.priority}
+                        onChange={(value) => handleSkillRequirementChange(req.skill, { priority: value as SkillPriority })}
+                        options={SKILL_PRIORITIES.map(priority => ({ value: priority, label: SKILL_PRIORITY_LABELS[priority] }))}
+                        className="w-32"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={req.min_years ?? ''}
+                        onChange={(e) => handleSkillRequirementChange(req.skill, {
+                          min_years: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) || null,
+                        })}
+                        placeholder="Min yrs"
+                        className="w-20 px-2 py-1 bg-white/5 border border-white/10 rounded text-xs text-white placeholder-white/40 focus:outline-none focus:ring-1 focus:ring-[#7C3AED]"
+                        aria-label={`Minimum years of ${req.skill}`}
+                      />
                       <button
-                        onClick={() => handleRemoveSkill(skill)}
-                        className="hover:text-white transition-colors"
-                        aria-label={`Remove ${skill}`}
+                        onClick={() => handleRemoveSkill(req.skill)}
+                        className="text-purple-200 hover:text-white transition-colors"
+                        aria-label={`Remove ${req.skill}`}
                       >
                         <X className="w-3 h-3" />
                       </button>
-                    </span>
+                    </div>
                   ))}
                 </div>
               </div>
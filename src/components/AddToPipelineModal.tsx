@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Briefcase, Check, Loader2 } from 'lucide-react';
+import Dialog from './Dialog';
+import { addToPipeline, fetchPipelineJobs } from '../services/pipelineService';
+
+interface AddToPipelineModalProps {
+  open: boolean;
+  onClose: () => void;
+  candidateId: string | number;
+  candidateName: string;
+}
+
+/**
+ * Pick one of the recruiter's jobs and add the candidate to its pipeline
+ */
+const AddToPipelineModal: React.FC<AddToPipelineModalProps> = ({ open, onClose, candidateId, candidateName }) => {
+  const [jobs, setJobs] = useState<{ id: number; title: string; companyName?: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [addingJobId, setAddingJobId] = useState<number | null>(null);
+  const [addedJobIds, setAddedJobIds] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setIsLoading(true);
+    setError(null);
+    fetchPipelineJobs()
+      .then(setJobs)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load jobs'))
+      .finally(() => setIsLoading(false));
+  }, [open]);
+
+  const handleAdd = async (jobId: number) => {
+    setAddingJobId(jobId);
+    setError(null);
+    try {
+      await addToPipeline(candidateId, jobId, { source: 'candidate_card' });
+      setAddedJobIds(prev => new Set(prev).add(jobId));
+    } catch (err) {
+      console.error('Error adding candidate to pipeline:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add candidate to pipeline');
+    } finally {
+      setAddingJobId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} title={`Add ${candidateName} to Pipeline`}>
+      {error && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-red-500/20 border border-red-500/40 text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-[#e0e7ff]">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading jobs...
+        </div>
+      ) : jobs.length === 0 ? (
+        <p className="text-[#e0e7ff]/70">No open jobs. Create a job in My Jobs first.</p>
+      ) : (
+        <ul className="space-y-2">
+          {jobs.map(job => {
+            const added = addedJobIds.has(job.id);
+            return (
+              <li key={job.id}>
+                <button
+                  onClick={() => handleAdd(job.id)}
+                  disabled={added || addingJobId !== null}
+                  className="w-full flex items-center justify-between gap-3 px-4 py-3 rounded-lg border border-white/10 bg-white/5 text-left text-[#e0e7ff] hover:bg-white/10 disabled:cursor-default transition-colors duration-200"
+                >
+                  <span className="flex items-center gap-2">
+                    <Briefcase className="w-4 h-4 text-[#06B6D4]" />
+                    <span className="font-medium">{job.title}</span>
+                    {job.companyName && <span className="text-sm text-[#e0e7ff]/60">{job.companyName}</span>}
+                  </span>
+                  {addingJobId === job.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : added ? (
+                    <span className="flex items-center gap-1 text-sm text-green-400">
+                      <Check className="w-4 h-4" />
+                      Added
+                    </span>
+                  ) : null}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Dialog>
+  );
+};
+
+export default AddToPipelineModal;
@@ -0,0 +1,223 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Ban, ChevronDown, ChevronUp, Loader2, Play, RefreshCw, RotateCcw } from 'lucide-react';
+import {
+  cancelBackgroundJob,
+  fetchBackgroundJobFailures,
+  fetchBackgroundJobs,
+  getBackgroundJobLabel,
+  resumeBackgroundJob,
+  retryFailedItems,
+  type BackgroundJob,
+  type BackgroundJobFailure,
+  type BackgroundJobStatus,
+  type BackgroundJobType,
+} from '../services/backgroundJobService';
+
+interface BackgroundJobsPanelProps {
+  types?: BackgroundJobType[]; // Only list these job types
+  refreshKey?: number; // Bump after enqueueing to show the new job right away
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_STYLES: Record<BackgroundJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-yellow-100 text-yellow-700',
+};
+
+const isActive = (job: BackgroundJob) => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Running and finished background jobs with progress, failed items, and retry/resume/cancel
+ */
+const BackgroundJobsPanel: React.FC<BackgroundJobsPanelProps> = ({ types, refreshKey }) => {
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [failures, setFailures] = useState<BackgroundJobFailure[]>([]);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+
+  // Compared by value so callers can pass an inline array
+  const typesKey = types?.join(',') ?? '';
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const allJobs = await fetchBackgroundJobs();
+      const wanted = typesKey ? typesKey.split(',') : null;
+      setJobs(wanted ? allJobs.filter(job => wanted.includes(job.type)) : allJobs);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading background jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load background jobs');
+    }
+  }, [typesKey]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs, refreshKey]);
+
+  // Poll while any job is still queued or running
+  const hasActiveJobs = jobs.some(isActive);
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, loadJobs]);
+
+  const toggleFailures = async (job: BackgroundJob) => {
+    if (expandedJobId === job.id) {
+      setExpandedJobId(null);
+      return;
+    }
+    setExpandedJobId(job.id);
+    setFailures([]);
+    try {
+      setFailures(await fetchBackgroundJobFailures(job.id));
+    } catch (err) {
+      console.error('Error loading job failures:', err);
+    }
+  };
+
+  const runAction = async (job: BackgroundJob, action: (job: BackgroundJob) => Promise<unknown>) => {
+    setBusyJobId(job.id);
+    try {
+      await action(job);
+      await loadJobs();
+    } catch (err) {
+      console.error('Background job action failed:', err);
+      alert(err instanceof Error ? err.message : 'Background job action failed');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  if (jobs.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Background jobs</h2>
+        <button
+          onClick={loadJobs}
+          className="flex items-center gap-1 text-sm text-[#7C3AED] hover:underline"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {jobs.map(job => {
+          const done = job.processed_items + job.skipped_items + job.failed_items;
+          const progress = job.total_items ? Math.min(100, (done / job.total_items) * 100) : 0;
+          const busy = busyJobId === job.id;
+
+          return (
+            <li key={job.id} className="py-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  {job.status === 'running' && <Loader2 className="w-4 h-4 animate-spin text-blue-600" />}
+                  <span className="font-medium text-gray-900">{getBackgroundJobLabel(job.type)}</span>
+                  {job.retry_of && <span className="text-xs text-gray-500">(retry)</span>}
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[job.status]}`}>
+                    {job.status}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  {isActive(job) && (
+                    <button
+                      onClick={() => runAction(job, j => cancelBackgroundJob(j.id))}
+                      disabled={busy}
+                      className="flex items-center gap-1 px-2 py-1 text-yellow-700 hover:bg-yellow-50 rounded disabled:opacity-50"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Cancel
+                    </button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button
+                      onClick={() => runAction(job, j => resumeBackgroundJob(j.id))}
+                      disabled={busy}
+                      className="flex items-center gap-1 px-2 py-1 text-[#7C3AED] hover:bg-purple-50 rounded disabled:opacity-50"
+                    >
+                      <Play className="w-4 h-4" />
+                      Resume
+                    </button>
+                  )}
+                  {!isActive(job) && job.failed_items > 0 && (
+                    <button
+                      onClick={() => runAction(job, retryFailedItems)}
+                      disabled={busy}
+                      className="flex items-center gap-1 px-2 py-1 text-[#7C3AED] hover:bg-purple-50 rounded disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Retry failed
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] transition-all duration-500"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+
+              <div className="mt-1 flex flex-wrap items-center gap-x-4 text-xs text-gray-500">
+                <span>{done} / {job.total_items ?? '?'} items</span>
+                <span>{job.processed_items} updated</span>
+                <span>{job.skipped_items} skipped</span>
+                {job.failed_items > 0 ? (
+                  <button
+                    onClick={() => toggleFailures(job)}
+                    className="flex items-center gap-0.5 text-red-600 hover:underline"
+                  >
+                    {job.failed_items} failed
+                    {expandedJobId === job.id ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                  </button>
+                ) : (
+                  <span>0 failed</span>
+                )}
+                <span>Queued {new Date(job.created_at).toLocaleString()}</span>
+                {job.finished_at && <span>Finished {new Date(job.finished_at).toLocaleString()}</span>}
+              </div>
+
+              {job.last_error && (
+                <p className="mt-1 text-xs text-red-600">{job.last_error}</p>
+              )}
+
+              {expandedJobId === job.id && (
+                <ul className="mt-2 max-h-48 overflow-y-auto bg-gray-50 rounded p-2 text-xs space-y-1">
+                  {failures.length === 0 ? (
+                    <li className="text-gray-400">Loading...</li>
+                  ) : (
+                    failures.map(failure => (
+                      <li key={failure.id}>
+                        <span className="font-mono text-gray-700">{failure.item_id}</span>
+                        <span className="text-red-600"> — {failure.error}</span>
+                      </li>
+                    ))
+                  )}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default BackgroundJobsPanel;
@@ -1,45 +1,18 @@
 import { useState, useEffect } from 'react';
-import { 
-  runBenchmark, 
-  getBenchmarkResults, 
-  getAllBenchmarkJobs,
-  getBenchmarkResultsByVersion,
-  type BenchmarkMetrics 
-} from '../services/benchmarkService';
-import { supabase } from '../lib/supabaseClient';
+import { listBenchmarkJobs, listBenchmarkResults, type BenchmarkJob, type BenchmarkResult } from '../repositories/benchmarks';
+import { fetchScoringProfiles } from '../services/scoringProfileService';
+import { navigate } from '../hooks/useRouter';
+import { paths } from '../utils/routes';
 import { Play, TrendingUp, BarChart3, Target, Clock } from 'lucide-react';
 
-interface BenchmarkResult {
-  id: number;
-  job_id: string;
-  version: string;
-  precision_5: number;
-  precision_10: number;
-  recall_5: number;
-  recall_10: number;
-  ndcg_5: number;
-  ndcg_10: number;
-  mrr: number;
-  timestamp: string;
-  total_relevant_candidates: number;
-  total_retrieved_candidates: number;
+interface BenchmarkDashboardProps {
+  jobId?: string; // Benchmark job in the URL
 }
 
-interface BenchmarkJob {
-  id: number;
-  job_id: string;
-  ground_truth_candidates: string[];
-  created_at: string;
-  vacancies?: {
-    title: string;
-    location: string;
-    industry: string;
-  };
-}
-
-export default function BenchmarkDashboard() {
+export default function BenchmarkDashboard({ jobId }: BenchmarkDashboardProps) {
   const [benchmarkJobs, setBenchmarkJobs] = useState<BenchmarkJob[]>([]);
-  const [selectedJobId, setSelectedJobId] = useState<string>('');
+  const selectedJobId = jobId ?? '';
+  const setSelectedJobId = (id: string, replace = false) => navigate(paths.benchmark(id || undefined), { replace });
   const [selectedVersion, setSelectedVersion] = useState<string>('v1');
   const [results, setResults] = useState<BenchmarkResult[]>([]);
   const [loading, setLoading] = useState(false);
@@ -61,10 +34,10 @@ export default function BenchmarkDashboard() {
 
   async function loadBenchmarkJobs() {
     try {
-      const jobs = await getAllBenchmarkJobs();
-      setBenchmarkJobs(jobs as any);
+      const jobs = await listBenchmarkJobs();
+      setBenchmarkJobs(jobs);
       if (jobs.length > 0 && !selectedJobId) {
-        setSelectedJobId(jobs[0].job_id);
+        setSelectedJobId(jobs[0].job_id, true);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load benchmark jobs');
@@ -73,15 +46,14 @@ export default function BenchmarkDashboard() {
 
   async function loadVersions() {
     try {
-      const { data, error } = await supabase
-        .from('matching_benchmark_results')
-        .select('version')
-        .order('timestamp', { ascending: false });
-
-      if (error) throw error;
-
-      const uniqueVersions = Array.from(new Set(data.map((r: any) => r.version))).sort();
-      setVersions(uniqueVersions.length > 0 ? uniqueVersions : ['v1']);
+      // Benchmark versions are scoring profile versions
+      const profiles = await fetchScoringProfiles();
+      const profileVersions = profiles.map(p => p.version);
+      setVersions(profileVersions.length > 0 ? profileVersions : ['v1']);
+      const defaultProfile = profiles.find(p => p.is_default);
+      if (defaultProfile) {
+        setSelectedVersion(defaultProfile.version);
+      }
     } catch (err) {
       console.error('Failed to load versions:', err);
     }
@@ -94,14 +66,10 @@ export default function BenchmarkDashboard() {
       setLoading(true);
       setError(null);
 
-      if (selectedVersion === 'all') {
-        const allResults = await getBenchmarkResults(selectedJobId);
-        setResults(allResults as any);
-      } else {
-        const versionResults = await getBenchmarkResultsByVersion(selectedVersion);
-        const filtered = versionResults.filter((r: any) => r.job_id === selectedJobId);
-        setResults(filtered as any);
-      }
+      setResults(await listBenchmarkResults({
+        jobId: selectedJobId,
+        version: selectedVersion === 'all' ? undefined : selectedVersion,
+      }));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load results');
     } finally {
@@ -231,8 +199,8 @@ export default function BenchmarkDashboard() {
                 <option value="">Select a job...</option>
                 {benchmarkJobs.map((job) => (
                   <option key={job.id} value={job.job_id}>
-                    {job.vacancies?.title || job.job_id} 
-                    {job.vacancies?.location && ` - ${job.vacancies.location}`}
+                    {job.job?.title || job.job_id} 
+                    {job.job?.location && ` - ${job.job.location}`}
                   </option>
                 ))}
               </select>
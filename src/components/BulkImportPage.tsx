@@ -0,0 +1,402 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, FileArchive, FolderUp, AlertTriangle, Copy, CheckCircle, Upload, StopCircle } from 'lucide-react';
+import Header from './Header';
+import { Candidate } from '../types';
+import {
+  RESUME_FILE_ACCEPT,
+  RESUME_IMPORT_FLAG_LABELS,
+  collectResumeFiles,
+  findResumeImportDuplicates,
+  getResumeImportFlags,
+  importParsedCandidates,
+  parseResumeBatch,
+  type ResumeImportDuplicate,
+  type ResumeImportFlag,
+  type ResumeImportResult,
+} from '../services/resumeImportService';
+
+interface BulkImportPageProps {
+  onBack: () => void;
+  onImported?: () => void; // Called after candidates were inserted so the catalogue can reload
+}
+
+interface ImportItem {
+  file: File;
+  status: 'queued' | 'parsing' | 'parsed' | 'failed';
+  candidate?: Partial<Candidate>;
+  error?: string;
+  flags: ResumeImportFlag[];
+  duplicates: ResumeImportDuplicate[];
+  selected: boolean;
+}
+
+type Phase = 'select' | 'parsing' | 'review' | 'importing' | 'done';
+
+// Editable columns of the review grid
+const EDITABLE_FIELDS: { key: 'name' | 'jobTitle' | 'location' | 'experience'; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'jobTitle', label: 'Job title' },
+  { key: 'location', label: 'Location' },
+  { key: 'experience', label: 'Experience' },
+];
+
+/**
+ * Rows are pre-selected unless they have no name or look like someone already in the catalogue.
+ * Within the batch only the first file of a duplicate group is selected.
+ */
+const defaultSelected = (item: ImportItem, index: number): boolean =>
+  item.status === 'parsed' &&
+  !item.flags.includes('missing_name') &&
+  !item.duplicates.some(duplicate => duplicate.existingCandidateId !== null) &&
+  !item.duplicates.some(duplicate => duplicate.batchIndex !== null && duplicate.batchIndex < index);
+
+/**
+ * Import a ZIP, folder or selection of resumes: parse, review extracted fields, then insert in one go
+ */
+const BulkImportPage: React.FC<BulkImportPageProps> = ({ onBack, onImported }) => {
+  const [phase, setPhase] = useState<Phase>('select');
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ResumeImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Not in React's input typings
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+    };
+  }, []);
+
+  const updateItem = (index: number, update: Partial<ImportItem>) =>
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...update } : item)));
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setError(null);
+
+    let resumes: File[];
+    try {
+      const collected = await collectResumeFiles(Array.from(fileList));
+      resumes = collected.resumes;
+      setSkipped(collected.skipped);
+    } catch (err) {
+      console.error('Error reading files:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read files');
+      return;
+    }
+
+    if (resumes.length === 0) {
+      setError('No .pdf, .docx or .json resumes found');
+      return;
+    }
+
+    const parsed: (Partial<Candidate> | null)[] = resumes.map(() => null);
+    setItems(resumes.map(file => ({ file, status: 'queued', flags: [], duplicates: [], selected: false })));
+    setPhase('parsing');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    await parseResumeBatch(
+      resumes,
+      {
+        onStart: index => updateItem(index, { status: 'parsing' }),
+        onResult: (index, { candidate, error: parseError }) => {
+          parsed[index] = candidate ?? null;
+          updateItem(index, candidate
+            ? { status: 'parsed', candidate, flags: getResumeImportFlags(candidate) }
+            : { status: 'failed', error: parseError });
+        },
+      },
+      controller.signal
+    );
+    if (controller.signal.aborted && abortRef.current !== controller) return; // Page was left
+
+    let duplicates: ResumeImportDuplicate[][] = parsed.map(() => []);
+    try {
+      duplicates = await findResumeImportDuplicates(parsed);
+    } catch (err) {
+      console.error('Error checking for duplicates:', err);
+      setError('Could not check for duplicates; review the rows carefully before importing.');
+    }
+
+    setItems(prev => prev.map((item, index) => {
+      const withDuplicates = { ...item, duplicates: duplicates[index] };
+      return { ...withDuplicates, selected: defaultSelected(withDuplicates, index) };
+    }));
+    setPhase('review');
+  };
+
+  const updateCandidateField = (index: number, key: keyof Candidate, value: string) => {
+    setItems(prev => prev.map((item, i) => {
+      if (i !== index || !item.candidate) return item;
+      const candidate = { ...item.candidate, [key]: value };
+      return { ...item, candidate, flags: getResumeImportFlags(candidate) };
+    }));
+  };
+
+  const handleImport = async () => {
+    const selected = items.filter(item => item.selected && item.candidate);
+    if (selected.length === 0) return;
+
+    setPhase('importing');
+    try {
+      const importResult = await importParsedCandidates(selected.map(item => item.candidate!));
+      setResult(importResult);
+      setPhase('done');
+      if (importResult.insertedIds.length > 0) onImported?.();
+    } catch (err) {
+      console.error('Error importing candidates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import candidates');
+      setPhase('review');
+    }
+  };
+
+  const reset = () => {
+    setItems([]);
+    setSkipped([]);
+    setResult(null);
+    setError(null);
+    setPhase('select');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (folderInputRef.current) folderInputRef.current.value = '';
+  };
+
+  const parsedCount = items.filter(item => item.status === 'parsed').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const selectedCount = items.filter(item => item.selected).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#E8E9EB] via-[#E0E2E5] to-[#E8E9EB]">
+      <Header activePage="Star Catalogue" />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <button
+              onClick={onBack}
+              className="text-[#7C3AED] hover:text-[#06B6D4] mb-2 flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Back to Candidates
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Bulk Resume Import</h1>
+            {items.length > 0 && (
+              <p className="text-gray-600 mt-1">
+                {parsedCount} of {items.length} parsed{failedCount > 0 ? `, ${failedCount} failed` : ''}
+                {skipped.length > 0 && (
+                  <span title={skipped.join('\n')}>, {skipped.length} other file{skipped.length !== 1 ? 's' : ''} skipped</span>
+                )}
+              </p>
+            )}
+          </div>
+          {phase === 'parsing' && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-4 py-2 bg-white text-gray-700 rounded-lg font-semibold shadow-md hover:bg-gray-50 flex items-center gap-2"
+            >
+              <StopCircle className="w-5 h-5" />
+              Stop after current files
+            </button>
+          )}
+          {(phase === 'review' || phase === 'importing') && (
+            <button
+              onClick={handleImport}
+              disabled={phase === 'importing' || selectedCount === 0}
+              className="px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 disabled:opacity-50 flex items-center gap-2"
+            >
+              {phase === 'importing' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              {phase === 'importing' ? 'Importing...' : `Import ${selectedCount} Candidate${selectedCount !== 1 ? 's' : ''}`}
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">{error}</div>
+        )}
+
+        {phase === 'select' && (
+          <div className="bg-white rounded-xl shadow-lg py-16 flex flex-col items-center text-center">
+            <FileArchive className="w-16 h-16 text-[#7C3AED] mb-4" />
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">Upload Resumes</h3>
+            <p className="text-gray-600 mb-6 max-w-lg">
+              Choose a .zip archive, a folder or several .pdf/.docx files. Each resume is parsed with AI,
+              then you can review the extracted fields before anything is saved. JSON Resume and HR-Open
+              .json profiles are read directly.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`.zip,${RESUME_FILE_ACCEPT}`}
+              multiple
+              onChange={(e) => handleFiles(e.target.files)}
+              className="hidden"
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              onChange={(e) => handleFiles(e.target.files)}
+              className="hidden"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-6 py-3 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 transition-opacity flex items-center gap-2"
+              >
+                <FileArchive className="w-5 h-5" />
+                Choose ZIP or Files
+              </button>
+              <button
+                onClick={() => folderInputRef.current?.click()}
+                className="px-6 py-3 bg-white border-2 border-[#7C3AED] text-[#7C3AED] rounded-lg font-semibold hover:bg-purple-50 transition-colors flex items-center gap-2"
+              >
+                <FolderUp className="w-5 h-5" />
+                Choose Folder
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === 'done' && result && (
+          <div className="bg-white rounded-xl shadow-lg p-8 mb-6">
+            <div className="flex items-center gap-3 mb-2">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+              <h3 className="text-xl font-semibold text-gray-900">
+                Imported {result.insertedIds.length} candidate{result.insertedIds.length !== 1 ? 's' : ''}
+              </h3>
+            </div>
+            <p className="text-gray-600">
+              {result.jobs.length > 0
+                ? 'Job title and location normalization and embeddings are running in the background.'
+                : 'Run the bulk normalization and embedding actions to finish processing the new candidates.'}
+            </p>
+            {result.failures.length > 0 && (
+              <ul className="mt-4 text-sm text-red-700 space-y-1">
+                {result.failures.map((failure, index) => (
+                  <li key={index}>{failure.name}: {failure.error}</li>
+                ))}
+              </ul>
+            )}
+            <button
+              onClick={reset}
+              className="mt-6 px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90"
+            >
+              Import More
+            </button>
+          </div>
+        )}
+
+        {/* Review grid */}
+        {items.length > 0 && phase !== 'done' && (
+          <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-xs font-medium text-gray-500 uppercase">
+                  <th className="p-3 w-10">
+                    <input
+                      type="checkbox"
+                      checked={selectedCount > 0 && selectedCount === parsedCount}
+                      disabled={phase !== 'review'}
+                      onChange={(e) => setItems(prev => prev.map(item => ({ ...item, selected: e.target.checked && item.status === 'parsed' })))}
+                      className="accent-[#7C3AED]"
+                    />
+                  </th>
+                  <th className="p-3">File</th>
+                  {EDITABLE_FIELDS.map(field => (
+                    <th key={field.key} className="p-3">{field.label}</th>
+                  ))}
+                  <th className="p-3">Email</th>
+                  <th className="p-3">Review</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {items.map((item, index) => (
+                  <tr key={index} className={item.selected ? 'bg-purple-50/40' : ''}>
+                    <td className="p-3 align-top">
+                      <input
+                        type="checkbox"
+                        checked={item.selected}
+                        disabled={phase !== 'review' || item.status !== 'parsed'}
+                        onChange={(e) => updateItem(index, { selected: e.target.checked })}
+                        className="accent-[#7C3AED]"
+                      />
+                    </td>
+                    <td className="p-3 align-top text-gray-700 max-w-[12rem] truncate" title={item.file.name}>
+                      {item.file.name}
+                    </td>
+                    {item.status === 'parsed' && item.candidate ? (
+                      <>
+                        {EDITABLE_FIELDS.map(field => (
+                          <td key={field.key} className="p-2 align-top">
+                            <input
+                              type="text"
+                              value={item.candidate![field.key] || ''}
+                              disabled={phase !== 'review'}
+                              onChange={(e) => updateCandidateField(index, field.key, e.target.value)}
+                              className="w-full min-w-[8rem] px-2 py-1 border border-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+                            />
+                          </td>
+                        ))}
+                        <td className="p-3 align-top text-gray-600">{item.candidate.resume?.contacts?.email || '—'}</td>
+                        <td className="p-3 align-top">
+                          <div className="flex flex-wrap gap-1">
+                            {item.duplicates.map((duplicate, i) => (
+                              <span
+                                key={i}
+                                className="inline-flex items-center gap-1 px-2 py-0.5 bg-red-50 text-red-700 rounded text-xs"
+                                title={duplicate.reasons.map(reason => `${reason.signal}: ${reason.detail}`).join('\n')}
+                              >
+                                <Copy className="w-3 h-3" />
+                                {duplicate.batchIndex !== null ? 'Same as file' : 'Matches'} {duplicate.name} ({Math.round(duplicate.score * 100)}%)
+                              </span>
+                            ))}
+                            {item.flags.map(flag => (
+                              <span
+                                key={flag}
+                                className="inline-flex items-center gap-1 px-2 py-0.5 bg-amber-50 text-amber-700 rounded text-xs"
+                              >
+                                <AlertTriangle className="w-3 h-3" />
+                                {RESUME_IMPORT_FLAG_LABELS[flag]}
+                              </span>
+                            ))}
+                            {phase !== 'parsing' && item.duplicates.length === 0 && item.flags.length === 0 && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-green-50 text-green-700 rounded text-xs">
+                                <CheckCircle className="w-3 h-3" />
+                                Looks good
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={EDITABLE_FIELDS.length + 2} className="p-3 align-top">
+                        {item.status === 'failed' ? (
+                          <span className="text-red-700">{item.error}</span>
+                        ) : item.status === 'parsing' ? (
+                          <span className="flex items-center gap-2 text-gray-500">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            Parsing...
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">{phase === 'parsing' ? 'Waiting...' : 'Not parsed'}</span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkImportPage;
@@ -0,0 +1,309 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ArrowRight,
+  Briefcase,
+  Cpu,
+  Eye,
+  FileText,
+  GitMerge,
+  Loader2,
+  MessageSquare,
+  Pencil,
+  Send,
+  ShieldCheck,
+  Sparkles,
+  Trash2,
+} from 'lucide-react';
+import { CandidateActivity, CandidateActivityType, ConsentStatus, Teammate } from '../types';
+import { supabase } from '../lib/supabaseClient';
+import {
+  addCandidateNote,
+  deleteCandidateNote,
+  fetchCandidateActivity,
+  fetchTeammates,
+  updateCandidateNote,
+} from '../services/candidateActivityService';
+import { CONSENT_STATUS_LABELS } from '../services/dataProtectionService';
+import { extractMentions, getMentionHandle, getMentionQuery, splitMentions } from '../utils/mentions';
+
+interface CandidateActivityTimelineProps {
+  candidateId: string | number;
+}
+
+const ACTIVITY_ICONS: Record<CandidateActivityType, React.ElementType> = {
+  note: MessageSquare,
+  resume_parsed: FileText,
+  embeddings_generated: Cpu,
+  added_to_job: Briefcase,
+  stage_changed: ArrowRight,
+  matched: Sparkles,
+  merged: GitMerge,
+  identity_revealed: Eye,
+  consent_changed: ShieldCheck,
+};
+
+/**
+ * One-line description of a system event
+ */
+const describeActivity = (activity: CandidateActivity): string => {
+  const meta = activity.metadata as Record<string, string | number | null | undefined>;
+  switch (activity.type) {
+    case 'resume_parsed':
+      return 'Resume parsed';
+    case 'embeddings_generated':
+      return meta.model ? `Embeddings regenerated (${meta.model})` : 'Embeddings regenerated';
+    case 'added_to_job':
+      return `Added to "${meta.job_title ?? 'a job'}" pipeline${meta.to_stage ? ` as ${meta.to_stage}` : ''}`;
+    case 'stage_changed':
+      return `Moved from ${meta.from_stage ?? '?'} to ${meta.to_stage ?? '?'} for "${meta.job_title ?? 'a job'}"`;
+    case 'matched':
+      return `Matched to "${meta.vacancy_title ?? 'a vacancy'}"${
+        typeof meta.final_score === 'number' ? ` at ${(meta.final_score * 100).toFixed(0)}%` : ''
+      }`;
+    case 'merged':
+      return `Merged with duplicate record "${meta.merged_name ?? 'Unknown'}"`;
+    case 'identity_revealed':
+      return `Identity revealed in blind review${meta.job_title ? ` for "${meta.job_title}"` : ''}${meta.reason ? `: ${meta.reason}` : ''}`;
+    case 'consent_changed':
+      return `Consent changed from ${CONSENT_STATUS_LABELS[meta.from_status as ConsentStatus] ?? meta.from_status ?? '?'} to ${
+        CONSENT_STATUS_LABELS[meta.to_status as ConsentStatus] ?? meta.to_status ?? '?'
+      }`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Notes with @mentions and system events for a candidate, newest first
+ */
+const CandidateActivityTimeline: React.FC<CandidateActivityTimelineProps> = ({ candidateId }) => {
+  const [activities, setActivities] = useState<CandidateActivity[]>([]);
+  const [teammates, setTeammates] = useState<Teammate[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const loadActivity = useCallback(async () => {
+    try {
+      setActivities(await fetchCandidateActivity(candidateId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [candidateId]);
+
+  useEffect(() => {
+    loadActivity();
+    fetchTeammates()
+      .then(setTeammates)
+      .catch(err => console.error('Error loading teammates:', err));
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, [loadActivity]);
+
+  const teammateName = (userId: string | null) => {
+    if (!userId) return 'System';
+    if (userId === currentUserId) return 'You';
+    return teammates.find(teammate => teammate.id === userId)?.name ?? 'Teammate';
+  };
+
+  const handleDraftChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setDraft(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+  };
+
+  const insertMention = (teammate: Teammate) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea?.selectionStart ?? draft.length;
+    const before = draft.slice(0, cursor).replace(/@[\w.+-]*$/, `@${getMentionHandle(teammate)} `);
+    setDraft(before + draft.slice(cursor));
+    setMentionQuery(null);
+    textarea?.focus();
+  };
+
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : teammates
+        .filter(teammate =>
+          getMentionHandle(teammate).startsWith(mentionQuery) || teammate.name.toLowerCase().startsWith(mentionQuery)
+        )
+        .slice(0, 5);
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+    setIsSaving(true);
+    try {
+      const mentions = extractMentions(draft, teammates);
+      if (editingId) {
+        await updateCandidateNote(editingId, draft, mentions);
+        setEditingId(null);
+      } else {
+        await addCandidateNote(candidateId, draft, mentions);
+      }
+      setDraft('');
+      setMentionQuery(null);
+      await loadActivity();
+    } catch (err) {
+      console.error('Error saving note:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save note');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (activity: CandidateActivity) => {
+    setEditingId(activity.id);
+    setDraft(activity.body || '');
+    textareaRef.current?.focus();
+  };
+
+  const handleDelete = async (activity: CandidateActivity) => {
+    if (!confirm('Delete this note?')) return;
+    try {
+      await deleteCandidateNote(activity.id);
+      setActivities(prev => prev.filter(a => a.id !== activity.id));
+    } catch (err) {
+      console.error('Error deleting note:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete note');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Note composer */}
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={handleDraftChange}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave();
+            if (e.key === 'Escape') setMentionQuery(null);
+          }}
+          placeholder="Add a note... Use @ to mention a teammate"
+          rows={3}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent resize-none"
+        />
+        {mentionSuggestions.length > 0 && (
+          <ul className="absolute left-0 top-full mt-1 z-20 w-64 bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+            {mentionSuggestions.map(teammate => (
+              <li key={teammate.id}>
+                <button
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    insertMention(teammate);
+                  }}
+                  className="w-full px-3 py-2 text-left hover:bg-purple-50"
+                >
+                  <span className="font-medium text-gray-900">{teammate.name}</span>
+                  <span className="text-gray-500"> @{getMentionHandle(teammate)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-end gap-2 mt-2">
+          {editingId && (
+            <button
+              onClick={() => {
+                setEditingId(null);
+                setDraft('');
+              }}
+              className="px-3 py-1.5 text-xs text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !draft.trim()}
+            className="flex items-center gap-2 px-3 py-1.5 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg text-xs hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            {editingId ? 'Save note' : 'Add note'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Timeline */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-gray-500 text-sm gap-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading activity...
+        </div>
+      ) : activities.length === 0 && !error ? (
+        <div className="text-center py-6 text-gray-600">
+          <MessageSquare className="w-12 h-12 mx-auto mb-2 text-gray-400" />
+          <p className="text-sm font-medium">No activity yet</p>
+          <p className="text-xs text-gray-500 mt-1">Notes, pipeline moves and matches show up here</p>
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+          {activities.map(activity => {
+            const Icon = ACTIVITY_ICONS[activity.type] ?? MessageSquare;
+            const isNote = activity.type === 'note';
+            const isOwnNote = isNote && activity.createdByUserId === currentUserId;
+            return (
+              <li key={activity.id} className="ml-5">
+                <span
+                  className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${
+                    isNote ? 'bg-purple-100 text-[#7C3AED]' : 'bg-gray-100 text-gray-500'
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                </span>
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                  <span>
+                    <span className="font-medium text-gray-700">{teammateName(activity.createdByUserId)}</span>
+                    {' · '}
+                    {new Date(activity.createdAt).toLocaleString()}
+                    {isNote && activity.updatedAt !== activity.createdAt && ' (edited)'}
+                  </span>
+                  {isOwnNote && (
+                    <span className="flex items-center gap-1">
+                      <button onClick={() => handleEdit(activity)} className="p-1 hover:text-[#7C3AED]" aria-label="Edit note">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDelete(activity)} className="p-1 hover:text-red-600" aria-label="Delete note">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </span>
+                  )}
+                </div>
+                {isNote ? (
+                  <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">
+                    {splitMentions(activity.body || '', teammates).map((part, index) =>
+                      part.teammate ? (
+                        <span key={index} className="px-1 rounded bg-purple-50 text-[#7C3AED] font-medium" title={part.teammate.email}>
+                          {part.text}
+                        </span>
+                      ) : (
+                        <React.Fragment key={index}>{part.text}</React.Fragment>
+                      )
+                    )}
+                  </p>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-700">{describeActivity(activity)}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default CandidateActivityTimeline;
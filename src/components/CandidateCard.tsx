@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   MapPin,
   Clock,
@@ -22,38 +22,88 @@ import {
   Edit2,
   DollarSign,
   Trash2,
+  Loader2,
+  MessageSquare,
+  Download,
+  EyeOff,
+  Shield,
 } from 'lucide-react';
 import { Candidate } from '../types';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './Tabs';
 import ResumeViewer from './ResumeViewer';
 import ContactModal from './ContactModal';
-import mammoth from 'mammoth';
-import { extractContacts, removeContactsFromHtml } from '../utils/resumeParser';
+import AddToPipelineModal from './AddToPipelineModal';
+import CandidateActivityTimeline from './CandidateActivityTimeline';
+import CandidateWorkHistory from './CandidateWorkHistory';
+import CandidatePrivacyPanel from './CandidatePrivacyPanel';
+import Link from './Link';
+import { findMatchingVacancies, type VacancyMatchDetails } from '../services/matchingApi';
+import { RESUME_STANDARD_LABELS, downloadCandidateDocument, type ResumeStandard } from '../utils/resumeStandards';
+import { fetchCandidateWorkHistory } from '../services/workHistoryService';
+import { uploadResumeVersion } from '../services/resumeImportService';
+import { useBlindReview } from '../hooks/useBlindReview';
+import { anonymizeCandidate, anonymizeResumeHtml, anonymizeText } from '../utils/blindReview';
+import { paths } from '../utils/routes';
 
 interface CandidateCardProps {
   candidate: Candidate;
-  onResumeUpload?: (candidateId: number, resume: { file: File; htmlContent: string; contacts?: { email: string | null; phone: string | null; linkedin: string | null } }) => void;
-  onCandidateUpdate?: (candidateId: number, updates: Partial<Candidate>) => void;
+  onResumeUpload?: (candidateId: string, resume: { file: File; htmlContent: string; contacts?: { email: string | null; phone: string | null; linkedin: string | null } }) => void;
+  onCandidateUpdate?: (candidateId: string, updates: Partial<Candidate>) => void;
   onEdit?: (candidate: Candidate) => void;
-  onDelete?: (candidateId: number) => void;
+  onDelete?: (candidateId: string) => void;
+  onErased?: (candidateId: string) => void; // Erased from the Privacy tab
+  onAddToPipeline?: (candidate: Candidate) => void; // Add to a known job; without it the card asks which job
+  isInPipeline?: boolean;
+  blindReview?: boolean; // The job reviews its candidates blind
+  jobId?: number; // Job the card is shown for, logged with identity reveals
+  onRevealed?: (candidateId: string) => void; // Reload the candidate, which the database masked until the reveal
+  defaultExpanded?: boolean; // Opened from the candidate's URL
 }
 
-const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload, onCandidateUpdate, onEdit, onDelete }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+const CandidateCard: React.FC<CandidateCardProps> = ({ candidate: realCandidate, onResumeUpload, onCandidateUpdate, onEdit, onDelete, onErased, onAddToPipeline, isInPipeline, blindReview, jobId, onRevealed, defaultExpanded = false }) => {
+  const { isHidden, reveal } = useBlindReview(blindReview);
+  const isAnonymized = isHidden(realCandidate.id);
+  // What the card shows; actions (edit, updates, pipeline) always use the real candidate
+  const candidate = useMemo(
+    () => (isAnonymized ? anonymizeCandidate(realCandidate) : realCandidate),
+    [isAnonymized, realCandidate]
+  );
+  const blindFor = useMemo(
+    () => (isAnonymized ? { id: realCandidate.id, name: realCandidate.name, location: realCandidate.location, companyNames: realCandidate.companyNames } : undefined),
+    [isAnonymized, realCandidate.id, realCandidate.name, realCandidate.location, realCandidate.companyNames]
+  );
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
   const [isRelocationOpen, setIsRelocationOpen] = useState(false);
   const [resume, setResume] = useState<{ file: File | null; htmlContent: string; contacts?: { email: string | null; phone: string | null; linkedin: string | null } } | null>(
-    candidate.resume || null
+    realCandidate.resume || null
   );
   
   // Update resume when candidate prop changes
   useEffect(() => {
-    if (candidate.resume) {
-      setResume(candidate.resume);
+    if (realCandidate.resume) {
+      setResume(realCandidate.resume);
     }
-  }, [candidate.resume]);
+  }, [realCandidate.resume]);
+  const displayedResume = useMemo(
+    () =>
+      resume && blindFor
+        ? { file: null, htmlContent: anonymizeResumeHtml(resume.htmlContent, blindFor), contacts: { email: null, phone: null, linkedin: null } }
+        : resume,
+    [resume, blindFor]
+  );
+  const anonymizeResume = useMemo(
+    () => blindFor && ((html: string) => anonymizeResumeHtml(html, blindFor)),
+    [blindFor]
+  );
   const [isResumeViewerOpen, setIsResumeViewerOpen] = useState(false);
+  const [isUploadingResume, setIsUploadingResume] = useState(false);
   const [isContactModalOpen, setIsContactModalOpen] = useState(false);
+  const [isPipelineModalOpen, setIsPipelineModalOpen] = useState(false);
   const [isRelatedIndustriesOpen, setIsRelatedIndustriesOpen] = useState(false);
+  const [matchingVacancies, setMatchingVacancies] = useState<VacancyMatchDetails[] | null>(null);
+  const [isFindingVacancies, setIsFindingVacancies] = useState(false);
+  const [vacancyMatchError, setVacancyMatchError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const relocationRef = useRef<HTMLDivElement>(null);
 
@@ -81,74 +131,55 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
 
   const handleAddToPipeline = (e: React.MouseEvent) => {
     e.stopPropagation();
-    const jobTitle = prompt('Select job to add candidate to:');
-    if (jobTitle) {
-      alert(`✅ ${candidate.name} added to pipeline for "${jobTitle}"`);
+    if (onAddToPipeline) {
+      onAddToPipeline(realCandidate);
+    } else {
+      setIsPipelineModalOpen(true);
     }
   };
 
   const displayedIndustries = candidate.industries.slice(0, 5);
 
+  // Every upload is stored as a new resume version and parsed again
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
 
-    const isDocx = file.name.endsWith('.docx');
-    const isPdf = file.name.endsWith('.pdf');
-
-    if (!isDocx && !isPdf) {
+    if (!/\.(docx|pdf)$/i.test(file.name)) {
       alert('Please upload a .docx or .pdf file');
       return;
     }
 
+    setIsUploadingResume(true);
     try {
-      let htmlContent: string;
-      let contacts: { email: string | null; phone: string | null; linkedin: string | null };
-
-      if (isDocx) {
-        // Convert DOCX to HTML
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.convertToHtml({ arrayBuffer });
-        htmlContent = result.value;
-
-        // Extract contacts from resume
-        contacts = extractContacts(htmlContent);
-        
-        // Remove contacts from HTML content
-        htmlContent = removeContactsFromHtml(htmlContent, contacts);
-      } else if (isPdf) {
-        // Convert PDF to text first
-        const { convertPdfToText } = await import('../services/resumeParserService');
-        const pdfText = await convertPdfToText(file);
-        
-        // Create simple HTML from PDF text
-        htmlContent = `<div style="white-space: pre-wrap; font-family: Arial, sans-serif; line-height: 1.6; padding: 20px;">${pdfText.replace(/\n/g, '<br>')}</div>`;
-        
-        // Extract contacts from PDF text (basic extraction)
-        contacts = extractContacts(htmlContent);
-      } else {
-        throw new Error('Unsupported file type');
-      }
-
-      const resumeData = { file, htmlContent, contacts };
+      const { parsed } = await uploadResumeVersion(realCandidate.id, file);
+      const contacts = {
+        email: parsed.resume?.contacts?.email ?? null,
+        phone: parsed.resume?.contacts?.phone ?? null,
+        linkedin: parsed.resume?.contacts?.linkedin ?? null,
+      };
+      const resumeData = { file, htmlContent: parsed.resume?.htmlContent || '', contacts };
       setResume(resumeData);
 
       // Update candidate's LinkedIn link if found
       if (contacts.linkedin && onCandidateUpdate) {
-        onCandidateUpdate(candidate.id, {
+        onCandidateUpdate(realCandidate.id, {
           socialLinks: {
-            ...candidate.socialLinks,
+            ...realCandidate.socialLinks,
             linkedin: contacts.linkedin,
           },
         });
       }
 
       if (onResumeUpload) {
-        onResumeUpload(candidate.id, resumeData);
+        onResumeUpload(realCandidate.id, resumeData);
       }
     } catch (error) {
-      console.error('Error parsing resume:', error);
-      alert('Error parsing resume file. Please try again.');
+      console.error('Error uploading resume:', error);
+      alert(`Error uploading resume: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setIsUploadingResume(false);
     }
   };
 
@@ -169,13 +200,53 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
     setIsExpanded(!isExpanded);
   };
 
+  // Reveals are logged on the candidate's timeline; cancelling the prompt keeps the candidate hidden
+  const handleReveal = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const reason = window.prompt(`Reveal the identity of ${candidate.name}? The reveal is logged. Reason (optional):`);
+    if (reason === null) return;
+
+    setIsRevealing(true);
+    try {
+      await reveal(realCandidate.id, { jobId, reason });
+      onRevealed?.(realCandidate.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to reveal candidate');
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
   const handleResumeClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (resume && resume.file) {
+    if (resume && resume.htmlContent) {
       setIsResumeViewerOpen(true);
     }
   };
 
+  const handleFindMatchingVacancies = async () => {
+    setIsFindingVacancies(true);
+    setVacancyMatchError(null);
+    try {
+      const results = await findMatchingVacancies(candidate.id);
+      setMatchingVacancies(results);
+    } catch (error) {
+      setVacancyMatchError(error instanceof Error ? error.message : 'Failed to find matching jobs');
+    } finally {
+      setIsFindingVacancies(false);
+    }
+  };
+
+  // Work history is loaded on demand, so fetch it for the export; the profile alone is still exportable
+  const handleExportProfile = async (standard: ResumeStandard) => {
+    try {
+      const history = await fetchCandidateWorkHistory(realCandidate.id);
+      downloadCandidateDocument({ ...candidate, ...history }, standard);
+    } catch {
+      downloadCandidateDocument(candidate, standard);
+    }
+  };
+
   return (
     <>
       <input
@@ -219,12 +290,14 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-0.5">
-              <h3 className="text-lg font-bold text-white">{candidate.name}</h3>
+              <h3 className="text-lg font-bold text-white">
+                <Link to={paths.candidate(realCandidate.id)} className="hover:underline">{candidate.name}</Link>
+              </h3>
               {/* Social Links - attached to name */}
               <div className="flex items-center gap-1.5" onClick={(e) => e.stopPropagation()}>
-                {(candidate.socialLinks.linkedin || candidate.resume?.contacts?.linkedin || resume?.contacts?.linkedin) && (
+                {(candidate.socialLinks.linkedin || candidate.resume?.contacts?.linkedin || displayedResume?.contacts?.linkedin) && (
                   <a
-                    href={candidate.socialLinks.linkedin || candidate.resume?.contacts?.linkedin || resume?.contacts?.linkedin || '#'}
+                    href={candidate.socialLinks.linkedin || candidate.resume?.contacts?.linkedin || displayedResume?.contacts?.linkedin || '#'}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="w-6 h-6 rounded-full bg-white/20 flex items-center justify-center hover:bg-white/30 transition-colors duration-200"
@@ -364,14 +437,26 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
                 </div>
               </div>
             )}
+            {/* Salary fit against the job's budget (job matches only) */}
+            {candidate.salaryFit && (
+              <div className="bg-white/20 backdrop-blur-sm border border-white/30 rounded-lg px-3 py-1 mb-2">
+                <span className="text-xs text-white font-semibold">
+                  {candidate.salaryFit.overlap
+                    ? 'Within budget'
+                    : candidate.salaryFit.over_budget_pct > 0
+                      ? `${Math.round(candidate.salaryFit.over_budget_pct * 100)}% over budget`
+                      : `${Math.round(candidate.salaryFit.under_budget_pct * 100)}% under budget`}
+                </span>
+              </div>
+            )}
             {/* Top row: Edit and Delete buttons */}
             <div className="flex items-center gap-2">
               {/* Edit Button */}
-              {onEdit && (
+              {onEdit && !isAnonymized && (
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    onEdit(candidate);
+                    onEdit(realCandidate);
                   }}
                   className="w-7 h-7 rounded-full bg-white/20 border border-white/30 flex items-center justify-center hover:bg-white/30 transition-all duration-200 text-white focus:outline-none focus:ring-2 focus:ring-white"
                   aria-label="Edit candidate"
@@ -399,20 +484,39 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
             </div>
             {/* Buttons - second row */}
             <div className="flex items-center gap-2">
-              <button
-                onClick={handleContact}
-                className="flex items-center gap-1.5 px-3 py-1 bg-white/20 border border-white/30 text-white text-xs rounded-md hover:bg-white/30 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white"
-              >
-                <Phone className="w-3 h-3" />
-                Get in touch
-              </button>
-              <button
-                onClick={handleAddToPipeline}
-                className="flex items-center gap-1.5 px-3 py-1 bg-white/20 border border-white/30 text-white rounded-md text-xs hover:bg-white/30 hover:scale-105 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white"
-              >
-                <Plus className="w-3 h-3" />
-                Add to Pipeline
-              </button>
+              {isAnonymized ? (
+                <button
+                  onClick={handleReveal}
+                  disabled={isRevealing}
+                  className="flex items-center gap-1.5 px-3 py-1 bg-white/20 border border-white/30 text-white text-xs rounded-md hover:bg-white/30 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white disabled:opacity-50"
+                  title="Blind review: name, contacts, employers and location are hidden"
+                >
+                  {isRevealing ? <Loader2 className="w-3 h-3 animate-spin" /> : <EyeOff className="w-3 h-3" />}
+                  Reveal identity
+                </button>
+              ) : (
+                <button
+                  onClick={handleContact}
+                  className="flex items-center gap-1.5 px-3 py-1 bg-white/20 border border-white/30 text-white text-xs rounded-md hover:bg-white/30 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white"
+                >
+                  <Phone className="w-3 h-3" />
+                  Get in touch
+                </button>
+              )}
+              {isInPipeline ? (
+                <span className="flex items-center gap-1.5 px-3 py-1 bg-white/30 border border-white/40 text-white rounded-md text-xs">
+                  <Check className="w-3 h-3" />
+                  In Pipeline
+                </span>
+              ) : (
+                <button
+                  onClick={handleAddToPipeline}
+                  className="flex items-center gap-1.5 px-3 py-1 bg-white/20 border border-white/30 text-white rounded-md text-xs hover:bg-white/30 hover:scale-105 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add to Pipeline
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -467,7 +571,7 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
           )}
             <div className="flex items-center gap-1.5">
               <Clock className="w-3.5 h-3.5 text-gray-500" />
-              <span>{candidate.experience} in total</span>
+              <span>{candidate.experience} in total{candidate.seniorityLevel ? ` • ${candidate.seniorityLevel}` : ''}</span>
             </div>
             {(candidate.salaryMin || candidate.salaryMax) && (
               <div className="flex items-center gap-1.5">
@@ -554,31 +658,54 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
                   <Target className="w-3.5 h-3.5 mr-1.5" />
                   Match with Job
                 </TabsTrigger>
+                <TabsTrigger value="jobs">
+                  <Briefcase className="w-3.5 h-3.5 mr-1.5" />
+                  Matching jobs
+                </TabsTrigger>
                 <TabsTrigger value="about">
                   <User className="w-3.5 h-3.5 mr-1.5" />
                   About Candidate
                 </TabsTrigger>
+                <TabsTrigger value="activity">
+                  <MessageSquare className="w-3.5 h-3.5 mr-1.5" />
+                  Activity
+                </TabsTrigger>
+                {!isAnonymized && (
+                  <TabsTrigger value="privacy">
+                    <Shield className="w-3.5 h-3.5 mr-1.5" />
+                    Privacy
+                  </TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="resume">
-                {resume && resume.htmlContent ? (
+                {displayedResume && displayedResume.htmlContent ? (
                   <div className="space-y-3">
-                    {resume.file && (
-                      <div className="flex items-center justify-end mb-3">
-                        <button
-                          onClick={handleResumeClick}
-                          className="flex items-center gap-2 px-3 py-1.5 bg-purple-50 border border-purple-300 text-[#7C3AED] rounded-lg text-xs hover:bg-purple-100 transition-all duration-200"
-                        >
-                          <Eye className="w-4 h-4" />
-                          View Full Resume
-                        </button>
-                      </div>
-                    )}
+                    <div className="flex items-center justify-end gap-2 mb-3">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          fileInputRef.current?.click();
+                        }}
+                        disabled={isUploadingResume}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg text-xs hover:border-[#7C3AED] hover:text-[#7C3AED] transition-all duration-200 disabled:opacity-50 resume-upload-trigger"
+                      >
+                        {isUploadingResume ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                        {isUploadingResume ? 'Parsing…' : 'Upload New Version'}
+                      </button>
+                      <button
+                        onClick={handleResumeClick}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-purple-50 border border-purple-300 text-[#7C3AED] rounded-lg text-xs hover:bg-purple-100 transition-all duration-200"
+                      >
+                        <Eye className="w-4 h-4" />
+                        View Full Resume
+                      </button>
+                    </div>
                     {/* Resume Preview */}
                     <div className="border border-gray-200 rounded-lg bg-white max-h-96 overflow-y-auto p-4">
                       <div
                         className="prose prose-sm max-w-none"
-                        dangerouslySetInnerHTML={{ __html: resume.htmlContent }}
+                        dangerouslySetInnerHTML={{ __html: displayedResume.htmlContent }}
                       />
                     </div>
                   </div>
@@ -598,10 +725,11 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
                         e.stopPropagation();
                         fileInputRef.current?.click();
                       }}
-                      className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg text-sm hover:opacity-90 transition-opacity mx-auto resume-upload-trigger"
+                      disabled={isUploadingResume}
+                      className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg text-sm hover:opacity-90 transition-opacity mx-auto resume-upload-trigger disabled:opacity-50"
                     >
-                      <Upload className="w-4 h-4" />
-                      Upload Resume (.docx or .pdf)
+                      {isUploadingResume ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                      {isUploadingResume ? 'Parsing resume…' : 'Upload Resume (.docx or .pdf)'}
                     </button>
                   </div>
                 )}
@@ -615,22 +743,126 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
                 </div>
               </TabsContent>
 
-              <TabsContent value="about">
-                <div className="text-center py-6 text-gray-600">
-                  <User className="w-12 h-12 mx-auto mb-2 text-gray-400" />
-                  <p className="text-sm font-medium">Candidate background and details</p>
-                  <p className="text-xs text-gray-500 mt-1">Education, certifications, and additional information</p>
+              <TabsContent value="jobs">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">Open vacancies ranked for this candidate</p>
+                    <button
+                      onClick={handleFindMatchingVacancies}
+                      disabled={isFindingVacancies}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg text-xs hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                      {isFindingVacancies ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Sparkles className="w-4 h-4" />
+                      )}
+                      {isFindingVacancies ? 'Matching...' : matchingVacancies ? 'Refresh' : 'Find matching jobs'}
+                    </button>
+                  </div>
+
+                  {vacancyMatchError && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+                      {vacancyMatchError}
+                    </div>
+                  )}
+
+                  {matchingVacancies && matchingVacancies.length === 0 && !isFindingVacancies && (
+                    <div className="text-center py-6 text-gray-600">
+                      <Briefcase className="w-12 h-12 mx-auto mb-2 text-gray-400" />
+                      <p className="text-sm font-medium">No matching open vacancies</p>
+                    </div>
+                  )}
+
+                  {matchingVacancies && matchingVacancies.length > 0 && (
+                    <div className="space-y-2">
+                      {matchingVacancies.map((vacancy) => (
+                        <div key={vacancy.vacancy_id} className="border border-gray-200 rounded-lg p-3 bg-white">
+                          <div className="flex items-start justify-between gap-3">
+                            <div>
+                              <Link to={paths.match(vacancy.vacancy_id)} className="block text-sm font-semibold text-gray-900 hover:text-[#7C3AED]">
+                                {vacancy.title}
+                              </Link>
+                              <p className="text-xs text-gray-500 flex items-center gap-1">
+                                <MapPin className="w-3 h-3" />
+                                {vacancy.location}
+                              </p>
+                            </div>
+                            <span className="px-2 py-1 bg-purple-100 text-[#7C3AED] rounded-full text-xs font-semibold">
+                              {(vacancy.final_score * 100).toFixed(0)}%
+                            </span>
+                          </div>
+                          <div className="flex gap-3 mt-2 text-xs text-gray-500">
+                            <span>Pre: {(vacancy.pre_score * 100).toFixed(0)}%</span>
+                            <span>Neural: {(vacancy.neural_rank_score * 100).toFixed(0)}%</span>
+                            <span>LLM: {(vacancy.llm_score * 100).toFixed(0)}%</span>
+                          </div>
+                          {vacancy.explanation && (
+                            <p className="text-xs text-gray-700 mt-2">
+                              {blindFor ? anonymizeText(vacancy.explanation, blindFor) : vacancy.explanation}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {!matchingVacancies && !isFindingVacancies && !vacancyMatchError && (
+                    <div className="text-center py-6 text-gray-600">
+                      <Briefcase className="w-12 h-12 mx-auto mb-2 text-gray-400" />
+                      <p className="text-sm font-medium">Find open vacancies that fit this candidate</p>
+                      <p className="text-xs text-gray-500 mt-1">Uses the same scores as vacancy matching</p>
+                    </div>
+                  )}
                 </div>
               </TabsContent>
+
+              <TabsContent value="about">
+                <CandidateWorkHistory candidateId={candidate.id} blindFor={blindFor} />
+                {!isAnonymized && (
+                  <div className="flex items-center justify-center gap-2 border-t border-gray-100 pt-3 mt-4">
+                    <span className="text-xs text-gray-500">Export profile:</span>
+                    {(Object.keys(RESUME_STANDARD_LABELS) as ResumeStandard[]).map(standard => (
+                      <button
+                        key={standard}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportProfile(standard);
+                        }}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-purple-50 border border-purple-300 text-[#7C3AED] rounded-lg text-xs hover:bg-purple-100 transition-all duration-200"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                        {RESUME_STANDARD_LABELS[standard]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="activity">
+                <CandidateActivityTimeline candidateId={candidate.id} />
+              </TabsContent>
+
+              {!isAnonymized && (
+                <TabsContent value="privacy">
+                  <CandidatePrivacyPanel
+                    candidateId={candidate.id}
+                    candidateName={candidate.name}
+                    onErased={() => onErased?.(candidate.id)}
+                  />
+                </TabsContent>
+              )}
             </Tabs>
           </div>
         )}
       </div>
       {/* Resume Viewer Popup */}
-      {isResumeViewerOpen && resume && resume.file && (
+      {isResumeViewerOpen && displayedResume && (
         <ResumeViewer
-          resumeFile={resume.file}
-          htmlContent={resume.htmlContent}
+          candidateId={candidate.id}
+          resumeFile={displayedResume.file}
+          htmlContent={displayedResume.htmlContent}
+          anonymizeHtml={anonymizeResume}
           onClose={() => setIsResumeViewerOpen(false)}
         />
       )}
@@ -641,6 +873,14 @@ const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, onResumeUpload
         onClose={() => setIsContactModalOpen(false)}
         candidate={candidate}
       />
+
+      {/* Add to Pipeline Modal */}
+      <AddToPipelineModal
+        open={isPipelineModalOpen}
+        onClose={() => setIsPipelineModalOpen(false)}
+        candidateId={candidate.id}
+        candidateName={candidate.name}
+      />
     </div>
     </>
   );
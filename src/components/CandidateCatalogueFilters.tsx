@@ -0,0 +1,191 @@
+import React from 'react';
+import { Filter, Briefcase, MapPin, DollarSign, Tag, ArrowUpDown } from 'lucide-react';
+import { UNIFIED_TITLES_SORTED } from '../utils/unifiedTitlesMapping';
+import type { CandidateSort } from '../repositories/candidates';
+
+/**
+ * Filter inputs as typed; SearchPage keeps them in the URL and turns them into CandidateFilters
+ */
+export interface CatalogueFilterValues {
+  unifiedTitle: string;
+  location: string;
+  industry: string;
+  status: string;
+  salaryFrom: string;
+  salaryTo: string;
+  skills: string; // Comma-separated
+}
+
+interface CandidateCatalogueFiltersProps {
+  values: CatalogueFilterValues;
+  sort: CandidateSort;
+  onChange: (key: keyof CatalogueFilterValues, value: string) => void;
+  onSortChange: (sort: CandidateSort) => void;
+  onClear: () => void;
+}
+
+const SORT_OPTIONS: { value: CandidateSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'name', label: 'Name (A-Z)' },
+  { value: 'salary_high', label: 'Salary (high to low)' },
+  { value: 'salary_low', label: 'Salary (low to high)' },
+];
+
+const STATUS_OPTIONS = [
+  { value: 'actively_looking', label: 'Actively looking' },
+  { value: 'open_to_offers', label: 'Open to offers' },
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#7C3AED]';
+const labelClassName = 'text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2';
+
+/**
+ * Star Catalogue filter and sort panel; the filtering itself happens in the database
+ */
+const CandidateCatalogueFilters: React.FC<CandidateCatalogueFiltersProps> = ({ values, sort, onChange, onSortChange, onClear }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Filter className="w-5 h-5 text-[#7C3AED]" />
+          Filters
+        </h2>
+        <button
+          onClick={onClear}
+          className="text-sm text-[#7C3AED] hover:text-[#06B6D4]"
+        >
+          Clear all
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="catalogue-title" className={labelClassName}>
+            <Briefcase className="w-4 h-4" />
+            Unified title
+          </label>
+          <select
+            id="catalogue-title"
+            value={values.unifiedTitle}
+            onChange={(e) => onChange('unifiedTitle', e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Any title</option>
+            {UNIFIED_TITLES_SORTED.map((title: string) => (
+              <option key={title} value={title}>{title}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="catalogue-location" className={labelClassName}>
+            <MapPin className="w-4 h-4" />
+            Location
+          </label>
+          <input
+            id="catalogue-location"
+            type="text"
+            value={values.location}
+            onChange={(e) => onChange('location', e.target.value)}
+            placeholder="e.g. Berlin"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="catalogue-industry" className={labelClassName}>
+            <Briefcase className="w-4 h-4" />
+            Industry
+          </label>
+          <input
+            id="catalogue-industry"
+            type="text"
+            value={values.industry}
+            onChange={(e) => onChange('industry', e.target.value)}
+            placeholder="e.g. Fintech"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="catalogue-status" className={labelClassName}>
+            Status
+          </label>
+          <select
+            id="catalogue-status"
+            value={values.status}
+            onChange={(e) => onChange('status', e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Any status</option>
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <span className={labelClassName}>
+            <DollarSign className="w-4 h-4" />
+            Salary per year
+          </span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              value={values.salaryFrom}
+              onChange={(e) => onChange('salaryFrom', e.target.value)}
+              placeholder="From"
+              aria-label="Salary from"
+              className={inputClassName}
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="number"
+              min={0}
+              value={values.salaryTo}
+              onChange={(e) => onChange('salaryTo', e.target.value)}
+              placeholder="To"
+              aria-label="Salary to"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="md:col-span-2">
+          <label htmlFor="catalogue-skills" className={labelClassName}>
+            <Tag className="w-4 h-4" />
+            Skills (all of)
+          </label>
+          <input
+            id="catalogue-skills"
+            type="text"
+            value={values.skills}
+            onChange={(e) => onChange('skills', e.target.value)}
+            placeholder="e.g. python, kubernetes"
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="catalogue-sort" className={labelClassName}>
+            <ArrowUpDown className="w-4 h-4" />
+            Sort by
+          </label>
+          <select
+            id="catalogue-sort"
+            value={sort}
+            onChange={(e) => onSortChange(e.target.value as CandidateSort)}
+            className={inputClassName}
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateCatalogueFilters;
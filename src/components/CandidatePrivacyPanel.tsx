@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import { CandidateDataSource, CandidatePrivacy, ConsentStatus, LegalBasis } from '../types';
+import {
+  CONSENT_STATUS_LABELS,
+  DATA_SOURCE_LABELS,
+  LEGAL_BASIS_LABELS,
+  eraseCandidateData,
+  exportCandidateData,
+  fetchCandidatePrivacy,
+  updateCandidatePrivacy,
+} from '../services/dataProtectionService';
+
+interface CandidatePrivacyPanelProps {
+  candidateId: string | number;
+  candidateName: string;
+  onErased?: (candidateId: string | number) => void;
+}
+
+const selectClassName =
+  'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:border-[#7C3AED]';
+
+/**
+ * Consent, data source and retention of a candidate, with data export and erasure
+ */
+const CandidatePrivacyPanel: React.FC<CandidatePrivacyPanelProps> = ({ candidateId, candidateName, onErased }) => {
+  const [privacy, setPrivacy] = useState<CandidatePrivacy | null>(null);
+  const [form, setForm] = useState<CandidatePrivacy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isErasing, setIsErasing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchCandidatePrivacy(candidateId)
+      .then(result => {
+        if (cancelled) return;
+        setPrivacy(result);
+        setForm(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load privacy settings');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [candidateId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 text-[#7C3AED] animate-spin" />
+      </div>
+    );
+  }
+
+  if (!privacy || !form) {
+    return <p className="text-sm text-red-600 py-4 text-center">{error}</p>;
+  }
+
+  const isDirty = (Object.keys(form) as (keyof CandidatePrivacy)[]).some(key => form[key] !== privacy[key]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateCandidatePrivacy(candidateId, {
+        ...(form.consentStatus !== privacy.consentStatus && { consentStatus: form.consentStatus }),
+        legalBasis: form.legalBasis,
+        dataSource: form.dataSource,
+        sourceDetails: form.sourceDetails,
+        retainUntil: form.retainUntil,
+      });
+      // Reload for the new retention date
+      const updated = await fetchCandidatePrivacy(candidateId);
+      setPrivacy(updated);
+      setForm(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save privacy settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await exportCandidateData(candidateId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export candidate data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!window.confirm(`Permanently erase ${candidateName}? Their profile, resumes, notes, pipeline history and match results are deleted everywhere. This cannot be undone.`)) {
+      return;
+    }
+
+    setIsErasing(true);
+    setError(null);
+    try {
+      await eraseCandidateData(candidateId, 'erasure_request');
+      onErased?.(candidateId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to erase candidate');
+      setIsErasing(false);
+    }
+  };
+
+  const expiresAt = privacy.expiresAt ? new Date(privacy.expiresAt) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <label className="space-y-1">
+          <span className="text-gray-500 font-semibold uppercase">Consent</span>
+          <select
+            value={form.consentStatus}
+            onChange={e => setForm({ ...form, consentStatus: e.target.value as ConsentStatus })}
+            className={selectClassName}
+          >
+            {(Object.keys(CONSENT_STATUS_LABELS) as ConsentStatus[]).map(status => (
+              <option key={status} value={status}>{CONSENT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          {privacy.consentUpdatedAt && (
+            <span className="block text-gray-400">Updated {new Date(privacy.consentUpdatedAt).toLocaleDateString()}</span>
+          )}
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500 font-semibold uppercase">Legal basis</span>
+          <select
+            value={form.legalBasis}
+            onChange={e => setForm({ ...form, legalBasis: e.target.value as LegalBasis })}
+            className={selectClassName}
+          >
+            {(Object.keys(LEGAL_BASIS_LABELS) as LegalBasis[]).map(basis => (
+              <option key={basis} value={basis}>{LEGAL_BASIS_LABELS[basis]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500 font-semibold uppercase">Source</span>
+          <select
+            value={form.dataSource}
+            onChange={e => setForm({ ...form, dataSource: e.target.value as CandidateDataSource })}
+            className={selectClassName}
+          >
+            {(Object.keys(DATA_SOURCE_LABELS) as CandidateDataSource[]).map(source => (
+              <option key={source} value={source}>{DATA_SOURCE_LABELS[source]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500 font-semibold uppercase">Source details</span>
+          <input
+            type="text"
+            value={form.sourceDetails || ''}
+            onChange={e => setForm({ ...form, sourceDetails: e.target.value || null })}
+            placeholder="e.g. referred by, job posting URL"
+            className={selectClassName}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500 font-semibold uppercase">Keep until</span>
+          <input
+            type="date"
+            value={form.retainUntil ? form.retainUntil.split('T')[0] : ''}
+            onChange={e => setForm({ ...form, retainUntil: e.target.value || null })}
+            className={selectClassName}
+          />
+        </label>
+        <div className="space-y-1">
+          <span className="text-gray-500 font-semibold uppercase">Scheduled deletion</span>
+          <p className={`py-1.5 text-sm ${expiresAt && expiresAt <= new Date() ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+            {expiresAt
+              ? expiresAt <= new Date()
+                ? 'Due at the next purge'
+                : expiresAt.toLocaleDateString()
+              : 'No retention policy'}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 border-t border-gray-100 pt-3">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            handleSave();
+          }}
+          disabled={!isDirty || isSaving}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg text-xs hover:opacity-90 transition-opacity disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ShieldCheck className="w-3.5 h-3.5" />}
+          Save
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleExport();
+            }}
+            disabled={isExporting}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-purple-50 border border-purple-300 text-[#7C3AED] rounded-lg text-xs hover:bg-purple-100 transition-all duration-200 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+            Export all data
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleErase();
+            }}
+            disabled={isErasing}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-red-50 border border-red-300 text-red-700 rounded-lg text-xs hover:bg-red-100 transition-all duration-200 disabled:opacity-50"
+          >
+            {isErasing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+            Erase permanently
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CandidatePrivacyPanel;
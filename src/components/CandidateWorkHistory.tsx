@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Briefcase, GraduationCap, Loader2, MapPin } from 'lucide-react';
+import { EducationEntry, WorkPosition } from '../types';
+import { fetchCandidateWorkHistory } from '../services/workHistoryService';
+import { anonymizeEducation, anonymizeWorkHistory, type IdentitySource } from '../utils/blindReview';
+import { calculateWorkHistorySignals, monthIndex } from '../../supabase/functions/_shared/matching/workHistory.ts';
+
+interface CandidateWorkHistoryProps {
+  candidateId: string | number;
+  blindFor?: IdentitySource; // Blind review: the identity to hide
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "2019-03" → "Mar 2019", "2019" → "2019"
+const formatDate = (date?: string) => {
+  const [year, month] = (date || '').split('-');
+  return month ? `${MONTH_LABELS[Number(month) - 1]} ${year}` : year || '';
+};
+
+const formatDuration = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [years > 0 && `${years} yr${years > 1 ? 's' : ''}`, rest > 0 && `${rest} mo${rest > 1 ? 's' : ''}`]
+    .filter(Boolean)
+    .join(' ') || '< 1 mo';
+};
+
+const positionDuration = (position: WorkPosition) => {
+  const start = monthIndex(position.startDate);
+  const today = new Date();
+  const end = position.isCurrent ? today.getFullYear() * 12 + today.getMonth() : monthIndex(position.endDate);
+  return start !== null && end !== null && end >= start ? formatDuration(end - start + 1) : null;
+};
+
+const dateRange = (start?: string, end?: string, isCurrent = false) => {
+  if (!start && !end && !isCurrent) return null;
+  return `${formatDate(start) || '?'} – ${isCurrent ? 'Present' : formatDate(end) || '?'}`;
+};
+
+/**
+ * Positions and education as a timeline, with average tenure and employment gaps
+ */
+const CandidateWorkHistory: React.FC<CandidateWorkHistoryProps> = ({ candidateId, blindFor }) => {
+  const [workHistory, setWorkHistory] = useState<WorkPosition[]>([]);
+  const [education, setEducation] = useState<EducationEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchCandidateWorkHistory(candidateId)
+      .then(history => {
+        if (cancelled) return;
+        setWorkHistory(blindFor ? anonymizeWorkHistory(history.workHistory, blindFor) : history.workHistory);
+        setEducation(blindFor ? anonymizeEducation(history.education) : history.education);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load work history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [candidateId, blindFor]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 text-[#7C3AED] animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 py-4 text-center">{error}</p>;
+  }
+
+  if (workHistory.length === 0 && education.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-600">
+        <Briefcase className="w-12 h-12 mx-auto mb-2 text-gray-400" />
+        <p className="text-sm font-medium">No work history extracted</p>
+        <p className="text-xs text-gray-500 mt-1">Positions and education are extracted when a resume is parsed or a JSON Resume is imported</p>
+      </div>
+    );
+  }
+
+  const signals = calculateWorkHistorySignals(
+    workHistory.map(position => ({
+      title: position.title,
+      company: position.company || null,
+      start_date: position.startDate || null,
+      end_date: position.endDate || null,
+      is_current: position.isCurrent,
+    })),
+    null
+  );
+
+  return (
+    <div className="space-y-5">
+      {signals && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          <span className="px-2 py-1 rounded bg-purple-50 text-[#7C3AED]">
+            Average tenure {formatDuration(signals.average_tenure_months)}
+          </span>
+          {signals.gaps.map(gap => (
+            <span key={gap.from} className="px-2 py-1 rounded bg-gray-100 text-gray-600">
+              Gap {formatDate(gap.from)} – {gap.to ? formatDate(gap.to) : 'now'} ({formatDuration(gap.months)})
+            </span>
+          ))}
+        </div>
+      )}
+
+      {workHistory.length > 0 && (
+        <ol className="relative border-l-2 border-purple-200 ml-2 space-y-4">
+          {workHistory.map((position, index) => {
+            const duration = positionDuration(position);
+            const dates = dateRange(position.startDate, position.endDate, position.isCurrent);
+            return (
+              <li key={position.id || index} className="ml-4">
+                <span
+                  className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                    position.isCurrent ? 'bg-[#06B6D4]' : 'bg-[#7C3AED]'
+                  }`}
+                />
+                <p className="text-sm font-semibold text-gray-900">{position.title}</p>
+                <p className="text-sm text-gray-700">
+                  {position.company}
+                  {position.location && (
+                    <span className="text-gray-500">
+                      {' · '}
+                      <MapPin className="w-3 h-3 inline -mt-0.5" /> {position.location}
+                    </span>
+                  )}
+                </p>
+                {dates && (
+                  <p className="text-xs text-gray-500">
+                    {dates}
+                    {duration && ` · ${duration}`}
+                  </p>
+                )}
+                {position.bullets.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside text-xs text-gray-600 space-y-0.5">
+                    {position.bullets.map((bullet, i) => (
+                      <li key={i}>{bullet}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {education.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Education</h4>
+          <ul className="space-y-2">
+            {education.map((entry, index) => {
+              const dates = dateRange(entry.startDate, entry.endDate);
+              return (
+                <li key={entry.id || index} className="flex items-start gap-2">
+                  <GraduationCap className="w-4 h-4 text-[#7C3AED] mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{entry.institution}</p>
+                    <p className="text-xs text-gray-600">
+                      {[entry.degree, entry.fieldOfStudy].filter(Boolean).join(', ')}
+                      {dates && <span className="text-gray-500">{entry.degree || entry.fieldOfStudy ? ' · ' : ''}{dates}</span>}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateWorkHistory;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, AlertCircle, Trash2 } from 'lucide-react';
+import { LegalBasis, RetentionPolicy } from '../types';
+import {
+  LEGAL_BASIS_LABELS,
+  countCandidatesDueForPurge,
+  fetchRetentionPolicies,
+  updateRetentionPolicy,
+} from '../services/dataProtectionService';
+import { enqueueBackgroundJob } from '../services/backgroundJobService';
+
+interface DataRetentionModalProps {
+  open: boolean;
+  onClose: () => void;
+  onPurgeQueued?: () => void; // Called after the purge job was queued so the jobs panel can reload
+}
+
+/**
+ * Retention window per legal basis, and a manual purge of candidates past it
+ */
+const DataRetentionModal: React.FC<DataRetentionModalProps> = ({ open, onClose, onPurgeQueued }) => {
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [days, setDays] = useState<Partial<Record<LegalBasis, string>>>({});
+  const [dueCount, setDueCount] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPurging, setIsPurging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [loadedPolicies, count] = await Promise.all([fetchRetentionPolicies(), countCandidatesDueForPurge()]);
+      setPolicies(loadedPolicies);
+      setDays(Object.fromEntries(loadedPolicies.map(policy => [policy.legalBasis, String(policy.retentionDays)])));
+      setDueCount(count);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load retention policies');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+  }, [open]);
+
+  if (!open) return null;
+
+  const changedPolicies = policies.filter(policy => days[policy.legalBasis] !== String(policy.retentionDays));
+  const isValid = changedPolicies.every(policy => {
+    const value = Number(days[policy.legalBasis]);
+    return Number.isInteger(value) && value > 0;
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      for (const policy of changedPolicies) {
+        await updateRetentionPolicy(policy.legalBasis, Number(days[policy.legalBasis]));
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save retention policies');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!window.confirm(`Permanently erase ${dueCount} candidate${dueCount === 1 ? '' : 's'} past their retention date? This cannot be undone.`)) {
+      return;
+    }
+
+    setIsPurging(true);
+    setError(null);
+    try {
+      await enqueueBackgroundJob('purge_expired_candidates');
+      onPurgeQueued?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue purge');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] p-4 rounded-t-xl flex items-center justify-between">
+          <h2 className="text-white font-semibold text-lg">Data Retention</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-white/20 flex items-center justify-center hover:bg-white/30 transition-colors"
+          >
+            <X className="w-5 h-5 text-white" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="flex items-start gap-2 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-[#7C3AED] animate-spin" />
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                Candidates are erased once this many days have passed since they were added, gave consent or were last
+                worked on. Withdrawn consent and a "keep until" date on the candidate take precedence.
+              </p>
+              <div className="space-y-2">
+                {policies.map(policy => (
+                  <label key={policy.legalBasis} className="flex items-center justify-between gap-4">
+                    <span className="text-sm font-medium text-gray-900">{LEGAL_BASIS_LABELS[policy.legalBasis]}</span>
+                    <span className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="number"
+                        min={1}
+                        value={days[policy.legalBasis] ?? ''}
+                        onChange={e => setDays(prev => ({ ...prev, [policy.legalBasis]: e.target.value }))}
+                        className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:border-[#7C3AED]"
+                      />
+                      days
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={changedPolicies.length === 0 || !isValid || isSaving}
+                  className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg text-sm hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Save
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between gap-4 border-t border-gray-100 pt-4">
+                <p className="text-sm text-gray-700">
+                  {dueCount === 0
+                    ? 'No candidates are past their retention date.'
+                    : `${dueCount} candidate${dueCount === 1 ? ' is' : 's are'} past their retention date.`}
+                </p>
+                <button
+                  onClick={handlePurge}
+                  disabled={!dueCount || isPurging}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPurging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  Purge now
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataRetentionModal;
@@ -0,0 +1,335 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Loader2, ScanLine, GitMerge, Ban, Users } from 'lucide-react';
+import Header from './Header';
+import {
+  MERGE_FIELDS,
+  dismissDuplicatePair,
+  fetchDuplicatePairs,
+  mergeCandidates,
+  scanForDuplicates,
+  type DuplicateCandidateRecord,
+  type DuplicatePairRecord,
+} from '../services/deduplicationService';
+
+interface DuplicateReviewPageProps {
+  onBack: () => void;
+  onMerged?: () => void; // Called after a merge so the catalogue can reload
+}
+
+type Side = 'a' | 'b';
+
+const isEmpty = (value: unknown): boolean =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+/**
+ * Human-readable value of a merge field for one record
+ */
+const formatField = (key: string, record: DuplicateCandidateRecord): string => {
+  const value = (column: string) => record[column] as any;
+  switch (key) {
+    case 'jobTitle':
+      return value('job_title') || '';
+    case 'experience':
+      return [value('experience'), value('seniority_level')].filter(Boolean).join(' · ');
+    case 'salary':
+      return value('salary_min') || value('salary_max')
+        ? `${value('salary_min') || '?'} – ${value('salary_max') || '?'} / ${value('salary_unit') || 'year'}`
+        : '';
+    case 'socialLinks':
+      return Object.values({ ...(value('social_links') || {}), calendly: value('calendly') }).filter(Boolean).join(', ');
+    case 'resume': {
+      const resume = value('resume_data');
+      if (!resume?.html_content) return '';
+      const email = resume.contacts?.email;
+      return `Resume (${Math.round(resume.html_content.length / 1000)}k chars)${email ? ` · ${email}` : ''}`;
+    }
+    default:
+      return value(MERGE_FIELDS.find(field => field.key === key)?.columns[0] ?? key) || '';
+  }
+};
+
+const hasField = (key: string, record: DuplicateCandidateRecord) =>
+  MERGE_FIELDS.find(field => field.key === key)!.columns.some(column => !isEmpty(record[column]));
+
+/**
+ * Default choices: keep the winner's value unless only the other record has one
+ */
+const defaultChoices = (winner: DuplicateCandidateRecord, loser: DuplicateCandidateRecord): Record<string, boolean> =>
+  Object.fromEntries(MERGE_FIELDS.map(field => [field.key, !hasField(field.key, winner) && hasField(field.key, loser)]));
+
+/**
+ * Review queue of likely duplicate candidates with a side-by-side merge view
+ */
+const DuplicateReviewPage: React.FC<DuplicateReviewPageProps> = ({ onBack, onMerged }) => {
+  const [pairs, setPairs] = useState<DuplicatePairRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [scanMessage, setScanMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPair, setSelectedPair] = useState<DuplicatePairRecord | null>(null);
+  const [winnerSide, setWinnerSide] = useState<Side>('a');
+  const [takeFromLoser, setTakeFromLoser] = useState<Record<string, boolean>>({});
+
+  const loadPairs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPairs(await fetchDuplicatePairs());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load duplicates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPairs();
+  }, [loadPairs]);
+
+  const selectPair = (pair: DuplicatePairRecord, side?: Side) => {
+    // The older record is kept by default
+    const winner: Side = side ?? (pair.candidateA.createdAt <= pair.candidateB.createdAt ? 'a' : 'b');
+    const [w, l] = winner === 'a' ? [pair.candidateA, pair.candidateB] : [pair.candidateB, pair.candidateA];
+    setSelectedPair(pair);
+    setWinnerSide(winner);
+    setTakeFromLoser(defaultChoices(w, l));
+  };
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setScanMessage(null);
+    try {
+      const { found, queued } = await scanForDuplicates();
+      setScanMessage(`Found ${found} likely duplicate pair${found !== 1 ? 's' : ''}, ${queued} waiting for review.`);
+      await loadPairs();
+    } catch (err) {
+      console.error('Error scanning for duplicates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to scan for duplicates');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePairRecord) => {
+    try {
+      await dismissDuplicatePair(pair.id);
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+      if (selectedPair?.id === pair.id) setSelectedPair(null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to dismiss pair');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!selectedPair) return;
+    const [winner, loser] = winnerSide === 'a'
+      ? [selectedPair.candidateA, selectedPair.candidateB]
+      : [selectedPair.candidateB, selectedPair.candidateA];
+    const fields = Object.keys(takeFromLoser).filter(key => takeFromLoser[key]);
+
+    if (!confirm(`Merge "${loser.name || 'Unknown'}" into "${winner.name || 'Unknown'}"? The other record will be deleted.`)) {
+      return;
+    }
+
+    setIsMerging(true);
+    try {
+      await mergeCandidates(winner.id, loser.id, fields);
+      setSelectedPair(null);
+      await loadPairs();
+      onMerged?.();
+    } catch (err) {
+      console.error('Error merging candidates:', err);
+      alert(err instanceof Error ? err.message : 'Failed to merge candidates');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const recordFor = (pair: DuplicatePairRecord, side: Side) => (side === 'a' ? pair.candidateA : pair.candidateB);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#E8E9EB] via-[#E0E2E5] to-[#E8E9EB]">
+      <Header activePage="Star Catalogue" />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <button
+              onClick={onBack}
+              className="text-[#7C3AED] hover:text-[#06B6D4] mb-2 flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Back to Candidates
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Duplicate Candidates</h1>
+            <p className="text-gray-600 mt-1">
+              {pairs.length} pair{pairs.length !== 1 ? 's' : ''} waiting for review
+            </p>
+          </div>
+          <button
+            onClick={handleScan}
+            disabled={isScanning}
+            className="px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isScanning ? <Loader2 className="w-5 h-5 animate-spin" /> : <ScanLine className="w-5 h-5" />}
+            {isScanning ? 'Scanning...' : 'Scan for Duplicates'}
+          </button>
+        </div>
+
+        {scanMessage && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mb-6">{scanMessage}</div>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Loader2 className="w-12 h-12 animate-spin text-[#7C3AED] mx-auto" />
+          </div>
+        ) : pairs.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-xl shadow-lg">
+            <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No duplicates to review</h3>
+            <p className="text-gray-600">Run a scan to look for candidates with the same contacts or similar names</p>
+          </div>
+        ) : (
+          <div className="flex gap-6">
+            {/* Review queue */}
+            <ul className="w-96 flex-shrink-0 space-y-3">
+              {pairs.map(pair => (
+                <li key={pair.id}>
+                  <button
+                    onClick={() => selectPair(pair)}
+                    className={`w-full text-left bg-white rounded-lg shadow-md p-4 border-2 transition-colors ${
+                      selectedPair?.id === pair.id ? 'border-[#7C3AED]' : 'border-transparent hover:border-purple-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900 truncate">
+                        {pair.candidateA.name || 'Unknown'} / {pair.candidateB.name || 'Unknown'}
+                      </span>
+                      <span className="px-2 py-0.5 bg-purple-100 text-[#7C3AED] rounded-full text-xs font-semibold">
+                        {Math.round(pair.score * 100)}%
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {pair.reasons.map(reason => (
+                        <span
+                          key={reason.signal}
+                          className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs"
+                          title={reason.detail}
+                        >
+                          {reason.signal}: {reason.detail}
+                        </span>
+                      ))}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Merge view */}
+            <div className="flex-1">
+              {selectedPair ? (
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900">Choose the value to keep for each field</h2>
+                    <button
+                      onClick={() => handleDismiss(selectedPair)}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Not a duplicate
+                    </button>
+                  </div>
+
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase w-32">Field</th>
+                        {(['a', 'b'] as Side[]).map(side => (
+                          <th key={side} className="py-2 px-2 text-left">
+                            <label className="flex items-center gap-2 text-xs font-medium text-gray-500 uppercase cursor-pointer">
+                              <input
+                                type="radio"
+                                checked={winnerSide === side}
+                                onChange={() => selectPair(selectedPair, side)}
+                                className="accent-[#7C3AED]"
+                              />
+                              Keep this record
+                              <span className="normal-case font-normal">
+                                (added {new Date(recordFor(selectedPair, side).createdAt).toLocaleDateString()})
+                              </span>
+                            </label>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {MERGE_FIELDS.map(field => (
+                        <tr key={field.key}>
+                          <td className="py-2 pr-4 text-gray-500">{field.label}</td>
+                          {(['a', 'b'] as Side[]).map(side => {
+                            const chosen = takeFromLoser[field.key] ? side !== winnerSide : side === winnerSide;
+                            return (
+                              <td key={side} className="py-2 px-2 align-top">
+                                <label
+                                  className={`flex items-start gap-2 p-2 rounded cursor-pointer ${chosen ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+                                >
+                                  <input
+                                    type="radio"
+                                    name={`merge-${field.key}`}
+                                    checked={chosen}
+                                    onChange={() => setTakeFromLoser(prev => ({ ...prev, [field.key]: side !== winnerSide }))}
+                                    className="mt-0.5 accent-[#7C3AED]"
+                                  />
+                                  <span className={`line-clamp-3 ${chosen ? 'text-gray-900' : 'text-gray-500'}`}>
+                                    {formatField(field.key, recordFor(selectedPair, side)) || <em className="text-gray-400">empty</em>}
+                                  </span>
+                                </label>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <p className="text-xs text-gray-500 mt-4">
+                    Skills, industries, companies, relocation targets and unified titles from both records are combined.
+                    The resume that is not kept stays attached to the merged candidate. Matches, pipeline entries and
+                    activity move to the kept record.
+                  </p>
+
+                  <div className="flex justify-end mt-4">
+                    <button
+                      onClick={handleMerge}
+                      disabled={isMerging}
+                      className="px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {isMerging ? <Loader2 className="w-5 h-5 animate-spin" /> : <GitMerge className="w-5 h-5" />}
+                      {isMerging ? 'Merging...' : 'Merge Candidates'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="bg-white rounded-lg shadow-md p-12 text-center text-gray-500">
+                  Select a pair to compare and merge
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReviewPage;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import type { SpreadsheetFormat } from '../utils/spreadsheet';
+
+interface ExportButtonProps {
+  onExport: (format: SpreadsheetFormat) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+const FORMATS: { format: SpreadsheetFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV (.csv)' },
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+];
+
+/**
+ * Export dropdown offering CSV and XLSX
+ */
+const ExportButton: React.FC<ExportButtonProps> = ({ onExport, disabled, label = 'Export' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-4 py-2 bg-white border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        {label}
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <ul className="absolute right-0 mt-1 z-20 w-40 bg-white border border-gray-200 rounded-lg shadow-lg text-sm overflow-hidden">
+            {FORMATS.map(({ format, label: formatLabel }) => (
+              <li key={format}>
+                <button
+                  onClick={() => {
+                    setIsOpen(false);
+                    onExport(format);
+                  }}
+                  className="w-full px-4 py-2 text-left text-gray-700 hover:bg-purple-50"
+                >
+                  {formatLabel}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportButton;
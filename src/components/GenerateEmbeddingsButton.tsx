@@ -3,7 +3,7 @@ import { Loader2, Sparkles } from 'lucide-react';
 import { generateAllCandidateEmbeddings } from '../utils/generateAllCandidateEmbeddings';
 
 interface GenerateEmbeddingsButtonProps {
-  onComplete?: () => void;
+  onComplete?: () => void; // Called once the job is queued
 }
 
 const GenerateEmbeddingsButton: React.FC<GenerateEmbeddingsButtonProps> = ({ onComplete }) => {
@@ -16,19 +16,18 @@ const GenerateEmbeddingsButton: React.FC<GenerateEmbeddingsButtonProps> = ({ onC
     }
 
     setIsGenerating(true);
-    setProgress('Starting embedding generation...');
+    setProgress('Queueing embedding generation...');
 
     try {
       await generateAllCandidateEmbeddings();
-      setProgress('✅ All embeddings generated successfully!');
-      alert('Embeddings generated successfully for all candidates!');
+      setProgress('✅ Embedding generation queued. Progress is shown under Background jobs.');
       if (onComplete) {
         onComplete();
       }
     } catch (error) {
-      console.error('Error generating embeddings:', error);
-      setProgress('❌ Error generating embeddings. Check console for details.');
-      alert('Error generating embeddings. Check console for details.');
+      console.error('Error queueing embedding generation:', error);
+      setProgress('❌ Error queueing embedding generation. Check console for details.');
+      alert('Error queueing embedding generation. Check console for details.');
     } finally {
       setIsGenerating(false);
       setTimeout(() => setProgress(''), 5000);
@@ -45,7 +44,7 @@ const GenerateEmbeddingsButton: React.FC<GenerateEmbeddingsButtonProps> = ({ onC
         {isGenerating ? (
           <>
             <Loader2 className="w-5 h-5 animate-spin" />
-            Generating...
+            Queueing...
           </>
         ) : (
           <>
@@ -2,9 +2,11 @@ import React, { useState, useEffect, useRef } from 'react';
 import { ChevronDown, LogOut, User, Users } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import logoImg from '../../images/logo/logo.png';
+import Link from './Link';
+import { PAGE_PATHS, type Page } from '../utils/routes';
 
 interface HeaderProps {
-  activePage?: 'Star Catalogue' | 'My Jobs' | 'Analytics' | 'Benchmark';
+  activePage?: Page;
 }
 
 const Header: React.FC<HeaderProps> = ({ activePage = 'Star Catalogue' }) => {
@@ -15,7 +17,7 @@ const Header: React.FC<HeaderProps> = ({ activePage = 'Star Catalogue' }) => {
   const signOutButtonRef = useRef<HTMLButtonElement>(null);
   const { user, signOut } = useAuth();
 
-  const navItems = [
+  const navItems: Array<{ label: Page; active: boolean }> = [
     { label: 'Star Catalogue', active: activePage === 'Star Catalogue' },
     { label: 'My Jobs', active: activePage === 'My Jobs' },
     { label: 'Analytics', active: activePage === 'Analytics' },
@@ -133,12 +135,9 @@ const Header: React.FC<HeaderProps> = ({ activePage = 'Star Catalogue' }) => {
             {/* Navigation */}
             <nav className="hidden md:flex items-center gap-8" aria-label="Main navigation">
               {navItems.map((item) => (
-                <button
+                <Link
                   key={item.label}
-                  onClick={() => {
-                    // Dispatch custom event for navigation
-                    window.dispatchEvent(new CustomEvent('navigate', { detail: item.label }));
-                  }}
+                  to={PAGE_PATHS[item.label]}
                   className={`text-[#e0e7ff] font-medium transition-colors duration-300 hover:text-white relative ${
                     item.active
                       ? 'text-white after:absolute after:bottom-0 after:left-0 after:right-0 after:h-0.5 after:bg-gradient-to-r after:from-[#7C3AED] after:to-[#06B6D4]'
@@ -147,7 +146,7 @@ const Header: React.FC<HeaderProps> = ({ activePage = 'Star Catalogue' }) => {
                   aria-current={item.active ? 'page' : undefined}
                 >
                   {item.label}
-                </button>
+                </Link>
               ))}
             </nav>
 
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { MapPin, Calendar, Users, Edit, Building2, Trash2, FileText, Clock, Globe, Eye } from 'lucide-react';
+import { MapPin, Calendar, Users, Edit, Building2, Trash2, FileText, Clock, Globe, Eye, Columns } from 'lucide-react';
 import { Job } from '../types';
 import JobDescriptionModal from './JobDescriptionModal';
 
@@ -9,9 +9,10 @@ interface JobCardProps {
   onEdit: (job: Job) => void;
   onDelete?: (jobId: number) => void;
   onView?: (job: Job) => void;
+  onViewPipeline?: (job: Job) => void;
 }
 
-const JobCard: React.FC<JobCardProps> = ({ job, onViewMatches, onEdit, onDelete, onView }) => {
+const JobCard: React.FC<JobCardProps> = ({ job, onViewMatches, onEdit, onDelete, onView, onViewPipeline }) => {
   const [isDescriptionModalOpen, setIsDescriptionModalOpen] = useState(false);
   
   const getStatusColor = (status: Job['status']) => {
@@ -175,6 +176,15 @@ const JobCard: React.FC<JobCardProps> = ({ job, onViewMatches, onEdit, onDelete,
           >
             Find Matches
           </button>
+          {onViewPipeline && (
+            <button
+              onClick={() => onViewPipeline(job)}
+              className="px-4 py-2.5 border-2 border-[#06B6D4] text-[#0891B2] font-semibold rounded-lg hover:bg-cyan-50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-[#06B6D4] focus:ring-offset-2 flex items-center gap-2"
+            >
+              <Columns className="w-4 h-4" />
+              Pipeline
+            </button>
+          )}
           <button
             onClick={() => onEdit(job)}
             className="px-4 py-2.5 border-2 border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 flex items-center gap-2"
@@ -1,12 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { X, MapPin, Check, Filter, Users, Briefcase } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, MapPin, Check, Filter, Users, Briefcase, DollarSign } from 'lucide-react';
 import { Candidate, Job } from '../types';
-import { supabase } from '../lib/supabaseClient';
+import { getReviewCandidate, listCandidatesWithTitleEmbeddings } from '../repositories/candidates';
+import { getJobTitleEmbedding } from '../repositories/jobs';
 import CandidateCard from './CandidateCard';
 import Header from './Header';
 import { calculateLocationScore } from '../utils/locationMatching';
 import { calculateTitleScore } from '../utils/vectorSimilarity';
 import { calculateLocationMatchingScore } from '../utils/locationMatchingScore';
+import { calculateSalaryFit, exceedsSalaryBudget } from '../utils/salary';
+import { addToPipeline, fetchJobApplications } from '../services/pipelineService';
+import ExportButton from './ExportButton';
+import { candidatesToSpreadsheetRows } from '../services/spreadsheetService';
+import { downloadSpreadsheet, type SpreadsheetFormat } from '../utils/spreadsheet';
+import { useBlindReview } from '../hooks/useBlindReview';
+import { anonymizeCandidate } from '../utils/blindReview';
+import { useSearchParams } from '../hooks/useRouter';
 
 interface JobMatchesPageProps {
   job: Job;
@@ -19,184 +28,157 @@ interface CandidateWithLocationScore extends Candidate {
   locationMatchScore?: number; // New location matching score (0-20)
 }
 
+// "Over budget by more than X%" choices for the hard filter
+const OVER_BUDGET_OPTIONS = [0, 0.1, 0.2, 0.3, 0.5];
+
+// Query string keys of the filters, so a filtered list can be bookmarked and shared
+const FILTER_PARAMS = {
+  location: 'location',
+  industry: 'industry',
+  remote: 'remote',
+  relocation: 'relocation',
+  overBudget: 'over_budget',
+} as const;
+
 const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
+  const { isHidden } = useBlindReview(job.blindReview);
   const [candidates, setCandidates] = useState<CandidateWithLocationScore[]>([]);
   const [filteredCandidates, setFilteredCandidates] = useState<CandidateWithLocationScore[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   
-  // Filter states
-  const [selectedLocations, setSelectedLocations] = useState<Set<string>>(new Set());
-  const [selectedIndustries, setSelectedIndustries] = useState<Set<string>>(new Set());
-  const [showRemoteOnly, setShowRemoteOnly] = useState(false);
-  const [showRelocationReady, setShowRelocationReady] = useState(false);
+  // Filter states, kept in the URL
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedLocations = useMemo(() => new Set(searchParams.getAll(FILTER_PARAMS.location)), [searchParams]);
+  const selectedIndustries = useMemo(() => new Set(searchParams.getAll(FILTER_PARAMS.industry)), [searchParams]);
+  const showRemoteOnly = searchParams.get(FILTER_PARAMS.remote) === '1';
+  const showRelocationReady = searchParams.get(FILTER_PARAMS.relocation) === '1';
+  const overBudgetParam = searchParams.get(FILTER_PARAMS.overBudget);
+  const maxOverBudgetPct = overBudgetParam !== null && Number.isFinite(Number(overBudgetParam)) ? Number(overBudgetParam) : null;
+
+  const setListParam = (key: string, values: Set<string>) => setSearchParams(params => {
+    params.delete(key);
+    values.forEach(value => params.append(key, value));
+  });
+  const setFlagParam = (key: string, on: boolean) => setSearchParams(params => {
+    if (on) params.set(key, '1');
+    else params.delete(key);
+  });
+  const setSelectedLocations = (locations: Set<string>) => setListParam(FILTER_PARAMS.location, locations);
+  const setSelectedIndustries = (industries: Set<string>) => setListParam(FILTER_PARAMS.industry, industries);
+  const setShowRemoteOnly = (on: boolean) => setFlagParam(FILTER_PARAMS.remote, on);
+  const setShowRelocationReady = (on: boolean) => setFlagParam(FILTER_PARAMS.relocation, on);
+  const setMaxOverBudgetPct = (pct: number | null) => setSearchParams(params => {
+    if (pct === null) params.delete(FILTER_PARAMS.overBudget);
+    else params.set(FILTER_PARAMS.overBudget, String(pct));
+  });
+
   const [isFiltersOpen, setIsFiltersOpen] = useState(true);
+  const [pipelineCandidateIds, setPipelineCandidateIds] = useState<Set<string>>(new Set());
 
   // Load candidates and filter by unified titles when component mounts
   useEffect(() => {
     loadMatchingCandidates();
   }, [job]);
 
-  const loadMatchingCandidates = async () => {
-    setIsLoading(true);
-    try {
-      // Get job data from database (including title_embedding, considering_relocation, and accepts_remote_candidates)
-      let jobData: any = null;
-      try {
-        const { data, error } = await supabase
-          .from('jobs')
-          .select('title_embedding, considering_relocation, accepts_remote_candidates, workplace_type')
-          .eq('id', job.id)
-          .single();
-        if (!error) {
-          jobData = data;
-        }
-      } catch (e) {
-        console.warn('Could not fetch job data:', e);
-      }
-
-      // Supabase returns vector as array, but we need to ensure it's a number array
-      let jobTitleEmbedding: number[] | null = null;
-      if (jobData?.title_embedding) {
-        if (Array.isArray(jobData.title_embedding)) {
-          jobTitleEmbedding = jobData.title_embedding;
-        } else if (typeof jobData.title_embedding === 'string') {
-          // If it's a string, try to parse it
-          try {
-            jobTitleEmbedding = JSON.parse(jobData.title_embedding);
-          } catch (e) {
-            console.warn('Failed to parse job title embedding:', e);
-          }
-        }
-      }
-      console.log('Job title embedding loaded:', jobTitleEmbedding ? `Vector of length ${jobTitleEmbedding.length}` : 'Not found');
-
-      // Load all candidates from Supabase (including job_title_embedding)
-      const { data: candidatesData, error } = await supabase
-        .from('candidates')
-        .select('*');
+  // Candidates already in this job's pipeline
+  useEffect(() => {
+    fetchJobApplications(job.id)
+      .then(applications => setPipelineCandidateIds(new Set(applications.map(a => a.candidateId))))
+      .catch(error => console.error('Error loading pipeline:', error));
+  }, [job.id]);
 
-      if (error) {
-        console.error('Error loading candidates:', error);
-        setIsLoading(false);
-        return;
-      }
+  const handleAddToPipeline = async (candidate: Candidate) => {
+    try {
+      await addToPipeline(candidate.id, job.id, { source: 'job_matches' });
+      setPipelineCandidateIds(prev => new Set(prev).add(candidate.id));
+    } catch (error) {
+      console.error('Error adding candidate to pipeline:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add candidate to pipeline');
+    }
+  };
 
-      if (!candidatesData) {
-        setIsLoading(false);
-        return;
+  // Candidates are loaded masked in a blind review, so reload one once revealed; its scores stay
+  const handleCandidateRevealed = async (candidateId: string) => {
+    try {
+      const revealed = await getReviewCandidate(candidateId, job.blindReview);
+      if (revealed) {
+        setCandidates(prev => prev.map(c => (c.id === candidateId ? { ...c, ...revealed } : c)));
       }
+    } catch (error) {
+      console.error('Error reloading revealed candidate:', error);
+    }
+  };
 
-      // Map Supabase data to Candidate format and calculate location scores
-      const mappedCandidates: CandidateWithLocationScore[] = await Promise.all(
-        candidatesData.map(async (item: any) => {
-          // Load unified titles from relationship table if not in main table
-          let unifiedTitles: string[] = item.unified_titles || [];
-          if (!unifiedTitles || unifiedTitles.length === 0) {
-            const { data: titlesData } = await supabase
-              .from('candidate_unified_titles')
-              .select('unified_title')
-              .eq('candidate_id', item.id);
-            unifiedTitles = titlesData?.map(t => t.unified_title) || [];
-          }
-
-          // Calculate new location matching score (0-20)
-          const isJobRemote = job.workplaceType === 'Remote' || 
-                             job.location?.toLowerCase().includes('remote') ||
-                             job.locations?.some(loc => loc.toLowerCase().includes('remote'));
-          
-          const jobLocation = job.location || job.locations?.[0] || '';
-          const candidateLocation = item.location || '';
-          const candidateWillingToRelocate = (item.ready_to_relocate_to && item.ready_to_relocate_to.length > 0) || false;
-          const candidateRelocationLocations = item.ready_to_relocate_to || [];
-          
-          // Get job's considering_relocation and accepts_remote_candidates from database if available
-          const jobAcceptsRelocation = jobData?.considering_relocation !== undefined 
-            ? jobData.considering_relocation 
-            : (job.consideringRelocation !== undefined ? job.consideringRelocation : true); // Default to true
-          
-          const jobAcceptsRemote = jobData?.accepts_remote_candidates !== undefined
-            ? jobData.accepts_remote_candidates
-            : (job.acceptsRemoteCandidates !== undefined ? job.acceptsRemoteCandidates : isJobRemote); // Default based on workplace type
-          
-          const locationMatchResult = calculateLocationMatchingScore(
-            candidateLocation,
-            candidateWillingToRelocate,
-            candidateRelocationLocations,
-            jobLocation,
-            jobAcceptsRemote,
-            jobAcceptsRelocation
-          );
-          
-          const locationMatchScore = locationMatchResult.score;
-          
-          // Always log for debugging
-          console.log(`[Location Match] Candidate ${item.id || item.name}:`, {
-            locationMatchScore,
-            candidateLocation: candidateLocation || '(empty)',
-            jobLocation: jobLocation || '(empty)',
-            isJobRemote,
-            candidateWillingToRelocate,
-            jobAcceptsRelocation,
-            factors: locationMatchResult.factors
-          });
-          
-          // Keep old location score for backward compatibility
-          const locationScore = calculateLocationScore(
-            isJobRemote ? 'Remote' : jobLocation,
-            candidateLocation,
-            candidateWillingToRelocate
-          );
-
-          // Calculate title score
-          // Supabase returns vector as array, but we need to ensure it's a number array
-          let candidateTitleEmbedding: number[] | null = null;
-          if (item.job_title_embedding) {
-            if (Array.isArray(item.job_title_embedding)) {
-              candidateTitleEmbedding = item.job_title_embedding;
-            } else if (typeof item.job_title_embedding === 'string') {
-              // If it's a string, try to parse it
-              try {
-                candidateTitleEmbedding = JSON.parse(item.job_title_embedding);
-              } catch (e) {
-                console.warn(`Failed to parse candidate ${item.id} title embedding:`, e);
-              }
-            }
-          }
-          const titleScore = calculateTitleScore(candidateTitleEmbedding, jobTitleEmbedding);
-
-          return {
-            id: item.id,
-            name: item.full_name || item.name || 'Unknown',
-            jobTitle: item.general_title || item.job_title || '',
-            location: item.location || '',
-            experience: item.experience || '',
-            availability: item.availability || '',
-            readyToRelocateTo: item.ready_to_relocate_to || [],
-            lastUpdated: item.last_updated || '',
-            matchScore: titleScore, // Use title score as match score
-            status: item.status as 'actively_looking' | 'open_to_offers',
-            industries: item.industries || [],
-            relatedIndustries: item.related_industries || [],
-            companyNames: item.company_names || [],
-            skills: item.skills || [],
-            summary: item.summary || '',
-            socialLinks: item.social_links || {},
-            calendly: item.calendly,
-            salaryMin: item.salary_min,
-            salaryMax: item.salary_max,
-            salaryUnit: item.salary_unit || 'year',
-            unifiedTitles: unifiedTitles,
-            locationScore: locationScore, // Old location score (0-1) for backward compatibility
-            locationMatchScore: locationMatchScore, // New location matching score (0-20)
-            titleScore: titleScore, // Title matching score (0-20)
-            resume: item.resume_data ? {
-              file: null,
-              htmlContent: item.resume_data.html_content || '',
-              contacts: item.resume_data.contacts || {},
-            } : undefined,
-          };
-        })
-      );
+  const loadMatchingCandidates = async () => {
+    setIsLoading(true);
+    try {
+      // Embedding of the job's normalized title, to score candidate titles against
+      const jobTitleEmbedding = await getJobTitleEmbedding(job.id).catch(() => null);
+      console.log('Job title embedding loaded:', jobTitleEmbedding ? `Vector of length ${jobTitleEmbedding.embedding.length}` : 'Not found');
+
+      // Load all candidates with their title embeddings
+      const candidatesWithEmbeddings = await listCandidatesWithTitleEmbeddings(job.blindReview);
+
+      const isJobRemote = job.workplaceType === 'Remote' || 
+                         job.location.toLowerCase().includes('remote') ||
+                         !!job.locations?.some(loc => loc.toLowerCase().includes('remote'));
+      const jobLocation = job.location || job.locations?.[0] || '';
+      const jobAcceptsRelocation = job.consideringRelocation !== undefined ? job.consideringRelocation : true; // Default to true
+      const jobAcceptsRemote = job.acceptsRemoteCandidates !== undefined ? job.acceptsRemoteCandidates : isJobRemote; // Default based on workplace type
+
+      // Calculate location, title and salary scores
+      const mappedCandidates: CandidateWithLocationScore[] = candidatesWithEmbeddings.map(({ candidate, titleEmbedding, titleEmbeddingModel }) => {
+        const candidateWillingToRelocate = candidate.readyToRelocateTo.length > 0;
+
+        const locationMatchResult = calculateLocationMatchingScore(
+          candidate.location,
+          candidateWillingToRelocate,
+          candidate.readyToRelocateTo,
+          jobLocation,
+          jobAcceptsRemote,
+          jobAcceptsRelocation
+        );
+        
+        const locationMatchScore = locationMatchResult.score;
+        
+        // Always log for debugging
+        console.log(`[Location Match] Candidate ${candidate.id || candidate.name}:`, {
+          locationMatchScore,
+          candidateLocation: candidate.location || '(empty)',
+          jobLocation: jobLocation || '(empty)',
+          isJobRemote,
+          candidateWillingToRelocate,
+          jobAcceptsRelocation,
+          factors: locationMatchResult.factors
+        });
+        
+        // Keep old location score for backward compatibility
+        const locationScore = calculateLocationScore(
+          isJobRemote ? 'Remote' : jobLocation,
+          candidate.location,
+          candidateWillingToRelocate
+        );
+
+        // Vectors of different embedding models are not comparable: no title score
+        const titleScore = jobTitleEmbedding && titleEmbeddingModel === jobTitleEmbedding.model
+          ? calculateTitleScore(titleEmbedding, jobTitleEmbedding.embedding)
+          : 0;
+
+        // Salary fit (null when the job or candidate has no salary)
+        const salaryFit = calculateSalaryFit(
+          { min: candidate.salaryMin ?? null, max: candidate.salaryMax ?? null, unit: candidate.salaryUnit ?? null },
+          { min: job.salaryMin ?? null, max: job.salaryMax ?? null, unit: job.salaryUnit ?? null, currency: job.salaryCurrency }
+        );
+
+        return {
+          ...candidate,
+          matchScore: titleScore, // Use title score as match score
+          locationScore: locationScore, // Old location score (0-1) for backward compatibility
+          locationMatchScore: locationMatchScore, // New location matching score (0-20)
+          titleScore: titleScore, // Title matching score (0-20)
+          salaryFit,
+        };
+      });
 
       // Filter candidates by unified titles match
       const jobUnifiedTitles = job.unifiedTitles || [];
@@ -208,7 +190,7 @@ const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
         return candidate.unifiedTitles.some(title => jobUnifiedTitles.includes(title));
       });
 
-      // Sort candidates by title score (descending), then by location match score
+      // Sort candidates by title score (descending), then by location match score, then by salary fit
       const sortedCandidates = matchingCandidates.sort((a, b) => {
         const titleScoreA = a.titleScore ?? 0;
         const titleScoreB = b.titleScore ?? 0;
@@ -218,7 +200,11 @@ const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
         // If title scores are equal, sort by location match score
         const locationMatchScoreA = a.locationMatchScore ?? 0;
         const locationMatchScoreB = b.locationMatchScore ?? 0;
-        return locationMatchScoreB - locationMatchScoreA;
+        if (locationMatchScoreB !== locationMatchScoreA) {
+          return locationMatchScoreB - locationMatchScoreA;
+        }
+        // Candidates without a salary rank as a neutral fit
+        return (b.salaryFit?.score ?? 0.5) - (a.salaryFit?.score ?? 0.5);
       });
 
       setCandidates(sortedCandidates);
@@ -275,8 +261,13 @@ const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
       );
     }
 
+    // Over budget by more than the selected share (candidates without a salary are kept)
+    if (maxOverBudgetPct !== null) {
+      filtered = filtered.filter(c => !exceedsSalaryBudget(c.salaryFit ?? null, maxOverBudgetPct));
+    }
+
     setFilteredCandidates(filtered);
-  }, [selectedLocations, selectedIndustries, showRemoteOnly, showRelocationReady, candidates]);
+  }, [selectedLocations, selectedIndustries, showRemoteOnly, showRelocationReady, maxOverBudgetPct, candidates]);
 
   const toggleLocation = (location: string) => {
     const newSelected = new Set(selectedLocations);
@@ -299,10 +290,20 @@ const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
   };
 
   const clearFilters = () => {
-    setSelectedLocations(new Set());
-    setSelectedIndustries(new Set());
-    setShowRemoteOnly(false);
-    setShowRelocationReady(false);
+    setSearchParams(params => Object.values(FILTER_PARAMS).forEach(key => params.delete(key)));
+  };
+
+  const handleExport = (format: SpreadsheetFormat) => {
+    const date = new Date().toISOString().split('T')[0];
+    const slug = job.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'job';
+    // Candidates still hidden in blind review are exported anonymized
+    const exported = filteredCandidates.map(c => (isHidden(c.id) ? { ...c, ...anonymizeCandidate(c) } : c));
+    const rows = candidatesToSpreadsheetRows(exported, [
+      { label: 'Title Score (0-20)', value: c => c.titleScore ?? null },
+      { label: 'Location Score (0-20)', value: c => c.locationMatchScore ?? null },
+      { label: 'Salary Fit (%)', value: c => (c.salaryFit ? Math.round(c.salaryFit.score * 100) : null) },
+    ]);
+    downloadSpreadsheet(`matches-${slug}-${date}`, rows, format);
   };
 
   return (
@@ -332,13 +333,16 @@ const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
               </p>
             )}
           </div>
-          <button
-            onClick={loadMatchingCandidates}
-            className="px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 flex items-center gap-2"
-          >
-            <Briefcase className="w-5 h-5" />
-            Refresh Matches
-          </button>
+          <div className="flex items-center gap-3">
+            <ExportButton onExport={handleExport} disabled={filteredCandidates.length === 0} />
+            <button
+              onClick={loadMatchingCandidates}
+              className="px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 flex items-center gap-2"
+            >
+              <Briefcase className="w-5 h-5" />
+              Refresh Matches
+            </button>
+          </div>
         </div>
 
         <div className="flex gap-6">
@@ -432,6 +436,28 @@ const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
                   <span className="text-sm font-medium text-gray-700">Ready to relocate</span>
                 </label>
               </div>
+
+              {/* Salary Filter */}
+              {(job.salaryMin || job.salaryMax) && (
+                <div className="mt-6">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+                    <DollarSign className="w-4 h-4" />
+                    Salary
+                  </h3>
+                  <select
+                    value={maxOverBudgetPct === null ? '' : String(maxOverBudgetPct)}
+                    onChange={(e) => setMaxOverBudgetPct(e.target.value === '' ? null : Number(e.target.value))}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
+                  >
+                    <option value="">Any salary expectation</option>
+                    {OVER_BUDGET_OPTIONS.map(pct => (
+                      <option key={pct} value={pct}>
+                        {pct === 0 ? 'Within budget only' : `Hide over budget by more than ${pct * 100}%`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
 
@@ -454,6 +480,11 @@ const JobMatchesPage: React.FC<JobMatchesPageProps> = ({ job, onBack }) => {
                   <CandidateCard
                     key={candidate.id}
                     candidate={candidate}
+                    onAddToPipeline={handleAddToPipeline}
+                    isInPipeline={pipelineCandidateIds.has(candidate.id)}
+                    blindReview={job.blindReview}
+                    jobId={job.id}
+                    onRevealed={handleCandidateRevealed}
                   />
                 ))}
               </div>
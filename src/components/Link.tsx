@@ -0,0 +1,28 @@
+import React from 'react';
+import { navigate } from '../hooks/useRouter';
+
+interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+}
+
+/**
+ * Anchor to a path in the app; plain clicks navigate in place, modified clicks open a new tab as usual
+ */
+const Link: React.FC<LinkProps> = ({ to, onClick, children, ...props }) => {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    if (props.target && props.target !== '_self') return;
+
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+};
+
+export default Link;
@@ -0,0 +1,230 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import type { MatchBreakdown, SalaryFit } from '../services/matchingApi';
+import { formatAnnualSalary } from '../utils/salary';
+
+interface MatchBreakdownTableProps {
+  breakdown: MatchBreakdown;
+}
+
+const LOCATION_FACTOR_LABELS: Record<string, string> = {
+  exactMatch: 'Exact location',
+  sameCity: 'Same city',
+  sameState: 'Same state',
+  sameCountry: 'Same country',
+  sameRegion: 'Same region',
+  candidateWillingToRelocate: 'Willing to relocate',
+  bothRemote: 'Both remote',
+  jobAcceptsRemote: 'Remote accepted',
+  jobAcceptsRelocation: 'Relocation accepted',
+  withinDrivingDistance: 'Within driving distance',
+};
+
+const PENALTY_LABELS: Record<string, string> = {
+  skills: 'Partial required skill match or few preferred skills',
+  industry: 'Related (not exact) industry',
+  title: 'Similar (not exact) title',
+  location: 'Same continent, different location',
+  salary: 'Salary expectation above budget',
+  seniority: 'One level junior or overqualified',
+  recency: 'Last relevant role ended over 3 years ago',
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const salaryFitLabel = (fit: SalaryFit) => {
+  if (fit.overlap) return 'In budget';
+  if (fit.over_budget_pct > 0) return `${percent(fit.over_budget_pct)} over`;
+  return `${percent(fit.under_budget_pct)} under`;
+};
+
+const seniorityDistanceLabel = (distance: number) => {
+  if (distance === 0) return 'Same level';
+  const levels = Math.abs(distance) === 1 ? 'level' : 'levels';
+  return distance > 0 ? `${distance} ${levels} above` : `${-distance} ${levels} below`;
+};
+
+const months = (count: number) => (count >= 24 ? `${Math.round(count / 12)} years` : `${count} month${count === 1 ? '' : 's'}`);
+
+const recencyLabel = (monthsSince: number | null) => {
+  if (monthsSince === null) return 'No similar role';
+  return monthsSince === 0 ? 'Current role' : `${months(monthsSince)} ago`;
+};
+
+const annualRange = (min: number, max: number, currency: string | null) => (
+  min === max ? formatAnnualSalary(min, currency) : `${formatAnnualSalary(min, currency)} - ${formatAnnualSalary(max, null)}`
+);
+
+const Flag: React.FC<{ value: boolean; label: string }> = ({ value, label }) => (
+  <span className={`inline-flex items-center gap-1 ${value ? 'text-green-700' : 'text-gray-400'}`}>
+    {value ? <Check className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+    {label}
+  </span>
+);
+
+const SkillList: React.FC<{ skills: string[]; className: string }> = ({ skills, className }) => (
+  skills.length === 0 ? (
+    <span className="text-gray-400">None</span>
+  ) : (
+    <div className="flex flex-wrap gap-1">
+      {skills.map(skill => (
+        <span key={skill} className={`px-2 py-0.5 rounded text-xs ${className}`}>{skill}</span>
+      ))}
+    </div>
+  )
+);
+
+/**
+ * Factor table explaining why a candidate ranked where they did
+ */
+const MatchBreakdownTable: React.FC<MatchBreakdownTableProps> = ({ breakdown }) => {
+  const firedLocationFactors = Object.entries(breakdown.location.factors).filter(([, fired]) => fired);
+  // Breakdowns stored before skill priorities have no missing_required: every skill was required
+  const missingRequired = breakdown.skills.missing_required ?? breakdown.skills.missing;
+  const missingOptional = breakdown.skills.missing.filter(skill => !missingRequired.includes(skill));
+
+  const rows: Array<{ factor: string; value: React.ReactNode; detail: React.ReactNode }> = [
+    {
+      factor: 'Meta similarity',
+      value: percent(breakdown.meta_similarity),
+      detail: 'Title, industry, location and skills embedding (35% of pre-score)',
+    },
+    {
+      factor: 'Content similarity',
+      value: percent(breakdown.content_similarity),
+      detail: 'Full resume vs job text embedding (65% of pre-score)',
+    },
+    {
+      factor: 'Title',
+      value: breakdown.title.score !== null ? `${breakdown.title.score.toFixed(1)} / 20` : 'N/A',
+      detail: (
+        <div className="space-y-1">
+          <div>{breakdown.title.candidate_title || 'N/A'} → {breakdown.title.vacancy_title || 'N/A'}</div>
+          <div className="flex gap-3">
+            <Flag value={breakdown.title.exact_match} label="Exact" />
+            <Flag value={breakdown.title.similar} label="Similar" />
+          </div>
+        </div>
+      ),
+    },
+    {
+      factor: 'Location',
+      value: `${breakdown.location.score} / 20`,
+      detail: (
+        <div className="space-y-1">
+          <div>{breakdown.location.candidate_location || 'N/A'} → {breakdown.location.vacancy_location || 'N/A'}</div>
+          <div className="flex flex-wrap gap-3">
+            {firedLocationFactors.length === 0 ? (
+              <span className="text-gray-400">No location factors matched</span>
+            ) : (
+              firedLocationFactors.map(([key]) => (
+                <Flag key={key} value label={LOCATION_FACTOR_LABELS[key] || key} />
+              ))
+            )}
+          </div>
+        </div>
+      ),
+    },
+    {
+      factor: 'Skills',
+      value: percent(breakdown.skills.match_percentage),
+      detail: (
+        <div className="space-y-1">
+          <div className="flex gap-2"><span className="w-16 text-gray-500">Matched</span><SkillList skills={breakdown.skills.matched} className="bg-green-50 text-green-700" /></div>
+          <div className="flex gap-2"><span className="w-16 text-gray-500">Missing</span><SkillList skills={missingRequired} className="bg-red-50 text-red-700" /></div>
+          <div className="flex gap-2"><span className="w-16 text-gray-500">Optional</span><SkillList skills={missingOptional} className="bg-yellow-50 text-yellow-700" /></div>
+          <div className="flex gap-2"><span className="w-16 text-gray-500">Extra</span><SkillList skills={breakdown.skills.extra} className="bg-gray-100 text-gray-700" /></div>
+        </div>
+      ),
+    },
+    {
+      factor: 'Industry',
+      value: breakdown.industry.exact_match ? 'Exact' : breakdown.industry.related ? 'Related' : 'Different',
+      detail: (
+        <div>{breakdown.industry.candidate_industry || 'N/A'} → {breakdown.industry.vacancy_industry || 'N/A'}</div>
+      ),
+    },
+    {
+      factor: 'Seniority',
+      value: breakdown.seniority?.distance != null ? seniorityDistanceLabel(breakdown.seniority.distance) : 'N/A',
+      detail: breakdown.seniority ? (
+        <div>
+          {breakdown.seniority.candidate_level || 'Unknown'}
+          {breakdown.seniority.candidate_years !== null && ` (${breakdown.seniority.candidate_years} years)`}
+          {' → '}
+          {breakdown.seniority.vacancy_level || 'Not Applicable'}
+        </div>
+      ) : (
+        <span className="text-gray-400">Not recorded for this match</span>
+      ),
+    },
+    {
+      factor: 'Experience',
+      value: breakdown.work_history ? recencyLabel(breakdown.work_history.months_since_relevant) : 'N/A',
+      detail: breakdown.work_history ? (
+        <div className="space-y-1">
+          <div>
+            {breakdown.work_history.relevant_years} years in similar roles, average tenure {months(breakdown.work_history.average_tenure_months)}
+          </div>
+          {breakdown.work_history.gaps.length > 0 && (
+            <div className="text-gray-500">
+              Gaps: {breakdown.work_history.gaps.map(gap => `${gap.from} – ${gap.to ?? 'now'} (${months(gap.months)})`).join(', ')}
+            </div>
+          )}
+        </div>
+      ) : (
+        <span className="text-gray-400">No dated work history for this candidate</span>
+      ),
+    },
+    {
+      factor: 'Salary',
+      value: breakdown.salary ? salaryFitLabel(breakdown.salary) : 'N/A',
+      detail: breakdown.salary ? (
+        <div>
+          {annualRange(breakdown.salary.candidate_annual_min, breakdown.salary.candidate_annual_max, breakdown.salary.currency)}
+          {' → '}
+          {annualRange(breakdown.salary.job_annual_min, breakdown.salary.job_annual_max, breakdown.salary.currency)}
+          <span className="text-gray-500"> per year</span>
+        </div>
+      ) : (
+        <span className="text-gray-400">No salary on the candidate or the job, or different currencies</span>
+      ),
+    },
+    {
+      factor: 'Soft penalties',
+      value: breakdown.soft_penalties.applied > 0 ? `-${percent(breakdown.soft_penalties.applied)}` : 'None',
+      detail: breakdown.soft_penalties.fired.length === 0 ? (
+        <span className="text-gray-400">No soft filter fired</span>
+      ) : (
+        <ul className="list-disc list-inside">
+          {breakdown.soft_penalties.fired.map(name => (
+            <li key={name}>{PENALTY_LABELS[name] || name}</li>
+          ))}
+        </ul>
+      ),
+    },
+  ];
+
+  return (
+    <table className="min-w-full text-sm border border-gray-200 rounded-lg bg-white">
+      <thead className="bg-gray-100">
+        <tr>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Factor</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {rows.map(row => (
+          <tr key={row.factor}>
+            <td className="px-4 py-2 font-medium text-gray-900 whitespace-nowrap align-top">{row.factor}</td>
+            <td className="px-4 py-2 text-gray-900 whitespace-nowrap align-top">{row.value}</td>
+            <td className="px-4 py-2 text-gray-700 align-top">{row.detail}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default MatchBreakdownTable;
@@ -1,7 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import { Search, Loader2, ChevronDown, ChevronUp, ExternalLink, X } from 'lucide-react';
-import { fetchVacancies, findMatches, CandidateMatchResult, Vacancy, fetchCandidateDetails, CandidateMatchDetails } from '../services/matchingApi';
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, Loader2, ChevronDown, ChevronUp, ExternalLink, X, Plus, Check, EyeOff } from 'lucide-react';
+import { findMatches, CandidateMatchResult, Vacancy, CandidateMatchDetails } from '../services/matchingApi';
+import { listVacancies } from '../repositories/vacancies';
+import { getMatchCandidate, listMatchCandidates } from '../repositories/matches';
+import { fetchScoringProfiles, setVacancyScoringProfile, ScoringProfile } from '../services/scoringProfileService';
+import { addToPipeline, fetchJobApplications } from '../services/pipelineService';
 import Header from './Header';
+import MatchBreakdownTable from './MatchBreakdownTable';
+import ExportButton from './ExportButton';
+import { matchResultsToSpreadsheetRows } from '../services/spreadsheetService';
+import { downloadSpreadsheet, type SpreadsheetFormat } from '../utils/spreadsheet';
+import { useBlindReview } from '../hooks/useBlindReview';
+import { HIDDEN_LOCATION, anonymizeText, candidatePseudonym } from '../utils/blindReview';
+import { navigate } from '../hooks/useRouter';
+import { paths } from '../utils/routes';
 
 type SortField = 'pre_score' | 'neural_rank_score' | 'llm_score' | 'final_score';
 type SortDirection = 'asc' | 'desc';
@@ -10,11 +22,35 @@ interface CandidateWithDetails extends CandidateMatchResult {
   full_name?: string;
   general_title?: string;
   location?: string;
+  company_names?: string[];
 }
 
-const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) => {
+// Blind review: pseudonym, hidden location and an explanation without the candidate's identity
+const anonymizeMatch = <T extends CandidateWithDetails | CandidateMatchDetails>(match: T): T => {
+  const identity = {
+    id: match.candidate_id,
+    name: match.full_name || '',
+    location: match.location || '',
+    companyNames: match.company_names || [],
+  };
+  return {
+    ...match,
+    full_name: candidatePseudonym(match.candidate_id),
+    location: HIDDEN_LOCATION,
+    explanation: anonymizeText(match.explanation, identity),
+    ...('resume_text' in match && { resume_text: anonymizeText(match.resume_text, identity) }),
+  };
+};
+
+interface MatchingDashboardProps {
+  vacancyId?: string; // Vacancy in the URL; its matches load on open
+}
+
+const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ vacancyId }) => {
   const [vacancies, setVacancies] = useState<Vacancy[]>([]);
-  const [selectedVacancyId, setSelectedVacancyId] = useState<string>('');
+  const selectedVacancyId = vacancyId ?? '';
+  // Vacancy whose matches were requested last, so a slower earlier run does not overwrite them
+  const requestedVacancyIdRef = useRef<string>('');
   const [matches, setMatches] = useState<CandidateWithDetails[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [loadingVacancies, setLoadingVacancies] = useState<boolean>(true);
@@ -23,16 +59,82 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [selectedCandidate, setSelectedCandidate] = useState<CandidateMatchDetails | null>(null);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
+  const [pipelineCandidateIds, setPipelineCandidateIds] = useState<Set<string>>(new Set());
+  const [addingToPipelineId, setAddingToPipelineId] = useState<string | null>(null);
 
-  // Fetch vacancies on mount
+  // Pipeline actions need the job the vacancy was created from
+  const selectedVacancy = vacancies.find(v => v.id === selectedVacancyId);
+  const selectedJobId = selectedVacancy?.job_id ?? null;
+  const { isHidden, reveal } = useBlindReview(selectedVacancy?.blind_review);
+  const [revealingId, setRevealingId] = useState<string | null>(null);
+
+  // Fetch vacancies and scoring profiles on mount
   useEffect(() => {
     loadVacancies();
+    loadScoringProfiles();
   }, []);
 
+  useEffect(() => {
+    if (selectedJobId === null) {
+      setPipelineCandidateIds(new Set());
+      return;
+    }
+    fetchJobApplications(selectedJobId)
+      .then(applications => setPipelineCandidateIds(new Set(applications.map(a => a.candidateId))))
+      .catch(error => console.error('Error loading pipeline:', error));
+  }, [selectedJobId]);
+
+  const loadScoringProfiles = async () => {
+    try {
+      const data = await fetchScoringProfiles();
+      setScoringProfiles(data);
+    } catch (error) {
+      console.error('Error loading scoring profiles:', error);
+    }
+  };
+
+  const handleVacancyChange = (id: string) => {
+    navigate(paths.match(id || undefined));
+  };
+
+  // Opening a vacancy (by URL, the select or back/forward) runs its match with its scoring profile
+  useEffect(() => {
+    if (loadingVacancies) return;
+    const vacancy = vacancies.find(v => v.id === selectedVacancyId);
+    if (selectedVacancyId && !vacancy) {
+      navigate(paths.match(), { replace: true });
+      return;
+    }
+    const profileId = vacancy?.scoring_profile_id || '';
+    setSelectedProfileId(profileId);
+    setMatches([]);
+    setExpandedRows(new Set());
+    if (vacancy) {
+      handleFindMatches(profileId);
+    }
+  }, [selectedVacancyId, loadingVacancies]);
+
+  const handleProfileChange = async (profileId: string) => {
+    setSelectedProfileId(profileId);
+    if (!selectedVacancyId) return;
+
+    try {
+      await setVacancyScoringProfile(selectedVacancyId, profileId || null);
+      setVacancies(prev => prev.map(v =>
+        v.id === selectedVacancyId ? { ...v, scoring_profile_id: profileId || null } : v
+      ));
+    } catch (error) {
+      console.error('Error saving scoring profile:', error);
+      alert('Failed to save scoring profile for this vacancy.');
+    }
+  };
+
   const loadVacancies = async () => {
     try {
       setLoadingVacancies(true);
-      const data = await fetchVacancies();
+      const data = await listVacancies();
       setVacancies(data);
     } catch (error) {
       console.error('Error loading vacancies:', error);
@@ -41,35 +143,42 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
     }
   };
 
-  const handleFindMatches = async () => {
+  const handleFindMatches = async (profileId = selectedProfileId) => {
     if (!selectedVacancyId) {
       alert('Please select a vacancy first');
       return;
     }
 
+    const runVacancyId = selectedVacancyId;
+    requestedVacancyIdRef.current = runVacancyId;
     try {
       setLoading(true);
-      const results = await findMatches(selectedVacancyId);
+      const results = await findMatches(runVacancyId, profileId || null);
       
-      // Fetch candidate details for each match
-      const candidatesWithDetails: CandidateWithDetails[] = await Promise.all(
-        results.map(async (match) => {
-          const details = await fetchCandidateDetails(match.candidate_id);
-          return {
-            ...match,
-            full_name: details?.full_name || 'Unknown',
-            general_title: details?.general_title || 'N/A',
-            location: details?.location || 'N/A',
-          };
-        })
-      );
+      // Candidate details for all matches in one query
+      const details = await listMatchCandidates(results.map(match => match.candidate_id), selectedVacancy?.blind_review);
+      const candidatesWithDetails: CandidateWithDetails[] = results.map(match => {
+        const candidate = details.get(match.candidate_id);
+        return {
+          ...match,
+          full_name: candidate?.full_name || 'Unknown',
+          general_title: candidate?.general_title || 'N/A',
+          location: candidate?.location || 'N/A',
+          company_names: candidate?.company_names || [],
+        };
+      });
 
+      if (requestedVacancyIdRef.current !== runVacancyId) return;
       setMatches(candidatesWithDetails);
     } catch (error) {
       console.error('Error finding matches:', error);
-      alert('Failed to find matches. Please try again.');
+      if (requestedVacancyIdRef.current === runVacancyId) {
+        alert('Failed to find matches. Please try again.');
+      }
     } finally {
-      setLoading(false);
+      if (requestedVacancyIdRef.current === runVacancyId) {
+        setLoading(false);
+      }
     }
   };
 
@@ -89,6 +198,8 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
     return (aValue - bValue) * multiplier;
   });
 
+  const displayedMatches = sortedMatches.map(match => (isHidden(match.candidate_id) ? anonymizeMatch(match) : match));
+
   const toggleRowExpansion = (candidateId: string) => {
     const newExpanded = new Set(expandedRows);
     if (newExpanded.has(candidateId)) {
@@ -101,26 +212,66 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
 
   const handleOpenResume = async (candidateId: string) => {
     try {
-      const details = await fetchCandidateDetails(candidateId);
-      if (details) {
-        // Merge with match scores
-        const match = matches.find(m => m.candidate_id === candidateId);
-        setSelectedCandidate({
-          ...details,
-          pre_score: match?.pre_score || 0,
-          neural_rank_score: match?.neural_rank_score || 0,
-          llm_score: match?.llm_score || 0,
-          final_score: match?.final_score || 0,
-          explanation: match?.explanation || '',
-        });
-        setIsModalOpen(true);
-      }
+      const details = await getMatchCandidate(candidateId, selectedVacancy?.blind_review);
+      // Merge with match scores
+      const match = matches.find(m => m.candidate_id === candidateId);
+      setSelectedCandidate({
+        ...details,
+        pre_score: match?.pre_score || 0,
+        neural_rank_score: match?.neural_rank_score || 0,
+        llm_score: match?.llm_score || 0,
+        final_score: match?.final_score || 0,
+        explanation: match?.explanation || '',
+      });
+      setIsModalOpen(true);
     } catch (error) {
       console.error('Error opening resume:', error);
       alert('Failed to load resume details');
     }
   };
 
+  // Reveals are logged on the candidate's timeline; cancelling the prompt keeps the candidate hidden
+  const handleReveal = async (candidateId: string) => {
+    const reason = window.prompt(`Reveal the identity of ${candidatePseudonym(candidateId)}? The reveal is logged. Reason (optional):`);
+    if (reason === null) return;
+
+    try {
+      setRevealingId(candidateId);
+      await reveal(candidateId, { jobId: selectedJobId, vacancyId: selectedVacancyId, reason });
+      // The details were loaded masked
+      const details = await getMatchCandidate(candidateId, selectedVacancy?.blind_review);
+      setMatches(prev => prev.map(match => (match.candidate_id === candidateId ? {
+        ...match,
+        full_name: details.full_name,
+        general_title: details.general_title,
+        location: details.location,
+        company_names: details.company_names,
+      } : match)));
+    } catch (error) {
+      console.error('Error revealing candidate:', error);
+      alert('Failed to reveal candidate.');
+    } finally {
+      setRevealingId(null);
+    }
+  };
+
+  const handleAddToPipeline = async (match: CandidateWithDetails) => {
+    if (selectedJobId === null) return;
+    try {
+      setAddingToPipelineId(match.candidate_id);
+      await addToPipeline(match.candidate_id, selectedJobId, {
+        source: 'matching_dashboard',
+        matchScore: match.final_score,
+      });
+      setPipelineCandidateIds(prev => new Set(prev).add(match.candidate_id));
+    } catch (error) {
+      console.error('Error adding candidate to pipeline:', error);
+      alert('Failed to add candidate to pipeline.');
+    } finally {
+      setAddingToPipelineId(null);
+    }
+  };
+
   const getScoreColor = (score: number): string => {
     if (score > 0.75) return 'text-green-600 bg-green-50';
     if (score >= 0.5) return 'text-yellow-600 bg-yellow-50';
@@ -138,6 +289,13 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
     return sortDirection === 'asc' ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />;
   };
 
+  const handleExport = (format: SpreadsheetFormat) => {
+    const vacancy = vacancies.find(v => v.id === selectedVacancyId);
+    const slug = (vacancy?.title || 'vacancy').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const date = new Date().toISOString().split('T')[0];
+    downloadSpreadsheet(`matches-${slug}-${date}`, matchResultsToSpreadsheetRows(displayedMatches), format);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#E8E9EB] via-[#E0E2E5] to-[#E8E9EB]">
       <Header activePage="Match" />
@@ -153,7 +311,7 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
               </label>
               <select
                 value={selectedVacancyId}
-                onChange={(e) => setSelectedVacancyId(e.target.value)}
+                onChange={(e) => handleVacancyChange(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
                 disabled={loadingVacancies}
               >
@@ -165,9 +323,28 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
                 ))}
               </select>
             </div>
+
+            <div className="w-64">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Scoring Profile
+              </label>
+              <select
+                value={selectedProfileId}
+                onChange={(e) => handleProfileChange(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
+                disabled={!selectedVacancyId || loading}
+              >
+                <option value="">Default profile</option>
+                {scoringProfiles.filter(profile => profile.id).map((profile) => (
+                  <option key={profile.id!} value={profile.id!}>
+                    {profile.name} ({profile.version})
+                  </option>
+                ))}
+              </select>
+            </div>
             
             <button
-              onClick={handleFindMatches}
+              onClick={() => handleFindMatches()}
               disabled={!selectedVacancyId || loading}
               className="px-6 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
             >
@@ -183,6 +360,8 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
                 </>
               )}
             </button>
+
+            <ExportButton onExport={handleExport} disabled={matches.length === 0} />
           </div>
         </div>
 
@@ -235,7 +414,7 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
                       </div>
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Explanation
+                      Details
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
@@ -243,7 +422,7 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {sortedMatches.map((match) => (
+                  {displayedMatches.map((match) => (
                     <React.Fragment key={match.candidate_id}>
                       <tr className="hover:bg-gray-50">
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -284,18 +463,51 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
                             onClick={() => toggleRowExpansion(match.candidate_id)}
                             className="text-sm text-[#7C3AED] hover:underline flex items-center gap-1"
                           >
-                            {expandedRows.has(match.candidate_id) ? 'Hide' : 'Show'} Explanation
+                            {expandedRows.has(match.candidate_id) ? 'Hide' : 'Show'} Details
                             {expandedRows.has(match.candidate_id) ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
                           </button>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <button
-                            onClick={() => handleOpenResume(match.candidate_id)}
-                            className="px-3 py-1 bg-[#7C3AED] text-white rounded text-sm font-medium hover:bg-[#6D28D9] flex items-center gap-1"
-                          >
-                            <ExternalLink className="w-4 h-4" />
-                            Open Resume
-                          </button>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => handleOpenResume(match.candidate_id)}
+                              className="px-3 py-1 bg-[#7C3AED] text-white rounded text-sm font-medium hover:bg-[#6D28D9] flex items-center gap-1"
+                            >
+                              <ExternalLink className="w-4 h-4" />
+                              Open Resume
+                            </button>
+                            {isHidden(match.candidate_id) && (
+                              <button
+                                onClick={() => handleReveal(match.candidate_id)}
+                                disabled={revealingId === match.candidate_id}
+                                title="Blind review: name, contacts, employers and location are hidden"
+                                className="px-3 py-1 border border-gray-300 text-gray-700 rounded text-sm font-medium hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
+                              >
+                                {revealingId === match.candidate_id
+                                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                                  : <EyeOff className="w-4 h-4" />}
+                                Reveal
+                              </button>
+                            )}
+                            {pipelineCandidateIds.has(match.candidate_id) ? (
+                              <span className="px-3 py-1 text-sm font-medium text-green-700 flex items-center gap-1">
+                                <Check className="w-4 h-4" />
+                                In Pipeline
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => handleAddToPipeline(match)}
+                                disabled={selectedJobId === null || addingToPipelineId === match.candidate_id}
+                                title={selectedJobId === null ? 'This vacancy is not linked to a job in My Jobs' : undefined}
+                                className="px-3 py-1 border border-[#7C3AED] text-[#7C3AED] rounded text-sm font-medium hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                              >
+                                {addingToPipelineId === match.candidate_id
+                                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                                  : <Plus className="w-4 h-4" />}
+                                Add to Pipeline
+                              </button>
+                            )}
+                          </div>
                         </td>
                       </tr>
                       {expandedRows.has(match.candidate_id) && (
@@ -304,6 +516,15 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
                             <div className="text-sm text-gray-700">
                               <strong>Explanation:</strong> {match.explanation}
                             </div>
+                            {match.breakdown ? (
+                              <div className="mt-3">
+                                <MatchBreakdownTable breakdown={match.breakdown} />
+                              </div>
+                            ) : (
+                              <div className="mt-3 text-sm text-gray-500">
+                                Score breakdown unavailable for this match.
+                              </div>
+                            )}
                           </td>
                         </tr>
                       )}
@@ -326,7 +547,7 @@ const MatchingDashboard: React.FC<MatchingDashboardProps> = ({ onNavigate }) =>
       {/* Resume Modal */}
       {isModalOpen && selectedCandidate && (
         <CandidateResumeModal
-          candidate={selectedCandidate}
+          candidate={isHidden(selectedCandidate.candidate_id) ? anonymizeMatch(selectedCandidate) : selectedCandidate}
           onClose={() => {
             setIsModalOpen(false);
             setSelectedCandidate(null);
@@ -1,86 +1,71 @@
 import React, { useState, useEffect } from 'react';
-import { motion } from 'framer-motion';
-import { Briefcase, Plus, MapPin, Building2, Globe, Tag, Code, Calendar } from 'lucide-react';
+import { Briefcase, Plus, FileSpreadsheet } from 'lucide-react';
 import Header from './Header';
 import HeroSection from './HeroSection';
 import ChatBot from './ChatBot';
 import JobCard from './JobCard';
 import AddJobModal from './AddJobModal';
 import JobMatchesPage from './JobMatchesPage';
+import PipelineBoard from './PipelineBoard';
 import JobDescriptionModal from './JobDescriptionModal';
-import { Job, JobFormData, JobDescription } from '../types';
-import { supabase } from '../lib/supabaseClient';
+import BackgroundJobsPanel from './BackgroundJobsPanel';
+import SpreadsheetImportWizard from './SpreadsheetImportWizard';
+import { Job, JobFormData } from '../types';
 import { useAuth } from '../hooks/useAuth';
 import galaxyBg from '../../images/logo/galaxy.jpg';
-import { normalizeJobTitle, generateJobTitleEmbedding } from '../services/jobTitleNormalization';
 import { normalizeAllJobTitlesForJobs } from '../utils/normalizeAllJobTitlesForJobs';
-import { normalizeLocation, generateLocationEmbedding } from '../services/locationNormalization';
 import { normalizeAllJobLocations } from '../utils/normalizeAllLocations';
+import { saveJob } from '../services/jobService';
+import { deleteUserJob, listUserJobs } from '../repositories/jobs';
+import { navigate } from '../hooks/useRouter';
+import { paths } from '../utils/routes';
 import { Loader2 } from 'lucide-react';
 
 interface MyJobsPageProps {
   onNavigate?: (page: 'Star Catalogue' | 'My Jobs' | 'Analytics') => void;
+  jobId?: number; // Job opened from the URL
+  jobView?: 'matches' | 'pipeline';
 }
 
-const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
+const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate, jobId, jobView }) => {
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [isLoadingJobs, setIsLoadingJobs] = useState(true);
   const { user } = useAuth();
 
-  const [jobDescriptions, setJobDescriptions] = useState<JobDescription[]>([]);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
   const [isViewModalOpen, setIsViewModalOpen] = useState<boolean>(false);
   const [editingJob, setEditingJob] = useState<Job | null>(null);
   const [viewingJob, setViewingJob] = useState<Job | null>(null);
-  const [selectedJobForMatches, setSelectedJobForMatches] = useState<Job | null>(null);
   const [isNormalizingJobTitles, setIsNormalizingJobTitles] = useState(false);
   const [isNormalizingLocations, setIsNormalizingLocations] = useState(false);
+  const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+  const [isSpreadsheetImportOpen, setIsSpreadsheetImportOpen] = useState(false);
 
-  // Load jobs from Supabase on component mount - only for current user
+  // Load jobs of the current user
   useEffect(() => {
     if (!user) return;
 
-    const loadJobs = async () => {
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('*')
-        .eq('user_id', user.id); // Only load jobs for current authenticated user
-      
-      if (!error && data) {
-        // Map Supabase data (snake_case) to Job format (camelCase)
-        const mappedJobs: Job[] = data.map((job: any) => ({
-          id: job.id,
-          title: job.title,
-          location: job.location,
-          locations: job.locations || (job.location ? [job.location] : []),
-          postedDate: job.posted_date || job.postedDate,
-          matchCount: job.match_count || job.matchCount || 0,
-          skills: job.skills || [],
-          status: job.status,
-          companyName: job.company_name || job.companyName,
-          industry: job.industry,
-          unifiedTitles: job.unified_titles || [],
-          description: job.description || null,
-          workplaceType: job.workplace_type,
-          employmentType: job.employment_type,
-          seniorityLevel: job.seniority_level,
-        }));
-        setJobs(mappedJobs);
-      } else if (error) {
-        console.error('Error loading jobs:', error);
-      }
-    };
-    loadJobs();
-  }, [user]);
+    listUserJobs(user.id)
+      .then(setJobs)
+      .catch(error => console.error('Error loading jobs:', error))
+      .finally(() => setIsLoadingJobs(false));
+  }, [user, jobsRefreshKey]);
 
-  const activeJobsCount = jobs.filter(job => job.status === 'active').length + jobDescriptions.filter(job => job.status === 'active').length;
-  const totalMatches = jobs.reduce((sum, job) => sum + job.matchCount, 0);
-  const totalJobs = jobs.length + jobDescriptions.length;
+  const routedJob = jobId !== undefined ? jobs.find(job => job.id === jobId) : undefined;
 
-  const handleViewMatches = (jobId: number) => {
-    const job = jobs.find(j => j.id === jobId);
-    if (job) {
-      setSelectedJobForMatches(job);
+  // A link to a job that is gone or not ours falls back to the list
+  useEffect(() => {
+    if (jobId !== undefined && !isLoadingJobs && !routedJob) {
+      navigate(paths.jobs(), { replace: true });
     }
+  }, [jobId, isLoadingJobs, routedJob]);
+
+  const activeJobsCount = jobs.filter(job => job.status === 'active').length;
+  const totalMatches = jobs.reduce((sum, job) => sum + job.matchCount, 0);
+  const totalJobs = jobs.length;
+
+  const handleViewMatches = (id: number) => {
+    navigate(paths.jobMatches(id));
   };
 
   const handleViewJob = (job: Job) => {
@@ -99,6 +84,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
       location: job.location,
       locations: job.locations || (job.location ? [job.location] : []),
       skills: job.skills,
+      skillRequirements: job.skillRequirements,
       companyName: job.companyName,
       industry: industryString,
       description: job.description || '',
@@ -107,6 +93,11 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
       seniorityLevel: job.seniorityLevel,
       consideringRelocation: job.consideringRelocation || false,
       acceptsRemoteCandidates: job.acceptsRemoteCandidates || false,
+      salaryMin: job.salaryMin,
+      salaryMax: job.salaryMax,
+      salaryCurrency: job.salaryCurrency,
+      salaryUnit: job.salaryUnit,
+      blindReview: job.blindReview || false,
     };
     setEditingJob({
       ...job,
@@ -128,268 +119,17 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
       return;
     }
 
-    if (!user.id) {
-      console.error('User ID is missing');
-      alert('User authentication error. Please log out and log in again.');
-      return;
-    }
-
     try {
-      // Convert industry to array if it's a string
-      const industryArray = jobData.industry 
-        ? (Array.isArray(jobData.industry) ? jobData.industry : [jobData.industry])
-        : [];
-
-      // Convert skills to array if needed
-      const skillsArray = jobData.skills 
-        ? (Array.isArray(jobData.skills) ? jobData.skills : [jobData.skills])
-        : [];
-
-      if (editingJob) {
-        // Normalize location and generate embedding for update
-        let normalizedLocation = '';
-        let locationEmbedding: number[] | null = null;
-        
-        const jobLocation = jobData.location || (jobData.locations && jobData.locations.length > 0 ? jobData.locations[0] : '');
-        if (jobLocation && jobLocation.trim()) {
-          try {
-            console.log('Normalizing location for update:', jobLocation);
-            normalizedLocation = await normalizeLocation(jobLocation);
-            console.log('Normalized location:', normalizedLocation);
-            
-            if (normalizedLocation) {
-              locationEmbedding = await generateLocationEmbedding(normalizedLocation);
-              console.log('Location embedding generated:', locationEmbedding ? 'Success' : 'Failed');
-            }
-          } catch (normalizationError) {
-            console.error('Error normalizing location:', normalizationError);
-            // Keep original location if normalization fails (don't convert to lowercase)
-            normalizedLocation = jobLocation.trim();
-          }
-        }
-        
-        // Update existing job in Supabase - ensure it belongs to current user
-        const updateData: any = {
-          title: jobData.title,
-          location: jobLocation,
-          normalized_location: normalizedLocation || null,
-          locations: jobData.locations || [],
-          skills: skillsArray,
-          company_name: jobData.companyName || null,
-          industry: industryArray,
-          description: jobData.description || null,
-          workplace_type: jobData.workplaceType || 'Remote',
-          employment_type: jobData.employmentType || 'Full-time',
-          seniority_level: jobData.seniorityLevel || 'Not Applicable',
-          considering_relocation: jobData.consideringRelocation || false,
-        };
-        
-        // Add accepts_remote_candidates if provided (column may not exist yet)
-        if (jobData.acceptsRemoteCandidates !== undefined) {
-          updateData.accepts_remote_candidates = jobData.acceptsRemoteCandidates;
-        }
-        
-        // Add location_embedding if available
-        if (locationEmbedding && locationEmbedding.length > 0) {
-          updateData.location_embedding = locationEmbedding;
-        }
-        
-        // Add unified_titles if available (temporarily commented out until DB column is added)
-        // if (jobData.unifiedTitles) {
-        //   updateData.unified_titles = jobData.unifiedTitles;
-        // }
-
-        console.log('Updating job:', { jobId: editingJob.id, userId: user.id, data: updateData });
-
-        const { data, error } = await supabase
-          .from('jobs')
-          .update(updateData)
-          .eq('id', editingJob.id)
-          .eq('user_id', user.id) // Security: only update own jobs
-          .select();
-
-        if (error) {
-          console.error('Error updating job:', error);
-          
-          // Check for missing column errors
-          if (error.message && error.message.includes('unified_titles')) {
-            alert('Database schema needs to be updated. Please run the SQL script from add_unified_titles_to_jobs.sql in Supabase Dashboard to add the unified_titles column.');
-          } else if (error.message && error.message.includes('accepts_remote_candidates')) {
-            alert('Database schema needs to be updated. Please run the SQL script from add_accepts_remote_candidates_to_jobs.sql in Supabase Dashboard to add the accepts_remote_candidates column. See INSTRUCTIONS_ACCEPTS_REMOTE_CANDIDATES.md for details.');
-          } else {
-            alert(`Failed to update job: ${error.message || 'Unknown error'}. Check console for details.`);
-          }
-          return;
-        }
-
-        if (data && data[0]) {
-          // Map Supabase response to Job format
-          const updatedJob: Job = {
-            id: data[0].id,
-            title: data[0].title,
-            location: data[0].location,
-            locations: data[0].locations || (data[0].location ? [data[0].location] : []),
-            postedDate: data[0].posted_date,
-            matchCount: data[0].match_count || 0,
-            skills: data[0].skills || [],
-            status: data[0].status,
-            companyName: data[0].company_name,
-            industry: data[0].industry || [],
-            unifiedTitles: data[0].unified_titles || [],
-            description: data[0].description || null,
-            workplaceType: data[0].workplace_type,
-            employmentType: data[0].employment_type,
-            seniorityLevel: data[0].seniority_level,
-            consideringRelocation: data[0].considering_relocation || false,
-            acceptsRemoteCandidates: data[0].accepts_remote_candidates || false,
-          };
-          setJobs(jobs.map(job => job.id === editingJob.id ? updatedJob : job));
-        }
-      } else {
-        // Normalize job title and generate embedding
-        let normalizedTitle = '';
-        let titleEmbedding: number[] | null = null;
-        
-        if (jobData.title && jobData.title.trim()) {
-          try {
-            console.log('Normalizing job title:', jobData.title);
-            normalizedTitle = await normalizeJobTitle(jobData.title);
-            console.log('Normalized job title:', normalizedTitle);
-            
-            if (normalizedTitle) {
-              titleEmbedding = await generateJobTitleEmbedding(normalizedTitle);
-              console.log('Job title embedding generated:', titleEmbedding ? 'Success' : 'Failed');
-            }
-          } catch (normalizationError) {
-            console.error('Error normalizing job title:', normalizationError);
-            // Continue with original title if normalization fails
-            normalizedTitle = jobData.title.toLowerCase().trim();
-          }
-        }
-        
-        // Normalize location and generate embedding
-        let normalizedLocation = '';
-        let locationEmbedding: number[] | null = null;
-        
-        const jobLocation = jobData.location || (jobData.locations && jobData.locations.length > 0 ? jobData.locations[0] : '');
-        if (jobLocation && jobLocation.trim()) {
-          try {
-            console.log('Normalizing location:', jobLocation);
-            normalizedLocation = await normalizeLocation(jobLocation);
-            console.log('Normalized location:', normalizedLocation);
-            
-            if (normalizedLocation) {
-              locationEmbedding = await generateLocationEmbedding(normalizedLocation);
-              console.log('Location embedding generated:', locationEmbedding ? 'Success' : 'Failed');
-            }
-          } catch (normalizationError) {
-            console.error('Error normalizing location:', normalizationError);
-            // Keep original location if normalization fails (don't convert to lowercase)
-            normalizedLocation = jobLocation.trim();
-          }
-        }
-        
-        // Add new job to Supabase with user_id
-        const newJobData: any = {
-          title: jobData.title,
-          normalized_title: normalizedTitle || null,
-          location: jobLocation,
-          normalized_location: normalizedLocation || null,
-          locations: jobData.locations || [],
-          posted_date: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
-          match_count: 0,
-          skills: skillsArray,
-          status: 'active',
-          company_name: jobData.companyName || null,
-          industry: industryArray,
-          description: jobData.description || null,
-          considering_relocation: jobData.consideringRelocation || false,
-          // accepts_remote_candidates: jobData.acceptsRemoteCandidates || false, // Temporarily commented out until DB column is added
-          user_id: user.id, // Associate job with current authenticated user
-        };
-        
-        // Add accepts_remote_candidates if column exists (will be added after migration)
-        try {
-          if (jobData.acceptsRemoteCandidates !== undefined) {
-            newJobData.accepts_remote_candidates = jobData.acceptsRemoteCandidates;
-          }
-        } catch (e) {
-          // Column doesn't exist yet, skip it
-          console.warn('accepts_remote_candidates column not found, skipping...');
-        }
-        
-        // Add embeddings if available
-        if (titleEmbedding && titleEmbedding.length > 0) {
-          newJobData.title_embedding = titleEmbedding;
-        }
-        if (locationEmbedding && locationEmbedding.length > 0) {
-          newJobData.location_embedding = locationEmbedding;
-        }
-        
-        // Add unified_titles if available (temporarily commented out until DB column is added)
-        // if (jobData.unifiedTitles) {
-        //   newJobData.unified_titles = jobData.unifiedTitles;
-        // }
-
-        console.log('Saving new job:', { userId: user.id, data: newJobData });
-
-        const { data, error } = await supabase
-          .from('jobs')
-          .insert([newJobData])
-          .select();
-
-        if (error) {
-          console.error('Error saving job:', error);
-          console.error('Error details:', {
-            message: error.message,
-            details: error.details,
-            hint: error.hint,
-            code: error.code,
-          });
-          
-          // Check if error is about missing unified_titles column
-          if (error.message && error.message.includes('unified_titles')) {
-            alert('Database schema needs to be updated. Please run the SQL script from add_unified_titles_to_jobs.sql in Supabase Dashboard to add the unified_titles column.');
-          } else {
-            alert(`Failed to save job: ${error.message || 'Unknown error'}. Check console for details.`);
-          }
-          return;
-        }
-
-        if (data && data[0]) {
-          // Map Supabase response to Job format
-          const newJob: Job = {
-            id: data[0].id,
-            title: data[0].title,
-            location: data[0].location,
-            locations: data[0].locations || (data[0].location ? [data[0].location] : []),
-            postedDate: data[0].posted_date,
-            matchCount: data[0].match_count || 0,
-            skills: data[0].skills || [],
-            status: data[0].status,
-            companyName: data[0].company_name,
-            industry: data[0].industry || [],
-            unifiedTitles: data[0].unified_titles || [],
-            description: data[0].description || null,
-            workplaceType: data[0].workplace_type || 'Remote',
-            employmentType: data[0].employment_type || 'Full-time',
-            seniorityLevel: data[0].seniority_level || 'Not Applicable',
-            consideringRelocation: data[0].considering_relocation || false,
-            acceptsRemoteCandidates: data[0].accepts_remote_candidates || false,
-          };
-          setJobs([newJob, ...jobs]);
-        } else {
-          console.error('No data returned from insert');
-          alert('Failed to save job: No data returned. Check console for details.');
-          return;
-        }
-      }
-      
+      const savedJob = await saveJob(user.id, jobData, editingJob?.id);
+      setJobs(prev => editingJob
+        ? prev.map(job => job.id === savedJob.id ? savedJob : job)
+        : [savedJob, ...prev]);
+      // Shows the embedding and normalization jobs queued for it
+      setJobsRefreshKey(key => key + 1);
       setIsModalOpen(false);
       setEditingJob(null);
-    } catch (err: any) {
-      console.error('Unexpected error saving job:', err);
-      alert(`Unexpected error: ${err.message || 'Unknown error'}. Check console for details.`);
+    } catch (err) {
+      alert(`${err instanceof Error ? err.message : 'Failed to save job'}. Check console for details.`);
     }
   };
 
@@ -400,72 +140,70 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
     }
 
     if (confirm('Are you sure you want to delete this job?')) {
-      const { error } = await supabase
-        .from('jobs')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user.id); // Security: only delete own jobs
-
-      if (!error) {
+      try {
+        await deleteUserJob(user.id, id);
         setJobs(prev => prev.filter(job => job.id !== id));
-      } else {
-        console.error('Error deleting job:', error);
+      } catch {
         alert('Failed to delete job. Please try again.');
       }
     }
   };
 
-  const handleDeleteJobDescription = (id: number) => {
-    if (confirm('Are you sure you want to delete this job description?')) {
-      setJobDescriptions(prev => prev.filter(job => job.id !== id));
-    }
-  };
-
   const handleNormalizeAllJobTitles = async () => {
-    if (!confirm('This will normalize job titles and generate embeddings for ALL jobs in the database. This may take a while and use OpenAI API credits. Continue?')) {
+    if (!confirm('This will normalize job titles and generate embeddings for ALL jobs in the database. This runs in the background and uses OpenAI API credits. Continue?')) {
       return;
     }
     
     setIsNormalizingJobTitles(true);
     try {
       await normalizeAllJobTitlesForJobs();
-      alert('Job title normalization complete! Check console for details. The page will reload to show updated data.');
-      // Reload jobs to show updated data
-      window.location.reload();
+      setJobsRefreshKey(key => key + 1);
     } catch (error) {
-      console.error('Error normalizing job titles:', error);
+      console.error('Error queueing job title normalization:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Error normalizing job titles:\n\n${errorMessage}\n\nCheck console for more details.`);
+      alert(`Error queueing job title normalization:\n\n${errorMessage}\n\nCheck console for more details.`);
     } finally {
       setIsNormalizingJobTitles(false);
     }
   };
 
   const handleNormalizeAllJobLocations = async () => {
-    if (!confirm('This will normalize locations and generate embeddings for ALL jobs in the database. This may take a while and use OpenAI API credits. Continue?')) {
+    if (!confirm('This will normalize locations and generate embeddings for ALL jobs in the database. This runs in the background and uses OpenAI API credits. Continue?')) {
       return;
     }
     
     setIsNormalizingLocations(true);
     try {
       await normalizeAllJobLocations();
-      alert('Location normalization complete! Check console for details. The page will reload to show updated data.');
-      window.location.reload();
+      setJobsRefreshKey(key => key + 1);
     } catch (error) {
-      console.error('Error normalizing locations:', error);
+      console.error('Error queueing location normalization:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Error normalizing locations:\n\n${errorMessage}\n\nCheck console for more details.`);
+      alert(`Error queueing location normalization:\n\n${errorMessage}\n\nCheck console for more details.`);
     } finally {
       setIsNormalizingLocations(false);
     }
   };
 
-  // Show matches page if job is selected
-  if (selectedJobForMatches) {
-    return (
+  // Matches or pipeline of the job in the URL
+  if (jobId !== undefined) {
+    if (!routedJob) {
+      return (
+        <div className="min-h-screen bg-gradient-to-br from-[#E8E9EB] via-[#E0E2E5] to-[#E8E9EB] flex items-center justify-center">
+          <Loader2 className="w-8 h-8 text-[#7C3AED] animate-spin" />
+        </div>
+      );
+    }
+
+    return jobView === 'pipeline' ? (
+      <PipelineBoard
+        job={routedJob}
+        onBack={() => navigate(paths.jobs())}
+      />
+    ) : (
       <JobMatchesPage
-        job={selectedJobForMatches}
-        onBack={() => setSelectedJobForMatches(null)}
+        job={routedJob}
+        onBack={() => navigate(paths.jobs())}
       />
     );
   }
@@ -510,7 +248,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
                     {isNormalizingLocations ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Normalizing...
+                        Queueing...
                       </>
                     ) : (
                       'Normalize All Locations'
@@ -524,7 +262,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
                     {isNormalizingJobTitles ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Normalizing...
+                        Queueing...
                       </>
                     ) : (
                       'Normalize All Job Titles'
@@ -532,6 +270,13 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
                   </button>
                 </>
               )}
+              <button
+                onClick={() => setIsSpreadsheetImportOpen(true)}
+                className="flex items-center gap-2 px-4 py-3 bg-white border border-[#7C3AED] text-[#7C3AED] font-semibold rounded-lg hover:bg-purple-50 transition-colors focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+              >
+                <FileSpreadsheet className="w-5 h-5" />
+                Import Spreadsheet
+              </button>
               <button
                 onClick={handleAddNew}
                 className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white font-semibold rounded-lg hover:shadow-[0_0_25px_rgba(124,58,237,0.7)] transition-all duration-300 hover:scale-105 focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:ring-offset-2 focus:ring-offset-transparent"
@@ -543,11 +288,17 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
           </div>
         </section>
 
+        {user && (
+          <BackgroundJobsPanel
+            types={['normalize_job_titles', 'normalize_job_locations', 'generate_job_embeddings']}
+            refreshKey={jobsRefreshKey}
+          />
+        )}
+
         {/* Jobs Grid */}
         {totalJobs > 0 ? (
           <section>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Job Cards from MyJobs */}
               {jobs.map((job) => (
                       <JobCard
                         key={job.id}
@@ -556,153 +307,10 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
                         onEdit={handleEdit}
                         onDelete={handleDeleteJob}
                         onView={handleViewJob}
+                        onViewPipeline={job => navigate(paths.jobPipeline(job.id))}
                       />
               ))}
-              
-              {/* Job Description Cards */}
-              {jobDescriptions.map((job, index) => (
-                <motion.div
-                  key={job.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.1 }}
-                >
-                  <div className="relative bg-white rounded-2xl shadow-lg border-2 border-gray-200 p-6 hover:border-[#7C3AED] hover:shadow-xl hover:shadow-purple-500/20 transition-all duration-300 hover:scale-[1.02]">
-                    {/* Status indicator stripe */}
-                    <div className={`absolute left-0 top-0 bottom-0 w-1.5 rounded-l-2xl ${
-                      job.status === 'active' ? 'bg-green-500' :
-                      job.status === 'paused' ? 'bg-yellow-500' :
-                      'bg-gray-400'
-                    }`} />
-                    
-                    {/* Header */}
-                    <div className="flex items-start justify-between mb-4 ml-3">
-                      <div className="flex-1">
-                        <h3 className="text-xl font-bold text-gray-900 mb-2">{job.jobTitle}</h3>
-                        <div className="flex items-center gap-4 text-sm text-gray-600 mb-3">
-                          <div className="flex items-center gap-1.5">
-                            <Building2 className="w-4 h-4 text-[#7C3AED]" />
-                            <span className="font-medium">{job.companyName}</span>
-                          </div>
-                          <div className="flex items-center gap-1.5">
-                            <MapPin className="w-4 h-4 text-[#06B6D4]" />
-                            <span className="font-medium">{job.location}</span>
-                          </div>
-                        </div>
-                        {job.postedDate && (
-                          <div className="flex items-center gap-1.5 text-sm text-gray-500 mb-3">
-                            <Calendar className="w-4 h-4" />
-                            <span>Posted {job.postedDate}</span>
-                          </div>
-                        )}
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={() => {
-                            // Convert JobDescription to Job for editing
-                            const jobToEdit: Job = {
-                              id: job.id,
-                              title: job.jobTitle,
-                              location: job.location,
-                              postedDate: job.postedDate || job.createdAt,
-                              matchCount: 0,
-                              skills: job.hardSkills || [],
-                              status: job.status,
-                              companyName: job.companyName,
-                              industry: job.industry,
-                            };
-                            setEditingJob(jobToEdit);
-                            setIsModalOpen(true);
-                          }}
-                          className="px-3 py-1.5 text-xs font-semibold text-[#7C3AED] border-2 border-[#7C3AED] rounded-lg hover:bg-purple-50 transition-all duration-200"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => handleDeleteJobDescription(job.id)}
-                          className="px-3 py-1.5 text-xs font-semibold text-red-600 border-2 border-red-300 rounded-lg hover:bg-red-50 transition-all duration-200"
-                        >
-                          Delete
-                        </button>
-                      </div>
-                    </div>
-
-                    {/* Meta Info */}
-                    <div className="space-y-2 mb-4 ml-3">
-                      {job.industry && Array.isArray(job.industry) && job.industry.length > 0 && (
-                        <div className="mb-3">
-                          <div className="flex items-center gap-2 mb-2">
-                            <Tag className="w-4 h-4 text-cyan-600" />
-                            <span className="text-xs font-bold text-gray-700 uppercase tracking-wide">Industries</span>
-                          </div>
-                          <div className="flex flex-wrap gap-2">
-                            {job.industry.map((ind, idx) => (
-                              <span
-                                key={idx}
-                                className="px-3 py-1.5 bg-gradient-to-r from-cyan-50 to-blue-50 border border-cyan-300 text-cyan-800 rounded-full text-xs font-medium shadow-sm"
-                              >
-                                {ind}
-                              </span>
-                            ))}
-                          </div>
-                        </div>
-                      )}
-                      <div className="flex items-center gap-2 text-sm">
-                        <Globe className="w-4 h-4 text-gray-500" />
-                        <span className="font-semibold text-gray-700">Considering Relocation:</span>
-                        <span className={`font-bold ${job.consideringRelocation ? 'text-green-600' : 'text-gray-500'}`}>
-                          {job.consideringRelocation ? 'Yes' : 'No'}
-                        </span>
-                      </div>
-                    </div>
-
-                    {/* Hard Skills */}
-                    {job.hardSkills && job.hardSkills.length > 0 && (
-                      <div className="mb-4 ml-3">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Code className="w-4 h-4 text-purple-600" />
-                          <span className="text-xs font-bold text-gray-700 uppercase tracking-wide">Hard Skills</span>
-                        </div>
-                        <div className="flex flex-wrap gap-2">
-                          {job.hardSkills.map((skill, idx) => (
-                            <span
-                              key={idx}
-                              className="px-3 py-1.5 bg-gradient-to-r from-purple-50 to-pink-50 border border-purple-300 text-purple-800 rounded-full text-xs font-medium shadow-sm"
-                            >
-                              {skill}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
 
-                    {/* Job Description - Full text, no shortening */}
-                    {job.jobDescription && (
-                      <div className="mt-4 pt-4 border-t border-gray-200 ml-3">
-                        <p className="text-xs font-bold text-gray-700 uppercase mb-2 tracking-wide">Description</p>
-                        <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-3 leading-relaxed">
-                          {job.jobDescription}
-                        </p>
-                      </div>
-                    )}
-
-                    {/* Footer */}
-                    <div className="mt-4 pt-4 border-t border-gray-200 flex items-center justify-between text-xs ml-3">
-                      <div className="flex items-center gap-1.5 text-gray-600 font-medium">
-                        <Calendar className="w-3 h-3" />
-                        <span>Posted: {job.postedDate || job.createdAt}</span>
-                      </div>
-                      <span className={`px-3 py-1.5 rounded-full font-semibold shadow-sm ${
-                        job.status === 'active' ? 'bg-green-100 text-green-700 border border-green-300' :
-                        job.status === 'paused' ? 'bg-yellow-100 text-yellow-700 border border-yellow-300' :
-                        'bg-gray-100 text-gray-700 border border-gray-300'
-                      }`}>
-                        {job.status}
-                      </span>
-                    </div>
-                  </div>
-                </motion.div>
-              ))}
             </div>
           </section>
         ) : (
@@ -724,6 +332,13 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
         )}
       </main>
 
+      <SpreadsheetImportWizard
+        open={isSpreadsheetImportOpen}
+        target="jobs"
+        onClose={() => setIsSpreadsheetImportOpen(false)}
+        onImported={() => setJobsRefreshKey(key => key + 1)}
+      />
+
       {/* Add/Edit Job Modal */}
       <AddJobModal
         open={isModalOpen && !isViewModalOpen}
@@ -737,12 +352,18 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onNavigate }) => {
           location: editingJob.location,
           locations: editingJob.locations || (editingJob.location ? [editingJob.location] : []),
           skills: editingJob.skills,
+          skillRequirements: editingJob.skillRequirements,
           companyName: editingJob.companyName,
           industry: editingJob.industry,
           description: editingJob.description || '',
           workplaceType: editingJob.workplaceType,
           employmentType: editingJob.employmentType,
           seniorityLevel: editingJob.seniorityLevel,
+          salaryMin: editingJob.salaryMin,
+          salaryMax: editingJob.salaryMax,
+          salaryCurrency: editingJob.salaryCurrency,
+          salaryUnit: editingJob.salaryUnit,
+          blindReview: editingJob.blindReview,
         } : null}
       />
 
@@ -0,0 +1,310 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, MapPin, History, Trash2, Loader2, RefreshCw, Users } from 'lucide-react';
+import { Application, ApplicationStageChange, Job, PipelineStage } from '../types';
+import { supabase } from '../lib/supabaseClient';
+import {
+  fetchApplicationHistory,
+  fetchJobApplications,
+  fetchPipelineStages,
+  moveApplication,
+  removeFromPipeline,
+} from '../services/pipelineService';
+import Header from './Header';
+
+interface PipelineBoardProps {
+  job: Job;
+  onBack: () => void;
+}
+
+const STAGE_ACCENTS: Record<string, string> = {
+  sourced: 'border-t-gray-400',
+  screened: 'border-t-[#06B6D4]',
+  interview: 'border-t-[#7C3AED]',
+  offer: 'border-t-yellow-500',
+  hired: 'border-t-green-500',
+  rejected: 'border-t-red-500',
+};
+
+/**
+ * Position between the neighbours of the drop target, so only the moved card is updated
+ */
+const positionBefore = (column: Application[], index: number): number => {
+  if (column.length === 0) return Date.now();
+  if (index >= column.length) return column[column.length - 1].position + 1;
+  const next = column[index].position;
+  const prev = index > 0 ? column[index - 1].position : next - 2;
+  return (prev + next) / 2;
+};
+
+/**
+ * Kanban board of a job's hiring pipeline; cards are dragged between stage columns
+ */
+const PipelineBoard: React.FC<PipelineBoardProps> = ({ job, onBack }) => {
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropStageId, setDropStageId] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<Application | null>(null);
+  const [history, setHistory] = useState<ApplicationStageChange[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+
+  const loadBoard = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [stageData, applicationData] = await Promise.all([
+        fetchPipelineStages(),
+        fetchJobApplications(job.id),
+      ]);
+      setStages(stageData);
+      setApplications(applicationData);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading pipeline:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load pipeline');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [job.id]);
+
+  useEffect(() => {
+    loadBoard();
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, [loadBoard]);
+
+  const columnFor = (stageId: string) =>
+    applications
+      .filter(application => application.stageId === stageId)
+      .sort((a, b) => a.position - b.position);
+
+  const handleDrop = async (stageId: string, index: number) => {
+    const application = applications.find(a => a.id === draggedId);
+    setDraggedId(null);
+    setDropStageId(null);
+    if (!application) return;
+
+    const column = columnFor(stageId).filter(a => a.id !== application.id);
+    const position = positionBefore(column, index);
+    if (application.stageId === stageId && application.position === position) return;
+
+    // Move right away and put the card back if saving fails
+    const previous = applications;
+    setApplications(prev => prev.map(a => (a.id === application.id ? { ...a, stageId, position } : a)));
+    try {
+      await moveApplication(application.id, stageId, position);
+    } catch (err) {
+      console.error('Error moving application:', err);
+      setApplications(previous);
+      alert(err instanceof Error ? err.message : 'Failed to move candidate');
+    }
+  };
+
+  const handleShowHistory = async (application: Application) => {
+    setHistoryFor(application);
+    setHistory([]);
+    try {
+      setHistory(await fetchApplicationHistory(application.id));
+    } catch (err) {
+      console.error('Error loading stage history:', err);
+    }
+  };
+
+  const handleRemove = async (application: Application) => {
+    const name = application.candidate?.name || 'this candidate';
+    if (!confirm(`Remove ${name} from the pipeline for "${job.title}"?`)) return;
+    try {
+      await removeFromPipeline(application.id);
+      setApplications(prev => prev.filter(a => a.id !== application.id));
+    } catch (err) {
+      console.error('Error removing application:', err);
+      alert(err instanceof Error ? err.message : 'Failed to remove candidate');
+    }
+  };
+
+  const stageLabel = (stageId: string | null) =>
+    stages.find(stage => stage.id === stageId)?.label ?? 'Unknown stage';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#E8E9EB] via-[#E0E2E5] to-[#E8E9EB]">
+      <Header activePage="My Jobs" />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <button
+              onClick={onBack}
+              className="text-[#7C3AED] hover:text-[#06B6D4] mb-2 flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Back to Jobs
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Pipeline: <span className="text-[#7C3AED]">{job.title}</span>
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {applications.length} candidate{applications.length !== 1 ? 's' : ''} in pipeline
+            </p>
+          </div>
+          <button
+            onClick={loadBoard}
+            className="px-4 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 flex items-center gap-2"
+          >
+            <RefreshCw className="w-5 h-5" />
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Loader2 className="w-12 h-12 animate-spin text-[#7C3AED] mx-auto" />
+            <p className="mt-4 text-gray-600">Loading pipeline...</p>
+          </div>
+        ) : applications.length === 0 && !error ? (
+          <div className="text-center py-12 bg-white rounded-xl shadow-lg">
+            <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No candidates in the pipeline yet</h3>
+            <p className="text-gray-600">Use "Add to Pipeline" on a candidate from Find Matches or the Matching Dashboard</p>
+          </div>
+        ) : (
+          <div className="flex gap-4 overflow-x-auto pb-4">
+            {stages.map(stage => {
+              const column = columnFor(stage.id);
+              return (
+                <div
+                  key={stage.id}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropStageId(stage.id);
+                  }}
+                  onDragLeave={() => setDropStageId(null)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(stage.id, column.length);
+                  }}
+                  className={`w-72 flex-shrink-0 bg-white/70 rounded-lg border-t-4 ${STAGE_ACCENTS[stage.key] ?? 'border-t-gray-400'} ${
+                    dropStageId === stage.id ? 'ring-2 ring-[#7C3AED]' : ''
+                  }`}
+                >
+                  <div className="px-4 py-3 flex items-center justify-between">
+                    <h2 className="font-semibold text-gray-900">{stage.label}</h2>
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs font-medium">
+                      {column.length}
+                    </span>
+                  </div>
+                  <div className="px-3 pb-3 space-y-3 min-h-[120px]">
+                    {column.map((application, index) => (
+                      <div
+                        key={application.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDraggedId(application.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggedId(null);
+                          setDropStageId(null);
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          handleDrop(stage.id, index);
+                        }}
+                        className={`bg-white rounded-lg shadow-md p-3 cursor-grab active:cursor-grabbing border border-gray-200 hover:border-[#7C3AED] ${
+                          draggedId === application.id ? 'opacity-50' : ''
+                        }`}
+                      >
+                        <div className="font-medium text-gray-900">{application.candidate?.name || 'Unknown'}</div>
+                        {application.candidate?.jobTitle && (
+                          <div className="text-sm text-gray-600">{application.candidate.jobTitle}</div>
+                        )}
+                        {application.candidate?.location && (
+                          <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                            <MapPin className="w-3 h-3" />
+                            {application.candidate.location}
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                          <span>
+                            {application.matchScore !== undefined && (
+                              <span className="mr-2 px-1.5 py-0.5 bg-purple-50 text-[#7C3AED] rounded font-medium">
+                                {Math.round(application.matchScore * 100)}%
+                              </span>
+                            )}
+                            {new Date(application.updatedAt).toLocaleDateString()}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <button
+                              onClick={() => handleShowHistory(application)}
+                              className="p-1 hover:text-[#7C3AED]"
+                              aria-label="Stage history"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleRemove(application)}
+                              className="p-1 hover:text-red-600"
+                              aria-label="Remove from pipeline"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Stage History Modal */}
+      {historyFor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">{historyFor.candidate?.name || 'Unknown'}</h2>
+                <p className="text-sm text-gray-500">Stage history</p>
+              </div>
+              <button onClick={() => setHistoryFor(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <ul className="px-6 py-4 space-y-3 max-h-96 overflow-y-auto">
+              {history.length === 0 ? (
+                <li className="text-sm text-gray-400">Loading...</li>
+              ) : (
+                history.map(change => (
+                  <li key={change.id} className="text-sm">
+                    <div className="text-gray-900">
+                      {change.fromStageId
+                        ? <>{stageLabel(change.fromStageId)} → <strong>{stageLabel(change.toStageId)}</strong></>
+                        : <>Added to <strong>{stageLabel(change.toStageId)}</strong></>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(change.movedAt).toLocaleString()}
+                      {' · '}
+                      {change.movedByUserId === currentUserId ? 'You' : change.movedByUserId ? `User ${change.movedByUserId.slice(0, 8)}` : 'System'}
+                    </div>
+                  </li>
+                ))
+              )}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PipelineBoard;
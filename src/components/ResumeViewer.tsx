@@ -1,16 +1,81 @@
-import React, { useRef } from 'react';
-import { X, Download } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Download, Loader2, History, GitCompare } from 'lucide-react';
+import { ResumeVersion } from '../types';
+import { downloadResumeVersion, fetchResumeVersions } from '../services/resumeVersionService';
+import { diffResumeHtml } from '../utils/resumeDiff';
 
 interface ResumeViewerProps {
-  resumeFile: File;
+  candidateId?: string | number; // Loads the stored versions when set
+  resumeFile?: File | null; // Local file, downloadable before it is stored
   htmlContent: string;
+  anonymizeHtml?: (html: string) => string; // Blind review: applied to every version, originals are not downloadable
   onClose: () => void;
 }
 
-const ResumeViewer: React.FC<ResumeViewerProps> = ({ resumeFile, htmlContent, onClose }) => {
+const formatVersionLabel = (version: ResumeVersion, isCurrent: boolean) =>
+  `v${version.version} · ${new Date(version.uploadedAt).toLocaleDateString()} · ${version.fileName}${isCurrent ? ' (current)' : ''}`;
+
+const ResumeViewer: React.FC<ResumeViewerProps> = ({ candidateId, resumeFile, htmlContent, anonymizeHtml, onClose }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (candidateId === undefined) return;
+    let cancelled = false;
+    setIsLoadingVersions(true);
+    fetchResumeVersions(candidateId)
+      .then(result => {
+        if (cancelled) return;
+        setVersions(result);
+        setSelectedId(result[0]?.id ?? null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load resume versions');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingVersions(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [candidateId]);
+
+  const selected = versions.find(v => v.id === selectedId) || null;
+  const compareTo = versions.find(v => v.id === compareId) || null;
+
+  // Always diff from the older version to the newer one
+  const diff = useMemo(() => {
+    if (!selected || !compareTo) return null;
+    const [older, newer] = compareTo.version < selected.version ? [compareTo, selected] : [selected, compareTo];
+    const html = (version: ResumeVersion) => (anonymizeHtml ? anonymizeHtml(version.htmlContent) : version.htmlContent);
+    return { older, newer, lines: diffResumeHtml(html(older), html(newer)) };
+  }, [selected, compareTo, anonymizeHtml]);
+
+  const displayedHtml = useMemo(() => {
+    const html = selected ? selected.htmlContent : htmlContent;
+    return anonymizeHtml ? anonymizeHtml(html) : html;
+  }, [selected, htmlContent, anonymizeHtml]);
+
+  const handleDownload = async () => {
+    if (selected) {
+      setIsDownloading(true);
+      setError(null);
+      try {
+        await downloadResumeVersion(selected);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to download resume');
+      } finally {
+        setIsDownloading(false);
+      }
+      return;
+    }
+    if (!resumeFile) return;
 
-  const handleDownload = () => {
     const url = URL.createObjectURL(resumeFile);
     const a = document.createElement('a');
     a.href = url;
@@ -28,15 +93,21 @@ const ResumeViewer: React.FC<ResumeViewerProps> = ({ resumeFile, htmlContent, on
         <div className="bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] p-4 rounded-t-xl flex items-center justify-between">
           <div className="flex items-center gap-3">
             <h2 className="text-white font-semibold text-lg">Resume</h2>
+            {selected && (
+              <span className="px-2 py-0.5 bg-white/20 rounded text-white text-xs">v{selected.version}</span>
+            )}
           </div>
           <div className="flex items-center gap-2">
-            <button
-              onClick={handleDownload}
-              className="px-3 py-1.5 bg-white/20 border border-white/30 text-white text-sm rounded-lg hover:bg-white/30 transition-all duration-200 flex items-center gap-2"
-            >
-              <Download className="w-4 h-4" />
-              Download
-            </button>
+            {!anonymizeHtml && (
+              <button
+                onClick={handleDownload}
+                disabled={isDownloading || (!selected && !resumeFile)}
+                className="px-3 py-1.5 bg-white/20 border border-white/30 text-white text-sm rounded-lg hover:bg-white/30 transition-all duration-200 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download Original
+              </button>
+            )}
             <button
               onClick={onClose}
               className="w-8 h-8 rounded-full bg-white/20 flex items-center justify-center hover:bg-white/30 transition-colors"
@@ -46,13 +117,84 @@ const ResumeViewer: React.FC<ResumeViewerProps> = ({ resumeFile, htmlContent, on
           </div>
         </div>
 
+        {/* Version toolbar */}
+        {(isLoadingVersions || versions.length > 0 || error) && (
+          <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-gray-200 text-sm">
+            {isLoadingVersions && <Loader2 className="w-4 h-4 text-[#7C3AED] animate-spin" />}
+            {versions.length > 0 && (
+              <label className="flex items-center gap-2 text-gray-600">
+                <History className="w-4 h-4" />
+                <select
+                  value={selectedId || ''}
+                  onChange={e => {
+                    setSelectedId(e.target.value);
+                    if (e.target.value === compareId) setCompareId(null);
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:border-[#7C3AED]"
+                >
+                  {versions.map((version, index) => (
+                    <option key={version.id} value={version.id}>
+                      {formatVersionLabel(version, index === 0)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {versions.length > 1 && (
+              <label className="flex items-center gap-2 text-gray-600">
+                <GitCompare className="w-4 h-4" />
+                <select
+                  value={compareId || ''}
+                  onChange={e => setCompareId(e.target.value || null)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:border-[#7C3AED]"
+                >
+                  <option value="">Compare with…</option>
+                  {versions
+                    .filter(version => version.id !== selectedId)
+                    .map(version => (
+                      <option key={version.id} value={version.id}>
+                        v{version.version} · {new Date(version.uploadedAt).toLocaleDateString()}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            )}
+            {error && <span className="text-red-600 text-xs">{error}</span>}
+          </div>
+        )}
+
         {/* Resume Content */}
         <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
-          <div
-            ref={containerRef}
-            className="bg-white rounded-lg shadow-sm p-8 max-w-4xl mx-auto prose prose-sm sm:prose lg:prose-lg xl:prose-xl"
-            dangerouslySetInnerHTML={{ __html: htmlContent }}
-          />
+          {diff ? (
+            <div className="bg-white rounded-lg shadow-sm p-6 max-w-4xl mx-auto text-sm">
+              <p className="text-xs text-gray-500 mb-4">
+                Changes from v{diff.older.version} to v{diff.newer.version}:{' '}
+                <span className="text-green-700">{diff.lines.filter(line => line.type === 'added').length} added</span>,{' '}
+                <span className="text-red-700">{diff.lines.filter(line => line.type === 'removed').length} removed</span>
+              </p>
+              {diff.lines.map((line, index) => (
+                <p
+                  key={index}
+                  className={`px-2 py-0.5 font-mono whitespace-pre-wrap ${
+                    line.type === 'added'
+                      ? 'bg-green-50 text-green-800'
+                      : line.type === 'removed'
+                      ? 'bg-red-50 text-red-800 line-through'
+                      : 'text-gray-600'
+                  }`}
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}
+                  {line.text}
+                </p>
+              ))}
+            </div>
+          ) : (
+            <div
+              ref={containerRef}
+              className="bg-white rounded-lg shadow-sm p-8 max-w-4xl mx-auto prose prose-sm sm:prose lg:prose-lg xl:prose-xl"
+              dangerouslySetInnerHTML={{ __html: displayedHtml }}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -60,4 +202,3 @@ const ResumeViewer: React.FC<ResumeViewerProps> = ({ resumeFile, htmlContent, on
 };
 
 export default ResumeViewer;
-
@@ -1,24 +1,59 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Search, ChevronDown, Filter, Plus, AlertTriangle, X, LogOut, Loader2 } from 'lucide-react';
+import { Search, Filter, Plus, AlertTriangle, X, LogOut, Loader2, Copy, FileArchive, FileSpreadsheet, Shield } from 'lucide-react';
 import Header from './Header';
 import HeroSection from './HeroSection';
 import CandidateCard from './CandidateCard';
 import AddCandidateModal from './AddCandidateModal';
+import CandidateCatalogueFilters, { type CatalogueFilterValues } from './CandidateCatalogueFilters';
+import SearchQueryInput from './SearchQueryInput';
 import ChatBot from './ChatBot';
 import { Candidate } from '../types';
-import { supabase } from '../lib/supabaseClient';
+import type { Json } from '../types/database';
+import {
+  CANDIDATE_SORTS,
+  findCandidatesByEmail,
+  getCandidateUnifiedTitles,
+  getCatalogueCandidate,
+  insertCandidate,
+  listCatalogueCandidates,
+  replaceCandidateUnifiedTitles,
+  updateCandidate,
+  type CandidateFilters,
+  type CandidateInsert,
+  type CandidateRow,
+  type CandidateSort,
+} from '../repositories/candidates';
+import { toVector } from '../repositories/db';
 import { useAuth } from '../hooks/useAuth';
+import { useBlindReview } from '../hooks/useBlindReview';
+import { navigate, useSearchParams } from '../hooks/useRouter';
+import { paths } from '../utils/routes';
+import Link from './Link';
 import galaxyBg from '../../images/logo/galaxy.jpg';
 import { updateAllCandidatesUnifiedTitles } from '../utils/updateAllCandidatesUnifiedTitles';
-import { generateCandidateEmbeddings } from '../services/embeddingsService';
+import { generateCandidateEmbeddings, getEmbeddingMetadata } from '../services/embeddingsService';
 import GenerateEmbeddingsButton from './GenerateEmbeddingsButton';
+import BackgroundJobsPanel from './BackgroundJobsPanel';
+import DuplicateReviewPage from './DuplicateReviewPage';
+import BulkImportPage from './BulkImportPage';
+import SpreadsheetImportWizard from './SpreadsheetImportWizard';
+import DataRetentionModal from './DataRetentionModal';
+import ExportButton from './ExportButton';
 import { normalizeJobTitle, generateJobTitleEmbedding } from '../services/jobTitleNormalization';
 import { normalizeAllJobTitles } from '../utils/normalizeAllJobTitles';
 import { renormalizeAllJobTitles } from '../utils/renormalizeAllJobTitles';
 import { normalizeAllCandidateLocations } from '../utils/normalizeAllLocations';
 import { normalizeLocation, generateLocationEmbedding } from '../services/locationNormalization';
 import { updateAllCandidateSkills } from '../utils/updateAllCandidateSkills';
+import { parseExperienceYears, resolveCandidateSeniority } from '../utils/seniority';
+import { saveCandidateWorkHistory } from '../services/workHistoryService';
+import { storeResumeVersion } from '../services/resumeVersionService';
+import { eraseCandidateData } from '../services/dataProtectionService';
+import type { BackgroundJobType } from '../services/backgroundJobService';
+import { candidatesToSpreadsheetRows } from '../services/spreadsheetService';
+import { downloadSpreadsheet, type SpreadsheetFormat } from '../utils/spreadsheet';
+import { parseSearchQuery, SearchQueryError, type SearchNode } from '../utils/searchQuery';
 
 interface ExampleCard {
   id: string;
@@ -26,19 +61,129 @@ interface ExampleCard {
   description: string;
 }
 
+// Bulk jobs started from this page
+const CANDIDATE_JOB_TYPES: BackgroundJobType[] = [
+  'normalize_candidate_job_titles',
+  'renormalize_candidate_job_titles',
+  'normalize_candidate_locations',
+  'update_candidate_skills',
+  'update_candidate_unified_titles',
+  'generate_candidate_embeddings',
+  'purge_expired_candidates',
+];
+
+// Query string keys of the filters, so a filtered list can be bookmarked and shared
+const FILTER_PARAMS: Record<keyof CatalogueFilterValues, string> = {
+  unifiedTitle: 'title',
+  location: 'location',
+  industry: 'industry',
+  status: 'status',
+  salaryFrom: 'salary_from',
+  salaryTo: 'salary_to',
+  skills: 'skills',
+};
+const SORT_PARAM = 'sort';
+
+const PAGE_SIZE = 50;
+
+// Query after typing pauses for this long, not on every keystroke
+const FILTER_DEBOUNCE_MS = 300;
+
+function parseAmount(text: string): number | undefined {
+  const amount = Number(text);
+  return text.trim() && Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Filter inputs and parsed search box as CandidateFilters
+ */
+function toCandidateFilters(values: CatalogueFilterValues, query: SearchNode | null): CandidateFilters {
+  const skills = values.skills.split(',').map(skill => skill.trim()).filter(Boolean);
+  return {
+    query,
+    unifiedTitle: values.unifiedTitle || undefined,
+    location: values.location || undefined,
+    industry: values.industry || undefined,
+    status: (values.status as CandidateFilters['status']) || undefined,
+    salaryFrom: parseAmount(values.salaryFrom),
+    salaryTo: parseAmount(values.salaryTo),
+    skills: skills.length ? skills : undefined,
+  };
+}
+
 interface SearchPageProps {
   onNavigate?: (page: 'Star Catalogue' | 'My Jobs' | 'Analytics') => void;
+  candidateId?: string; // Candidate opened from the URL; the list shows only them
 }
 
-const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
-  const [searchQuery, setSearchQuery] = useState<string>('');
-  const [activeFilter, setActiveFilter] = useState<string | null>(null);
+const SearchPage: React.FC<SearchPageProps> = ({ onNavigate, candidateId }) => {
+  // The search is kept in the URL (?q=) so results can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get('q') || '';
+  const setSearchQuery = (query: string) => {
+    // Searching from a candidate's page goes back to the whole catalogue
+    if (candidateId !== undefined) {
+      navigate(query ? `${paths.catalogue()}?${new URLSearchParams({ q: query })}` : paths.catalogue());
+      return;
+    }
+    setSearchParams(params => {
+      if (query) params.set('q', query);
+      else params.delete('q');
+    });
+  };
+
+  // Filters and sort, kept in the URL like the search
+  const filterValues = useMemo<CatalogueFilterValues>(() => ({
+    unifiedTitle: searchParams.get(FILTER_PARAMS.unifiedTitle) || '',
+    location: searchParams.get(FILTER_PARAMS.location) || '',
+    industry: searchParams.get(FILTER_PARAMS.industry) || '',
+    status: searchParams.get(FILTER_PARAMS.status) || '',
+    salaryFrom: searchParams.get(FILTER_PARAMS.salaryFrom) || '',
+    salaryTo: searchParams.get(FILTER_PARAMS.salaryTo) || '',
+    skills: searchParams.get(FILTER_PARAMS.skills) || '',
+  }), [searchParams]);
+  // A query that does not parse keeps the last results until it is fixed
+  const { isBlind } = useBlindReview();
+  const [parsedQuery, setParsedQuery] = useState<SearchNode | null>(null);
+  const [queryError, setQueryError] = useState<SearchQueryError | null>(null);
+  useEffect(() => {
+    try {
+      setParsedQuery(parseSearchQuery(searchQuery, { blindReview: isBlind }));
+      setQueryError(null);
+    } catch (error) {
+      if (!(error instanceof SearchQueryError)) throw error;
+      setQueryError(error);
+    }
+  }, [searchQuery, isBlind]);
+  const filters = useMemo(() => toCandidateFilters(filterValues, parsedQuery), [filterValues, parsedQuery]);
+  const sortParam = searchParams.get(SORT_PARAM) as CandidateSort | null;
+  const sort: CandidateSort = sortParam && CANDIDATE_SORTS.includes(sortParam) ? sortParam : 'newest';
+
+  const setFilterValue = (key: keyof CatalogueFilterValues, value: string) => setSearchParams(params => {
+    if (value) params.set(FILTER_PARAMS[key], value);
+    else params.delete(FILTER_PARAMS[key]);
+  });
+  const setSort = (value: CandidateSort) => setSearchParams(params => {
+    if (value !== 'newest') params.set(SORT_PARAM, value);
+    else params.delete(SORT_PARAM);
+  });
+  const clearFilters = () => {
+    setSearchParams(params => [...Object.values(FILTER_PARAMS), SORT_PARAM].forEach(key => params.delete(key)));
+  };
+  const [isFiltersOpen, setIsFiltersOpen] = useState(() => Object.values(filterValues).some(Boolean));
+
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [editingCandidate, setEditingCandidate] = useState<Candidate | null>(null);
   const [isUpdatingTitles, setIsUpdatingTitles] = useState(false);
   const [isNormalizingJobTitles, setIsNormalizingJobTitles] = useState(false);
   const [isNormalizingLocations, setIsNormalizingLocations] = useState(false);
   const [isUpdatingSkills, setIsUpdatingSkills] = useState(false);
+  const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+  const [isReviewingDuplicates, setIsReviewingDuplicates] = useState(false);
+  const [isBulkImporting, setIsBulkImporting] = useState(false);
+  const [isSpreadsheetImportOpen, setIsSpreadsheetImportOpen] = useState(false);
+  const [isDataRetentionOpen, setIsDataRetentionOpen] = useState(false);
+  const [candidatesRefreshKey, setCandidatesRefreshKey] = useState(0);
   const [duplicateWarning, setDuplicateWarning] = useState<{
     show: boolean;
     email: string;
@@ -49,101 +194,85 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
   const { user } = useAuth();
   
   const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [totalCandidates, setTotalCandidates] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingCandidates, setIsLoadingCandidates] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped on every first-page load, so responses for older filters are dropped
+  const loadGeneration = useRef(0);
 
-  // Load candidates from Supabase on mount
+  // Load the first page whenever the search, filters or sort change
   useEffect(() => {
+    const generation = ++loadGeneration.current;
+    setIsLoadingCandidates(true);
+
     const loadCandidates = async () => {
       try {
-        const { data, error } = await supabase
-          .from('candidates')
-          .select('*')
-          .order('created_at', { ascending: false });
-
-        if (error) {
-          console.error('Error loading candidates:', error);
-          return;
-        }
-
-        if (data) {
-          // Map Supabase data to Candidate format
-          const mappedCandidates: Candidate[] = data.map((item: any) => ({
-            id: item.id,
-            name: item.name,
-            jobTitle: item.job_title,
-            location: item.location,
-            experience: item.experience || '',
-            availability: item.availability || '',
-            readyToRelocateTo: item.ready_to_relocate_to || [],
-            lastUpdated: item.last_updated || '',
-            matchScore: item.match_score || 0,
-            status: item.status as 'actively_looking' | 'open_to_offers',
-            industries: item.industries || [],
-            relatedIndustries: item.related_industries || [],
-            companyNames: item.company_names || [],
-            skills: item.skills || [],
-            summary: item.summary || '',
-            socialLinks: item.social_links || {},
-            calendly: item.calendly,
-            salaryMin: item.salary_min,
-            salaryMax: item.salary_max,
-            salaryUnit: item.salary_unit || 'year',
-            unifiedTitles: item.unified_titles || [], // Load from main table first
-            resume: item.resume_data ? {
-              file: null as any, // File can't be stored in DB, will need to be re-uploaded
-              htmlContent: item.resume_data.html_content || '',
-              contacts: item.resume_data.contacts || {},
-            } : undefined,
-          }));
-          
-          // Load unified titles from relationship table if not in main table
-          const candidatesWithTitles = await Promise.all(
-            mappedCandidates.map(async (candidate) => {
-              // If unified_titles is empty in main table, load from relationship table
-              if (!candidate.unifiedTitles || candidate.unifiedTitles.length === 0) {
-                const { data: titlesData } = await supabase
-                  .from('candidate_unified_titles')
-                  .select('unified_title')
-                  .eq('candidate_id', candidate.id);
-                
-                const titlesFromRelationship = titlesData?.map(t => t.unified_title) || [];
-                if (titlesFromRelationship.length > 0) {
-                  return {
-                    ...candidate,
-                    unifiedTitles: titlesFromRelationship,
-                  };
-                }
-              }
-              return candidate;
-            })
-          );
-          
-          setCandidates(candidatesWithTitles);
+        if (candidateId !== undefined) {
+          const candidate = await getCatalogueCandidate(candidateId);
+          if (generation !== loadGeneration.current) return;
+          setCandidates(candidate ? [candidate] : []);
+          setTotalCandidates(candidate ? 1 : 0);
+          setNextCursor(null);
+        } else {
+          const page = await listCatalogueCandidates(filters, sort, { limit: PAGE_SIZE });
+          if (generation !== loadGeneration.current) return;
+          setCandidates(page.items);
+          setTotalCandidates(page.total);
+          setNextCursor(page.nextCursor);
         }
       } catch (error) {
         console.error('Error loading candidates:', error);
+      } finally {
+        if (generation === loadGeneration.current) setIsLoadingCandidates(false);
       }
     };
 
-    loadCandidates();
-  }, []);
+    const timer = setTimeout(loadCandidates, candidateId !== undefined ? 0 : FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters, sort, candidateId, candidatesRefreshKey]);
 
-  // Handle candidate deletion
-  const handleDeleteCandidate = async (candidateId: number) => {
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    const generation = loadGeneration.current;
+    setIsLoadingMore(true);
     try {
-      // Delete from Supabase
-      const { error } = await supabase
-        .from('candidates')
-        .delete()
-        .eq('id', candidateId);
+      const page = await listCatalogueCandidates(filters, sort, { cursor: nextCursor, limit: PAGE_SIZE });
+      if (generation !== loadGeneration.current) return;
+      // Candidates added here meanwhile are already listed
+      setCandidates(prev => {
+        const listed = new Set(prev.map(c => c.id));
+        return [...prev, ...page.items.filter(c => !listed.has(c.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more candidates:', error);
+      alert('Failed to load more candidates. Please try again.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const removeCandidate = (candidateId: string) => {
+    setCandidates((prev) => prev.filter((c) => c.id !== candidateId));
+    setTotalCandidates((total) => (total === null ? total : Math.max(total - 1, 0)));
+  };
 
-      if (error) {
+  // Handle candidate deletion
+  const handleDeleteCandidate = async (candidateId: string) => {
+    try {
+      // Hard delete from every table, including stored resume files
+      try {
+        await eraseCandidateData(candidateId, 'deleted');
+      } catch (error) {
         console.error('Error deleting candidate:', error);
-        alert('Failed to delete candidate. Please check if you have permission to delete candidates.');
+        alert(`Failed to delete candidate: ${error instanceof Error ? error.message : 'Please check if you have permission to delete candidates.'}`);
         return;
       }
 
       // Update local state
-      setCandidates((prev) => prev.filter((c) => c.id !== candidateId));
+      removeCandidate(candidateId);
     } catch (error) {
       console.error('Error deleting candidate:', error);
       alert('An unexpected error occurred while deleting the candidate.');
@@ -168,13 +297,6 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
     },
   ];
 
-  const filterOptions = [
-    'Job Title',
-    'Location',
-    'Visa Status',
-    'English Level',
-  ];
-
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     console.log('Search query:', searchQuery);
@@ -185,16 +307,7 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
     console.log('Example clicked:', title);
   };
 
-  const handleFilterClick = (filter: string) => {
-    setActiveFilter(filter);
-    console.log('Filter clicked:', filter);
-    setTimeout(() => {
-      alert(`Filter: ${filter} - Coming soon!`);
-      setActiveFilter(null);
-    }, 100);
-  };
-
-  const handleResumeUpload = (candidateId: number, resumeFile: File, htmlContent: string, contacts: { email?: string; phone?: string; linkedin?: string }) => {
+  const handleResumeUpload = (candidateId: string, resumeFile: File, htmlContent: string, contacts: { email?: string; phone?: string; linkedin?: string }) => {
     setCandidates(prev =>
       prev.map(c =>
         c.id === candidateId
@@ -217,62 +330,64 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
     );
   };
 
-  const handleFilters = () => {
-    alert('Filters panel coming soon!');
+  // The catalogue masks a hidden candidate's identity, so reload them once revealed
+  const handleCandidateRevealed = async (candidateId: string) => {
+    try {
+      const revealed = await getCatalogueCandidate(candidateId);
+      if (revealed) handleCandidateUpdate(revealed);
+    } catch (error) {
+      console.error('Error reloading revealed candidate:', error);
+    }
   };
 
   const handleUpdateAllUnifiedTitles = async () => {
-    if (!confirm('This will update unified titles for all candidates using AI. This may take a while and use API credits. Continue?')) {
+    if (!confirm('This will update unified titles for all candidates using AI. This runs in the background and uses API credits. Continue?')) {
       return;
     }
     
     setIsUpdatingTitles(true);
     try {
       await updateAllCandidatesUnifiedTitles();
-      alert('Update complete! Please refresh the page to see the changes.');
-      // Reload candidates
-      window.location.reload();
+      setJobsRefreshKey(key => key + 1);
     } catch (error) {
-      console.error('Error updating unified titles:', error);
-      alert('Error updating unified titles. Check console for details.');
+      console.error('Error queueing unified titles update:', error);
+      alert('Error queueing unified titles update. Check console for details.');
     } finally {
       setIsUpdatingTitles(false);
     }
   };
 
   const handleNormalizeAllLocations = async () => {
-    if (!confirm('This will normalize locations and generate embeddings for ALL candidates in the database. This may take a while and use OpenAI API credits. Continue?')) {
+    if (!confirm('This will normalize locations and generate embeddings for ALL candidates in the database. This runs in the background and uses OpenAI API credits. Continue?')) {
       return;
     }
     
     setIsNormalizingLocations(true);
     try {
       await normalizeAllCandidateLocations();
-      alert('Location normalization complete! Check console for details.');
-      window.location.reload();
+      setJobsRefreshKey(key => key + 1);
     } catch (error) {
-      console.error('Error normalizing locations:', error);
+      console.error('Error queueing location normalization:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Error normalizing locations:\n\n${errorMessage}\n\nCheck console for more details.`);
+      alert(`Error queueing location normalization:\n\n${errorMessage}\n\nCheck console for more details.`);
     } finally {
       setIsNormalizingLocations(false);
     }
   };
 
   const handleUpdateAllSkills = async () => {
-    if (!confirm('This will extract and normalize skills from ALL candidate resumes in the database. This may take a while and use OpenAI API credits. Continue?')) {
+    if (!confirm('This will extract and normalize skills from ALL candidate resumes in the database. This runs in the background and uses OpenAI API credits. Continue?')) {
       return;
     }
     
     setIsUpdatingSkills(true);
     try {
       await updateAllCandidateSkills();
-      alert('Skills update complete! Check console for details.');
-      window.location.reload();
+      setJobsRefreshKey(key => key + 1);
     } catch (error) {
-      console.error('Error updating skills:', error);
+      console.error('Error queueing skills update:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Error updating skills:\n\n${errorMessage}\n\nCheck console for more details.`);
+      alert(`Error queueing skills update:\n\n${errorMessage}\n\nCheck console for more details.`);
     } finally {
       setIsUpdatingSkills(false);
     }
@@ -285,7 +400,7 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
       'Cancel = Only normalize new candidates'
     );
     
-    if (!confirm('This will normalize job titles and generate embeddings. This may take a while and use OpenAI API credits. Continue?')) {
+    if (!confirm('This will normalize job titles and generate embeddings. This runs in the background and uses OpenAI API credits. Continue?')) {
       return;
     }
     
@@ -293,33 +408,44 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
     try {
       if (shouldRenormalize) {
         await renormalizeAllJobTitles();
-        alert('Job title re-normalization complete! All job titles have been updated with improved normalization. Check console for details.');
       } else {
         await normalizeAllJobTitles();
-        alert('Job title normalization complete! Check console for details. The page will reload to show updated data.');
       }
-      // Reload candidates to show updated data
-      window.location.reload();
+      setJobsRefreshKey(key => key + 1);
     } catch (error) {
-      console.error('Error normalizing job titles:', error);
+      console.error('Error queueing job title normalization:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Error normalizing job titles:\n\n${errorMessage}\n\nCheck console for more details.`);
+      alert(`Error queueing job title normalization:\n\n${errorMessage}\n\nCheck console for more details.`);
     } finally {
       setIsNormalizingJobTitles(false);
     }
   };
 
-  // Filter candidates based on search query
-  const filteredCandidates = searchQuery
-    ? candidates.filter(
-        (c) =>
-          c.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          c.jobTitle.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          c.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          c.industries?.some((ind) => ind.toLowerCase().includes(searchQuery.toLowerCase())) ||
-          c.skills?.some((skill) => skill.toLowerCase().includes(searchQuery.toLowerCase()))
-      )
-    : candidates;
+  // Export exactly what the list shows (the pages loaded so far)
+  const handleExport = (format: SpreadsheetFormat) => {
+    const date = new Date().toISOString().split('T')[0];
+    downloadSpreadsheet(`candidates-${date}`, candidatesToSpreadsheetRows(candidates), format);
+  };
+
+  // Show duplicate review queue
+  if (isReviewingDuplicates) {
+    return (
+      <DuplicateReviewPage
+        onBack={() => setIsReviewingDuplicates(false)}
+        onMerged={() => setCandidatesRefreshKey(key => key + 1)}
+      />
+    );
+  }
+
+  // Show bulk resume import
+  if (isBulkImporting) {
+    return (
+      <BulkImportPage
+        onBack={() => setIsBulkImporting(false)}
+        onImported={() => setCandidatesRefreshKey(key => key + 1)}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#E8E9EB] via-[#E0E2E5] to-[#E8E9EB] relative overflow-hidden">
@@ -350,17 +476,16 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
       <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-16" style={{ borderTop: 'none', outline: 'none', boxShadow: 'none' }}>
 
         {/* Search Bar */}
-        <section className="mb-8">
+        <section className="relative z-20 mb-8">
           <form onSubmit={handleSearch} className="relative">
             <div className="search-bar-container relative flex items-center gap-3 rounded-2xl p-2 focus-within:ring-0 transition-all duration-300">
               <Search className="absolute left-4 text-gray-600 w-5 h-5 z-10" aria-hidden="true" />
-              <input
-                type="text"
+              <SearchQueryInput
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={setSearchQuery}
                 placeholder="Product manager with EdTech experience..."
-                className="flex-1 pl-12 pr-4 py-4 bg-transparent text-gray-900 placeholder:text-gray-500 focus:outline-none text-lg z-10"
-                aria-label="Search for candidates"
+                ariaLabel="Search for candidates"
+                invalid={queryError !== null}
               />
               <button
                 type="submit"
@@ -370,33 +495,15 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
               </button>
             </div>
           </form>
-        </section>
-
-        {/* Filter Chips */}
-        <section className="mb-8">
-          <p className="text-gray-600 text-sm mb-4 text-center">or refine with filters ↓</p>
-          <div className="flex flex-wrap items-center justify-center gap-3">
-            {filterOptions.map((filter) => (
-              <button
-                key={filter}
-                onClick={() => handleFilterClick(filter)}
-                className={`px-6 py-2 rounded-full border-2 border-[#7C3AED] text-gray-700 font-medium hover:bg-purple-50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:ring-offset-2 focus:ring-offset-transparent ${
-                  activeFilter === filter ? 'bg-purple-50 shadow-[0_0_15px_rgba(124,58,237,0.2)]' : ''
-                }`}
-                aria-label={`Filter by ${filter}`}
-              >
-                {filter}
-                <ChevronDown className="inline-block ml-2 w-4 h-4" aria-hidden="true" />
-              </button>
-            ))}
-            <button
-              onClick={() => handleFilterClick('More Filters')}
-              className="px-6 py-2 rounded-full border-2 border-[#7C3AED] text-gray-700 font-medium hover:bg-purple-50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:ring-offset-2 focus:ring-offset-transparent"
-              aria-label="More filters"
-            >
-              More Filters
-            </button>
-          </div>
+          {queryError ? (
+            <p className="mt-2 text-sm text-red-600" role="alert">
+              {queryError.message} (at character {queryError.position + 1})
+            </p>
+          ) : (
+            <p className="mt-2 text-sm text-gray-600">
+              Combine fields like title:, skills:, location:, company:, salary:&lt;120000 with AND, OR, NOT and parentheses
+            </p>
+          )}
         </section>
 
         {/* Empty State / Example Cards */}
@@ -427,10 +534,18 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
             <div>
               <h2 className="text-2xl font-bold text-gray-900">
                 <span className="bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] bg-clip-text text-transparent">
-                  {filteredCandidates.length}
+                  {totalCandidates ?? candidates.length}
                 </span>{' '}
                 <span className="text-gray-600">candidates found</span>
               </h2>
+              {totalCandidates !== null && candidates.length < totalCandidates && (
+                <p className="text-sm text-gray-500">Showing {candidates.length} of {totalCandidates}</p>
+              )}
+              {candidateId !== undefined && (
+                <Link to={paths.catalogue()} className="text-sm text-[#7C3AED] hover:underline">
+                  ← All candidates
+                </Link>
+              )}
             </div>
             <div className="flex items-center gap-3">
               {/* Temporary Logout Button - Very Visible - Always Shown */}
@@ -463,13 +578,24 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
                 <Plus className="w-4 h-4" />
                 Add Candidate
               </button>
+              <button
+                onClick={() => setIsBulkImporting(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-[#7C3AED] font-semibold"
+              >
+                <FileArchive className="w-4 h-4" />
+                Bulk Import
+              </button>
+              <button
+                onClick={() => setIsSpreadsheetImportOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-[#7C3AED] font-semibold"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Import Spreadsheet
+              </button>
               {user && (
                 <>
                   <GenerateEmbeddingsButton 
-                    onComplete={() => {
-                      // Optionally reload candidates after embeddings are generated
-                      window.location.reload();
-                    }}
+                    onComplete={() => setJobsRefreshKey(key => key + 1)}
                   />
                   <button
                     onClick={handleNormalizeAllLocations}
@@ -479,7 +605,7 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
                     {isNormalizingLocations ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Normalizing...
+                        Queueing...
                       </>
                     ) : (
                       'Normalize All Locations'
@@ -493,7 +619,7 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
                     {isUpdatingSkills ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Updating...
+                        Queueing...
                       </>
                     ) : (
                       'Update All Skills'
@@ -507,24 +633,43 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
                     {isNormalizingJobTitles ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Normalizing...
+                        Queueing...
                       </>
                     ) : (
                       'Normalize All Job Titles'
                     )}
                   </button>
+                  <button
+                    onClick={() => setIsReviewingDuplicates(true)}
+                    className="px-4 py-2 bg-white border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 flex items-center gap-2"
+                  >
+                    <Copy className="w-4 h-4" />
+                    Review Duplicates
+                  </button>
                   <button
                     onClick={handleUpdateAllUnifiedTitles}
                     disabled={isUpdatingTitles}
                     className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                   >
-                    {isUpdatingTitles ? 'Updating...' : 'Update All Unified Titles'}
+                    {isUpdatingTitles ? 'Queueing...' : 'Update All Unified Titles'}
+                  </button>
+                  <button
+                    onClick={() => setIsDataRetentionOpen(true)}
+                    className="px-4 py-2 bg-white border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 flex items-center gap-2"
+                  >
+                    <Shield className="w-4 h-4" />
+                    Data Retention
                   </button>
                 </>
               )}
+              <ExportButton onExport={handleExport} disabled={candidates.length === 0} />
               <button
-                onClick={handleFilters}
-                className="flex items-center gap-2 px-4 py-2 bg-white border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+                onClick={() => setIsFiltersOpen(open => !open)}
+                disabled={candidateId !== undefined}
+                aria-expanded={isFiltersOpen}
+                className={`flex items-center gap-2 px-4 py-2 border border-[#7C3AED] rounded-lg transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-[#7C3AED] disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isFiltersOpen ? 'bg-[#7C3AED] text-white' : 'bg-white text-[#7C3AED] hover:bg-purple-50'
+                }`}
               >
                 <Filter className="w-4 h-4" />
                 Filters
@@ -533,26 +678,61 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
           </div>
         </section>
 
+        {isFiltersOpen && candidateId === undefined && (
+          <CandidateCatalogueFilters
+            values={filterValues}
+            sort={sort}
+            onChange={setFilterValue}
+            onSortChange={setSort}
+            onClear={clearFilters}
+          />
+        )}
+
+        {user && (
+          <BackgroundJobsPanel
+            types={CANDIDATE_JOB_TYPES}
+            refreshKey={jobsRefreshKey}
+          />
+        )}
+
         {/* Candidates List */}
         <section>
           <div className="flex flex-col gap-3">
-            {filteredCandidates.map((candidate, index) => (
+            {candidates.map((candidate, index) => (
               <motion.div
                 key={candidate.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
+                transition={{ delay: Math.min(index % PAGE_SIZE, 10) * 0.05 }}
               >
                 <CandidateCard 
                   candidate={candidate} 
+                  defaultExpanded={candidate.id === candidateId}
                   onResumeUpload={handleResumeUpload}
                   onCandidateUpdate={handleCandidateUpdate}
                   onEdit={(candidate) => setEditingCandidate(candidate)}
                   onDelete={handleDeleteCandidate}
+                  onErased={removeCandidate}
+                  onRevealed={handleCandidateRevealed}
                 />
               </motion.div>
             ))}
           </div>
+          {!isLoadingCandidates && candidates.length === 0 && (
+            <p className="text-center text-gray-600 py-12">No candidates match your search and filters.</p>
+          )}
+          {nextCursor && (
+            <div className="flex justify-center mt-6">
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+                className="flex items-center gap-2 px-6 py-3 bg-white border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+              >
+                {isLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
         </section>
       </main>
       <ChatBot />
@@ -618,6 +798,19 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
         </div>
       )}
 
+      <SpreadsheetImportWizard
+        open={isSpreadsheetImportOpen}
+        target="candidates"
+        onClose={() => setIsSpreadsheetImportOpen(false)}
+        onImported={() => setCandidatesRefreshKey(key => key + 1)}
+      />
+
+      <DataRetentionModal
+        open={isDataRetentionOpen}
+        onClose={() => setIsDataRetentionOpen(false)}
+        onPurgeQueued={() => setJobsRefreshKey(key => key + 1)}
+      />
+
       <AddCandidateModal
         open={isAddModalOpen || editingCandidate !== null}
         onClose={() => {
@@ -661,13 +854,18 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
               }
             }
             
+            // Numeric years and seniority band are re-derived from the free-text experience on every save
+            const experienceYears = parseExperienceYears(candidate.experience);
+
             // Prepare data for Supabase (convert to snake_case)
-            const candidateData: any = {
+            const candidateData: CandidateInsert = {
               name: candidate.name,
               job_title: candidate.jobTitle,
               normalized_job_title: normalizedJobTitle || null,
               location: candidate.location,
               experience: candidate.experience || null,
+              experience_years: experienceYears,
+              seniority_level: resolveCandidateSeniority(candidate.jobTitle, experienceYears),
               availability: candidate.availability || null,
               ready_to_relocate_to: candidate.readyToRelocateTo || [],
               last_updated: candidate.lastUpdated || new Date().toISOString().split('T')[0],
@@ -678,7 +876,7 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
               company_names: candidate.companyNames || [],
               skills: normalizedSkills, // Use normalized skills
               summary: candidate.summary || null,
-              social_links: candidate.socialLinks || {},
+              social_links: (candidate.socialLinks || {}) as Json,
               calendly: candidate.calendly || null,
               salary_min: candidate.salaryMin || null,
               salary_max: candidate.salaryMax || null,
@@ -691,7 +889,7 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
               resume_data: candidate.resume ? {
                 html_content: candidate.resume.htmlContent || '',
                 contacts: candidate.resume.contacts || {},
-              } : null,
+              } as Json : null,
               created_by_user_id: user?.id || null,
             };
 
@@ -770,27 +968,29 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
               candidateData.skills = normalizedSkillsForUpdate; // Use normalized skills
               candidateData.skills = normalizedSkills; // Use normalized skills
               
-              // Add embeddings if available (as array for pgvector)
+              // Add embeddings if available (as array for pgvector), with the model that produced them
+              const { embedding_model, embedding_dimensions } = getEmbeddingMetadata();
               if (jobTitleEmbedding && jobTitleEmbedding.length > 0) {
-                candidateData.job_title_embedding = jobTitleEmbedding;
+                candidateData.job_title_embedding = toVector(jobTitleEmbedding);
+                candidateData.job_title_embedding_model = embedding_model;
+                candidateData.job_title_embedding_dimensions = embedding_dimensions;
               }
               if (locationEmbedding && locationEmbedding.length > 0) {
-                candidateData.location_embedding = locationEmbedding;
+                candidateData.location_embedding = toVector(locationEmbedding);
+                candidateData.location_embedding_model = embedding_model;
+                candidateData.location_embedding_dimensions = embedding_dimensions;
               }
               
               // Update existing candidate in Supabase
-              const { data, error } = await supabase
-                .from('candidates')
-                .update(candidateData)
-                .eq('id', editingCandidate.id)
-                .select();
-
-              if (error) {
-                console.error('Error updating candidate:', error);
+              let updatedRow: CandidateRow;
+              try {
+                updatedRow = await updateCandidate(editingCandidate.id, candidateData);
+              } catch (error) {
+                const message = error instanceof Error ? error.message : '';
                 // Check if error is about missing columns
-                if (error.message && error.message.includes('salary_unit')) {
+                if (message.includes('salary_unit')) {
                   alert('Database schema needs to be updated. Please run the SQL script from add_salary_unit.sql in Supabase Dashboard to add the salary_unit column.');
-                } else if (error.message && error.message.includes('unified_titles')) {
+                } else if (message.includes('unified_titles')) {
                   alert('Database schema needs to be updated. Please run the SQL script from add_unified_titles_column.sql in Supabase Dashboard to add the unified_titles column.');
                 } else {
                   alert('Failed to update candidate. Please try again.');
@@ -800,72 +1000,47 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
 
               // Update unified titles in both tables
               if (candidate.unifiedTitles !== undefined) {
-                // Delete existing unified titles from relationship table
-                await supabase
-                  .from('candidate_unified_titles')
-                  .delete()
-                  .eq('candidate_id', editingCandidate.id);
-                
-                // Insert new unified titles into relationship table
-                if (candidate.unifiedTitles.length > 0) {
-                  const titlesToInsert = candidate.unifiedTitles.map(title => ({
-                    candidate_id: editingCandidate.id,
-                    unified_title: title,
-                  }));
-                  
-                  await supabase
-                    .from('candidate_unified_titles')
-                    .insert(titlesToInsert);
-                }
-                
-                // Also update unified_titles array in candidates table
                 try {
-                  await supabase
-                    .from('candidates')
-                    .update({ unified_titles: candidate.unifiedTitles })
-                    .eq('id', editingCandidate.id);
+                  await replaceCandidateUnifiedTitles(editingCandidate.id, candidate.unifiedTitles);
                 } catch (err) {
-                  // If column doesn't exist, silently fail (user needs to run SQL script)
-                  console.warn('Could not update unified_titles column:', err);
+                  // If the column doesn't exist, the candidate is still saved (user needs to run SQL script)
+                  console.warn('Could not update unified titles:', err);
+                }
+              }
+
+              // A resume uploaded in the edit form becomes a new version with its own work history
+              if (candidate.resume?.file && candidate.resume.file !== editingCandidate.resume?.file) {
+                try {
+                  await storeResumeVersion(editingCandidate.id, candidate.resume.file, candidate);
+                  if (candidate.workHistory?.length || candidate.education?.length) {
+                    await saveCandidateWorkHistory(editingCandidate.id, candidate.workHistory || [], candidate.education || []);
+                  }
+                } catch (storageError) {
+                  console.error('Error storing resume version:', storageError);
                 }
               }
 
               // Reload unified titles from database to ensure consistency
-              const { data: titlesData } = await supabase
-                .from('candidate_unified_titles')
-                .select('unified_title')
-                .eq('candidate_id', editingCandidate.id);
-              
-              // Also check main table
-              const { data: updatedCandidateData } = await supabase
-                .from('candidates')
-                .select('unified_titles')
-                .eq('id', editingCandidate.id)
-                .single();
-              
-              const finalUnifiedTitles = (updatedCandidateData?.unified_titles && updatedCandidateData.unified_titles.length > 0)
-                ? updatedCandidateData.unified_titles
-                : (titlesData?.map(t => t.unified_title) || candidate.unifiedTitles || []);
+              const finalUnifiedTitles = await getCandidateUnifiedTitles(updatedRow.id)
+                .catch(() => candidate.unifiedTitles || []);
 
               // Update local state
-              if (data && data[0]) {
-                const updatedCandidate: Candidate = {
-                  ...candidate,
-                  id: data[0].id,
-                  unifiedTitles: finalUnifiedTitles,
-                };
-                setCandidates((prev) =>
-                  prev.map((c) => (c.id === candidate.id ? updatedCandidate : c))
-                );
-                
-                // Generate embeddings for the updated candidate
-                try {
-                  await generateCandidateEmbeddings(data[0].id);
-                  console.log('Embeddings generated successfully for candidate', data[0].id);
-                } catch (embeddingError) {
-                  console.error('Error generating embeddings:', embeddingError);
-                  // Don't block the save operation if embeddings fail
-                }
+              const updatedCandidate: Candidate = {
+                ...candidate,
+                id: updatedRow.id,
+                unifiedTitles: finalUnifiedTitles,
+              };
+              setCandidates((prev) =>
+                prev.map((c) => (c.id === candidate.id ? updatedCandidate : c))
+              );
+              
+              // Generate embeddings for the updated candidate
+              try {
+                await generateCandidateEmbeddings(updatedRow.id);
+                console.log('Embeddings generated successfully for candidate', updatedRow.id);
+              } catch (embeddingError) {
+                console.error('Error generating embeddings:', embeddingError);
+                // Don't block the save operation if embeddings fail
               }
               setEditingCandidate(null);
             } else {
@@ -902,16 +1077,10 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
                   });
                 } else {
                   // Search for existing candidate with the same email in database
-                  const { data: existingCandidates, error: searchError } = await supabase
-                    .from('candidates')
-                    .select('id, name, resume_data')
-                    .eq('resume_data->contacts->>email', candidateEmail);
+                  // If search fails, allow insert
+                  const existingCandidates = await findCandidatesByEmail(candidateEmail).catch(() => []);
                   
-                  if (searchError) {
-                    console.error('Error checking for duplicates:', searchError);
-                    // If search fails, allow insert
-                    shouldContinue = true;
-                  } else if (existingCandidates && existingCandidates.length > 0) {
+                  if (existingCandidates.length > 0) {
                     const existingCandidate = existingCandidates[0];
                     const existingName = existingCandidate.name || 'Unknown';
                     // Show modal for database duplicate
@@ -939,21 +1108,21 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
                 }
               }
               
-              // Add job_title_embedding if available (as array for pgvector)
+              // Add job_title_embedding if available (as array for pgvector), with the model that produced it
               if (jobTitleEmbedding && jobTitleEmbedding.length > 0) {
-                candidateData.job_title_embedding = jobTitleEmbedding;
+                const { embedding_model, embedding_dimensions } = getEmbeddingMetadata();
+                candidateData.job_title_embedding = toVector(jobTitleEmbedding);
+                candidateData.job_title_embedding_model = embedding_model;
+                candidateData.job_title_embedding_dimensions = embedding_dimensions;
               }
               
               // Add new candidate to Supabase
-              const { data, error } = await supabase
-                .from('candidates')
-                .insert([candidateData])
-                .select();
-
-              if (error) {
-                console.error('Error saving candidate:', error);
+              let newRow: CandidateRow;
+              try {
+                newRow = await insertCandidate(candidateData);
+              } catch (error) {
                 // Check if error is about missing salary_unit column
-                if (error.message && error.message.includes('salary_unit')) {
+                if (error instanceof Error && error.message.includes('salary_unit')) {
                   alert('Database schema needs to be updated. Please run the SQL script from add_salary_unit.sql in Supabase Dashboard to add the salary_unit column.');
                 } else {
                   alert('Failed to save candidate. Please check if you have permission to add candidates.');
@@ -962,65 +1131,55 @@ const SearchPage: React.FC<SearchPageProps> = ({ onNavigate }) => {
               }
 
               // Save unified titles in both tables
-              if (candidate.unifiedTitles !== undefined && data && data[0]) {
-                if (candidate.unifiedTitles.length > 0) {
-                  const titlesToInsert = candidate.unifiedTitles.map(title => ({
-                    candidate_id: data[0].id,
-                    unified_title: title,
-                  }));
-                  
-                  await supabase
-                    .from('candidate_unified_titles')
-                    .insert(titlesToInsert);
-                }
-                
-                // Also update unified_titles array in candidates table
+              if (candidate.unifiedTitles !== undefined) {
                 try {
-                  await supabase
-                    .from('candidates')
-                    .update({ unified_titles: candidate.unifiedTitles })
-                    .eq('id', data[0].id);
+                  await replaceCandidateUnifiedTitles(newRow.id, candidate.unifiedTitles);
                 } catch (err) {
-                  // If column doesn't exist, silently fail (user needs to run SQL script)
-                  console.warn('Could not update unified_titles column:', err);
+                  // If the column doesn't exist, the candidate is still saved (user needs to run SQL script)
+                  console.warn('Could not save unified titles:', err);
                 }
               }
 
-              // Reload unified titles from database
-              const { data: titlesData } = await supabase
-                .from('candidate_unified_titles')
-                .select('unified_title')
-                .eq('candidate_id', data[0].id);
-              
-              // Also check main table
-              const { data: newCandidateData } = await supabase
-                .from('candidates')
-                .select('unified_titles')
-                .eq('id', data[0].id)
-                .single();
-              
-              const finalUnifiedTitles = (newCandidateData?.unified_titles && newCandidateData.unified_titles.length > 0)
-                ? newCandidateData.unified_titles
-                : (titlesData?.map(t => t.unified_title) || candidate.unifiedTitles || []);
+              // Positions and education from the parsed resume
+              if (candidate.workHistory?.length || candidate.education?.length) {
+                try {
+                  await saveCandidateWorkHistory(newRow.id, candidate.workHistory || [], candidate.education || []);
+                } catch (historyError) {
+                  console.error('Error saving work history:', historyError);
+                  // Don't block the save operation; the candidate just has no timeline
+                }
+              }
 
-              // Update local state with new candidate from DB
-              if (data && data[0]) {
-                const newCandidate: Candidate = {
-                  ...candidate,
-                  id: data[0].id,
-                  unifiedTitles: finalUnifiedTitles,
-                };
-                setCandidates((prev) => [newCandidate, ...prev]);
-                
-                // Generate embeddings for the new candidate
+              // Keep the original file as resume version 1
+              if (candidate.resume?.file) {
                 try {
-                  await generateCandidateEmbeddings(data[0].id);
-                  console.log('Embeddings generated successfully for new candidate', data[0].id);
-                } catch (embeddingError) {
-                  console.error('Error generating embeddings:', embeddingError);
-                  // Don't block the save operation if embeddings fail
+                  await storeResumeVersion(newRow.id, candidate.resume.file, candidate);
+                } catch (storageError) {
+                  console.error('Error storing resume file:', storageError);
                 }
               }
+
+              // Reload unified titles from database
+              const finalUnifiedTitles = await getCandidateUnifiedTitles(newRow.id)
+                .catch(() => candidate.unifiedTitles || []);
+
+              // Update local state with new candidate from DB
+              const newCandidate: Candidate = {
+                ...candidate,
+                id: newRow.id,
+                unifiedTitles: finalUnifiedTitles,
+              };
+              setCandidates((prev) => [newCandidate, ...prev]);
+              setTotalCandidates((total) => (total === null ? total : total + 1));
+              
+              // Generate embeddings for the new candidate
+              try {
+                await generateCandidateEmbeddings(newRow.id);
+                console.log('Embeddings generated successfully for new candidate', newRow.id);
+              } catch (embeddingError) {
+                console.error('Error generating embeddings:', embeddingError);
+                // Don't block the save operation if embeddings fail
+              }
               setIsAddModalOpen(false);
             }
           } catch (error) {
@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { UNIFIED_TITLES_SORTED } from '../utils/unifiedTitlesMapping';
+import {
+  SEARCH_FIELDS,
+  SEARCH_STATUSES,
+  getSearchCompletion,
+  highlightSearchQuery,
+  type SearchField,
+  type SearchHighlightKind,
+} from '../utils/searchQuery';
+import { listSearchFieldValues, type SuggestedSearchField } from '../repositories/catalogueSearch';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  ariaLabel?: string;
+  invalid?: boolean;
+}
+
+interface Suggestion {
+  label: string;
+  insert: string; // Text that replaces what is being typed
+  description?: string;
+}
+
+// Colors only: a bolder weight would move the text away from the caret
+const HIGHLIGHT_CLASSES: Record<SearchHighlightKind, string> = {
+  operator: 'text-[#06B6D4]',
+  paren: 'text-gray-400',
+  field: 'text-[#7C3AED]',
+  unknownField: 'text-red-600 underline decoration-wavy',
+  comparison: 'text-amber-600',
+  phrase: 'text-emerald-700',
+  word: 'text-gray-800',
+  plain: 'text-gray-800',
+};
+
+// Padding and font shared by the input and the highlighted copy behind it
+const TEXT_BOX_CLASSES = 'pl-12 pr-4 py-4 text-lg';
+
+const SUGGESTED_FIELDS: SearchField[] = ['skills', 'location', 'industry', 'company'];
+const MAX_SUGGESTIONS = 8;
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+const isSuggestedField = (field: SearchField): field is SuggestedSearchField => SUGGESTED_FIELDS.includes(field);
+
+// Values with spaces or query syntax in them are quoted
+const quoteValue = (value: string): string =>
+  /[\s()"]|^(AND|OR|NOT)$/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+/**
+ * Star Catalogue search box: highlights the query language and suggests field names and known values
+ */
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, placeholder, ariaLabel, invalid }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null); // null while the input is not focused
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const highlighted = useMemo(() => highlightSearchQuery(value), [value]);
+  const completion = useMemo(() => (cursor === null ? null : getSearchCompletion(value, cursor)), [value, cursor]);
+
+  useEffect(() => {
+    setIsDismissed(false);
+  }, [value]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+
+    if (!completion) {
+      setSuggestions([]);
+      return;
+    }
+
+    const prefix = completion.prefix.toLowerCase();
+
+    if (completion.kind === 'field') {
+      setSuggestions(
+        SEARCH_FIELDS
+          .filter(({ field }) => field.startsWith(prefix))
+          .map(({ field, description }) => ({ label: `${field}:`, insert: `${field}:`, description }))
+      );
+      return;
+    }
+
+    const { field } = completion;
+    if (field === 'title') {
+      setSuggestions(
+        UNIFIED_TITLES_SORTED
+          .filter((title: string) => title.toLowerCase().includes(prefix))
+          .slice(0, MAX_SUGGESTIONS)
+          .map((title: string) => ({ label: title, insert: quoteValue(title) }))
+      );
+      return;
+    }
+
+    if (field === 'status') {
+      setSuggestions(SEARCH_STATUSES.filter(status => status.startsWith(prefix)).map(status => ({ label: status, insert: status })));
+      return;
+    }
+
+    if (!isSuggestedField(field)) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const values = await listSearchFieldValues(field, completion.prefix, MAX_SUGGESTIONS);
+        if (!cancelled) {
+          setSuggestions(values.map(known => ({ label: known, insert: quoteValue(known) })));
+        }
+      } catch (error) {
+        console.error('Error loading search suggestions:', error);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [completion]);
+
+  const isOpen = cursor !== null && !isDismissed && suggestions.length > 0;
+
+  const trackCursor = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    setCursor(input.selectionStart);
+    setScrollLeft(input.scrollLeft);
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    if (!completion) return;
+
+    const before = value.slice(0, completion.start) + suggestion.insert;
+    const after = value.slice(completion.end);
+    // A finished value at the end gets a space so the next term can be typed right away
+    const spacer = completion.kind === 'value' && after === '' ? ' ' : '';
+    const nextCursor = before.length + spacer.length;
+
+    onChange(before + spacer + after);
+    setCursor(nextCursor);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+      trackCursor();
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && activeIndex >= 0)) {
+      // Enter only takes a suggestion picked with the arrows; otherwise it submits the search
+      e.preventDefault();
+      applySuggestion(suggestions[Math.max(activeIndex, 0)]);
+    } else if (e.key === 'Escape') {
+      setIsDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 z-10">
+      <div
+        aria-hidden="true"
+        className={`search-query-highlight absolute inset-0 overflow-hidden pointer-events-none whitespace-pre ${TEXT_BOX_CLASSES}`}
+      >
+        <span className="inline-block" style={{ transform: `translateX(${-scrollLeft}px)` }}>
+          {highlighted.map((part, index) => (
+            <span key={index} className={HIGHLIGHT_CLASSES[part.kind]}>{part.text}</span>
+          ))}
+        </span>
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onSelect={trackCursor}
+        onScroll={trackCursor}
+        onFocus={trackCursor}
+        onBlur={() => setCursor(null)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        spellCheck={false}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+        aria-invalid={invalid}
+        aria-label={ariaLabel}
+        className={`search-query-input relative w-full bg-transparent placeholder:text-gray-500 focus:outline-none ${TEXT_BOX_CLASSES}`}
+      />
+
+      {isOpen && (
+        <ul role="listbox" className="absolute left-0 right-0 top-full mt-2 bg-white rounded-xl shadow-lg border border-gray-200 py-2 max-h-72 overflow-y-auto">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.insert} role="option" aria-selected={index === activeIndex}>
+              <button
+                type="button"
+                // Keep focus in the input so the cursor position stays known
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => applySuggestion(suggestion)}
+                className={`w-full text-left px-4 py-2 flex items-center justify-between gap-4 ${
+                  index === activeIndex ? 'bg-purple-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="text-gray-900">{suggestion.label}</span>
+                {suggestion.description && <span className="text-xs text-gray-500">{suggestion.description}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
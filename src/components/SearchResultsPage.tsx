@@ -8,7 +8,9 @@ import ConstellationOverlay from './ConstellationOverlay';
 import ChatBot from './ChatBot';
 import AddCandidateModal from './AddCandidateModal';
 import AddJobDescriptionModal from './AddJobDescriptionModal';
-import { Candidate, JobDescription } from '../types';
+import { Candidate } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { saveJob } from '../services/jobService';
 import galaxyBg from '../../images/logo/galaxy.jpg';
 
 interface SearchResultsPageProps {
@@ -16,15 +18,15 @@ interface SearchResultsPageProps {
 }
 
 const SearchResultsPage: React.FC<SearchResultsPageProps> = ({ onNavigate }) => {
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState<string>('Senior Backend Engineer');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isAddJobModalOpen, setIsAddJobModalOpen] = useState(false);
   const [editingCandidate, setEditingCandidate] = useState<Candidate | null>(null);
-  const [jobDescriptions, setJobDescriptions] = useState<JobDescription[]>([]);
   
   const [candidates, setCandidates] = useState<Candidate[]>([]);
 
-  const handleResumeUpload = (candidateId: number, resume: { file: File; htmlContent: string; contacts?: { email: string | null; phone: string | null; linkedin: string | null } }) => {
+  const handleResumeUpload = (candidateId: string, resume: { file: File; htmlContent: string; contacts?: { email: string | null; phone: string | null; linkedin: string | null } }) => {
     setCandidates((prev) =>
       prev.map((candidate) => {
         if (candidate.id === candidateId) {
@@ -43,7 +45,7 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({ onNavigate }) =>
     );
   };
 
-  const handleCandidateUpdate = (candidateId: number, updates: Partial<Candidate>) => {
+  const handleCandidateUpdate = (candidateId: string, updates: Partial<Candidate>) => {
     setCandidates((prev) =>
       prev.map((candidate) =>
         candidate.id === candidateId ? { ...candidate, ...updates } : candidate
@@ -173,10 +175,15 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({ onNavigate }) =>
       <AddJobDescriptionModal
         open={isAddJobModalOpen}
         onClose={() => setIsAddJobModalOpen(false)}
-        onSave={(jobDescription) => {
-          setJobDescriptions(prev => [...prev, jobDescription]);
-          setIsAddJobModalOpen(false);
-          console.log('Job description saved:', jobDescription);
+        onSave={async (jobData) => {
+          if (!user) return;
+          try {
+            await saveJob(user.id, jobData);
+            setIsAddJobModalOpen(false);
+            onNavigate?.('My Jobs');
+          } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to save job');
+          }
         }}
       />
       <AddCandidateModal
@@ -0,0 +1,291 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Upload, Loader2, FileSpreadsheet, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  SPREADSHEET_FIELDS,
+  guessColumnMapping,
+  importSpreadsheetCandidates,
+  importSpreadsheetJobs,
+  mapSpreadsheetRows,
+  type SpreadsheetImportTarget,
+} from '../services/spreadsheetService';
+import { SPREADSHEET_ACCEPT, readSpreadsheet } from '../utils/spreadsheet';
+
+interface SpreadsheetImportWizardProps {
+  open: boolean;
+  target: SpreadsheetImportTarget;
+  onClose: () => void;
+  onImported?: () => void; // Called after rows were inserted so the list can reload
+}
+
+type Step = 'upload' | 'mapping' | 'importing' | 'done';
+
+// Rows shown in the preview table
+const PREVIEW_ROWS = 20;
+
+/**
+ * Import wizard for candidates or jobs: upload a CSV/XLSX, map columns to fields, preview, import valid rows
+ */
+const SpreadsheetImportWizard: React.FC<SpreadsheetImportWizardProps> = ({ open, target, onClose, onImported }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(string | null)[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [result, setResult] = useState<{ inserted: number; failures: { name: string; error: string }[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fields = SPREADSHEET_FIELDS[target];
+  const noun = target === 'candidates' ? 'candidate' : 'job';
+
+  const mappedRows = useMemo(() => mapSpreadsheetRows(rows, mapping, fields), [rows, mapping, fields]);
+  const validRows = mappedRows.filter(row => row.errors.length === 0);
+  const missingRequired = fields.filter(field => field.required && !mapping.includes(field.key));
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setError(null);
+    setResult(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    try {
+      const [headerRow, ...dataRows] = await readSpreadsheet(file);
+      if (!headerRow || dataRows.length === 0) {
+        throw new Error('The file needs a header row and at least one data row');
+      }
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow, fields));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading spreadsheet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (column: number, key: string) => {
+    setMapping(prev => prev.map((current, i) => {
+      if (i === column) return key || null;
+      // A field can only come from one column
+      return key && current === key ? null : current;
+    }));
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setError(null);
+    try {
+      const importResult = target === 'candidates'
+        ? await importSpreadsheetCandidates(validRows)
+        : await importSpreadsheetJobs(validRows);
+      setResult({ inserted: importResult.insertedIds.length, failures: importResult.failures });
+      setStep('done');
+      if (importResult.insertedIds.length > 0) onImported?.();
+    } catch (err) {
+      console.error(`Error importing ${noun}s:`, err);
+      setError(err instanceof Error ? err.message : `Failed to import ${noun}s`);
+      setStep('mapping');
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] p-4 rounded-t-xl flex items-center justify-between">
+          <h2 className="text-white font-semibold text-lg">
+            Import {target === 'candidates' ? 'Candidates' : 'Jobs'}{fileName ? ` from ${fileName}` : ''}
+          </h2>
+          <button
+            onClick={handleClose}
+            className="w-8 h-8 rounded-full bg-white/20 flex items-center justify-center hover:bg-white/30 transition-colors"
+          >
+            <X className="w-5 h-5 text-white" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="flex items-start gap-2 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              {isReading ? (
+                <Loader2 className="w-12 h-12 text-[#7C3AED] animate-spin" />
+              ) : (
+                <>
+                  <FileSpreadsheet className="w-16 h-16 text-[#7C3AED] mb-4" />
+                  <h3 className="text-xl font-semibold text-gray-800 mb-2">Upload a Spreadsheet</h3>
+                  <p className="text-gray-600 mb-6 max-w-md">
+                    A .csv or .xlsx file with one {noun} per row and a header row. You can match the columns to
+                    {' '}{noun} fields in the next step. List fields (skills, industries...) take values separated by ;
+                  </p>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={SPREADSHEET_ACCEPT}
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-6 py-3 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 transition-opacity flex items-center gap-2"
+                  >
+                    <Upload className="w-5 h-5" />
+                    Choose File
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {(step === 'mapping' || step === 'importing') && (
+            <div className="space-y-6">
+              {/* Column mapping */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-2">Map columns to {noun} fields</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                  {headers.map((header, column) => (
+                    <div key={column} className="flex items-center gap-3">
+                      <div className="w-1/2 min-w-0">
+                        <p className="text-sm font-medium text-gray-700 truncate" title={header}>{header || `Column ${column + 1}`}</p>
+                        <p className="text-xs text-gray-400 truncate">{rows[0]?.[column] || '—'}</p>
+                      </div>
+                      <select
+                        value={mapping[column] || ''}
+                        onChange={(e) => handleMappingChange(column, e.target.value)}
+                        disabled={step === 'importing'}
+                        className="w-1/2 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+                      >
+                        <option value="">Don't import</option>
+                        {fields.map(field => (
+                          <option key={field.key} value={field.key}>
+                            {field.label}{field.required ? ' *' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {missingRequired.length > 0 && (
+                  <p className="text-sm text-red-600 mt-3">
+                    Map a column to {missingRequired.map(field => field.label).join(', ')} to continue.
+                  </p>
+                )}
+              </div>
+
+              {/* Preview */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800 mb-2">
+                  Preview: {validRows.length} of {mappedRows.length} rows ready
+                  {mappedRows.length > validRows.length && (
+                    <span className="font-normal text-gray-500"> (rows with errors are skipped)</span>
+                  )}
+                </h3>
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50">
+                      <tr className="text-left text-gray-500 uppercase">
+                        <th className="px-3 py-2">Row</th>
+                        {fields.filter(field => mapping.includes(field.key)).map(field => (
+                          <th key={field.key} className="px-3 py-2 whitespace-nowrap">{field.label}</th>
+                        ))}
+                        <th className="px-3 py-2">Issues</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {mappedRows.slice(0, PREVIEW_ROWS).map(row => (
+                        <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50/50' : ''}>
+                          <td className="px-3 py-2 text-gray-400">{row.rowNumber}</td>
+                          {fields.filter(field => mapping.includes(field.key)).map(field => {
+                            const value = row.values[field.key];
+                            return (
+                              <td key={field.key} className="px-3 py-2 text-gray-700 max-w-[12rem] truncate">
+                                {Array.isArray(value) ? value.join(', ') : value === undefined ? '' : String(value)}
+                              </td>
+                            );
+                          })}
+                          <td className="px-3 py-2 text-red-600">{row.errors.join('; ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {mappedRows.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-gray-500 mt-2">Showing the first {PREVIEW_ROWS} of {mappedRows.length} rows.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="py-8 text-center">
+              <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+              <h3 className="text-xl font-semibold text-gray-900">
+                Imported {result.inserted} {noun}{result.inserted !== 1 ? 's' : ''}
+              </h3>
+              <p className="text-gray-600 mt-1">Normalization and embeddings for the new rows are running in the background.</p>
+              {result.failures.length > 0 && (
+                <ul className="mt-4 text-sm text-red-700 space-y-1">
+                  {result.failures.map((failure, index) => (
+                    <li key={index}>{failure.name}: {failure.error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-4 flex justify-between">
+          <button
+            onClick={step === 'done' ? handleClose : reset}
+            disabled={step === 'importing'}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+          >
+            {step === 'done' ? 'Close' : 'Start Over'}
+          </button>
+          {(step === 'mapping' || step === 'importing') && (
+            <button
+              onClick={handleImport}
+              disabled={step === 'importing' || missingRequired.length > 0 || validRows.length === 0}
+              className="px-6 py-2 bg-gradient-to-r from-[#7C3AED] to-[#06B6D4] text-white rounded-lg font-semibold hover:opacity-90 disabled:opacity-50 flex items-center gap-2"
+            >
+              {step === 'importing' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              {step === 'importing' ? 'Importing...' : `Import ${validRows.length} ${noun}${validRows.length !== 1 ? 's' : ''}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetImportWizard;
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  BLIND_REVIEW_ROLES,
+  fetchBlindReviewState,
+  revealCandidateIdentity,
+  type BlindReviewState,
+} from '../services/blindReviewService';
+
+/**
+ * Whether candidates should be shown anonymized to the current user
+ * @param jobBlindReview - The job being reviewed has blind review switched on
+ */
+export const useBlindReview = (jobBlindReview = false) => {
+  const [state, setState] = useState<BlindReviewState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBlindReviewState()
+      .then(result => {
+        if (!cancelled) setState({ ...result, revealedCandidateIds: new Set(result.revealedCandidateIds) });
+      })
+      .catch(error => {
+        // Without a role the job setting still applies
+        console.error('Error loading blind review settings:', error);
+        if (!cancelled) setState({ role: 'recruiter', revealedCandidateIds: new Set() });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isBlind = jobBlindReview || (state !== null && BLIND_REVIEW_ROLES.includes(state.role));
+
+  // Hidden until the settings are known, so identities never flash up for blind reviewers
+  const isHidden = useCallback(
+    (candidateId: string | number) => state === null || (isBlind && !state.revealedCandidateIds.has(String(candidateId))),
+    [state, isBlind]
+  );
+
+  const reveal = useCallback(
+    async (candidateId: string | number, context: { jobId?: number | null; vacancyId?: string | null; reason?: string } = {}) => {
+      await revealCandidateIdentity(candidateId, context);
+      setState(prev => prev && { ...prev, revealedCandidateIds: new Set(prev.revealedCandidateIds).add(String(candidateId)) });
+    },
+    []
+  );
+
+  return {
+    isBlind,
+    isHidden,
+    reveal,
+  };
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { parseRoute, type Route } from '../utils/routes';
+
+/**
+ * Go to a path in the app without reloading the page
+ * @param replace - Replace the current history entry instead of adding one (redirects, filter edits)
+ */
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}): void {
+  const current = window.location.pathname + window.location.search;
+  if (to === current) return;
+
+  if (replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+    window.scrollTo(0, 0);
+  }
+
+  // pushState/replaceState do not fire popstate; listeners treat both the same
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+/**
+ * Current pathname and query string, updated on navigate() and browser back/forward
+ */
+export const useLocation = () => {
+  const [location, setLocation] = useState({ pathname: window.location.pathname, search: window.location.search });
+
+  useEffect(() => {
+    const handlePopState = () => {
+      setLocation({ pathname: window.location.pathname, search: window.location.search });
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  return location;
+};
+
+/**
+ * Route of the current URL
+ */
+export const useRoute = (): Route => {
+  const { pathname } = useLocation();
+  return useMemo(() => parseRoute(pathname), [pathname]);
+};
+
+/**
+ * Query string of the current URL, for filter state that should survive reloads and be shareable
+ * Updates replace the history entry, so typing in a filter does not fill the back button.
+ */
+export const useSearchParams = () => {
+  const { search } = useLocation();
+  const searchParams = useMemo(() => new URLSearchParams(search), [search]);
+
+  const setSearchParams = useCallback((update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(window.location.search);
+    update(params);
+    const query = params.toString();
+    navigate(window.location.pathname + (query ? `?${query}` : ''), { replace: true });
+  }, []);
+
+  return [searchParams, setSearchParams] as const;
+};
@@ -0,0 +1,42 @@
+import OpenAI from 'openai';
+import {
+  OPENAI_EMBEDDING_MODEL,
+  createHashingEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  type EmbeddingProvider,
+} from '../../supabase/functions/_shared/embeddings.ts';
+
+export type { EmbeddingMetadata, EmbeddingProvider } from '../../supabase/functions/_shared/embeddings.ts';
+export { embeddingMetadata } from '../../supabase/functions/_shared/embeddings.ts';
+
+// Provider selection: VITE_EMBEDDING_PROVIDER = openai | local.
+// Defaults to openai when VITE_OPENAI_API_KEY is set, otherwise the local hashing model.
+const env = import.meta.env;
+const openaiApiKey = env.VITE_OPENAI_API_KEY as string | undefined;
+const providerName = ((env.VITE_EMBEDDING_PROVIDER as string | undefined) || (openaiApiKey ? 'openai' : 'local')).toLowerCase();
+
+function createProvider(): EmbeddingProvider {
+  if (providerName === 'openai') {
+    if (openaiApiKey) {
+      const openai = new OpenAI({
+        apiKey: openaiApiKey,
+        dangerouslyAllowBrowser: true, // Only for development - in production use a backend proxy
+      });
+      return createOpenAIEmbeddingProvider(openai, (env.VITE_EMBEDDING_MODEL as string | undefined) || OPENAI_EMBEDDING_MODEL);
+    }
+    console.warn('VITE_OPENAI_API_KEY is not set. Falling back to the local embedding model.');
+  } else if (providerName !== 'local') {
+    console.warn(`Unknown VITE_EMBEDDING_PROVIDER "${providerName}". Falling back to the local embedding model.`);
+  }
+
+  return createHashingEmbeddingProvider();
+}
+
+const embeddingProvider = createProvider();
+
+/**
+ * Get the app-wide embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return embeddingProvider;
+}
@@ -0,0 +1,90 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ANTHROPIC_MODELS,
+  OPENAI_MODELS,
+  createAnthropicChatClient,
+  createOpenAIChatClient,
+  createStubLLMClient,
+  type LLMClient,
+  type LLMModelMap,
+  type LLMProviderName,
+} from '../../supabase/functions/_shared/llm.ts';
+import { DEFAULT_STUB_FIXTURES } from '../../supabase/functions/_shared/llmFixtures.ts';
+
+export type { LLMClient, LLMCompletionRequest, LLMModelTier, LLMProviderName } from '../../supabase/functions/_shared/llm.ts';
+
+// Provider selection: VITE_LLM_PROVIDER = openai (default) | anthropic | stub
+const env = import.meta.env;
+const providerName = ((env.VITE_LLM_PROVIDER as string | undefined) || 'openai').toLowerCase() as LLMProviderName;
+
+// Optional per-tier model overrides, e.g. VITE_LLM_MODEL_ADVANCED=gpt-4.1
+const withOverrides = (models: LLMModelMap): LLMModelMap => ({
+  fast: (env.VITE_LLM_MODEL_FAST as string | undefined) || models.fast,
+  standard: (env.VITE_LLM_MODEL_STANDARD as string | undefined) || models.standard,
+  advanced: (env.VITE_LLM_MODEL_ADVANCED as string | undefined) || models.advanced,
+});
+
+function createClient(): LLMClient | null {
+  switch (providerName) {
+    case 'stub':
+      return createStubLLMClient(DEFAULT_STUB_FIXTURES);
+
+    case 'anthropic': {
+      const apiKey = env.VITE_ANTHROPIC_API_KEY as string | undefined;
+      if (!apiKey) {
+        console.warn('Anthropic API key is not set. Please add VITE_ANTHROPIC_API_KEY to your .env file');
+        return null;
+      }
+      const anthropic = new Anthropic({
+        apiKey,
+        dangerouslyAllowBrowser: true, // Only for development - in production use a backend proxy
+      });
+      return createAnthropicChatClient(anthropic, withOverrides(ANTHROPIC_MODELS));
+    }
+
+    case 'openai': {
+      const apiKey = env.VITE_OPENAI_API_KEY as string | undefined;
+      if (!apiKey) {
+        console.warn('OpenAI API key is not set. Please add VITE_OPENAI_API_KEY to your .env file');
+        return null;
+      }
+      const openai = new OpenAI({
+        apiKey,
+        dangerouslyAllowBrowser: true, // Only for development - in production use a backend proxy
+      });
+      return createOpenAIChatClient(openai, withOverrides(OPENAI_MODELS));
+    }
+
+    default:
+      console.error(`Unknown VITE_LLM_PROVIDER "${providerName}". Expected openai, anthropic or stub.`);
+      return null;
+  }
+}
+
+const llmClient = createClient();
+
+/**
+ * Name of the configured LLM provider
+ */
+export function getLLMProviderName(): LLMProviderName {
+  return providerName;
+}
+
+/**
+ * Whether an LLM provider is configured (API key present, or the stub provider)
+ */
+export function isLLMConfigured(): boolean {
+  return llmClient !== null;
+}
+
+/**
+ * Get the app-wide LLM client
+ * Throws when the selected provider has no API key configured.
+ */
+export function getLLMClient(): LLMClient {
+  if (!llmClient) {
+    throw new Error(`LLM provider "${providerName}" is not configured. Check VITE_LLM_PROVIDER and the matching API key in your .env file`);
+  }
+  return llmClient;
+}
@@ -0,0 +1,140 @@
+import type { Tables, TablesInsert } from '../types/database';
+import { db } from './db';
+import { queryError } from './errors';
+
+export type BenchmarkResultInsert = TablesInsert<'matching_benchmark_results'>;
+
+/**
+ * A job with hand-picked relevant candidates to score the matcher against
+ */
+export interface BenchmarkJob {
+  id: number;
+  job_id: string; // vacancy_id of the job
+  ground_truth_candidates: string[];
+  created_at: string;
+  job: {
+    title: string;
+    location: string;
+    industry: string;
+  } | null;
+}
+
+/**
+ * Metrics of one benchmark run
+ */
+export interface BenchmarkResult {
+  id: number;
+  job_id: string;
+  version: string;
+  precision_5: number;
+  precision_10: number;
+  recall_5: number;
+  recall_10: number;
+  ndcg_5: number;
+  ndcg_10: number;
+  mrr: number;
+  timestamp: string;
+  total_relevant_candidates: number;
+  total_retrieved_candidates: number;
+}
+
+type BenchmarkJobRow = Tables<'benchmark_jobs'> & {
+  jobs: Pick<Tables<'jobs'>, 'title' | 'location' | 'industry'> | null;
+};
+
+/**
+ * Map a benchmark_jobs row with its job to BenchmarkJob
+ */
+export function mapBenchmarkJobRow(row: BenchmarkJobRow): BenchmarkJob {
+  return {
+    id: row.id,
+    job_id: row.job_id,
+    ground_truth_candidates: Array.isArray(row.ground_truth_candidates) ? (row.ground_truth_candidates as string[]) : [],
+    created_at: row.created_at || '',
+    job: row.jobs ? {
+      title: row.jobs.title,
+      location: row.jobs.location,
+      industry: (row.jobs.industry || []).join(', '),
+    } : null,
+  };
+}
+
+/**
+ * Map a matching_benchmark_results row to BenchmarkResult
+ */
+export function mapBenchmarkResultRow(row: Tables<'matching_benchmark_results'>): BenchmarkResult {
+  return {
+    id: row.id,
+    job_id: row.job_id,
+    version: row.version,
+    precision_5: row.precision_5 ?? 0,
+    precision_10: row.precision_10 ?? 0,
+    recall_5: row.recall_5 ?? 0,
+    recall_10: row.recall_10 ?? 0,
+    ndcg_5: row.ndcg_5 ?? 0,
+    ndcg_10: row.ndcg_10 ?? 0,
+    mrr: row.mrr ?? 0,
+    timestamp: row.timestamp || '',
+    total_relevant_candidates: row.total_relevant_candidates ?? 0,
+    total_retrieved_candidates: row.total_retrieved_candidates ?? 0,
+  };
+}
+
+/**
+ * All benchmark jobs with their job's title, newest first
+ */
+export async function listBenchmarkJobs(): Promise<BenchmarkJob[]> {
+  const { data, error } = await db
+    .from('benchmark_jobs')
+    .select('*, jobs(title, location, industry)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw queryError('benchmark_jobs', 'fetch benchmark jobs', error);
+  }
+
+  return (data || []).map(mapBenchmarkJobRow);
+}
+
+/**
+ * Ground truth candidate ids of a benchmark job, or null when the job has no benchmark entry
+ */
+export async function getGroundTruth(jobId: string): Promise<string[] | null> {
+  const { data, error } = await db
+    .from('benchmark_jobs')
+    .select('ground_truth_candidates')
+    .eq('job_id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw queryError('benchmark_jobs', 'fetch benchmark job', error);
+  }
+
+  return data ? (data.ground_truth_candidates as string[]) : null;
+}
+
+/**
+ * Benchmark results, newest first
+ * @param filter - Only results of this job and/or scoring profile version
+ */
+export async function listBenchmarkResults(filter: { jobId?: string; version?: string } = {}): Promise<BenchmarkResult[]> {
+  let query = db.from('matching_benchmark_results').select('*');
+  if (filter.jobId) query = query.eq('job_id', filter.jobId);
+  if (filter.version) query = query.eq('version', filter.version);
+
+  const { data, error } = await query.order('timestamp', { ascending: false });
+
+  if (error) {
+    throw queryError('matching_benchmark_results', 'fetch benchmark results', error);
+  }
+
+  return (data || []).map(mapBenchmarkResultRow);
+}
+
+export async function insertBenchmarkResult(values: BenchmarkResultInsert): Promise<void> {
+  const { error } = await db.from('matching_benchmark_results').insert(values);
+
+  if (error) {
+    throw queryError('matching_benchmark_results', 'store benchmark results', error);
+  }
+}
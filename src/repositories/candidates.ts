@@ -0,0 +1,340 @@
+import type { Candidate, SeniorityBand, SocialLinks } from '../types';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+import type { SearchNode } from '../utils/searchQuery';
+import { likePattern, searchQueryFilter } from './catalogueSearch';
+import { db, parseVector } from './db';
+import { queryError } from './errors';
+import { decodeCursor, encodeCursor, keysetFilter, type CursorPage, type CursorPageRequest } from './pagination';
+
+export type CandidateRow = Tables<'candidates'>;
+export type CandidateInsert = TablesInsert<'candidates'>;
+export type CandidateUpdate = TablesUpdate<'candidates'>;
+
+// Columns Candidate is built from; rows of candidates and candidate_catalogue both have them
+type CandidateFields = Pick<CandidateRow,
+  | 'id' | 'name' | 'full_name' | 'job_title' | 'general_title' | 'location' | 'experience'
+  | 'experience_years' | 'seniority_level' | 'availability' | 'ready_to_relocate_to' | 'last_updated'
+  | 'match_score' | 'status' | 'industries' | 'related_industries' | 'company_names' | 'skills' | 'summary'
+  | 'social_links' | 'calendly' | 'salary_min' | 'salary_max' | 'salary_unit' | 'unified_titles' | 'resume_data'
+>;
+
+// Shape of candidates.resume_data
+interface ResumeData {
+  html_content?: string;
+  contacts?: { email: string | null; phone: string | null; linkedin: string | null };
+}
+
+// Ids per request when looking up related rows, to keep the query string short
+const ID_BATCH_SIZE = 200;
+
+/**
+ * Map a candidates row to Candidate
+ * Rows imported by the matching engine only have full_name/general_title; both spellings are read.
+ * @param unifiedTitles - Titles from candidate_unified_titles, used when the row's own array is empty
+ */
+export function mapCandidateRow(row: CandidateFields, unifiedTitles: string[] = []): Candidate {
+  const resumeData = row.resume_data as ResumeData | null;
+
+  return {
+    id: row.id,
+    name: row.name || row.full_name || '',
+    jobTitle: row.job_title || row.general_title || '',
+    location: row.location || '',
+    experience: row.experience || '',
+    experienceYears: row.experience_years ?? undefined,
+    seniorityLevel: (row.seniority_level as SeniorityBand | null) || undefined,
+    availability: row.availability || '',
+    readyToRelocateTo: row.ready_to_relocate_to || [],
+    lastUpdated: row.last_updated || '',
+    matchScore: row.match_score || 0,
+    status: row.status as Candidate['status'],
+    industries: row.industries || [],
+    relatedIndustries: row.related_industries || [],
+    companyNames: row.company_names || [],
+    skills: row.skills || [],
+    summary: row.summary || '',
+    socialLinks: (row.social_links as SocialLinks | null) || {},
+    calendly: row.calendly || undefined,
+    salaryMin: row.salary_min || undefined,
+    salaryMax: row.salary_max || undefined,
+    salaryUnit: (row.salary_unit as Candidate['salaryUnit']) || 'year',
+    unifiedTitles: row.unified_titles?.length ? row.unified_titles : unifiedTitles,
+    resume: resumeData ? {
+      file: null, // Files are in the 'resumes' bucket, not the row
+      htmlContent: resumeData.html_content || '',
+      contacts: resumeData.contacts,
+    } : undefined,
+  };
+}
+
+/**
+ * Unified titles from candidate_unified_titles for the rows whose own unified_titles is empty
+ * Older candidates only have their titles in the relationship table.
+ */
+async function loadRelationshipTitles(rows: CandidateRow[]): Promise<Map<string, string[]>> {
+  const titlesByCandidate = new Map<string, string[]>();
+  const ids = rows.filter(row => !row.unified_titles?.length).map(row => row.id);
+
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await db
+      .from('candidate_unified_titles')
+      .select('candidate_id, unified_title')
+      .in('candidate_id', ids.slice(i, i + ID_BATCH_SIZE));
+
+    if (error) {
+      throw queryError('candidate_unified_titles', 'load unified titles', error);
+    }
+
+    for (const { candidate_id, unified_title } of data || []) {
+      titlesByCandidate.set(candidate_id, [...(titlesByCandidate.get(candidate_id) || []), unified_title]);
+    }
+  }
+
+  return titlesByCandidate;
+}
+
+async function mapCandidateRows(rows: CandidateRow[]): Promise<Candidate[]> {
+  const titlesByCandidate = await loadRelationshipTitles(rows);
+  return rows.map(row => mapCandidateRow(row, titlesByCandidate.get(row.id)));
+}
+
+/**
+ * Star Catalogue filters; all of them must match
+ */
+export interface CandidateFilters {
+  query?: SearchNode | null; // Search box query, parsed with parseSearchQuery
+  unifiedTitle?: string;
+  location?: string; // Substring, case-insensitive
+  industry?: string; // One of the candidate's industries, case-insensitive
+  status?: Candidate['status'];
+  salaryFrom?: number; // Yearly salary expectation bounds; candidates without one are left out
+  salaryTo?: number;
+  skills?: string[]; // Candidate has every one of them (skills are stored lowercase)
+}
+
+export type CandidateSort = 'newest' | 'name' | 'salary_high' | 'salary_low';
+
+// Sort column and direction in candidate_catalogue; ties are broken by id
+const CATALOGUE_SORTS: Record<CandidateSort, { column: 'created_at' | 'display_name' | 'salary_expectation'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  name: { column: 'display_name', ascending: true },
+  salary_high: { column: 'salary_expectation', ascending: false },
+  salary_low: { column: 'salary_expectation', ascending: true },
+};
+
+export const CANDIDATE_SORTS = Object.keys(CATALOGUE_SORTS) as CandidateSort[];
+
+// Everything but search_text and industry_keys, which are only filtered on
+const CATALOGUE_COLUMNS = 'id, name, full_name, job_title, general_title, location, experience, experience_years, seniority_level, availability, ready_to_relocate_to, last_updated, match_score, status, industries, related_industries, company_names, skills, summary, social_links, calendly, salary_min, salary_max, salary_unit, resume_data, created_at, unified_titles, display_name, salary_expectation';
+
+/**
+ * A page of the Star Catalogue, filtered and sorted in the database
+ * Unified titles come merged from both tables in the same query (candidate_catalogue, migration 027).
+ */
+export async function listCatalogueCandidates(
+  filters: CandidateFilters,
+  sort: CandidateSort,
+  request: CursorPageRequest
+): Promise<CursorPage<Candidate>> {
+  const { column, ascending } = CATALOGUE_SORTS[sort];
+  const position = request.cursor ? decodeCursor(request.cursor) : null;
+
+  let query = db
+    .from('candidate_catalogue')
+    .select(CATALOGUE_COLUMNS, position ? {} : { count: 'exact' });
+
+  if (filters.query) query = query.or(searchQueryFilter(filters.query));
+  if (filters.unifiedTitle) query = query.contains('unified_titles', [filters.unifiedTitle]);
+  if (filters.location?.trim()) query = query.ilike('location', likePattern(filters.location.trim()));
+  if (filters.industry?.trim()) query = query.contains('industry_keys', [filters.industry.trim().toLowerCase()]);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.salaryFrom !== undefined) query = query.gte('salary_expectation', filters.salaryFrom);
+  if (filters.salaryTo !== undefined) query = query.lte('salary_expectation', filters.salaryTo);
+  if (filters.skills?.length) query = query.contains('skills', filters.skills.map(skill => skill.toLowerCase()));
+  if (position) query = query.or(keysetFilter(column, ascending, position));
+
+  // One extra row tells whether there is a next page
+  const { data, error, count } = await query
+    .order(column, { ascending, nullsFirst: false })
+    .order('id', { ascending: true })
+    .limit(request.limit + 1);
+
+  if (error) {
+    throw queryError('candidates', 'load candidates', error);
+  }
+
+  const rows = data || [];
+  const pageRows = rows.slice(0, request.limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items: pageRows.map(row => mapCandidateRow(row)),
+    nextCursor: rows.length > request.limit && last ? encodeCursor({ value: last[column], id: last.id }) : null,
+    total: count ?? null,
+  };
+}
+
+/**
+ * One candidate as listed in the Star Catalogue, or null when they do not exist
+ */
+export async function getCatalogueCandidate(candidateId: string): Promise<Candidate | null> {
+  const { data, error } = await db
+    .from('candidate_catalogue')
+    .select(CATALOGUE_COLUMNS)
+    .eq('id', candidateId)
+    .maybeSingle();
+
+  if (error) {
+    throw queryError('candidates', 'load candidate', error);
+  }
+
+  return data ? mapCandidateRow(data) : null;
+}
+
+/**
+ * One candidate as listCandidatesWithTitleEmbeddings reads them, e.g. again after a reveal; null when missing
+ */
+export async function getReviewCandidate(candidateId: string, blindReview = false): Promise<Candidate | null> {
+  const { data, error } = await db
+    .rpc('review_candidates', { p_blind_review: blindReview })
+    .select('*')
+    .eq('id', candidateId)
+    .maybeSingle();
+
+  if (error) {
+    throw queryError('candidates', 'load candidate', error);
+  }
+
+  return data ? (await mapCandidateRows([data]))[0] : null;
+}
+
+/**
+ * Every candidate with their normalized job title embedding and its model, for scoring against a job's title
+ * Identities are masked as in listMatchCandidates when the review is blind.
+ */
+export async function listCandidatesWithTitleEmbeddings(blindReview = false): Promise<Array<{
+  candidate: Candidate;
+  titleEmbedding: number[] | null;
+  titleEmbeddingModel: string | null;
+}>> {
+  const { data, error } = await db.rpc('review_candidates', { p_blind_review: blindReview }).select('*');
+  if (error) {
+    throw queryError('candidates', 'load candidates', error);
+  }
+
+  const rows = data || [];
+  const candidates = await mapCandidateRows(rows);
+  return candidates.map((candidate, i) => ({
+    candidate,
+    titleEmbedding: parseVector(rows[i].job_title_embedding),
+    titleEmbeddingModel: rows[i].job_title_embedding_model,
+  }));
+}
+
+/**
+ * Candidates whose resume has this email address (duplicate check before adding one)
+ */
+export async function findCandidatesByEmail(email: string): Promise<Array<Pick<CandidateRow, 'id' | 'name'>>> {
+  const { data, error } = await db
+    .from('candidates')
+    .select('id, name')
+    .eq('resume_data->contacts->>email', email);
+
+  if (error) {
+    throw queryError('candidates', 'check for duplicates', error);
+  }
+
+  return data || [];
+}
+
+export async function insertCandidate(values: CandidateInsert): Promise<CandidateRow> {
+  const { data, error } = await db
+    .from('candidates')
+    .insert(values)
+    .select()
+    .single();
+
+  if (error) {
+    throw queryError('candidates', 'save candidate', error);
+  }
+
+  return data;
+}
+
+export async function updateCandidate(candidateId: string, values: CandidateUpdate): Promise<CandidateRow> {
+  const { data, error } = await db
+    .from('candidates')
+    .update(values)
+    .eq('id', candidateId)
+    .select()
+    .single();
+
+  if (error) {
+    throw queryError('candidates', 'update candidate', error);
+  }
+
+  return data;
+}
+
+/**
+ * Replace a candidate's unified titles, in candidate_unified_titles and the unified_titles array
+ */
+export async function replaceCandidateUnifiedTitles(candidateId: string, titles: string[]): Promise<void> {
+  const { error: deleteError } = await db
+    .from('candidate_unified_titles')
+    .delete()
+    .eq('candidate_id', candidateId);
+
+  if (deleteError) {
+    throw queryError('candidate_unified_titles', 'update unified titles', deleteError);
+  }
+
+  if (titles.length > 0) {
+    const { error: insertError } = await db
+      .from('candidate_unified_titles')
+      .insert(titles.map(title => ({ candidate_id: candidateId, unified_title: title })));
+
+    if (insertError) {
+      throw queryError('candidate_unified_titles', 'update unified titles', insertError);
+    }
+  }
+
+  const { error: updateError } = await db
+    .from('candidates')
+    .update({ unified_titles: titles })
+    .eq('id', candidateId);
+
+  if (updateError) {
+    throw queryError('candidates', 'update unified titles', updateError);
+  }
+}
+
+/**
+ * A candidate's unified titles as stored: the row's array, else the relationship table
+ */
+export async function getCandidateUnifiedTitles(candidateId: string): Promise<string[]> {
+  const { data, error } = await db
+    .from('candidates')
+    .select('unified_titles')
+    .eq('id', candidateId)
+    .single();
+
+  if (error) {
+    throw queryError('candidates', 'load unified titles', error);
+  }
+
+  if (data.unified_titles?.length) {
+    return data.unified_titles;
+  }
+
+  const { data: titles, error: titlesError } = await db
+    .from('candidate_unified_titles')
+    .select('unified_title')
+    .eq('candidate_id', candidateId);
+
+  if (titlesError) {
+    throw queryError('candidate_unified_titles', 'load unified titles', titlesError);
+  }
+
+  return (titles || []).map(t => t.unified_title);
+}
@@ -0,0 +1,87 @@
+import type { SearchComparison, SearchNode, TextSearchField } from '../utils/searchQuery';
+import { db } from './db';
+import { queryError } from './errors';
+import { quoteFilterValue } from './pagination';
+
+// Escape LIKE wildcards so they match literally
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+export function likePattern(text: string): string {
+  return `%${escapeLike(text)}%`;
+}
+
+// candidate_catalogue column each text field searches (migrations 027 and 028); null field is a bare term
+const TEXT_COLUMNS: Record<Exclude<TextSearchField, 'status' | 'skills'>, string> = {
+  title: 'title_text',
+  location: 'location_text',
+  industry: 'industry_text',
+  company: 'company_text',
+  name: 'display_name',
+};
+
+const NUMERIC_COLUMNS = {
+  salary: 'salary_expectation',
+  experience: 'experience_years',
+} as const;
+
+const COMPARISON_OPERATORS: Record<SearchComparison, string> = {
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+  '=': 'eq',
+};
+
+function renderCondition(node: SearchNode, negated: boolean): string {
+  const not = negated ? 'not.' : '';
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `${not}${node.type}(${node.children.map(child => renderCondition(child, false)).join(',')})`;
+    case 'not':
+      return renderCondition(node.child, !negated);
+    case 'compare':
+      return `${NUMERIC_COLUMNS[node.field]}.${not}${COMPARISON_OPERATORS[node.comparison]}.${node.value}`;
+    case 'text':
+      if (node.field === 'status') {
+        return `status.${not}eq.${quoteFilterValue(node.value)}`;
+      }
+      if (node.field === 'skills') {
+        // skills_text is '|go|rust|': the whole skill has to match
+        return `skills_text.${not}ilike.${quoteFilterValue(`%|${escapeLike(node.value)}|%`)}`;
+      }
+      return `${node.field ? TEXT_COLUMNS[node.field] : 'search_text'}.${not}ilike.${quoteFilterValue(likePattern(node.value))}`;
+  }
+}
+
+/**
+ * PostgREST logic tree (for .or()) that candidate_catalogue rows matching a parsed search query pass
+ */
+export function searchQueryFilter(node: SearchNode): string {
+  return renderCondition(node, false);
+}
+
+/**
+ * Fields whose known values come from the candidates themselves
+ */
+export type SuggestedSearchField = 'skills' | 'location' | 'industry' | 'company';
+
+/**
+ * Values of a field starting with a prefix, most common first, for the search box autocomplete
+ */
+export async function listSearchFieldValues(field: SuggestedSearchField, prefix: string, limit = 10): Promise<string[]> {
+  const { data, error } = await db.rpc('catalogue_field_values', {
+    p_field: field,
+    p_prefix: prefix,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw queryError('candidates', 'load search suggestions', error);
+  }
+
+  return (data || []).map(row => row.value);
+}
@@ -0,0 +1,140 @@
+import type { Tables, TablesInsert } from '../types/database';
+import { db, parseVector } from './db';
+import { queryError } from './errors';
+
+export type ClusterPropertiesInsert = TablesInsert<'cluster_properties'>;
+
+/**
+ * A job in a cluster, as used to describe the cluster and list similar jobs
+ */
+export type ClusterJob = Pick<Tables<'vacancies'>, 'id' | 'title' | 'location' | 'industry' | 'skills_required' | 'job_text'>;
+
+/**
+ * Combined vectors of every job embedded with the given model
+ */
+export async function listJobVectors(embeddingModel: string): Promise<Array<{ job_id: string; vector: number[] }>> {
+  const { data, error } = await db
+    .from('job_embeddings')
+    .select('job_id, combined_vector')
+    .eq('embedding_model', embeddingModel)
+    .not('combined_vector', 'is', null);
+
+  if (error) {
+    throw queryError('job_embeddings', 'load job vectors', error);
+  }
+
+  return (data || []).map(row => ({
+    job_id: row.job_id,
+    vector: parseVector(row.combined_vector) || [],
+  }));
+}
+
+/**
+ * Combined vectors of the given jobs; jobs without one are missing from the map
+ */
+export async function getJobVectors(jobIds: string[]): Promise<Map<string, number[]>> {
+  if (jobIds.length === 0) return new Map();
+
+  const { data, error } = await db
+    .from('job_embeddings')
+    .select('job_id, combined_vector')
+    .in('job_id', jobIds);
+
+  if (error) {
+    throw queryError('job_embeddings', 'load job vectors', error);
+  }
+
+  const vectors = new Map<string, number[]>();
+  for (const row of data || []) {
+    const vector = parseVector(row.combined_vector);
+    if (vector) vectors.set(row.job_id, vector);
+  }
+  return vectors;
+}
+
+/**
+ * Replace every cluster assignment with a new clustering run's
+ */
+export async function replaceJobClusters(assignments: Array<{ cluster_id: number; job_id: string }>): Promise<void> {
+  const { error: deleteError } = await db
+    .from('job_clusters')
+    .delete()
+    .neq('cluster_id', -999); // Delete all
+
+  if (deleteError) {
+    console.warn('Failed to clear existing clusters:', deleteError);
+  }
+
+  if (assignments.length === 0) return;
+
+  const { error } = await db.from('job_clusters').insert(assignments);
+  if (error) {
+    throw queryError('job_clusters', 'store cluster assignments', error);
+  }
+}
+
+/**
+ * Cluster of a job, or null when clustering left it out as noise (or has not run)
+ */
+export async function getJobCluster(jobId: string): Promise<number | null> {
+  const { data, error } = await db
+    .from('job_clusters')
+    .select('cluster_id')
+    .eq('job_id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw queryError('job_clusters', 'load job cluster', error);
+  }
+
+  return data?.cluster_id ?? null;
+}
+
+/**
+ * Jobs in a cluster
+ * @param options.excludeJobId - Leave this job out (the one similar jobs are wanted for)
+ */
+export async function listClusterJobIds(
+  clusterId: number,
+  options: { excludeJobId?: string; limit?: number } = {}
+): Promise<string[]> {
+  let query = db
+    .from('job_clusters')
+    .select('job_id')
+    .eq('cluster_id', clusterId);
+
+  if (options.excludeJobId) query = query.neq('job_id', options.excludeJobId);
+  if (options.limit) query = query.limit(options.limit);
+
+  const { data, error } = await query;
+  if (error) {
+    throw queryError('job_clusters', 'load cluster jobs', error);
+  }
+
+  return (data || []).map(row => row.job_id);
+}
+
+export async function listClusterJobs(jobIds: string[]): Promise<ClusterJob[]> {
+  if (jobIds.length === 0) return [];
+
+  const { data, error } = await db
+    .from('vacancies')
+    .select('id, title, location, industry, skills_required, job_text')
+    .in('id', jobIds);
+
+  if (error) {
+    throw queryError('vacancies', 'load cluster jobs', error);
+  }
+
+  return data || [];
+}
+
+export async function upsertClusterProperties(values: ClusterPropertiesInsert): Promise<void> {
+  const { error } = await db
+    .from('cluster_properties')
+    .upsert(values, { onConflict: 'cluster_id' });
+
+  if (error) {
+    throw queryError('cluster_properties', 'store cluster properties', error);
+  }
+}
@@ -0,0 +1,28 @@
+import { supabase } from '../lib/supabaseClient';
+
+/**
+ * The Supabase client repositories query through (typed with src/types/database.ts)
+ */
+export const db = supabase;
+
+/**
+ * Parse a pgvector column (PostgREST returns vectors as '[0.1,0.2,...]' strings)
+ */
+export function parseVector(value: string | number[] | null | undefined): number[] | null {
+  if (!value) return null;
+  if (Array.isArray(value)) return value;
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize an embedding for a pgvector column
+ */
+export function toVector(values: number[]): string {
+  return JSON.stringify(values);
+}
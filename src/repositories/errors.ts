@@ -0,0 +1,33 @@
+/**
+ * A failed query in a repository
+ * The message reads like the services' ("Failed to load candidates: ..."), so callers can show it as is.
+ */
+export class RepositoryError extends Error {
+  constructor(
+    message: string,
+    public readonly entity: string,
+    public readonly code?: string // PostgREST / Postgres error code, e.g. '23505'
+  ) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+/**
+ * A row looked up by id that does not exist (or is not visible under RLS)
+ */
+export class NotFoundError extends RepositoryError {
+  constructor(entity: string, id: string | number) {
+    super(`${entity} ${id} not found`, entity, 'PGRST116');
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Log a PostgREST error and wrap it for throwing
+ * @param action - What failed, e.g. 'load candidates'
+ */
+export function queryError(entity: string, action: string, error: { message: string; code?: string }): RepositoryError {
+  console.error(`Error trying to ${action}:`, error);
+  return new RepositoryError(`Failed to ${action}: ${error.message}`, entity, error.code);
+}
@@ -0,0 +1,122 @@
+import type { Job, SalaryUnit, SeniorityLevel, SkillRequirement } from '../types';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+import { db, parseVector } from './db';
+import { queryError } from './errors';
+
+export type JobRow = Tables<'jobs'>;
+export type JobInsert = TablesInsert<'jobs'>;
+export type JobUpdate = TablesUpdate<'jobs'>;
+
+/**
+ * Map a jobs row to Job
+ */
+export function mapJobRow(row: JobRow): Job {
+  return {
+    id: row.id,
+    vacancyId: row.vacancy_id,
+    title: row.title,
+    location: row.location,
+    locations: row.locations || (row.location ? [row.location] : []),
+    postedDate: row.posted_date || '',
+    matchCount: row.match_count || 0,
+    skills: row.skills || [],
+    skillRequirements: (row.skill_requirements as SkillRequirement[] | null) || undefined,
+    status: row.status as Job['status'],
+    companyName: row.company_name || undefined,
+    industry: row.industry || [],
+    unifiedTitles: row.unified_titles || [],
+    description: row.description || undefined,
+    workplaceType: (row.workplace_type as Job['workplaceType'] | null) || undefined,
+    employmentType: (row.employment_type as Job['employmentType'] | null) || undefined,
+    seniorityLevel: (row.seniority_level as SeniorityLevel | null) || undefined,
+    consideringRelocation: row.considering_relocation || false,
+    acceptsRemoteCandidates: row.accepts_remote_candidates || false,
+    salaryMin: row.salary_min ?? undefined,
+    salaryMax: row.salary_max ?? undefined,
+    salaryCurrency: row.salary_currency || undefined,
+    salaryUnit: (row.salary_unit as SalaryUnit | null) || undefined,
+    blindReview: row.blind_review || false,
+  };
+}
+
+/**
+ * The jobs of a user
+ */
+export async function listUserJobs(userId: string): Promise<Job[]> {
+  const { data, error } = await db
+    .from('jobs')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw queryError('jobs', 'load jobs', error);
+  }
+
+  return (data || []).map(mapJobRow);
+}
+
+export async function insertJob(values: JobInsert): Promise<JobRow> {
+  const { data, error } = await db
+    .from('jobs')
+    .insert(values)
+    .select()
+    .single();
+
+  if (error) {
+    throw queryError('jobs', 'save job', error);
+  }
+
+  return data;
+}
+
+/**
+ * Update one of a user's jobs
+ */
+export async function updateUserJob(userId: string, jobId: number, values: JobUpdate): Promise<JobRow> {
+  const { data, error } = await db
+    .from('jobs')
+    .update(values)
+    .eq('id', jobId)
+    .eq('user_id', userId) // Only own jobs
+    .select()
+    .single();
+
+  if (error) {
+    throw queryError('jobs', 'save job', error);
+  }
+
+  return data;
+}
+
+/**
+ * Delete one of a user's jobs; its matches, benchmarks and pipeline go with it
+ */
+export async function deleteUserJob(userId: string, jobId: number): Promise<void> {
+  const { error } = await db
+    .from('jobs')
+    .delete()
+    .eq('id', jobId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw queryError('jobs', 'delete job', error);
+  }
+}
+
+/**
+ * Embedding of a job's normalized title and the model that produced it, or null before normalize_job_titles has run
+ */
+export async function getJobTitleEmbedding(jobId: number): Promise<{ embedding: number[]; model: string | null } | null> {
+  const { data, error } = await db
+    .from('jobs')
+    .select('title_embedding, title_embedding_model')
+    .eq('id', jobId)
+    .single();
+
+  if (error) {
+    throw queryError('jobs', 'load job title embedding', error);
+  }
+
+  const embedding = parseVector(data.title_embedding);
+  return embedding ? { embedding, model: data.title_embedding_model } : null;
+}
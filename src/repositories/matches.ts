@@ -0,0 +1,82 @@
+import { db } from './db';
+import { queryError, NotFoundError } from './errors';
+
+/**
+ * The candidate side of a match result, as shown in the match table and resume modal
+ */
+export interface MatchCandidate {
+  candidate_id: string;
+  full_name: string;
+  general_title: string;
+  location: string;
+  company_names: string[];
+  resume_text: string;
+}
+
+const MATCH_CANDIDATE_COLUMNS = 'id, full_name, name, general_title, job_title, location, company_names, resume_text';
+
+interface MatchCandidateRow {
+  id: string;
+  full_name: string | null;
+  name: string | null;
+  general_title: string | null;
+  job_title: string | null;
+  location: string | null;
+  company_names: string[] | null;
+  resume_text: string | null;
+}
+
+/**
+ * Map a candidates row to MatchCandidate
+ */
+export function mapMatchCandidateRow(row: MatchCandidateRow): MatchCandidate {
+  return {
+    candidate_id: row.id,
+    full_name: row.full_name || row.name || 'Unknown',
+    general_title: row.general_title || row.job_title || 'N/A',
+    location: row.location || 'N/A',
+    company_names: row.company_names || [],
+    resume_text: row.resume_text || '',
+  };
+}
+
+/**
+ * Candidate details for a page of match results, in one query
+ * Read through review_candidates, which masks the identity of candidates the user has not revealed in a
+ * blind review (the vacancy's blindReview, or always for hiring managers).
+ * Candidates that no longer exist are missing from the map.
+ */
+export async function listMatchCandidates(
+  candidateIds: string[],
+  blindReview = false
+): Promise<Map<string, MatchCandidate>> {
+  if (candidateIds.length === 0) return new Map();
+
+  const { data, error } = await db
+    .rpc('review_candidates', { p_blind_review: blindReview })
+    .select(MATCH_CANDIDATE_COLUMNS)
+    .in('id', candidateIds);
+
+  if (error) {
+    throw queryError('candidates', 'fetch candidate details', error);
+  }
+
+  return new Map((data || []).map(row => [row.id, mapMatchCandidateRow(row)]));
+}
+
+export async function getMatchCandidate(candidateId: string, blindReview = false): Promise<MatchCandidate> {
+  const { data, error } = await db
+    .rpc('review_candidates', { p_blind_review: blindReview })
+    .select(MATCH_CANDIDATE_COLUMNS)
+    .eq('id', candidateId)
+    .maybeSingle();
+
+  if (error) {
+    throw queryError('candidates', 'fetch candidate details', error);
+  }
+  if (!data) {
+    throw new NotFoundError('Candidate', candidateId);
+  }
+
+  return mapMatchCandidateRow(data);
+}
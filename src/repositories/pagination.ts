@@ -0,0 +1,57 @@
+/**
+ * Keyset (cursor) pages: each page continues after the last row of the previous one, so rows added
+ * or removed meanwhile do not shift later pages, and deep pages cost the same as the first.
+ */
+export interface CursorPageRequest {
+  cursor?: string | null; // nextCursor of the previous page; none for the first page
+  limit: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+  total: number | null; // Rows matching the query; only counted for the first page
+}
+
+/**
+ * Position after a row: its sort value and id (the tiebreaker). Opaque to callers.
+ */
+interface CursorPosition {
+  value: string | number | null;
+  id: string;
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return JSON.stringify([position.value, position.id]);
+}
+
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const [value, id] = JSON.parse(cursor);
+    return typeof id === 'string' ? { value, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Values in PostgREST logic trees (or=...) are quoted so commas, dots and colons in them are literal
+export function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * PostgREST or-filter for the rows after a cursor, ordered by column (nulls last) and then id ascending
+ */
+export function keysetFilter(column: string, ascending: boolean, position: CursorPosition): string {
+  const id = quoteFilterValue(position.id);
+  if (position.value === null) {
+    return `and(${column}.is.null,id.gt.${id})`;
+  }
+
+  const value = quoteFilterValue(position.value);
+  return [
+    `${column}.${ascending ? 'gt' : 'lt'}.${value}`,
+    `and(${column}.eq.${value},id.gt.${id})`,
+    `${column}.is.null`,
+  ].join(',');
+}
@@ -0,0 +1,69 @@
+import type { Tables } from '../types/database';
+import { db } from './db';
+import { queryError } from './errors';
+
+/**
+ * A job as the matching engine sees it; 'vacancies' is a view over jobs (migration 026)
+ */
+export interface Vacancy {
+  id: string;
+  title: string;
+  location: string;
+  created_at: string;
+  scoring_profile_id: string | null;
+  job_id: number; // Job this vacancy is
+  blind_review: boolean; // The job reviews its candidates blind
+}
+
+type VacancyRow = Pick<Tables<'vacancies'>, 'id' | 'title' | 'location' | 'created_at' | 'scoring_profile_id' | 'job_id' | 'blind_review'>;
+
+const VACANCY_COLUMNS = 'id, title, location, created_at, scoring_profile_id, job_id, blind_review';
+
+/**
+ * Map a vacancies row to Vacancy
+ */
+export function mapVacancyRow(row: VacancyRow): Vacancy {
+  return {
+    id: row.id,
+    title: row.title || 'Untitled',
+    location: row.location || 'N/A',
+    created_at: row.created_at || new Date().toISOString(),
+    scoring_profile_id: row.scoring_profile_id || null,
+    job_id: row.job_id,
+    blind_review: row.blind_review ?? false,
+  };
+}
+
+/**
+ * All vacancies, newest first
+ */
+export async function listVacancies(): Promise<Vacancy[]> {
+  const { data, error } = await db
+    .from('vacancies')
+    .select(VACANCY_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw queryError('vacancies', 'fetch vacancies', error);
+  }
+
+  return (data || []).map(mapVacancyRow);
+}
+
+/**
+ * Vacancies by id, in no particular order; ids that do not exist are left out
+ */
+export async function listVacanciesByIds(vacancyIds: string[]): Promise<Vacancy[]> {
+  if (vacancyIds.length === 0) return [];
+
+  const { data, error } = await db
+    .from('vacancies')
+    .select(VACANCY_COLUMNS)
+    .in('id', vacancyIds);
+
+  if (error) {
+    throw queryError('vacancies', 'fetch vacancies', error);
+  }
+
+  return (data || []).map(mapVacancyRow);
+}
@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabaseClient';
+import { getGroundTruth, insertBenchmarkResult } from '../repositories/benchmarks';
+import { getScoringProfileByVersion } from './scoringProfileService';
 
 export interface BenchmarkMetrics {
   precision_5: number;
@@ -118,43 +120,46 @@ function computeMRR(systemRanking: SystemRanking[], groundTruth: string[]): numb
 /**
  * Run benchmark for a specific job
  * 
+ * The version identifies a row in scoring_profiles; the match endpoint is called
+ * with that profile so each stored result maps to the exact weights and cutoffs used.
+ * 
  * @param jobId - UUID of the job/vacancy
- * @param version - Scoring version identifier (e.g., 'v1', 'v2')
+ * @param version - Scoring profile version (e.g., 'v1', 'v2')
  * @returns Benchmark metrics
  */
 export async function runBenchmark(
   jobId: string,
   version: string = 'v1'
 ): Promise<BenchmarkMetrics> {
-  // Step 1: Retrieve ground truth
-  const { data: benchmarkJob, error: benchmarkError } = await supabase
-    .from('benchmark_jobs')
-    .select('ground_truth_candidates')
-    .eq('job_id', jobId)
-    .single();
+  const profile = await getScoringProfileByVersion(version);
+  if (!profile) {
+    throw new Error(`Scoring profile not found for version ${version}`);
+  }
 
-  if (benchmarkError || !benchmarkJob) {
+  // Step 1: Retrieve ground truth
+  const groundTruth = await getGroundTruth(jobId);
+  if (!groundTruth) {
     throw new Error(
       `Benchmark job not found for job_id ${jobId}. Please create a benchmark_jobs entry first.`
     );
   }
 
-  const groundTruth = benchmarkJob.ground_truth_candidates as string[];
   if (!Array.isArray(groundTruth) || groundTruth.length === 0) {
     throw new Error('Ground truth candidates must be a non-empty array');
   }
 
   // Step 2: Retrieve system rankings by calling the match endpoint
-  // We'll use the matching service to get ranked candidates
+  // We'll use the matching service to get ranked candidates; it only sees jobs the caller can see
+  const { data: { session } } = await supabase.auth.getSession();
   const matchResponse = await fetch(
     `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/match`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
       },
-      body: JSON.stringify({ vacancy_id: jobId }),
+      body: JSON.stringify({ vacancy_id: jobId, scoring_profile_id: profile.id }),
     }
   );
 
@@ -195,80 +200,28 @@ export async function runBenchmark(
   };
 
   // Step 4: Store results in database
-  const { error: insertError } = await supabase.from('matching_benchmark_results').insert({
-    job_id: jobId,
-    version,
-    precision_5: metrics.precision_5,
-    precision_10: metrics.precision_10,
-    recall_5: metrics.recall_5,
-    recall_10: metrics.recall_10,
-    ndcg_5: metrics.ndcg_5,
-    ndcg_10: metrics.ndcg_10,
-    mrr: metrics.mrr,
-    total_relevant_candidates: metrics.total_relevant_candidates,
-    total_retrieved_candidates: metrics.total_retrieved_candidates,
-    metadata: {
-      system_ranking_count: systemRanking.length,
-      ground_truth_count: groundTruth.length,
-    },
-  });
-
-  if (insertError) {
-    console.error('Failed to store benchmark results:', insertError);
-    // Don't throw - metrics are still computed correctly
+  try {
+    await insertBenchmarkResult({
+      job_id: jobId,
+      version,
+      precision_5: metrics.precision_5,
+      precision_10: metrics.precision_10,
+      recall_5: metrics.recall_5,
+      recall_10: metrics.recall_10,
+      ndcg_5: metrics.ndcg_5,
+      ndcg_10: metrics.ndcg_10,
+      mrr: metrics.mrr,
+      total_relevant_candidates: metrics.total_relevant_candidates,
+      total_retrieved_candidates: metrics.total_retrieved_candidates,
+      metadata: {
+        system_ranking_count: systemRanking.length,
+        ground_truth_count: groundTruth.length,
+        scoring_profile_id: profile.id,
+      },
+    });
+  } catch {
+    // Logged by the repository; don't throw - metrics are still computed correctly
   }
 
   return metrics;
 }
-
-/**
- * Get benchmark results for a specific job
- */
-export async function getBenchmarkResults(jobId: string) {
-  const { data, error } = await supabase
-    .from('matching_benchmark_results')
-    .select('*')
-    .eq('job_id', jobId)
-    .order('timestamp', { ascending: false });
-
-  if (error) {
-    throw new Error(`Failed to fetch benchmark results: ${error.message}`);
-  }
-
-  return data;
-}
-
-/**
- * Get benchmark results grouped by version
- */
-export async function getBenchmarkResultsByVersion(version: string) {
-  const { data, error } = await supabase
-    .from('matching_benchmark_results')
-    .select('*')
-    .eq('version', version)
-    .order('timestamp', { ascending: false });
-
-  if (error) {
-    throw new Error(`Failed to fetch benchmark results by version: ${error.message}`);
-  }
-
-  return data;
-}
-
-/**
- * Get all benchmark jobs
- */
-export async function getAllBenchmarkJobs() {
-  const { data, error } = await supabase
-    .from('benchmark_jobs')
-    .select('*, vacancies(title, location, industry)')
-    .order('created_at', { ascending: false });
-
-  if (error) {
-    throw new Error(`Failed to fetch benchmark jobs: ${error.message}`);
-  }
-
-  return data;
-}
-
-
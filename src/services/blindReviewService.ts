@@ -0,0 +1,78 @@
+import { supabase } from '../lib/supabaseClient';
+import { UserRole } from '../types';
+
+/**
+ * Roles that always review candidates blind, whatever the job's setting
+ * Matches is_blind_reviewer (migration 024), which keeps their unrevealed candidates masked in the database.
+ */
+export const BLIND_REVIEW_ROLES: UserRole[] = ['hiring_manager'];
+
+export interface BlindReviewState {
+  role: UserRole;
+  revealedCandidateIds: Set<string>; // Candidates the current user has revealed
+}
+
+let statePromise: Promise<BlindReviewState> | null = null;
+
+async function loadBlindReviewState(): Promise<BlindReviewState> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { role: 'recruiter', revealedCandidateIds: new Set() };
+  }
+
+  const [roleResult, revealResult] = await Promise.all([
+    supabase.from('user_roles').select('role').eq('user_id', user.id).maybeSingle(),
+    supabase
+      .from('candidate_activities')
+      .select('candidate_id')
+      .eq('type', 'identity_revealed')
+      .eq('created_by_user_id', user.id),
+  ]);
+
+  const error = roleResult.error || revealResult.error;
+  if (error) {
+    throw new Error(`Failed to load blind review settings: ${error.message}`);
+  }
+
+  return {
+    role: (roleResult.data?.role as UserRole) || 'recruiter',
+    revealedCandidateIds: new Set((revealResult.data || []).map(row => String(row.candidate_id))),
+  };
+}
+
+/**
+ * Current user's role and reveals (loaded once per session)
+ */
+export function fetchBlindReviewState(): Promise<BlindReviewState> {
+  if (!statePromise) {
+    statePromise = loadBlindReviewState().catch(error => {
+      statePromise = null;
+      throw error;
+    });
+  }
+  return statePromise;
+}
+
+/**
+ * Reveal a blind-reviewed candidate to the current user; logged on the candidate's timeline
+ */
+export async function revealCandidateIdentity(
+  candidateId: string | number,
+  context: { jobId?: number | null; vacancyId?: string | null; reason?: string } = {}
+): Promise<void> {
+  const { error } = await supabase.rpc('reveal_candidate_identity', {
+    p_candidate_id: String(candidateId),
+    p_job_id: context.jobId ?? undefined,
+    p_vacancy_id: context.vacancyId ?? undefined,
+    p_reason: context.reason || undefined,
+  });
+
+  if (error) {
+    console.error('Error revealing candidate:', error);
+    throw new Error(`Failed to reveal candidate: ${error.message}`);
+  }
+
+  if (statePromise) {
+    (await statePromise).revealedCandidateIds.add(String(candidateId));
+  }
+}
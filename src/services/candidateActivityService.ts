@@ -0,0 +1,119 @@
+import { supabase } from '../lib/supabaseClient';
+import { CandidateActivity, CandidateActivityType, Teammate } from '../types';
+import type { Tables } from '../types/database';
+
+/**
+ * Map a candidate_activities row to CandidateActivity
+ */
+function mapActivity(row: Tables<'candidate_activities'>): CandidateActivity {
+  return {
+    id: row.id,
+    candidateId: row.candidate_id,
+    type: row.type as CandidateActivityType,
+    body: row.body || undefined,
+    mentions: row.mentions || [],
+    jobId: row.job_id ?? undefined,
+    vacancyId: row.vacancy_id || undefined,
+    metadata: (row.metadata || {}) as Record<string, unknown>,
+    createdByUserId: row.created_by_user_id,
+    createdAt: row.created_at || '',
+    updatedAt: row.updated_at || '',
+  };
+}
+
+/**
+ * Fetch a candidate's timeline (notes and system events), newest first
+ */
+export async function fetchCandidateActivity(candidateId: string | number, limit = 100): Promise<CandidateActivity[]> {
+  const { data, error } = await supabase
+    .from('candidate_activities')
+    .select('*')
+    .eq('candidate_id', String(candidateId))
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching candidate activity:', error);
+    throw new Error(`Failed to fetch candidate activity: ${error.message}`);
+  }
+
+  return (data || []).map(mapActivity);
+}
+
+let teammatesPromise: Promise<Teammate[]> | null = null;
+
+/**
+ * Fetch the teammates that can be @mentioned (loaded once per session)
+ */
+export function fetchTeammates(): Promise<Teammate[]> {
+  if (!teammatesPromise) {
+    teammatesPromise = Promise.resolve(supabase.rpc('list_teammates')).then(({ data, error }) => {
+      if (error) {
+        teammatesPromise = null;
+        throw new Error(`Failed to fetch teammates: ${error.message}`);
+      }
+      return (data || []) as Teammate[];
+    });
+  }
+  return teammatesPromise;
+}
+
+/**
+ * Add a note to a candidate's timeline
+ */
+export async function addCandidateNote(
+  candidateId: string | number,
+  body: string,
+  mentions: string[] = []
+): Promise<CandidateActivity> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('candidate_activities')
+    .insert({
+      candidate_id: String(candidateId),
+      type: 'note',
+      body: body.trim(),
+      mentions,
+      created_by_user_id: user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding note:', error);
+    throw new Error(`Failed to add note: ${error.message}`);
+  }
+
+  return mapActivity(data);
+}
+
+/**
+ * Edit one of the current user's notes
+ */
+export async function updateCandidateNote(activityId: string, body: string, mentions: string[] = []): Promise<void> {
+  const { error } = await supabase
+    .from('candidate_activities')
+    .update({ body: body.trim(), mentions, updated_at: new Date().toISOString() })
+    .eq('id', activityId)
+    .eq('type', 'note');
+
+  if (error) {
+    throw new Error(`Failed to update note: ${error.message}`);
+  }
+}
+
+/**
+ * Delete one of the current user's notes
+ */
+export async function deleteCandidateNote(activityId: string): Promise<void> {
+  const { error } = await supabase
+    .from('candidate_activities')
+    .delete()
+    .eq('id', activityId)
+    .eq('type', 'note');
+
+  if (error) {
+    throw new Error(`Failed to delete note: ${error.message}`);
+  }
+}
@@ -0,0 +1,225 @@
+import { supabase } from '../lib/supabaseClient';
+import { CandidateDataSource, CandidatePrivacy, ConsentStatus, LegalBasis, RetentionPolicy } from '../types';
+import type { Database } from '../types/database';
+import { createZipArchive } from '../utils/zipArchive';
+import {
+  eraseCandidate,
+  type ErasureReason,
+  type ErasureVerification,
+} from '../../supabase/functions/_shared/dataProtection.ts';
+
+export type { ErasureReason, ErasureVerification } from '../../supabase/functions/_shared/dataProtection.ts';
+
+export const CONSENT_STATUS_LABELS: Record<ConsentStatus, string> = {
+  unknown: 'Not recorded',
+  granted: 'Granted',
+  withdrawn: 'Withdrawn',
+};
+
+export const LEGAL_BASIS_LABELS: Record<LegalBasis, string> = {
+  consent: 'Consent',
+  legitimate_interest: 'Legitimate interest',
+};
+
+export const DATA_SOURCE_LABELS: Record<CandidateDataSource, string> = {
+  manual: 'Added manually',
+  bulk_import: 'Resume import',
+  spreadsheet_import: 'Spreadsheet import',
+  referral: 'Referral',
+  job_board: 'Job board',
+  sourcing: 'Sourcing',
+  other: 'Other',
+};
+
+/**
+ * Consent, source and retention date of a candidate
+ */
+export async function fetchCandidatePrivacy(candidateId: string | number): Promise<CandidatePrivacy> {
+  const [candidateResult, retentionResult] = await Promise.all([
+    supabase
+      .from('candidates')
+      .select('consent_status, consent_updated_at, legal_basis, data_source, source_details, retain_until')
+      .eq('id', String(candidateId))
+      .single(),
+    supabase.from('candidate_retention').select('expires_at').eq('id', String(candidateId)).maybeSingle(),
+  ]);
+
+  const error = candidateResult.error || retentionResult.error;
+  if (error) {
+    console.error('Error fetching candidate privacy:', error);
+    throw new Error(`Failed to fetch candidate privacy: ${error.message}`);
+  }
+
+  const row = candidateResult.data;
+  return {
+    consentStatus: row.consent_status as ConsentStatus,
+    consentUpdatedAt: row.consent_updated_at,
+    legalBasis: row.legal_basis as LegalBasis,
+    dataSource: row.data_source as CandidateDataSource,
+    sourceDetails: row.source_details,
+    retainUntil: row.retain_until,
+    expiresAt: retentionResult.data?.expires_at ?? null,
+  };
+}
+
+/**
+ * Save consent and source details; a consent change is logged on the candidate's timeline
+ */
+export async function updateCandidatePrivacy(
+  candidateId: string | number,
+  updates: Partial<Omit<CandidatePrivacy, 'consentUpdatedAt' | 'expiresAt'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('candidates')
+    .update({
+      ...(updates.consentStatus !== undefined && {
+        consent_status: updates.consentStatus,
+        consent_updated_at: new Date().toISOString(),
+      }),
+      ...(updates.legalBasis !== undefined && { legal_basis: updates.legalBasis }),
+      ...(updates.dataSource !== undefined && { data_source: updates.dataSource }),
+      ...(updates.sourceDetails !== undefined && { source_details: updates.sourceDetails || null }),
+      ...(updates.retainUntil !== undefined && { retain_until: updates.retainUntil || null }),
+    })
+    .eq('id', String(candidateId));
+
+  if (error) {
+    console.error('Error updating candidate privacy:', error);
+    throw new Error(`Failed to update candidate privacy: ${error.message}`);
+  }
+}
+
+export async function fetchRetentionPolicies(): Promise<RetentionPolicy[]> {
+  const { data, error } = await supabase
+    .from('retention_policies')
+    .select('legal_basis, retention_days, updated_at')
+    .order('legal_basis');
+
+  if (error) {
+    console.error('Error fetching retention policies:', error);
+    throw new Error(`Failed to fetch retention policies: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    legalBasis: row.legal_basis as LegalBasis,
+    retentionDays: row.retention_days,
+    updatedAt: row.updated_at || '',
+  }));
+}
+
+export async function updateRetentionPolicy(legalBasis: LegalBasis, retentionDays: number): Promise<void> {
+  const { error } = await supabase
+    .from('retention_policies')
+    .update({ retention_days: retentionDays, updated_at: new Date().toISOString() })
+    .eq('legal_basis', legalBasis);
+
+  if (error) {
+    console.error('Error updating retention policy:', error);
+    throw new Error(`Failed to update retention policy: ${error.message}`);
+  }
+}
+
+/**
+ * Number of candidates the next purge would erase
+ */
+export async function countCandidatesDueForPurge(): Promise<number> {
+  const { count, error } = await supabase
+    .from('candidates_due_for_purge')
+    .select('id', { count: 'exact', head: true });
+
+  if (error) {
+    console.error('Error counting candidates due for purge:', error);
+    throw new Error(`Failed to count candidates due for purge: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+// Tables with rows about a candidate, and the column that points at the candidate
+const CANDIDATE_TABLES: { table: keyof Database['public']['Tables']; column: string }[] = [
+  { table: 'candidate_positions', column: 'candidate_id' },
+  { table: 'candidate_education', column: 'candidate_id' },
+  { table: 'candidate_resume_versions', column: 'candidate_id' },
+  { table: 'candidate_unified_titles', column: 'candidate_id' },
+  { table: 'candidate_activities', column: 'candidate_id' },
+  { table: 'applications', column: 'candidate_id' },
+  { table: 'match_cache', column: 'candidate_id' },
+  { table: 'candidate_merges', column: 'winner_id' },
+];
+
+/**
+ * Download everything held about a candidate as a ZIP: candidate-data.json with the candidate row,
+ * every related row and the retention date, plus the original resume files under resumes/
+ */
+export async function exportCandidateData(candidateId: string | number): Promise<void> {
+  const id = String(candidateId);
+  const { data: candidate, error } = await supabase.from('candidates').select('*').eq('id', id).single();
+  if (error) {
+    throw new Error(`Failed to export candidate: ${error.message}`);
+  }
+
+  const related: Record<string, unknown[]> = {};
+  await Promise.all(
+    CANDIDATE_TABLES.map(async ({ table, column }) => {
+      const { data, error: tableError } = await supabase.from(table).select('*').eq(column, id);
+      if (tableError) {
+        throw new Error(`Failed to export ${table}: ${tableError.message}`);
+      }
+      related[table] = data || [];
+    })
+  );
+
+  const applicationIds = (related.applications as { id: string }[]).map(application => application.id);
+  const [history, pairs, benchmarks, retention] = await Promise.all([
+    applicationIds.length > 0
+      ? supabase.from('application_stage_history').select('*').in('application_id', applicationIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('candidate_duplicate_pairs').select('*').or(`candidate_a_id.eq.${id},candidate_b_id.eq.${id}`),
+    // ground_truth_candidates is jsonb: an array argument would be sent as a Postgres array literal
+    supabase.from('benchmark_jobs').select('id, job_id, created_at').contains('ground_truth_candidates', JSON.stringify([id])),
+    supabase.from('candidate_retention').select('expires_at, reason').eq('id', id).maybeSingle(),
+  ]);
+  const relatedError = history.error || pairs.error || benchmarks.error || retention.error;
+  if (relatedError) {
+    throw new Error(`Failed to export candidate: ${relatedError.message}`);
+  }
+
+  const files: { path: string; content: string | Uint8Array }[] = [];
+  for (const version of related.candidate_resume_versions as { version: number; storage_path: string; file_name: string }[]) {
+    const { data: file, error: downloadError } = await supabase.storage.from('resumes').download(version.storage_path);
+    if (downloadError || !file) {
+      throw new Error(`Failed to export resume v${version.version}: ${downloadError?.message || 'file not found'}`);
+    }
+    files.push({ path: `resumes/v${version.version}-${version.file_name}`, content: new Uint8Array(await file.arrayBuffer()) });
+  }
+
+  const bundle = {
+    exported_at: new Date().toISOString(),
+    candidate_id: id,
+    candidate,
+    ...related,
+    application_stage_history: history.data || [],
+    candidate_duplicate_pairs: pairs.data || [],
+    benchmark_ground_truth: benchmarks.data || [],
+    retention: retention.data,
+  };
+  files.unshift({ path: 'candidate-data.json', content: JSON.stringify(bundle, null, 2) });
+
+  const url = URL.createObjectURL(createZipArchive(files));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `candidate-data-${id}-${bundle.exported_at.split('T')[0]}.zip`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Hard-delete a candidate and their resume files from everywhere; fails unless nothing is left
+ */
+export async function eraseCandidateData(
+  candidateId: string | number,
+  reason: ErasureReason = 'erasure_request'
+): Promise<ErasureVerification> {
+  return eraseCandidate(supabase, String(candidateId), reason);
+}
@@ -0,0 +1,201 @@
+import { supabase } from '../lib/supabaseClient';
+import { extractContacts } from '../utils/resumeParser';
+import {
+  findDuplicatePairs,
+  type DedupCandidate,
+  type DuplicateReason,
+} from '../utils/candidateDeduplication';
+import { generateCandidateEmbeddings } from './embeddingsService';
+
+/**
+ * A candidate record as shown side by side in the merge view
+ */
+export interface DuplicateCandidateRecord {
+  id: string;
+  name: string | null;
+  createdAt: string;
+  [column: string]: unknown;
+}
+
+export interface DuplicatePairRecord {
+  id: string;
+  score: number;
+  reasons: DuplicateReason[];
+  candidateA: DuplicateCandidateRecord;
+  candidateB: DuplicateCandidateRecord;
+}
+
+/**
+ * Fields the reviewer picks a winner for; each maps to the columns merge_candidates() copies together.
+ * Skills, industries, companies, relocation targets and unified titles are always combined.
+ */
+export const MERGE_FIELDS: { key: string; label: string; columns: string[] }[] = [
+  { key: 'name', label: 'Name', columns: ['name'] },
+  { key: 'jobTitle', label: 'Job title', columns: [
+    'job_title', 'normalized_job_title', 'job_title_embedding', 'job_title_embedding_model', 'job_title_embedding_dimensions',
+  ] },
+  { key: 'location', label: 'Location', columns: [
+    'location', 'normalized_location', 'location_embedding', 'location_embedding_model', 'location_embedding_dimensions',
+  ] },
+  { key: 'experience', label: 'Experience', columns: ['experience', 'experience_years', 'seniority_level'] },
+  { key: 'availability', label: 'Availability', columns: ['availability'] },
+  { key: 'status', label: 'Status', columns: ['status'] },
+  { key: 'salary', label: 'Salary', columns: ['salary_min', 'salary_max', 'salary_unit'] },
+  { key: 'summary', label: 'Summary', columns: ['summary'] },
+  { key: 'socialLinks', label: 'Social links', columns: ['social_links', 'calendly'] },
+  { key: 'resume', label: 'Resume', columns: ['resume_data', 'resume_text'] },
+];
+
+// Columns loaded for the merge view (embeddings are left out)
+const RECORD_COLUMNS = [
+  'id', 'created_at', 'name', 'job_title', 'location', 'experience', 'experience_years', 'seniority_level',
+  'availability', 'status', 'summary', 'salary_min', 'salary_max', 'salary_unit', 'social_links', 'calendly',
+  'resume_data', 'skills', 'industries', 'company_names', 'unified_titles',
+].join(', ');
+
+const mapRecord = (row: any): DuplicateCandidateRecord => ({ ...row, createdAt: row.created_at });
+
+/**
+ * Contact details and companies of every candidate, for the duplicate scan
+ */
+export async function loadDedupCandidates(): Promise<DedupCandidate[]> {
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('id, name, company_names, social_links, resume_data');
+
+  if (error) {
+    throw new Error(`Failed to load candidates: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => {
+    // Contacts are saved with the resume; older rows only have the resume HTML
+    let contacts = row.resume_data?.contacts || null;
+    if (!contacts?.email && !contacts?.phone && !contacts?.linkedin && row.resume_data?.html_content) {
+      contacts = extractContacts(row.resume_data.html_content);
+    }
+
+    return {
+      id: String(row.id),
+      name: row.name || '',
+      email: contacts?.email || null,
+      phone: contacts?.phone || null,
+      linkedin: contacts?.linkedin || row.social_links?.linkedin || null,
+      companyNames: row.company_names || [],
+    };
+  });
+}
+
+/**
+ * Score all candidates and queue new likely duplicates for review
+ * Dismissed pairs stay dismissed; pending pairs get their score refreshed.
+ */
+export async function scanForDuplicates(): Promise<{ found: number; queued: number }> {
+  const candidates = await loadDedupCandidates();
+  const pairs = findDuplicatePairs(candidates);
+
+  const { data: dismissed, error: dismissedError } = await supabase
+    .from('candidate_duplicate_pairs')
+    .select('candidate_a_id, candidate_b_id')
+    .eq('status', 'dismissed');
+
+  if (dismissedError) {
+    throw new Error(`Failed to load dismissed duplicates: ${dismissedError.message}`);
+  }
+
+  const dismissedKeys = new Set((dismissed || []).map(row => `${row.candidate_a_id}|${row.candidate_b_id}`));
+  const rows = pairs
+    .filter(pair => !dismissedKeys.has(`${pair.candidateAId}|${pair.candidateBId}`))
+    .map(pair => ({
+      candidate_a_id: pair.candidateAId,
+      candidate_b_id: pair.candidateBId,
+      score: pair.score,
+      reasons: pair.reasons.map(reason => ({ ...reason })),
+      updated_at: new Date().toISOString(),
+    }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('candidate_duplicate_pairs')
+      .upsert(rows, { onConflict: 'candidate_a_id,candidate_b_id' });
+
+    if (error) {
+      console.error('Error saving duplicate pairs:', error);
+      throw new Error(`Failed to save duplicate pairs: ${error.message}`);
+    }
+  }
+
+  return { found: pairs.length, queued: rows.length };
+}
+
+/**
+ * Fetch the review queue, most likely duplicates first
+ */
+export async function fetchDuplicatePairs(): Promise<DuplicatePairRecord[]> {
+  const { data, error } = await supabase
+    .from('candidate_duplicate_pairs')
+    .select(`id, score, reasons, candidate_a:candidates!candidate_a_id(${RECORD_COLUMNS}), candidate_b:candidates!candidate_b_id(${RECORD_COLUMNS})`)
+    .eq('status', 'pending')
+    .order('score', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch duplicate pairs: ${error.message}`);
+  }
+
+  return (data || [])
+    .filter((row: any) => row.candidate_a && row.candidate_b)
+    .map((row: any) => ({
+      id: row.id,
+      score: row.score,
+      reasons: row.reasons || [],
+      candidateA: mapRecord(row.candidate_a),
+      candidateB: mapRecord(row.candidate_b),
+    }));
+}
+
+/**
+ * Mark a pair as not a duplicate so later scans skip it
+ */
+export async function dismissDuplicatePair(pairId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('candidate_duplicate_pairs')
+    .update({
+      status: 'dismissed',
+      reviewed_by_user_id: user?.id ?? null,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', pairId);
+
+  if (error) {
+    throw new Error(`Failed to dismiss duplicate pair: ${error.message}`);
+  }
+}
+
+/**
+ * Merge the loser into the winner, taking the given MERGE_FIELDS keys from the loser
+ */
+export async function mergeCandidates(winnerId: string, loserId: string, fieldsFromLoser: string[]): Promise<void> {
+  const columns = MERGE_FIELDS
+    .filter(field => fieldsFromLoser.includes(field.key))
+    .flatMap(field => field.columns);
+
+  const { error } = await supabase.rpc('merge_candidates', {
+    p_winner_id: winnerId,
+    p_loser_id: loserId,
+    p_fields_from_loser: columns,
+  });
+
+  if (error) {
+    console.error('Error merging candidates:', error);
+    throw new Error(`Failed to merge candidates: ${error.message}`);
+  }
+
+  // Skills and titles may have changed; embeddings can also be regenerated later in bulk
+  try {
+    await generateCandidateEmbeddings(winnerId);
+  } catch (embeddingError) {
+    console.error('Error regenerating embeddings after merge:', embeddingError);
+  }
+}
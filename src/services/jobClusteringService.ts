@@ -1,113 +1,21 @@
-import { supabase } from '../lib/supabaseClient';
-import { generateEmbedding } from './embeddingsService';
+import { getEmbeddingMetadata } from './embeddingsService';
+import {
+  getJobCluster,
+  getJobVectors,
+  listClusterJobIds,
+  listClusterJobs,
+  listJobVectors,
+  replaceJobClusters,
+  upsertClusterProperties,
+  type ClusterJob,
+} from '../repositories/clusters';
 
 /**
- * Generate embeddings for a job (title, description, and combined)
- */
-export async function generateJobEmbeddings(jobId: string): Promise<void> {
-  try {
-    // Fetch job from vacancies table
-    const { data: vacancy, error: fetchError } = await supabase
-      .from('vacancies')
-      .select('title, job_text')
-      .eq('id', jobId)
-      .single();
-
-    if (fetchError) {
-      throw new Error(`Failed to fetch vacancy: ${fetchError.message}`);
-    }
-
-    if (!vacancy) {
-      throw new Error(`Vacancy with id ${jobId} not found`);
-    }
-
-    const title = vacancy.title || '';
-    const description = vacancy.job_text || '';
-
-    if (!title && !description) {
-      throw new Error('Job must have either a title or description');
-    }
-
-    // Generate embeddings
-    console.log(`Generating embeddings for job ${jobId}...`);
-    
-    const embeddings: {
-      title_vector?: number[];
-      description_vector?: number[];
-      combined_vector?: number[];
-    } = {};
-
-    // Generate title embedding
-    if (title) {
-      embeddings.title_vector = await generateEmbedding(title);
-    }
-
-    // Generate description embedding
-    if (description) {
-      embeddings.description_vector = await generateEmbedding(description);
-    }
-
-    // Generate combined vector (average of title and description)
-    if (embeddings.title_vector && embeddings.description_vector) {
-      // Average the two vectors
-      const combined = embeddings.title_vector.map((val, idx) => 
-        (val + embeddings.description_vector![idx]) / 2
-      );
-      embeddings.combined_vector = combined;
-    } else if (embeddings.title_vector) {
-      embeddings.combined_vector = embeddings.title_vector;
-    } else if (embeddings.description_vector) {
-      embeddings.combined_vector = embeddings.description_vector;
-    }
-
-    // Store embeddings in job_embeddings table
-    const { error: upsertError } = await supabase
-      .from('job_embeddings')
-      .upsert({
-        job_id: jobId,
-        title_vector: embeddings.title_vector,
-        description_vector: embeddings.description_vector,
-        combined_vector: embeddings.combined_vector,
-        updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'job_id',
-      });
-
-    if (upsertError) {
-      throw new Error(`Failed to store job embeddings: ${upsertError.message}`);
-    }
-
-    console.log(`Successfully generated and stored embeddings for job ${jobId}`);
-  } catch (error) {
-    console.error(`Error generating job embeddings for ${jobId}:`, error);
-    throw error;
-  }
-}
-
-/**
- * Load all job combined vectors from database
+ * Load all job combined vectors produced by the current embedding model
  */
 async function loadJobVectors(): Promise<Array<{ job_id: string; vector: number[] }>> {
-  const { data, error } = await supabase
-    .from('job_embeddings')
-    .select('job_id, combined_vector')
-    .not('combined_vector', 'is', null);
-
-  if (error) {
-    throw new Error(`Failed to load job vectors: ${error.message}`);
-  }
-
-  if (!data || data.length === 0) {
-    return [];
-  }
-
-  // Convert vector type to number array
-  return data.map((item: any) => ({
-    job_id: item.job_id,
-    vector: Array.isArray(item.combined_vector) 
-      ? item.combined_vector 
-      : JSON.parse(item.combined_vector || '[]'),
-  }));
+  const { embedding_model } = getEmbeddingMetadata();
+  return listJobVectors(embedding_model);
 }
 
 /**
@@ -259,26 +167,8 @@ export async function runJobClustering(
     const validClusters = clusterRecords.filter(cr => cr.cluster_id !== -1);
     const noiseCount = clusterRecords.length - validClusters.length;
 
-    // Clear existing clusters
-    const { error: deleteError } = await supabase
-      .from('job_clusters')
-      .delete()
-      .neq('cluster_id', -999); // Delete all
-
-    if (deleteError) {
-      console.warn('Failed to clear existing clusters:', deleteError);
-    }
-
-    // Insert new cluster assignments
-    if (validClusters.length > 0) {
-      const { error: insertError } = await supabase
-        .from('job_clusters')
-        .insert(validClusters);
-
-      if (insertError) {
-        throw new Error(`Failed to store cluster assignments: ${insertError.message}`);
-      }
-    }
+    // Replace the previous run's assignments
+    await replaceJobClusters(validClusters);
 
     // Get unique cluster IDs
     const uniqueClusterIds = Array.from(new Set(clusterAssignments.filter(id => id !== -1)));
@@ -302,24 +192,14 @@ export async function runJobClustering(
 async function deriveClusterProperties(clusterIds: number[]): Promise<void> {
   for (const clusterId of clusterIds) {
     // Get all jobs in this cluster
-    const { data: clusterJobs, error: clusterError } = await supabase
-      .from('job_clusters')
-      .select('job_id')
-      .eq('cluster_id', clusterId);
-
-    if (clusterError || !clusterJobs || clusterJobs.length === 0) {
+    let jobs: ClusterJob[];
+    try {
+      jobs = await listClusterJobs(await listClusterJobIds(clusterId));
+    } catch {
       continue;
     }
 
-    const jobIds = clusterJobs.map(cj => cj.job_id);
-
-    // Fetch job details
-    const { data: jobs, error: jobsError } = await supabase
-      .from('vacancies')
-      .select('title, skills_required, industry')
-      .in('id', jobIds);
-
-    if (jobsError || !jobs) {
+    if (jobs.length === 0) {
       continue;
     }
 
@@ -362,18 +242,16 @@ async function deriveClusterProperties(clusterIds: number[]): Promise<void> {
       .map(([industry]) => industry);
 
     // Store cluster properties
-    await supabase
-      .from('cluster_properties')
-      .upsert({
-        cluster_id: clusterId,
-        representative_titles: topTitles,
-        representative_skills: topSkills,
-        representative_industries: topIndustries,
-        job_count: jobs.length,
-        updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'cluster_id',
-      });
+    await upsertClusterProperties({
+      cluster_id: clusterId,
+      representative_titles: topTitles,
+      representative_skills: topSkills,
+      representative_industries: topIndustries,
+      job_count: jobs.length,
+      updated_at: new Date().toISOString(),
+    }).catch(() => {
+      // Logged by the repository; the other clusters are still described
+    });
   }
 }
 
@@ -383,84 +261,36 @@ async function deriveClusterProperties(clusterIds: number[]): Promise<void> {
 export async function getSimilarJobs(jobId: string, limit: number = 10): Promise<any[]> {
   try {
     // Get cluster ID for this job
-    const { data: clusterData, error: clusterError } = await supabase
-      .from('job_clusters')
-      .select('cluster_id')
-      .eq('job_id', jobId)
-      .single();
-
-    if (clusterError || !clusterData) {
+    const clusterId = await getJobCluster(jobId);
+    if (clusterId === null) {
       // Job not in any cluster, return empty
       return [];
     }
 
-    const clusterId = clusterData.cluster_id;
-
     // Get other jobs in the same cluster
-    const { data: clusterJobs, error: jobsError } = await supabase
-      .from('job_clusters')
-      .select('job_id')
-      .eq('cluster_id', clusterId)
-      .neq('job_id', jobId)
-      .limit(limit);
-
-    if (jobsError || !clusterJobs || clusterJobs.length === 0) {
+    const similarJobIds = await listClusterJobIds(clusterId, { excludeJobId: jobId, limit });
+    if (similarJobIds.length === 0) {
       return [];
     }
 
-    const similarJobIds = clusterJobs.map(cj => cj.job_id);
-
     // Fetch job details
-    const { data: jobs, error: fetchError } = await supabase
-      .from('vacancies')
-      .select('id, title, location, industry, skills_required, job_text')
-      .in('id', similarJobIds);
-
-    if (fetchError || !jobs) {
-      return [];
-    }
+    const jobs = await listClusterJobs(similarJobIds);
 
     // Compute similarity scores using combined vectors
-    const { data: jobEmbedding, error: embeddingError } = await supabase
-      .from('job_embeddings')
-      .select('combined_vector')
-      .eq('job_id', jobId)
-      .single();
-
-    if (!embeddingError && jobEmbedding?.combined_vector) {
-      const sourceVector = Array.isArray(jobEmbedding.combined_vector)
-        ? jobEmbedding.combined_vector
-        : JSON.parse(jobEmbedding.combined_vector || '[]');
-
-      // Get embeddings for similar jobs
-      const { data: similarEmbeddings, error: similarEmbeddingsError } = await supabase
-        .from('job_embeddings')
-        .select('job_id, combined_vector')
-        .in('job_id', similarJobIds);
-
-      if (!similarEmbeddingsError && similarEmbeddings) {
-        // Compute similarity scores
-        const jobsWithScores = jobs.map(job => {
-          const embedding = similarEmbeddings.find(e => e.job_id === job.id);
-          if (!embedding?.combined_vector) {
-            return { ...job, similarity: 0 };
-          }
-
-          const vector = Array.isArray(embedding.combined_vector)
-            ? embedding.combined_vector
-            : JSON.parse(embedding.combined_vector || '[]');
-
-          const similarity = cosineSimilarity(sourceVector, vector);
-          return { ...job, similarity };
-        });
-
-        // Sort by similarity descending
-        jobsWithScores.sort((a, b) => b.similarity - a.similarity);
-        return jobsWithScores.slice(0, limit);
-      }
+    const vectors = await getJobVectors([jobId, ...similarJobIds]);
+    const sourceVector = vectors.get(jobId);
+    if (!sourceVector) {
+      return jobs;
     }
 
-    return jobs;
+    const jobsWithScores = jobs.map(job => {
+      const vector = vectors.get(job.id);
+      return { ...job, similarity: vector ? cosineSimilarity(sourceVector, vector) : 0 };
+    });
+
+    // Sort by similarity descending
+    jobsWithScores.sort((a, b) => b.similarity - a.similarity);
+    return jobsWithScores.slice(0, limit);
   } catch (error) {
     console.error(`Error getting similar jobs for ${jobId}:`, error);
     return [];
@@ -477,33 +307,18 @@ export async function getClusterReinforcementScore(
 ): Promise<number> {
   try {
     // Get cluster ID for this job
-    const { data: clusterData, error: clusterError } = await supabase
-      .from('job_clusters')
-      .select('cluster_id')
-      .eq('job_id', jobId)
-      .single();
-
-    if (clusterError || !clusterData) {
+    const clusterId = await getJobCluster(jobId);
+    if (clusterId === null) {
       return 0; // No cluster, no reinforcement
     }
 
-    const clusterId = clusterData.cluster_id;
-
     // Get other jobs in the same cluster
-    const { data: clusterJobs, error: jobsError } = await supabase
-      .from('job_clusters')
-      .select('job_id')
-      .eq('cluster_id', clusterId)
-      .neq('job_id', jobId);
-
-    if (jobsError || !clusterJobs || clusterJobs.length === 0) {
-      return 0;
-    }
+    const clusterJobIds = await listClusterJobIds(clusterId, { excludeJobId: jobId });
 
     // Check if candidate matches any other jobs in the cluster
     // This is a simplified check - in production, you'd want to check actual match scores
     // For now, return a fixed bonus if there are other jobs in the cluster
-    const otherJobCount = clusterJobs.length;
+    const otherJobCount = clusterJobIds.length;
     
     // Bonus increases with cluster size (up to 0.1 max)
     const bonus = Math.min(0.1, otherJobCount * 0.01);
@@ -514,5 +329,3 @@ export async function getClusterReinforcementScore(
     return 0;
   }
 }
-
-
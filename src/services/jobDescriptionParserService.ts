@@ -1,16 +1,7 @@
-import OpenAI from 'openai';
 import { addRelatedTitles } from '../utils/unifiedTitlesMapping';
-
-const apiKey = (import.meta.env as any).VITE_OPENAI_API_KEY;
-
-if (!apiKey) {
-  console.warn('OpenAI API key is not set. Please add VITE_OPENAI_API_KEY to your .env file');
-}
-
-const openai = new OpenAI({
-  apiKey: apiKey,
-  dangerouslyAllowBrowser: true,
-});
+import { getLLMClient, isLLMConfigured } from '../lib/llmClient';
+import { normalizeSkillRequirements } from '../../supabase/functions/_shared/matching/index.ts';
+import type { SkillRequirement } from '../types';
 
 export interface ParsedBasicJobData {
   job_title: string;
@@ -34,6 +25,7 @@ export interface ValidatedJobData {
 export interface ParsedJobDescriptionData {
   company_industry: string;
   hard_skills_mentioned_in_job_description: string; // comma-separated
+  skill_requirements: SkillRequirement[]; // Proposed required / preferred / bonus split
 }
 
 // First step: Parse basic info (title, company, location)
@@ -91,14 +83,20 @@ Based on this information, extract:
 
 - company industry (if not mentioned in the description, search the internet and find the company industry)
 - hard skills mentioned in job description (list all technical skills, tools, technologies mentioned, use comma to separate)
+- skill requirements: every hard skill with a priority:
+  - "required" - must-have skills (listed under requirements, "must have", "required", "X+ years of")
+  - "preferred" - nice-to-have skills ("preferred", "nice to have", "a plus", "ideally")
+  - "bonus" - skills mentioned only in passing (tech stack, team tools)
+  and min_years - the minimum years of experience stated for that skill, or null
 
-Give output as json with these exact keys: company_industry, hard_skills_mentioned_in_job_description
+Give output as json with these exact keys: company_industry, hard_skills_mentioned_in_job_description, skill_requirements
+skill_requirements is an array of objects: {"skill": "React", "priority": "required", "min_years": 3}
 
 Format your response as valid JSON only, no additional text.`;
 
 export const parseBasicJobInfo = async (jobDescriptionText: string): Promise<{ data: ParsedBasicJobData; rawJson: string }> => {
-  if (!apiKey) {
-    throw new Error('OpenAI API key is not configured');
+  if (!isLLMConfigured()) {
+    throw new Error('LLM provider is not configured');
   }
 
   try {
@@ -107,24 +105,15 @@ export const parseBasicJobInfo = async (jobDescriptionText: string): Promise<{ d
 
     const fullUserMessage = `${BASIC_INFO_PARSING_PROMPT}\n\nJob description content:\n${jobDescriptionText}`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a job description parser. Extract basic job information and return only valid JSON without any additional text or explanations.',
-        },
-        {
-          role: 'user',
-          content: fullUserMessage,
-        },
-      ],
+    const content = await getLLMClient().complete({
+      task: 'job.parse_basic',
+      tier: 'fast',
+      system: 'You are a job description parser. Extract basic job information and return only valid JSON without any additional text or explanations.',
+      prompt: fullUserMessage,
       temperature: 0.3,
-      max_tokens: 500,
-      response_format: { type: 'json_object' },
+      maxTokens: 500,
+      json: true,
     });
-
-    const content = response.choices[0]?.message?.content || '{}';
     console.log('Raw response from ChatGPT (basic info):', content);
 
     // Parse JSON
@@ -188,8 +177,8 @@ export const parseIndustryAndSkills = async (
   location: string,
   jobDescriptionText: string
 ): Promise<{ data: ParsedJobDescriptionData; rawJson: string }> => {
-  if (!apiKey) {
-    throw new Error('OpenAI API key is not configured');
+  if (!isLLMConfigured()) {
+    throw new Error('LLM provider is not configured');
   }
 
   try {
@@ -204,24 +193,15 @@ export const parseIndustryAndSkills = async (
       .replace('{LOCATION}', location)
       .replace('{JOB_DESCRIPTION}', jobDescriptionText);
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a job description parser. Extract industry and skills information and return only valid JSON without any additional text or explanations.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    const content = await getLLMClient().complete({
+      task: 'job.parse_industry_skills',
+      tier: 'fast',
+      system: 'You are a job description parser. Extract industry and skills information and return only valid JSON without any additional text or explanations.',
+      prompt,
       temperature: 0.3,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' },
+      maxTokens: 1000,
+      json: true,
     });
-
-    const content = response.choices[0]?.message?.content || '{}';
     console.log('Raw response from ChatGPT (industry & skills):', content);
 
     // Parse JSON
@@ -249,6 +229,9 @@ export const parseIndustryAndSkills = async (
         'hard_skills_mentioned_in_job_description': 'hard_skills_mentioned_in_job_description',
         'hard_skills': 'hard_skills_mentioned_in_job_description',
         'skills': 'hard_skills_mentioned_in_job_description',
+        'skill requirements': 'skill_requirements',
+        'skill_requirements': 'skill_requirements',
+        'skillrequirements': 'skill_requirements',
       };
       return keyMap[lowerKey] || lowerKey;
     };
@@ -280,9 +263,16 @@ export const parseIndustryAndSkills = async (
       }
     }
 
+    // Process skill requirements - skills the model left out of the split default to required
+    const skillRequirements = normalizeSkillRequirements([
+      ...(Array.isArray(normalized.skill_requirements) ? normalized.skill_requirements : []),
+      ...hardSkills.split(',').map(skill => skill.trim()).filter(skill => skill.length > 0),
+    ]);
+
     const result: ParsedJobDescriptionData = {
       company_industry: industry,
       hard_skills_mentioned_in_job_description: hardSkills,
+      skill_requirements: skillRequirements,
     };
 
     console.log('=== Parsed Industry and Skills ===');
@@ -305,8 +295,8 @@ export const validateAndStandardizeJobData = async (
   location: string,
   jobDescription: string
 ): Promise<{ data: ValidatedJobData; rawJson: string }> => {
-  if (!apiKey) {
-    throw new Error('OpenAI API key is not configured');
+  if (!isLLMConfigured()) {
+    throw new Error('LLM provider is not configured');
   }
 
   try {
@@ -319,31 +309,21 @@ export const validateAndStandardizeJobData = async (
       .replace('{LOCATION}', location)
       .replace('{JOB_DESCRIPTION}', jobDescription);
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a job posting validator and standardizer. Check for errors, standardize formats, and extract information. Return ONLY valid JSON without any additional text, explanations, or markdown formatting. The JSON must be complete and properly closed.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    let content = await getLLMClient().complete({
+      task: 'job.validate',
+      tier: 'fast',
+      system: 'You are a job posting validator and standardizer. Check for errors, standardize formats, and extract information. Return ONLY valid JSON without any additional text, explanations, or markdown formatting. The JSON must be complete and properly closed.',
+      prompt,
       temperature: 0.3,
-      max_tokens: 3000, // Increased to prevent truncation
-      response_format: { type: 'json_object' },
+      maxTokens: 3000, // Increased to prevent truncation
+      json: true,
     });
-
-    let content = response.choices[0]?.message?.content || '{}';
     console.log('Raw response from ChatGPT (validation):', content);
     console.log('Response type:', typeof content);
     console.log('Response length:', content.length);
-    console.log('Finish reason:', response.choices[0]?.finish_reason);
 
-    // Check if response was truncated
-    if (response.choices[0]?.finish_reason === 'length') {
+    // Check if response was truncated (providers don't all report a finish reason, so look for an unclosed object)
+    if (!content.replace(/```\s*$/, '').trim().endsWith('}')) {
       console.warn('⚠️ Response was truncated due to token limit');
       // Try to fix incomplete JSON by closing it properly
       const lastBrace = content.lastIndexOf('}');
@@ -0,0 +1,81 @@
+import { Job, JobFormData } from '../types';
+import type { Json } from '../types/database';
+import { enqueueBackgroundJob } from './backgroundJobService';
+import { insertJob, mapJobRow, updateUserJob, type JobInsert, type JobRow } from '../repositories/jobs';
+
+/**
+ * Columns written from the job form
+ */
+function jobFormToRow(jobData: JobFormData): JobInsert {
+  const industry = jobData.industry
+    ? (Array.isArray(jobData.industry) ? jobData.industry : [jobData.industry])
+    : [];
+
+  return {
+    title: jobData.title,
+    location: jobData.location || jobData.locations?.[0] || '',
+    locations: jobData.locations || [],
+    skills: jobData.skills || [],
+    skill_requirements: (jobData.skillRequirements as Json | undefined) || null,
+    company_name: jobData.companyName || null,
+    industry,
+    description: jobData.description || null,
+    workplace_type: jobData.workplaceType || 'Remote',
+    employment_type: jobData.employmentType || 'Full-time',
+    seniority_level: jobData.seniorityLevel || 'Not Applicable',
+    considering_relocation: jobData.consideringRelocation || false,
+    ...(jobData.acceptsRemoteCandidates !== undefined && { accepts_remote_candidates: jobData.acceptsRemoteCandidates }),
+    salary_min: jobData.salaryMin ?? null,
+    salary_max: jobData.salaryMax ?? null,
+    salary_currency: jobData.salaryCurrency || null,
+    salary_unit: jobData.salaryUnit || null,
+    blind_review: jobData.blindReview || false,
+  };
+}
+
+/**
+ * Queue the background jobs that fill in what a saved job is missing
+ * New jobs have nothing derived yet; on edits the jobs_invalidate_matching_data trigger
+ * (migration 026) clears what the changed fields made stale.
+ */
+async function queueDerivedData(row: JobRow): Promise<void> {
+  const types = [
+    ...(row.normalized_title == null && row.title ? ['normalize_job_titles' as const] : []),
+    ...(row.normalized_location == null && row.location ? ['normalize_job_locations' as const] : []),
+    ...(row.meta_embedding == null ? ['generate_job_embeddings' as const] : []),
+  ];
+
+  for (const type of types) {
+    try {
+      await enqueueBackgroundJob(type, { item_ids: [String(row.id)] });
+    } catch (error) {
+      // The job is saved; the bulk actions on My Jobs pick it up later
+      console.error(`Error queueing ${type} for job ${row.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Create a job for a user, or update one of theirs when jobId is given
+ * Embeddings, normalized title/location and clustering vectors are regenerated in the background.
+ */
+export async function saveJob(
+  userId: string,
+  jobData: JobFormData,
+  jobId?: number
+): Promise<Job> {
+  const values = jobFormToRow(jobData);
+
+  const row = jobId !== undefined
+    ? await updateUserJob(userId, jobId, values)
+    : await insertJob({
+        ...values,
+        posted_date: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+        match_count: 0,
+        status: 'active',
+        user_id: userId,
+      });
+
+  await queueDerivedData(row);
+  return mapJobRow(row);
+}
@@ -1,44 +1,40 @@
-import OpenAI from 'openai';
-
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-
-if (!apiKey) {
-  console.warn('OpenAI API key is not set. Please add VITE_OPENAI_API_KEY to your .env file');
-}
-
-const openai = new OpenAI({
-  apiKey: apiKey,
-  dangerouslyAllowBrowser: true, // Only for development - in production use a backend proxy
-});
+import { getLLMClient, isLLMConfigured } from '../lib/llmClient';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
-export const sendMessage = async (messages: ChatMessage[]): Promise<string> => {
-  if (!apiKey) {
-    throw new Error('OpenAI API key is not configured');
+const complete = async (messages: ChatMessage[], task: string): Promise<string> => {
+  if (!isLLMConfigured()) {
+    throw new Error('LLM provider is not configured');
   }
 
+  // System messages become the system prompt; the last user turn is the prompt, earlier turns are history
+  const system = messages.filter((msg) => msg.role === 'system').map((msg) => msg.content).join('\n\n');
+  const turns = messages.filter((msg) => msg.role !== 'system') as Array<{ role: 'user' | 'assistant'; content: string }>;
+  const last = turns[turns.length - 1];
+
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
+    return await getLLMClient().complete({
+      task,
+      tier: 'fast',
+      system: system || undefined,
+      history: turns.slice(0, -1),
+      prompt: last?.content || '',
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
     });
-
-    return response.choices[0]?.message?.content || 'No response from AI';
   } catch (error) {
-    console.error('Error calling OpenAI API:', error);
+    console.error('Error calling LLM provider:', error);
     throw error;
   }
 };
 
+export const sendMessage = async (messages: ChatMessage[]): Promise<string> => {
+  return complete(messages, 'chat.message');
+};
+
 export const analyzeCandidate = async (candidateInfo: string): Promise<string> => {
   const systemMessage: ChatMessage = {
     role: 'system',
@@ -50,6 +46,5 @@ export const analyzeCandidate = async (candidateInfo: string): Promise<string> =
     content: `Analyze this candidate: ${candidateInfo}`,
   };
 
-  return sendMessage([systemMessage, userMessage]);
+  return complete([systemMessage, userMessage], 'candidate.analyze');
 };
-
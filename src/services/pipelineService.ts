@@ -0,0 +1,203 @@
+import { supabase } from '../lib/supabaseClient';
+import { Application, ApplicationStageChange, PipelineStage } from '../types';
+import type { Tables } from '../types/database';
+
+type ApplicationRow = Tables<'applications'> & {
+  candidates?: Pick<Tables<'candidates'>, 'full_name' | 'name' | 'general_title' | 'job_title' | 'location'> | null;
+};
+
+/**
+ * Map an applications row (optionally joined with its candidate) to Application
+ */
+function mapApplication(row: ApplicationRow): Application {
+  return {
+    id: row.id,
+    candidateId: row.candidate_id,
+    jobId: row.job_id,
+    stageId: row.stage_id,
+    position: row.position ?? 0,
+    source: row.source || undefined,
+    matchScore: row.match_score ?? undefined,
+    createdAt: row.created_at || '',
+    updatedAt: row.updated_at || '',
+    candidate: row.candidates
+      ? {
+          name: row.candidates.full_name || row.candidates.name || 'Unknown',
+          jobTitle: row.candidates.general_title || row.candidates.job_title || '',
+          location: row.candidates.location || '',
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Fetch the pipeline stages in board order
+ */
+export async function fetchPipelineStages(): Promise<PipelineStage[]> {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('id, key, label, position, is_closed')
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pipeline stages:', error);
+    throw new Error(`Failed to fetch pipeline stages: ${error.message}`);
+  }
+
+  return (data || []).map(stage => ({
+    id: stage.id,
+    key: stage.key,
+    label: stage.label,
+    position: stage.position,
+    isClosed: stage.is_closed,
+  }));
+}
+
+/**
+ * Fetch all applications of a job with candidate name, title and location
+ */
+export async function fetchJobApplications(jobId: number): Promise<Application[]> {
+  const { data, error } = await supabase
+    .from('applications')
+    .select('*, candidates(full_name, name, general_title, job_title, location)')
+    .eq('job_id', jobId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching applications:', error);
+    throw new Error(`Failed to fetch applications: ${error.message}`);
+  }
+
+  return (data || []).map(mapApplication);
+}
+
+/**
+ * Add a candidate to a job's pipeline in the first stage
+ * Returns the existing application if the candidate is already in the pipeline.
+ */
+export async function addToPipeline(
+  candidateId: string | number,
+  jobId: number,
+  options: { source?: string; matchScore?: number } = {}
+): Promise<Application> {
+  const { data: existing } = await supabase
+    .from('applications')
+    .select('*')
+    .eq('candidate_id', String(candidateId))
+    .eq('job_id', jobId)
+    .maybeSingle();
+
+  if (existing) {
+    return mapApplication(existing);
+  }
+
+  const stages = await fetchPipelineStages();
+  if (stages.length === 0) {
+    throw new Error('No pipeline stages configured');
+  }
+
+  const { data, error } = await supabase
+    .from('applications')
+    .insert({
+      candidate_id: String(candidateId),
+      job_id: jobId,
+      stage_id: stages[0].id,
+      position: Date.now(), // New cards go to the bottom of the column
+      source: options.source ?? null,
+      match_score: options.matchScore ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding candidate to pipeline:', error);
+    throw new Error(`Failed to add candidate to pipeline: ${error.message}`);
+  }
+
+  return mapApplication(data);
+}
+
+/**
+ * Move an application to a stage, optionally at a position inside the column
+ * The stage change is recorded in application_stage_history by a database trigger.
+ */
+export async function moveApplication(applicationId: string, stageId: string, position?: number): Promise<void> {
+  const { error } = await supabase
+    .from('applications')
+    .update({
+      stage_id: stageId,
+      position: position ?? Date.now(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', applicationId);
+
+  if (error) {
+    console.error('Error moving application:', error);
+    throw new Error(`Failed to move application: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch the stage changes of an application, oldest first
+ */
+export async function fetchApplicationHistory(applicationId: string): Promise<ApplicationStageChange[]> {
+  const { data, error } = await supabase
+    .from('application_stage_history')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('moved_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch application history: ${error.message}`);
+  }
+
+  return (data || []).map(change => ({
+    id: change.id,
+    applicationId: change.application_id,
+    fromStageId: change.from_stage_id,
+    toStageId: change.to_stage_id,
+    movedByUserId: change.moved_by_user_id,
+    movedAt: change.moved_at || '',
+  }));
+}
+
+/**
+ * Remove a candidate from a job's pipeline (drops its stage history too)
+ */
+export async function removeFromPipeline(applicationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('applications')
+    .delete()
+    .eq('id', applicationId);
+
+  if (error) {
+    throw new Error(`Failed to remove application: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch the current user's jobs that candidates can be added to
+ */
+export async function fetchPipelineJobs(): Promise<{ id: number; title: string; companyName?: string }[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('id, title, company_name')
+    .eq('user_id', user.id)
+    .neq('status', 'closed')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch jobs: ${error.message}`);
+  }
+
+  return (data || []).map(job => ({
+    id: job.id,
+    title: job.title,
+    companyName: job.company_name || undefined,
+  }));
+}
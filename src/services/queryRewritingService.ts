@@ -1,17 +1,7 @@
-import OpenAI from 'openai';
 import { supabase } from '../lib/supabaseClient';
-import { generateEmbedding } from './embeddingsService';
-
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-
-if (!apiKey) {
-  console.warn('VITE_OPENAI_API_KEY is not set. Query rewriting will fail.');
-}
-
-const openai = apiKey ? new OpenAI({
-  apiKey: apiKey,
-  dangerouslyAllowBrowser: true,
-}) : null;
+import { getLLMClient, isLLMConfigured } from '../lib/llmClient';
+import { generateEmbedding, getEmbeddingMetadata } from './embeddingsService';
+import { toVector } from '../repositories/db';
 
 export interface ExpandedJobQuery {
   primary_title: string;
@@ -37,8 +27,8 @@ export interface ExpandedJobQuery {
  * @returns Expanded job query with structured information
  */
 export async function rewriteJobQuery(jobDescription: string): Promise<ExpandedJobQuery> {
-  if (!openai) {
-    throw new Error('OpenAI client not initialized. Check VITE_OPENAI_API_KEY environment variable.');
+  if (!isLLMConfigured()) {
+    throw new Error('LLM provider is not configured. Check VITE_LLM_PROVIDER and the matching API key.');
   }
 
   if (!jobDescription || !jobDescription.trim()) {
@@ -82,28 +72,16 @@ Rules:
 Return ONLY valid JSON, no additional text.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a job query expansion system. Return only valid JSON with the exact structure specified.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    const content = await getLLMClient().complete({
+      task: 'query.rewrite',
+      tier: 'advanced',
+      system: 'You are a job query expansion system. Return only valid JSON with the exact structure specified.',
+      prompt,
       temperature: 0.3,
-      max_tokens: 1500,
-      response_format: { type: 'json_object' },
+      maxTokens: 1500,
+      json: true,
     });
 
-    const content = response.choices[0]?.message?.content?.trim();
-    if (!content) {
-      throw new Error('No response content from OpenAI');
-    }
-
     // Parse JSON response
     let expandedQuery: ExpandedJobQuery;
     try {
@@ -221,7 +199,8 @@ export async function saveExpandedQuery(jobId: string, expandedQuery: ExpandedJo
         skill_groups: expandedQuery.skill_groups,
         industry: expandedQuery.industry,
         expanded_keywords: expandedQuery.expanded_keywords,
-        job_vector_enhanced: enhancedEmbedding,
+        job_vector_enhanced: toVector(enhancedEmbedding),
+        ...getEmbeddingMetadata(),
         updated_at: new Date().toISOString(),
       }, {
         onConflict: 'job_id',
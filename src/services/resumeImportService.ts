@@ -0,0 +1,596 @@
+import mammoth from 'mammoth';
+import { supabase } from '../lib/supabaseClient';
+import { Candidate, CandidateDataSource, ResumeVersion } from '../types';
+import type { Json } from '../types/database';
+import {
+  parseResumeWithAI,
+  convertDocxToText,
+  convertPdfToText,
+  convertPdfToHtml,
+  generateSummariesWithAllModels,
+} from './resumeParserService';
+import { enqueueBackgroundJob, type BackgroundJob, type BackgroundJobType } from './backgroundJobService';
+import { loadDedupCandidates } from './deduplicationService';
+import { saveCandidateWorkHistory } from './workHistoryService';
+import { storeResumeVersion } from './resumeVersionService';
+import { addRelatedTitles } from '../utils/unifiedTitlesMapping';
+import { extractContacts, removeContactsFromHtml, removeNameAndLocationFromHtml, formatResumeHtml } from '../utils/resumeParser';
+import { findDuplicatePairs, type DedupCandidate, type DuplicateReason } from '../utils/candidateDeduplication';
+import { isZipFile, readZipEntries } from '../utils/zipArchive';
+import { parseExperienceYears, resolveCandidateSeniority } from '../utils/seniority';
+import { standardResumeToCandidate } from '../utils/resumeStandards';
+
+const isDocxFile = (file: File) => /\.docx$/i.test(file.name);
+const isPdfFile = (file: File) => /\.pdf$/i.test(file.name);
+const isJsonFile = (file: File) => /\.json$/i.test(file.name);
+
+export const isResumeFile = (file: File) => isDocxFile(file) || isPdfFile(file) || isJsonFile(file);
+
+// File input accept list matching isResumeFile
+export const RESUME_FILE_ACCEPT = '.docx,.pdf,.json';
+
+/**
+ * Read a JSON Resume or HR-Open document; these are mapped directly, without the AI parser
+ */
+async function parseStandardResumeFile(file: File): Promise<Partial<Candidate>> {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  const candidate = standardResumeToCandidate(doc);
+  return { ...candidate, resume: { file, htmlContent: candidate.resume?.htmlContent || '', contacts: candidate.resume?.contacts } };
+}
+
+/**
+ * Convert a PDF/DOCX resume to HTML and parse it with AI into candidate fields
+ * JSON Resume and HR-Open .json files skip the AI step. Used by the single-candidate modal and the bulk importer.
+ */
+export async function parseResumeFile(file: File): Promise<Partial<Candidate>> {
+  if (isJsonFile(file)) {
+    return parseStandardResumeFile(file);
+  }
+
+  const isDocx = isDocxFile(file);
+  const isPdf = isPdfFile(file);
+
+  // STEP 1: Convert file to text (DOCX or PDF)
+  let resumeText: string;
+  let htmlContent: string;
+
+  if (isDocx) {
+    // Convert DOCX to text
+    resumeText = await convertDocxToText(file);
+
+    // Convert DOCX to HTML for display
+    const arrayBuffer = await file.arrayBuffer();
+    const result = await mammoth.convertToHtml({ arrayBuffer });
+    htmlContent = result.value;
+  } else if (isPdf) {
+    // Convert PDF to text for parsing
+    resumeText = await convertPdfToText(file);
+
+    // Convert PDF to HTML with precise formatting (NO ChatGPT reformatting)
+    htmlContent = await convertPdfToHtml(file);
+  } else {
+    throw new Error('Unsupported file type');
+  }
+
+  // STEP 2: Parse resume with AI (now also reformats resume according to template)
+  const { data: parsedData, rawJson: reformattedResumeText } = await parseResumeWithAI(resumeText);
+
+  // STEP 2.5: Generate Summaries with GPT-3.5-turbo
+  const summariesByModel = await generateSummariesWithAllModels(resumeText);
+  // Use gpt-3.5-turbo as default summary
+  const summary = summariesByModel['gpt-3.5-turbo'] || '';
+
+  // Extract contacts for later use
+  const contacts = extractContacts(htmlContent);
+
+  // Use reformatted resume from ChatGPT if available, otherwise use original
+  if (reformattedResumeText && reformattedResumeText.trim()) {
+    // Convert reformatted text to HTML with proper formatting
+    const formattedHtml = reformattedResumeText
+      .split('\n')
+      .map((line) => {
+        const trimmedLine = line.trim();
+        // Skip empty lines but add spacing
+        if (!trimmedLine) return '<div style="height: 0.5em;"></div>';
+        // Format section headers (all caps, bold, no special chars)
+        if (trimmedLine === trimmedLine.toUpperCase() && 
+            trimmedLine.length < 50 && 
+            !trimmedLine.includes('│') && 
+            !trimmedLine.includes('@') &&
+            !trimmedLine.includes('http') &&
+            trimmedLine.length > 3) {
+          return `<h3 style="font-weight: bold; font-size: 1.2em; margin-top: 2em; margin-bottom: 1em; color: #1f2937; text-transform: uppercase; border-bottom: 2px solid #e5e7eb; padding-bottom: 0.5em;">${trimmedLine}</h3>`;
+        }
+        // Format header line (name, title, contact info)
+        if (trimmedLine.includes('│') || (trimmedLine.includes('@') && trimmedLine.includes('http'))) {
+          return `<p style="font-weight: 600; font-size: 1.05em; margin-top: 1.5em; margin-bottom: 0.5em; color: #374151; line-height: 1.8;">${trimmedLine}</p>`;
+        }
+        // Format company names and job titles (lines with dates)
+        if (trimmedLine.match(/\d{4}/) && (trimmedLine.includes('–') || trimmedLine.includes('-'))) {
+          return `<p style="font-weight: 600; margin-top: 1.5em; margin-bottom: 0.5em; color: #4b5563; font-size: 1.05em;">${trimmedLine}</p>`;
+        }
+        // Format bullet points (lines starting with bullet or dash)
+        if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-') || trimmedLine.match(/^[A-Z][a-z].*:$/)) {
+          return `<p style="margin-left: 2em; margin-bottom: 0.6em; line-height: 1.7; text-indent: -1em; padding-left: 1em;">${trimmedLine}</p>`;
+        }
+        // Format lines that look like achievements (start with action verb)
+        if (trimmedLine.match(/^(Built|Launched|Developed|Created|Implemented|Led|Managed|Designed|Established|Scaled|Enhanced|Delivered|Organized)/i)) {
+          return `<p style="margin-left: 1.5em; margin-bottom: 0.6em; line-height: 1.7;">${trimmedLine}</p>`;
+        }
+        // Regular paragraphs
+        return `<p style="margin-bottom: 0.6em; line-height: 1.7; color: #374151;">${trimmedLine}</p>`;
+      })
+      .join('\n');
+
+    htmlContent = `<div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #1f2937; padding: 30px; max-width: 900px; margin: 0 auto; background: #ffffff;">${formattedHtml}</div>`;
+    console.log('Using reformatted resume from ChatGPT');
+  } else {
+    // Fallback to original formatting
+    if (isDocx) {
+      // Remove contacts from HTML
+      htmlContent = removeContactsFromHtml(htmlContent, contacts);
+
+      // Remove name and location from resume (they're already in the card)
+      const fullName = parsedData.full_name || '';
+      const location = parsedData.location || '';
+      htmlContent = removeNameAndLocationFromHtml(htmlContent, fullName, location);
+
+      // Format resume HTML for better display
+      htmlContent = formatResumeHtml(htmlContent);
+    } else if (isPdf) {
+      // For PDF: Only remove contacts, name, and location
+      htmlContent = removeContactsFromHtml(htmlContent, contacts);
+
+      const fullName = parsedData.full_name || '';
+      const location = parsedData.location || '';
+      htmlContent = removeNameAndLocationFromHtml(htmlContent, fullName, location);
+    }
+  }
+
+
+  // Map parsed data to candidate format
+  // Ensure arrays are properly initialized
+  const mainIndustries = Array.isArray(parsedData.main_industries) 
+    ? parsedData.main_industries.filter(i => i && i.trim() !== '') 
+    : [];
+  const relatedIndustries = Array.isArray(parsedData.other_related_industries)
+    ? parsedData.other_related_industries.filter(i => i && i.trim() !== '')
+    : [];
+  const companyNames = Array.isArray(parsedData.company_names)
+    ? parsedData.company_names.filter(c => c && c.trim() !== '')
+    : [];
+
+  // Extract and normalize skills from parsed data
+  let extractedSkills: string[] = [];
+  if (Array.isArray(parsedData.skills) && parsedData.skills.length > 0) {
+    extractedSkills = parsedData.skills.filter(s => s && s.trim() !== '');
+  }
+
+  // Normalize skills using ChatGPT (translate to English, lowercase, standardize)
+  let normalizedSkills: string[] = [];
+  if (extractedSkills.length > 0) {
+    try {
+      const { normalizeSkills } = await import('./skillsNormalization');
+      normalizedSkills = await normalizeSkills(extractedSkills);
+      console.log('Normalized skills:', normalizedSkills);
+    } catch (normalizationError) {
+      console.error('Error normalizing skills:', normalizationError);
+      // Fallback: use extracted skills with basic normalization
+      normalizedSkills = extractedSkills.map(s => s.trim().toLowerCase()).filter(s => s.length > 0);
+    }
+  }
+
+  // Process LinkedIn - prioritize parsed data, fallback to extracted contacts
+  let linkedinUrl = parsedData.linkedin && parsedData.linkedin !== 'Not found' ? parsedData.linkedin : null;
+  if (!linkedinUrl && contacts.linkedin) {
+    linkedinUrl = contacts.linkedin;
+  }
+  // Ensure LinkedIn URL is complete (add https:// if missing)
+  if (linkedinUrl && !linkedinUrl.startsWith('http')) {
+    linkedinUrl = `https://${linkedinUrl}`;
+  }
+
+  // Process email and phone - prioritize parsed data, fallback to extracted contacts
+  const email = parsedData.email && parsedData.email !== 'Not found' 
+    ? parsedData.email 
+    : (contacts.email || null);
+  const phone = parsedData.phone_number && parsedData.phone_number !== 'Not found'
+    ? parsedData.phone_number
+    : (contacts.phone || null);
+
+
+  let unifiedTitles = Array.isArray(parsedData.unified_titles) 
+    ? parsedData.unified_titles.filter(t => t && t.trim() !== '') 
+    : [];
+
+  // Add related titles for C-level positions (e.g., CMO → Marketing Manager)
+  if (unifiedTitles.length > 0) {
+    unifiedTitles = addRelatedTitles(unifiedTitles);
+  }
+
+  const newCandidate: Partial<Candidate> = {
+    name: parsedData.full_name || '',
+    jobTitle: parsedData.main_job_title || '',
+    location: parsedData.location || 'Not specified',
+    experience: `${parsedData.total_work_experience_years || 0} years`,
+    availability: 'Available',
+    readyToRelocateTo: [],
+    lastUpdated: parsedData.last_updated_date || new Date().toISOString().split('T')[0],
+    matchScore: 0,
+    status: 'actively_looking',
+    industries: mainIndustries,
+    relatedIndustries: relatedIndustries,
+    companyNames: companyNames,
+    skills: normalizedSkills, // Use normalized skills from resume parsing
+    summary: summary || '',
+    unifiedTitles: unifiedTitles,
+    workHistory: (parsedData.work_history || []).map(position => ({
+      title: position.title,
+      company: position.company || undefined,
+      location: position.location || undefined,
+      startDate: position.start_date || undefined,
+      endDate: position.end_date || undefined,
+      isCurrent: position.is_current,
+      bullets: position.bullets,
+    })),
+    education: (parsedData.education || []).map(entry => ({
+      institution: entry.institution,
+      degree: entry.degree || undefined,
+      fieldOfStudy: entry.field_of_study || undefined,
+      startDate: entry.start_date || undefined,
+      endDate: entry.end_date || undefined,
+    })),
+    summariesByModel: summariesByModel,
+    socialLinks: {
+      linkedin: linkedinUrl || undefined,
+      github: parsedData.github && parsedData.github !== 'Not found' ? parsedData.github : undefined,
+      portfolio: parsedData.portfolio && parsedData.portfolio !== 'Not found' ? parsedData.portfolio : undefined,
+      otherSocialMedia: parsedData.other_social_media && parsedData.other_social_media !== 'Not found' ? parsedData.other_social_media : undefined,
+    },
+    resume: {
+      file,
+      htmlContent,
+      contacts: {
+        email,
+        phone,
+        linkedin: linkedinUrl,
+      },
+    },
+  };
+
+  return newCandidate;
+}
+
+/**
+ * Resume files from ZIP archives, folder uploads and single files
+ * Anything that is not a PDF/DOCX/JSON resume is reported as skipped; macOS metadata and hidden files are ignored.
+ */
+export async function collectResumeFiles(files: File[]): Promise<{ resumes: File[]; skipped: string[] }> {
+  const resumes: File[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    const entries = isZipFile(file)
+      ? await readZipEntries(file)
+      : [{ path: file.webkitRelativePath || file.name, file }];
+
+    for (const entry of entries) {
+      if (entry.path.includes('__MACOSX/') || entry.file.name.startsWith('.')) continue;
+      if (isResumeFile(entry.file)) {
+        resumes.push(entry.file);
+      } else {
+        skipped.push(entry.path);
+      }
+    }
+  }
+
+  return { resumes, skipped };
+}
+
+// Each resume makes several OpenAI calls; more parallel parses mostly hit rate limits
+const PARSE_CONCURRENCY = 3;
+
+/**
+ * Parse resumes a few at a time
+ * Callbacks fire per file so the review grid fills in as results arrive; aborting stops new parses.
+ */
+export async function parseResumeBatch(
+  files: File[],
+  callbacks: {
+    onStart?: (index: number) => void;
+    onResult: (index: number, result: { candidate?: Partial<Candidate>; error?: string }) => void;
+  },
+  signal?: AbortSignal,
+  concurrency = PARSE_CONCURRENCY
+): Promise<void> {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < files.length && !signal?.aborted) {
+      const index = next++;
+      callbacks.onStart?.(index);
+      try {
+        callbacks.onResult(index, { candidate: await parseResumeFile(files[index]) });
+      } catch (error) {
+        console.error(`Error parsing ${files[index].name}:`, error);
+        callbacks.onResult(index, { error: error instanceof Error ? error.message : 'Failed to parse resume' });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+}
+
+export type ResumeImportFlag =
+  | 'missing_name'
+  | 'missing_job_title'
+  | 'missing_location'
+  | 'missing_contact'
+  | 'missing_linkedin'
+  | 'missing_skills'
+  | 'missing_experience';
+
+export const RESUME_IMPORT_FLAG_LABELS: Record<ResumeImportFlag, string> = {
+  missing_name: 'No name found',
+  missing_job_title: 'No job title found',
+  missing_location: 'No location found',
+  missing_contact: 'No email or phone found',
+  missing_linkedin: 'No LinkedIn found',
+  missing_skills: 'No skills extracted',
+  missing_experience: 'No work experience found',
+};
+
+const isBlank = (value: string | null | undefined) =>
+  !value || !value.trim() || value === 'Not found' || value === 'Not specified';
+
+/**
+ * Fields the parser could not fill in; each one lowers confidence in the extraction
+ */
+export function getResumeImportFlags(candidate: Partial<Candidate>): ResumeImportFlag[] {
+  const flags: ResumeImportFlag[] = [];
+  const contacts = candidate.resume?.contacts;
+
+  if (isBlank(candidate.name)) flags.push('missing_name');
+  if (isBlank(candidate.jobTitle)) flags.push('missing_job_title');
+  if (isBlank(candidate.location)) flags.push('missing_location');
+  if (isBlank(contacts?.email) && isBlank(contacts?.phone)) flags.push('missing_contact');
+  if (isBlank(candidate.socialLinks?.linkedin) && isBlank(contacts?.linkedin)) flags.push('missing_linkedin');
+  if (!candidate.skills || candidate.skills.length === 0) flags.push('missing_skills');
+  if (!parseExperienceYears(candidate.experience)) flags.push('missing_experience');
+
+  return flags;
+}
+
+/**
+ * A likely duplicate of an imported resume: an existing candidate or another file in the same batch
+ */
+export interface ResumeImportDuplicate {
+  existingCandidateId: string | null;
+  batchIndex: number | null;
+  name: string;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+const BATCH_ID_PREFIX = 'import:';
+
+const toDedupCandidate = (candidate: Partial<Candidate>, index: number): DedupCandidate => ({
+  id: `${BATCH_ID_PREFIX}${index}`,
+  name: candidate.name || '',
+  email: candidate.resume?.contacts?.email || null,
+  phone: candidate.resume?.contacts?.phone || null,
+  linkedin: candidate.socialLinks?.linkedin || candidate.resume?.contacts?.linkedin || null,
+  companyNames: candidate.companyNames || [],
+});
+
+/**
+ * Check parsed resumes against the catalogue and against each other before anything is inserted
+ * @returns Duplicates per input index (empty for null entries, i.e. files that failed to parse)
+ */
+export async function findResumeImportDuplicates(
+  candidates: (Partial<Candidate> | null)[]
+): Promise<ResumeImportDuplicate[][]> {
+  const existing = await loadDedupCandidates();
+  const batch = candidates.flatMap((candidate, index) => (candidate ? [toDedupCandidate(candidate, index)] : []));
+  const byId = new Map([...existing, ...batch].map(candidate => [candidate.id, candidate]));
+
+  const batchIndex = (id: string) => (id.startsWith(BATCH_ID_PREFIX) ? Number(id.slice(BATCH_ID_PREFIX.length)) : null);
+  const duplicates: ResumeImportDuplicate[][] = candidates.map(() => []);
+
+  for (const pair of findDuplicatePairs([...existing, ...batch])) {
+    const sides = [pair.candidateAId, pair.candidateBId];
+    sides.forEach((id, side) => {
+      const index = batchIndex(id);
+      if (index === null) return;
+      const otherId = sides[1 - side];
+      const otherIndex = batchIndex(otherId);
+      duplicates[index].push({
+        existingCandidateId: otherIndex === null ? otherId : null,
+        batchIndex: otherIndex,
+        name: byId.get(otherId)?.name || 'Unknown',
+        score: pair.score,
+        reasons: pair.reasons,
+      });
+    });
+  }
+
+  return duplicates;
+}
+
+/**
+ * Work queued for every imported candidate once the rows exist
+ */
+const IMPORT_FOLLOW_UP_JOBS: BackgroundJobType[] = [
+  'normalize_candidate_job_titles',
+  'normalize_candidate_locations',
+  'generate_candidate_embeddings',
+];
+
+export interface ResumeImportResult {
+  insertedIds: string[];
+  failures: { name: string; error: string }[];
+  jobs: BackgroundJob[];
+}
+
+const resumeTextFromHtml = (html: string | undefined) =>
+  html ? html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() : null;
+
+/**
+ * Insert reviewed candidates, store their unified titles and queue normalization and embeddings for the batch
+ * Also used by the spreadsheet import, so every field is optional apart from the name.
+ * @param dataSource - Recorded on every candidate for data protection
+ */
+export async function importParsedCandidates(
+  candidates: Partial<Candidate>[],
+  dataSource: CandidateDataSource = 'bulk_import'
+): Promise<ResumeImportResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const insertedIds: string[] = [];
+  const failures: ResumeImportResult['failures'] = [];
+  const unifiedTitleRows: { candidate_id: string; unified_title: string }[] = [];
+
+  for (const candidate of candidates) {
+    const experienceYears = parseExperienceYears(candidate.experience);
+    const { data, error } = await supabase
+      .from('candidates')
+      .insert({
+        name: candidate.name,
+        job_title: candidate.jobTitle,
+        location: candidate.location,
+        experience: candidate.experience || null,
+        experience_years: experienceYears,
+        seniority_level: resolveCandidateSeniority(candidate.jobTitle, experienceYears),
+        availability: candidate.availability || null,
+        ready_to_relocate_to: candidate.readyToRelocateTo || [],
+        last_updated: candidate.lastUpdated || new Date().toISOString().split('T')[0],
+        match_score: 0,
+        status: candidate.status || 'actively_looking',
+        industries: candidate.industries || [],
+        related_industries: candidate.relatedIndustries || [],
+        company_names: candidate.companyNames || [],
+        skills: candidate.skills || [],
+        summary: candidate.summary || null,
+        social_links: (candidate.socialLinks || {}) as Json,
+        calendly: candidate.calendly || null,
+        salary_min: candidate.salaryMin || null,
+        salary_max: candidate.salaryMax || null,
+        salary_unit: candidate.salaryUnit || 'year',
+        unified_titles: candidate.unifiedTitles || [],
+        resume_text: resumeTextFromHtml(candidate.resume?.htmlContent),
+        resume_data: candidate.resume ? {
+          html_content: candidate.resume.htmlContent || '',
+          contacts: candidate.resume.contacts || {},
+        } : null,
+        data_source: dataSource,
+        created_by_user_id: user?.id || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error importing candidate:', error);
+      failures.push({ name: candidate.name || 'Unknown', error: error.message });
+      continue;
+    }
+
+    insertedIds.push(data.id);
+    (candidate.unifiedTitles || []).forEach(title => unifiedTitleRows.push({ candidate_id: data.id, unified_title: title }));
+
+    if (candidate.workHistory?.length || candidate.education?.length) {
+      try {
+        await saveCandidateWorkHistory(data.id, candidate.workHistory || [], candidate.education || []);
+      } catch (historyError) {
+        // The candidate is saved; only the timeline and the recency check miss out
+        console.error('Error saving work history for imported candidate:', historyError);
+      }
+    }
+
+    if (candidate.resume?.file) {
+      try {
+        await storeResumeVersion(data.id, candidate.resume.file, candidate);
+      } catch (storageError) {
+        // The parsed resume is on the row; only the original file is missing
+        console.error('Error storing resume file for imported candidate:', storageError);
+      }
+    }
+  }
+
+  if (unifiedTitleRows.length > 0) {
+    const { error } = await supabase.from('candidate_unified_titles').insert(unifiedTitleRows);
+    if (error) {
+      // unified_titles on the row is already set; the relationship table can be rebuilt in bulk later
+      console.error('Error saving unified titles for imported candidates:', error);
+    }
+  }
+
+  const jobs: BackgroundJob[] = [];
+  if (insertedIds.length > 0) {
+    for (const type of IMPORT_FOLLOW_UP_JOBS) {
+      try {
+        jobs.push(await enqueueBackgroundJob(type, { item_ids: insertedIds }));
+      } catch (error) {
+        // The bulk actions on the search page pick up rows that are still missing this work
+        console.error(`Error queueing ${type} for imported candidates:`, error);
+      }
+    }
+  }
+
+  return { insertedIds, failures, jobs };
+}
+
+/**
+ * Work queued when a candidate's resume is replaced; these re-derive their columns from resume_data
+ */
+const RESUME_UPDATE_JOBS: BackgroundJobType[] = [
+  'update_candidate_skills',
+  'update_candidate_unified_titles',
+  'generate_candidate_embeddings',
+];
+
+/**
+ * Store a new resume version for an existing candidate and make it current
+ * The file is parsed like an import; the resume, contacts and work history are replaced right away,
+ * skills, unified titles and embeddings are re-derived by background jobs.
+ */
+export async function uploadResumeVersion(
+  candidateId: string | number,
+  file: File
+): Promise<{ version: ResumeVersion; parsed: Partial<Candidate> }> {
+  const parsed = await parseResumeFile(file);
+  const version = await storeResumeVersion(candidateId, file, parsed);
+
+  const { error } = await supabase
+    .from('candidates')
+    .update({
+      resume_text: resumeTextFromHtml(parsed.resume?.htmlContent),
+      resume_data: {
+        html_content: parsed.resume?.htmlContent || '',
+        contacts: parsed.resume?.contacts || {},
+      },
+    })
+    .eq('id', String(candidateId));
+  if (error) {
+    throw new Error(`Failed to update candidate resume: ${error.message}`);
+  }
+
+  try {
+    await saveCandidateWorkHistory(candidateId, parsed.workHistory || [], parsed.education || []);
+  } catch (historyError) {
+    console.error('Error saving work history for new resume version:', historyError);
+  }
+
+  for (const type of RESUME_UPDATE_JOBS) {
+    try {
+      await enqueueBackgroundJob(type, { item_ids: [String(candidateId)] });
+    } catch (jobError) {
+      console.error(`Error queueing ${type} for new resume version:`, jobError);
+    }
+  }
+
+  return { version, parsed };
+}
@@ -0,0 +1,124 @@
+import { supabase } from '../lib/supabaseClient';
+import { Candidate, ResumeVersion } from '../types';
+import type { Json, Tables } from '../types/database';
+
+// Private bucket created in migrations/023_create_resume_versions.sql
+const RESUME_BUCKET = 'resumes';
+
+/**
+ * Map a candidate_resume_versions row to ResumeVersion
+ */
+function mapResumeVersion(row: Tables<'candidate_resume_versions'>): ResumeVersion {
+  const contacts = row.contacts as Partial<ResumeVersion['contacts']> | null;
+  return {
+    id: row.id,
+    candidateId: row.candidate_id,
+    version: row.version,
+    storagePath: row.storage_path,
+    fileName: row.file_name,
+    mimeType: row.mime_type,
+    fileSize: row.file_size,
+    htmlContent: row.html_content || '',
+    contacts: {
+      email: contacts?.email ?? null,
+      phone: contacts?.phone ?? null,
+      linkedin: contacts?.linkedin ?? null,
+    },
+    parsedData: row.parsed_data as Partial<Candidate> | null,
+    uploadedByUserId: row.uploaded_by_user_id,
+    uploadedAt: row.uploaded_at || '',
+  };
+}
+
+/**
+ * Fetch a candidate's resume versions, newest first
+ */
+export async function fetchResumeVersions(candidateId: string | number): Promise<ResumeVersion[]> {
+  const { data, error } = await supabase
+    .from('candidate_resume_versions')
+    .select('*')
+    .eq('candidate_id', String(candidateId))
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching resume versions:', error);
+    throw new Error(`Failed to fetch resume versions: ${error.message}`);
+  }
+
+  return (data || []).map(mapResumeVersion);
+}
+
+/**
+ * Upload an original resume file as the candidate's next version
+ * Only stores the file and its parsed output; the caller updates the candidate row.
+ */
+export async function storeResumeVersion(
+  candidateId: string | number,
+  file: File,
+  parsed: Partial<Candidate>
+): Promise<ResumeVersion> {
+  const id = String(candidateId);
+
+  const { data: latest, error: latestError } = await supabase
+    .from('candidate_resume_versions')
+    .select('version')
+    .eq('candidate_id', id)
+    .order('version', { ascending: false })
+    .limit(1);
+  if (latestError) {
+    throw new Error(`Failed to store resume: ${latestError.message}`);
+  }
+  const version = (latest?.[0]?.version || 0) + 1;
+
+  const storagePath = `${id}/${version}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+  const { error: uploadError } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .upload(storagePath, file, { contentType: file.type || undefined });
+  if (uploadError) {
+    throw new Error(`Failed to upload resume: ${uploadError.message}`);
+  }
+
+  // The File and its HTML are stored in their own columns
+  const { resume, ...parsedData } = parsed;
+  const { data, error } = await supabase
+    .from('candidate_resume_versions')
+    .insert({
+      candidate_id: id,
+      version,
+      storage_path: storagePath,
+      file_name: file.name,
+      mime_type: file.type || null,
+      file_size: file.size,
+      html_content: resume?.htmlContent || '',
+      contacts: resume?.contacts || {},
+      parsed_data: parsedData as Json,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    await supabase.storage.from(RESUME_BUCKET).remove([storagePath]);
+    throw new Error(`Failed to store resume: ${error.message}`);
+  }
+
+  return mapResumeVersion(data);
+}
+
+/**
+ * Download the original file of a resume version
+ */
+export async function downloadResumeVersion(version: ResumeVersion): Promise<void> {
+  const { data, error } = await supabase.storage.from(RESUME_BUCKET).download(version.storagePath);
+  if (error || !data) {
+    throw new Error(`Failed to download resume: ${error?.message || 'file not found'}`);
+  }
+
+  const url = URL.createObjectURL(data);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = version.fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
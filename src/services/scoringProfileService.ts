@@ -0,0 +1,118 @@
+import { supabase } from '../lib/supabaseClient';
+import {
+  DEFAULT_SCORING_PROFILE,
+  SCORING_PROFILE_COLUMNS,
+  mapScoringProfileRow,
+  type ScoringProfile,
+} from '../../supabase/functions/_shared/matching/index.ts';
+
+export type { ScoringProfile, SoftPenalties, FusionScores } from '../../supabase/functions/_shared/matching/index.ts';
+export { DEFAULT_SCORING_PROFILE, computeFusionScore } from '../../supabase/functions/_shared/matching/index.ts';
+
+/**
+ * Fetch all scoring profiles, default first
+ */
+export async function fetchScoringProfiles(): Promise<ScoringProfile[]> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select(SCORING_PROFILE_COLUMNS)
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching scoring profiles:', error);
+    throw new Error(`Failed to fetch scoring profiles: ${error.message}`);
+  }
+
+  return (data || []).map(mapScoringProfileRow);
+}
+
+/**
+ * Fetch a scoring profile by id
+ */
+export async function getScoringProfileById(profileId: string): Promise<ScoringProfile | null> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select(SCORING_PROFILE_COLUMNS)
+    .eq('id', profileId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch scoring profile: ${error.message}`);
+  }
+
+  return data ? mapScoringProfileRow(data) : null;
+}
+
+/**
+ * Fetch a scoring profile by its version identifier (e.g., 'v1')
+ */
+export async function getScoringProfileByVersion(version: string): Promise<ScoringProfile | null> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select(SCORING_PROFILE_COLUMNS)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch scoring profile: ${error.message}`);
+  }
+
+  return data ? mapScoringProfileRow(data) : null;
+}
+
+/**
+ * Get the default scoring profile, falling back to the built-in one
+ */
+export async function getDefaultScoringProfile(): Promise<ScoringProfile> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select(SCORING_PROFILE_COLUMNS)
+    .eq('is_default', true)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) {
+      console.warn('Failed to load default scoring profile, using built-in profile:', error.message);
+    }
+    return DEFAULT_SCORING_PROFILE;
+  }
+
+  return mapScoringProfileRow(data);
+}
+
+/**
+ * Resolve the scoring profile for a vacancy
+ *
+ * Uses vacancies.scoring_profile_id when set, otherwise the default profile.
+ */
+export async function getScoringProfileForVacancy(vacancyId: string): Promise<ScoringProfile> {
+  const { data: vacancy, error } = await supabase
+    .from('vacancies')
+    .select('scoring_profile_id')
+    .eq('id', vacancyId)
+    .maybeSingle();
+
+  if (!error && vacancy?.scoring_profile_id) {
+    const profile = await getScoringProfileById(vacancy.scoring_profile_id);
+    if (profile) {
+      return profile;
+    }
+  }
+
+  return getDefaultScoringProfile();
+}
+
+/**
+ * Select a scoring profile for a vacancy (null resets it to the default profile)
+ */
+export async function setVacancyScoringProfile(vacancyId: string, profileId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('vacancies')
+    .update({ scoring_profile_id: profileId })
+    .eq('id', vacancyId);
+
+  if (error) {
+    throw new Error(`Failed to update vacancy scoring profile: ${error.message}`);
+  }
+}
@@ -0,0 +1,380 @@
+import { supabase } from '../lib/supabaseClient';
+import { Candidate, JobFormData, SeniorityLevel } from '../types';
+import { enqueueBackgroundJob, type BackgroundJob } from './backgroundJobService';
+import { importParsedCandidates, type ResumeImportResult } from './resumeImportService';
+import type { CandidateMatchResult } from './matchingApi';
+import { SENIORITY_BANDS } from '../utils/seniority';
+import type { SpreadsheetCell } from '../utils/spreadsheet';
+
+export type SpreadsheetImportTarget = 'candidates' | 'jobs';
+
+export type SpreadsheetFieldType = 'text' | 'number' | 'list' | 'boolean' | 'enum';
+
+export interface SpreadsheetField {
+  key: string;
+  label: string;
+  type: SpreadsheetFieldType;
+  required?: boolean;
+  aliases?: string[]; // Other header names that map to this field
+  options?: string[]; // Allowed values of an enum field
+  commaInItems?: boolean; // List items may contain commas ("Berlin, Germany"), so only ; | and line breaks split
+}
+
+export type SpreadsheetValue = string | number | boolean | string[];
+
+export interface SpreadsheetRowResult {
+  rowNumber: number; // 1-based row in the sheet, header included
+  values: Record<string, SpreadsheetValue>;
+  errors: string[];
+}
+
+/**
+ * Candidate fields a column can be mapped to; the export uses the same labels so files round-trip
+ */
+export const CANDIDATE_SPREADSHEET_FIELDS: SpreadsheetField[] = [
+  { key: 'name', label: 'Name', type: 'text', required: true, aliases: ['full name', 'candidate', 'candidate name'] },
+  { key: 'jobTitle', label: 'Job Title', type: 'text', aliases: ['title', 'position', 'role', 'current title'] },
+  { key: 'location', label: 'Location', type: 'text', aliases: ['city', 'based in'] },
+  { key: 'experience', label: 'Experience', type: 'text', aliases: ['years of experience', 'total experience', 'experience years'] },
+  { key: 'availability', label: 'Availability', type: 'text' },
+  { key: 'status', label: 'Status', type: 'enum', options: ['actively_looking', 'open_to_offers'] },
+  { key: 'email', label: 'Email', type: 'text', aliases: ['e-mail', 'email address'] },
+  { key: 'phone', label: 'Phone', type: 'text', aliases: ['phone number', 'mobile'] },
+  { key: 'linkedin', label: 'LinkedIn', type: 'text', aliases: ['linkedin url', 'linkedin profile'] },
+  { key: 'github', label: 'GitHub', type: 'text' },
+  { key: 'portfolio', label: 'Portfolio', type: 'text', aliases: ['website'] },
+  { key: 'calendly', label: 'Calendly', type: 'text' },
+  { key: 'skills', label: 'Skills', type: 'list' },
+  { key: 'industries', label: 'Industries', type: 'list', aliases: ['industry'] },
+  { key: 'relatedIndustries', label: 'Related Industries', type: 'list' },
+  { key: 'companyNames', label: 'Companies', type: 'list', aliases: ['company names', 'employers', 'company'] },
+  { key: 'readyToRelocateTo', label: 'Ready to Relocate To', type: 'list', commaInItems: true, aliases: ['relocation'] },
+  { key: 'unifiedTitles', label: 'Unified Titles', type: 'list' },
+  { key: 'salaryMin', label: 'Salary Min', type: 'number', aliases: ['min salary', 'minimum salary'] },
+  { key: 'salaryMax', label: 'Salary Max', type: 'number', aliases: ['max salary', 'maximum salary', 'salary'] },
+  { key: 'salaryUnit', label: 'Salary Unit', type: 'enum', options: ['year', 'month', 'hour'] },
+  { key: 'summary', label: 'Summary', type: 'text', aliases: ['bio', 'profile'] },
+];
+
+/**
+ * JobFormData fields a column can be mapped to
+ */
+export const JOB_SPREADSHEET_FIELDS: SpreadsheetField[] = [
+  { key: 'title', label: 'Title', type: 'text', required: true, aliases: ['job title', 'position', 'role'] },
+  { key: 'companyName', label: 'Company', type: 'text', aliases: ['company name', 'employer', 'client'] },
+  { key: 'location', label: 'Location', type: 'text', aliases: ['city'] },
+  { key: 'locations', label: 'Locations', type: 'list', commaInItems: true },
+  { key: 'description', label: 'Description', type: 'text', aliases: ['job description'] },
+  { key: 'skills', label: 'Skills', type: 'list', aliases: ['required skills', 'hard skills'] },
+  { key: 'industry', label: 'Industry', type: 'list', aliases: ['industries'] },
+  { key: 'workplaceType', label: 'Workplace Type', type: 'enum', options: ['Remote', 'On-site', 'Hybrid'], aliases: ['workplace'] },
+  {
+    key: 'employmentType',
+    label: 'Employment Type',
+    type: 'enum',
+    options: ['Full-time', 'Part-time', 'Contract', 'Temporary', 'Internship'],
+    aliases: ['employment', 'contract type'],
+  },
+  { key: 'seniorityLevel', label: 'Seniority Level', type: 'enum', options: [...SENIORITY_BANDS, 'Not Applicable'], aliases: ['seniority', 'level'] },
+  { key: 'consideringRelocation', label: 'Considering Relocation', type: 'boolean', aliases: ['relocation'] },
+  { key: 'acceptsRemoteCandidates', label: 'Accepts Remote Candidates', type: 'boolean', aliases: ['remote'] },
+  { key: 'salaryMin', label: 'Salary Min', type: 'number', aliases: ['min salary', 'budget min'] },
+  { key: 'salaryMax', label: 'Salary Max', type: 'number', aliases: ['max salary', 'budget max', 'budget'] },
+  { key: 'salaryCurrency', label: 'Salary Currency', type: 'text', aliases: ['currency'] },
+  { key: 'salaryUnit', label: 'Salary Unit', type: 'enum', options: ['year', 'month', 'hour'] },
+];
+
+export const SPREADSHEET_FIELDS: Record<SpreadsheetImportTarget, SpreadsheetField[]> = {
+  candidates: CANDIDATE_SPREADSHEET_FIELDS,
+  jobs: JOB_SPREADSHEET_FIELDS,
+};
+
+// "Job Title", "job_title" and "JobTitle" all compare equal
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Best guess of the field for each column, by label, key or alias; each field is used at most once
+ */
+export function guessColumnMapping(headers: string[], fields: SpreadsheetField[]): (string | null)[] {
+  const used = new Set<string>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const field = fields.find(f =>
+      !used.has(f.key) &&
+      [f.label, f.key, ...(f.aliases || [])].some(name => normalizeHeader(name) === normalized)
+    );
+    if (!field) return null;
+    used.add(field.key);
+    return field.key;
+  });
+}
+
+const splitList = (value: string, commaInItems?: boolean): string[] =>
+  value
+    .split(commaInItems || /[;|\n]/.test(value) ? /[;|\n]/ : /[;|\n,]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+/**
+ * "$120,000", "120 000" and "120k" all read as 120000
+ */
+const parseNumber = (value: string): number | null => {
+  const match = value.replace(/[\s,]/g, '').match(/-?\d+(\.\d+)?(k)?/i);
+  if (!match) return null;
+  return Number(match[0].replace(/k$/i, '')) * (match[2] ? 1000 : 1);
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'x'].includes(normalized)) return true;
+  if (['no', 'n', 'false', '0'].includes(normalized)) return false;
+  return null;
+};
+
+/**
+ * Convert and validate sheet rows (without the header) using the column mapping
+ */
+export function mapSpreadsheetRows(
+  rows: string[][],
+  mapping: (string | null)[],
+  fields: SpreadsheetField[]
+): SpreadsheetRowResult[] {
+  const fieldsByKey = new Map(fields.map(field => [field.key, field]));
+
+  return rows.map((row, index) => {
+    const values: Record<string, SpreadsheetValue> = {};
+    const errors: string[] = [];
+
+    mapping.forEach((key, column) => {
+      const field = key ? fieldsByKey.get(key) : undefined;
+      // Undo the ' our CSV export puts before values like "+1 555..." to keep them from being read as formulas
+      const raw = (row[column] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+      if (!field || !raw) return;
+
+      switch (field.type) {
+        case 'number': {
+          const number = parseNumber(raw);
+          if (number === null) errors.push(`${field.label}: "${raw}" is not a number`);
+          else values[field.key] = number;
+          break;
+        }
+        case 'boolean': {
+          const bool = parseBoolean(raw);
+          if (bool === null) errors.push(`${field.label}: "${raw}" is not yes/no`);
+          else values[field.key] = bool;
+          break;
+        }
+        case 'enum': {
+          const option = field.options?.find(o => normalizeHeader(o) === normalizeHeader(raw));
+          if (!option) errors.push(`${field.label}: "${raw}" is not one of ${field.options?.join(', ')}`);
+          else values[field.key] = option;
+          break;
+        }
+        case 'list':
+          values[field.key] = splitList(raw, field.commaInItems);
+          break;
+        default:
+          values[field.key] = raw;
+      }
+    });
+
+    fields
+      .filter(field => field.required && values[field.key] === undefined)
+      .forEach(field => errors.push(`${field.label} is required`));
+
+    return { rowNumber: index + 2, values, errors };
+  });
+}
+
+const asText = (value: SpreadsheetValue | undefined) => (typeof value === 'string' ? value : undefined);
+const asList = (value: SpreadsheetValue | undefined) => (Array.isArray(value) ? value : []);
+const asNumber = (value: SpreadsheetValue | undefined) => (typeof value === 'number' ? value : undefined);
+
+/**
+ * Candidate from a mapped row; contacts go where resume parsing puts them so duplicate checks see them
+ */
+export function spreadsheetRowToCandidate(values: Record<string, SpreadsheetValue>): Partial<Candidate> {
+  const email = asText(values.email) || null;
+  const phone = asText(values.phone) || null;
+  const linkedin = asText(values.linkedin) || null;
+
+  return {
+    name: asText(values.name) || '',
+    jobTitle: asText(values.jobTitle) || '',
+    location: asText(values.location) || 'Not specified',
+    experience: asText(values.experience) || '',
+    availability: asText(values.availability) || 'Available',
+    status: (asText(values.status) as Candidate['status']) || 'actively_looking',
+    skills: asList(values.skills).map(skill => skill.toLowerCase()),
+    industries: asList(values.industries),
+    relatedIndustries: asList(values.relatedIndustries),
+    companyNames: asList(values.companyNames),
+    readyToRelocateTo: asList(values.readyToRelocateTo),
+    unifiedTitles: asList(values.unifiedTitles),
+    summary: asText(values.summary) || '',
+    calendly: asText(values.calendly),
+    salaryMin: asNumber(values.salaryMin)?.toString(),
+    salaryMax: asNumber(values.salaryMax)?.toString(),
+    salaryUnit: asText(values.salaryUnit) as Candidate['salaryUnit'],
+    socialLinks: {
+      linkedin: linkedin || undefined,
+      github: asText(values.github),
+      portfolio: asText(values.portfolio),
+      calendly: asText(values.calendly),
+    },
+    resume: email || phone || linkedin
+      ? { file: null, htmlContent: '', contacts: { email, phone, linkedin } }
+      : undefined,
+  };
+}
+
+export function spreadsheetRowToJob(values: Record<string, SpreadsheetValue>): JobFormData {
+  const locations = asList(values.locations);
+  return {
+    title: asText(values.title) || '',
+    location: asText(values.location) || locations[0] || '',
+    locations: locations.length > 0 ? locations : (asText(values.location) ? [asText(values.location)!] : []),
+    companyName: asText(values.companyName),
+    description: asText(values.description),
+    skills: asList(values.skills),
+    industry: asList(values.industry),
+    workplaceType: asText(values.workplaceType) as JobFormData['workplaceType'],
+    employmentType: asText(values.employmentType) as JobFormData['employmentType'],
+    seniorityLevel: asText(values.seniorityLevel) as SeniorityLevel | undefined,
+    consideringRelocation: values.consideringRelocation === true,
+    acceptsRemoteCandidates: typeof values.acceptsRemoteCandidates === 'boolean' ? values.acceptsRemoteCandidates : undefined,
+    salaryMin: asNumber(values.salaryMin),
+    salaryMax: asNumber(values.salaryMax),
+    salaryCurrency: asText(values.salaryCurrency)?.toUpperCase(),
+    salaryUnit: asText(values.salaryUnit) as JobFormData['salaryUnit'],
+  };
+}
+
+/**
+ * Insert candidates from a spreadsheet; normalization and embeddings are queued like a resume import
+ */
+export async function importSpreadsheetCandidates(rows: SpreadsheetRowResult[]): Promise<ResumeImportResult> {
+  return importParsedCandidates(rows.map(row => spreadsheetRowToCandidate(row.values)), 'spreadsheet_import');
+}
+
+/**
+ * Insert jobs for the current user and queue title and location normalization for them
+ */
+export async function importSpreadsheetJobs(
+  rows: SpreadsheetRowResult[]
+): Promise<{ insertedIds: number[]; failures: { name: string; error: string }[]; jobs: BackgroundJob[] }> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to import jobs');
+  }
+
+  const jobs = rows.map(row => spreadsheetRowToJob(row.values));
+  const { data, error } = await supabase
+    .from('jobs')
+    .insert(jobs.map(job => ({
+      title: job.title,
+      location: job.location,
+      locations: job.locations || [],
+      posted_date: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+      match_count: 0,
+      skills: job.skills,
+      status: 'active',
+      company_name: job.companyName || null,
+      industry: Array.isArray(job.industry) ? job.industry : (job.industry ? [job.industry] : []),
+      description: job.description || null,
+      workplace_type: job.workplaceType || 'Remote',
+      employment_type: job.employmentType || 'Full-time',
+      seniority_level: job.seniorityLevel || 'Not Applicable',
+      considering_relocation: job.consideringRelocation || false,
+      ...(job.acceptsRemoteCandidates !== undefined && { accepts_remote_candidates: job.acceptsRemoteCandidates }),
+      salary_min: job.salaryMin ?? null,
+      salary_max: job.salaryMax ?? null,
+      salary_currency: job.salaryCurrency || null,
+      salary_unit: job.salaryUnit || null,
+      user_id: user.id,
+    })))
+    .select('id');
+
+  // One insert for the whole sheet: a constraint error rejects every row, so report it against all of them
+  if (error) {
+    console.error('Error importing jobs:', error);
+    return { insertedIds: [], failures: jobs.map(job => ({ name: job.title, error: error.message })), jobs: [] };
+  }
+
+  const insertedIds = (data || []).map((row: { id: number }) => row.id);
+  const queued: BackgroundJob[] = [];
+  for (const type of ['normalize_job_titles', 'normalize_job_locations', 'generate_job_embeddings'] as const) {
+    try {
+      queued.push(await enqueueBackgroundJob(type, { item_ids: insertedIds.map(String) }));
+    } catch (queueError) {
+      console.error(`Error queueing ${type} for imported jobs:`, queueError);
+    }
+  }
+
+  return { insertedIds, failures: [], jobs: queued };
+}
+
+export interface SpreadsheetColumn<T> {
+  label: string;
+  value: (item: T) => SpreadsheetCell;
+}
+
+/**
+ * Candidate export rows: header plus one row per candidate, with the import labels as headers
+ * @param leadingColumns - Extra columns before the candidate fields, e.g. match scores
+ */
+export function candidatesToSpreadsheetRows<T extends Candidate>(
+  candidates: T[],
+  leadingColumns: SpreadsheetColumn<T>[] = []
+): SpreadsheetCell[][] {
+  const valueOf = (candidate: Candidate, key: string): SpreadsheetCell => {
+    switch (key) {
+      case 'email':
+      case 'phone':
+        return candidate.resume?.contacts?.[key] || '';
+      case 'linkedin':
+        return candidate.socialLinks?.linkedin || candidate.resume?.contacts?.linkedin || '';
+      case 'github':
+      case 'portfolio':
+        return candidate.socialLinks?.[key] || '';
+      default: {
+        const value = (candidate as unknown as Record<string, unknown>)[key];
+        return Array.isArray(value) ? value.join('; ') : (value as SpreadsheetCell);
+      }
+    }
+  };
+
+  return [
+    [...leadingColumns.map(column => column.label), ...CANDIDATE_SPREADSHEET_FIELDS.map(field => field.label)],
+    ...candidates.map(candidate => [
+      ...leadingColumns.map(column => column.value(candidate)),
+      ...CANDIDATE_SPREADSHEET_FIELDS.map(field => valueOf(candidate, field.key)),
+    ]),
+  ];
+}
+
+// Scores are exported as 0-100 with one decimal
+const percent = (score: number | null | undefined) =>
+  typeof score === 'number' ? Math.round(score * 1000) / 10 : null;
+
+/**
+ * Export rows for a result set of the matching engine (MatchingDashboard)
+ */
+export function matchResultsToSpreadsheetRows(
+  matches: (CandidateMatchResult & { full_name?: string; general_title?: string; location?: string })[]
+): SpreadsheetCell[][] {
+  return [
+    ['Candidate', 'Title', 'Location', 'Final Score', 'Pre Score', 'Neural Rank Score', 'LLM Score', 'Explanation', 'Candidate ID'],
+    ...matches.map(match => [
+      match.full_name || '',
+      match.general_title || '',
+      match.location || '',
+      percent(match.final_score),
+      percent(match.pre_score),
+      percent(match.neural_rank_score),
+      percent(match.llm_score),
+      match.explanation || '',
+      match.candidate_id,
+    ]),
+  ];
+}
@@ -0,0 +1,126 @@
+import { supabase } from '../lib/supabaseClient';
+import { EducationEntry, WorkPosition } from '../types';
+
+// The tables store the first of the month: "2019-03" → "2019-03-01", "2019" → "2019-01-01"
+const toDateColumn = (date?: string): string | null => {
+  const match = (date || '').match(/^(\d{4})(?:-(\d{2}))?/);
+  return match ? `${match[1]}-${match[2] || '01'}-01` : null;
+};
+
+const fromDateColumn = (date: string | null): string | undefined => (date ? date.slice(0, 7) : undefined);
+
+/**
+ * Map a candidate_positions row to WorkPosition
+ */
+function mapPosition(row: any): WorkPosition {
+  return {
+    id: row.id,
+    title: row.title,
+    company: row.company || undefined,
+    location: row.location || undefined,
+    startDate: fromDateColumn(row.start_date),
+    endDate: fromDateColumn(row.end_date),
+    isCurrent: !!row.is_current,
+    bullets: row.bullets || [],
+  };
+}
+
+/**
+ * Map a candidate_education row to EducationEntry
+ */
+function mapEducation(row: any): EducationEntry {
+  return {
+    id: row.id,
+    institution: row.institution,
+    degree: row.degree || undefined,
+    fieldOfStudy: row.field_of_study || undefined,
+    startDate: fromDateColumn(row.start_date),
+    endDate: fromDateColumn(row.end_date),
+  };
+}
+
+/**
+ * Fetch a candidate's positions and education, most recent first
+ */
+export async function fetchCandidateWorkHistory(
+  candidateId: string | number
+): Promise<{ workHistory: WorkPosition[]; education: EducationEntry[] }> {
+  const [positions, education] = await Promise.all([
+    supabase
+      .from('candidate_positions')
+      .select('*')
+      .eq('candidate_id', String(candidateId))
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('candidate_education')
+      .select('*')
+      .eq('candidate_id', String(candidateId))
+      .order('sort_order', { ascending: true }),
+  ]);
+
+  const error = positions.error || education.error;
+  if (error) {
+    console.error('Error fetching work history:', error);
+    throw new Error(`Failed to fetch work history: ${error.message}`);
+  }
+
+  return {
+    workHistory: (positions.data || []).map(mapPosition),
+    education: (education.data || []).map(mapEducation),
+  };
+}
+
+/**
+ * Replace a candidate's positions and education
+ * Entries keep the order given (most recent first); an end date before the start date is dropped.
+ */
+export async function saveCandidateWorkHistory(
+  candidateId: string | number,
+  workHistory: WorkPosition[],
+  education: EducationEntry[]
+): Promise<void> {
+  const id = String(candidateId);
+  const consistentDates = (start: string | null, end: string | null) =>
+    start && end && end < start ? { start_date: start, end_date: null } : { start_date: start, end_date: end };
+
+  const { error: deletePositionsError } = await supabase.from('candidate_positions').delete().eq('candidate_id', id);
+  const { error: deleteEducationError } = await supabase.from('candidate_education').delete().eq('candidate_id', id);
+  const deleteError = deletePositionsError || deleteEducationError;
+  if (deleteError) {
+    throw new Error(`Failed to save work history: ${deleteError.message}`);
+  }
+
+  if (workHistory.length > 0) {
+    const { error } = await supabase.from('candidate_positions').insert(
+      workHistory.map((position, index) => ({
+        candidate_id: id,
+        sort_order: index,
+        title: position.title,
+        company: position.company || null,
+        location: position.location || null,
+        ...consistentDates(toDateColumn(position.startDate), position.isCurrent ? null : toDateColumn(position.endDate)),
+        is_current: position.isCurrent,
+        bullets: position.bullets,
+      }))
+    );
+    if (error) {
+      throw new Error(`Failed to save work history: ${error.message}`);
+    }
+  }
+
+  if (education.length > 0) {
+    const { error } = await supabase.from('candidate_education').insert(
+      education.map((entry, index) => ({
+        candidate_id: id,
+        sort_order: index,
+        institution: entry.institution,
+        degree: entry.degree || null,
+        field_of_study: entry.fieldOfStudy || null,
+        ...consistentDates(toDateColumn(entry.startDate), toDateColumn(entry.endDate)),
+      }))
+    );
+    if (error) {
+      throw new Error(`Failed to save education: ${error.message}`);
+    }
+  }
+}
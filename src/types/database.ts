@@ -0,0 +1,1436 @@
+/**
+ * Types of the tables, views and functions the app reads and writes; the Supabase client is typed with them
+ * Kept by hand in the shape of `supabase gen types typescript` output. Columns come from migrations/ and
+ * the root setup scripts (create_*_table.sql, add_*.sql); check-constrained text columns stay `string`
+ * like the generator emits them. `npm run db:types` writes the generator output for a database with every
+ * migration applied to database.generated.ts (not committed) to compare against this file.
+ * Vector columns are returned by PostgREST as strings (see parseVector in src/repositories/db.ts).
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      candidates: {
+        Row: {
+          id: string;
+          name: string | null;
+          job_title: string | null;
+          location: string | null;
+          experience: string | null;
+          experience_years: number | null;
+          seniority_level: string | null;
+          availability: string | null;
+          ready_to_relocate_to: string[] | null;
+          last_updated: string | null;
+          match_score: number | null;
+          status: string;
+          industries: string[] | null;
+          related_industries: string[] | null;
+          company_names: string[] | null;
+          skills: string[] | null;
+          summary: string | null;
+          social_links: Json | null;
+          calendly: string | null;
+          salary_min: string | null;
+          salary_max: string | null;
+          salary_unit: string | null;
+          unified_titles: string[] | null;
+          resume_data: Json | null;
+          additional_resumes: Json;
+          normalized_job_title: string | null;
+          job_title_embedding: string | null;
+          job_title_embedding_model: string | null;
+          job_title_embedding_dimensions: number | null;
+          normalized_location: string | null;
+          location_embedding: string | null;
+          location_embedding_model: string | null;
+          location_embedding_dimensions: number | null;
+          full_name: string | null;
+          general_title: string | null;
+          industry: string | null;
+          resume_text: string | null;
+          meta_embedding: string | null;
+          content_embedding: string | null;
+          embedding_model: string | null;
+          embedding_dimensions: number | null;
+          consent_status: string;
+          consent_updated_at: string | null;
+          legal_basis: string;
+          data_source: string;
+          source_details: string | null;
+          retain_until: string | null;
+          created_by_user_id: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          name?: string | null;
+          job_title?: string | null;
+          location?: string | null;
+          experience?: string | null;
+          experience_years?: number | null;
+          seniority_level?: string | null;
+          availability?: string | null;
+          ready_to_relocate_to?: string[] | null;
+          last_updated?: string | null;
+          match_score?: number | null;
+          status?: string;
+          industries?: string[] | null;
+          related_industries?: string[] | null;
+          company_names?: string[] | null;
+          skills?: string[] | null;
+          summary?: string | null;
+          social_links?: Json | null;
+          calendly?: string | null;
+          salary_min?: string | null;
+          salary_max?: string | null;
+          salary_unit?: string | null;
+          unified_titles?: string[] | null;
+          resume_data?: Json | null;
+          additional_resumes?: Json;
+          normalized_job_title?: string | null;
+          job_title_embedding?: string | null;
+          job_title_embedding_model?: string | null;
+          job_title_embedding_dimensions?: number | null;
+          normalized_location?: string | null;
+          location_embedding?: string | null;
+          location_embedding_model?: string | null;
+          location_embedding_dimensions?: number | null;
+          full_name?: string | null;
+          general_title?: string | null;
+          industry?: string | null;
+          resume_text?: string | null;
+          meta_embedding?: string | null;
+          content_embedding?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          consent_status?: string;
+          consent_updated_at?: string | null;
+          legal_basis?: string;
+          data_source?: string;
+          source_details?: string | null;
+          retain_until?: string | null;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string | null;
+          job_title?: string | null;
+          location?: string | null;
+          experience?: string | null;
+          experience_years?: number | null;
+          seniority_level?: string | null;
+          availability?: string | null;
+          ready_to_relocate_to?: string[] | null;
+          last_updated?: string | null;
+          match_score?: number | null;
+          status?: string;
+          industries?: string[] | null;
+          related_industries?: string[] | null;
+          company_names?: string[] | null;
+          skills?: string[] | null;
+          summary?: string | null;
+          social_links?: Json | null;
+          calendly?: string | null;
+          salary_min?: string | null;
+          salary_max?: string | null;
+          salary_unit?: string | null;
+          unified_titles?: string[] | null;
+          resume_data?: Json | null;
+          additional_resumes?: Json;
+          normalized_job_title?: string | null;
+          job_title_embedding?: string | null;
+          job_title_embedding_model?: string | null;
+          job_title_embedding_dimensions?: number | null;
+          normalized_location?: string | null;
+          location_embedding?: string | null;
+          location_embedding_model?: string | null;
+          location_embedding_dimensions?: number | null;
+          full_name?: string | null;
+          general_title?: string | null;
+          industry?: string | null;
+          resume_text?: string | null;
+          meta_embedding?: string | null;
+          content_embedding?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          consent_status?: string;
+          consent_updated_at?: string | null;
+          legal_basis?: string;
+          data_source?: string;
+          source_details?: string | null;
+          retain_until?: string | null;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      candidate_unified_titles: {
+        Row: {
+          id: number;
+          candidate_id: string;
+          unified_title: string;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          candidate_id: string;
+          unified_title: string;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          candidate_id?: string;
+          unified_title?: string;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'candidate_unified_titles_candidate_id_fkey';
+            columns: ['candidate_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      jobs: {
+        Row: {
+          id: number;
+          vacancy_id: string;
+          user_id: string | null;
+          title: string;
+          location: string;
+          locations: string[] | null;
+          posted_date: string | null;
+          match_count: number | null;
+          skills: string[] | null;
+          skill_requirements: Json | null;
+          status: string;
+          company_name: string | null;
+          industry: string[] | null;
+          unified_titles: string[] | null;
+          description: string | null;
+          workplace_type: string | null;
+          employment_type: string | null;
+          seniority_level: string | null;
+          considering_relocation: boolean | null;
+          accepts_remote_candidates: boolean | null;
+          salary_min: number | null;
+          salary_max: number | null;
+          salary_currency: string | null;
+          salary_unit: string | null;
+          blind_review: boolean;
+          normalized_title: string | null;
+          title_embedding: string | null;
+          title_embedding_model: string | null;
+          title_embedding_dimensions: number | null;
+          normalized_location: string | null;
+          location_embedding: string | null;
+          location_embedding_model: string | null;
+          location_embedding_dimensions: number | null;
+          meta_embedding: string | null;
+          content_embedding: string | null;
+          embedding_model: string | null;
+          embedding_dimensions: number | null;
+          scoring_profile_id: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          vacancy_id?: string;
+          user_id?: string | null;
+          title: string;
+          location: string;
+          locations?: string[] | null;
+          posted_date?: string | null;
+          match_count?: number | null;
+          skills?: string[] | null;
+          skill_requirements?: Json | null;
+          status?: string;
+          company_name?: string | null;
+          industry?: string[] | null;
+          unified_titles?: string[] | null;
+          description?: string | null;
+          workplace_type?: string | null;
+          employment_type?: string | null;
+          seniority_level?: string | null;
+          considering_relocation?: boolean | null;
+          accepts_remote_candidates?: boolean | null;
+          salary_min?: number | null;
+          salary_max?: number | null;
+          salary_currency?: string | null;
+          salary_unit?: string | null;
+          blind_review?: boolean;
+          normalized_title?: string | null;
+          title_embedding?: string | null;
+          title_embedding_model?: string | null;
+          title_embedding_dimensions?: number | null;
+          normalized_location?: string | null;
+          location_embedding?: string | null;
+          location_embedding_model?: string | null;
+          location_embedding_dimensions?: number | null;
+          meta_embedding?: string | null;
+          content_embedding?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          scoring_profile_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          vacancy_id?: string;
+          user_id?: string | null;
+          title?: string;
+          location?: string;
+          locations?: string[] | null;
+          posted_date?: string | null;
+          match_count?: number | null;
+          skills?: string[] | null;
+          skill_requirements?: Json | null;
+          status?: string;
+          company_name?: string | null;
+          industry?: string[] | null;
+          unified_titles?: string[] | null;
+          description?: string | null;
+          workplace_type?: string | null;
+          employment_type?: string | null;
+          seniority_level?: string | null;
+          considering_relocation?: boolean | null;
+          accepts_remote_candidates?: boolean | null;
+          salary_min?: number | null;
+          salary_max?: number | null;
+          salary_currency?: string | null;
+          salary_unit?: string | null;
+          blind_review?: boolean;
+          normalized_title?: string | null;
+          title_embedding?: string | null;
+          title_embedding_model?: string | null;
+          title_embedding_dimensions?: number | null;
+          normalized_location?: string | null;
+          location_embedding?: string | null;
+          location_embedding_model?: string | null;
+          location_embedding_dimensions?: number | null;
+          meta_embedding?: string | null;
+          content_embedding?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          scoring_profile_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      match_cache: {
+        Row: {
+          vacancy_id: string;
+          candidate_id: string;
+          pre_score: number | null;
+          neural_rank_score: number | null;
+          llm_score: number | null;
+          final_score: number | null;
+          explanation: string | null;
+          breakdown: Json | null;
+          scoring_profile_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          vacancy_id: string;
+          candidate_id: string;
+          pre_score?: number | null;
+          neural_rank_score?: number | null;
+          llm_score?: number | null;
+          final_score?: number | null;
+          explanation?: string | null;
+          breakdown?: Json | null;
+          scoring_profile_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          vacancy_id?: string;
+          candidate_id?: string;
+          pre_score?: number | null;
+          neural_rank_score?: number | null;
+          llm_score?: number | null;
+          final_score?: number | null;
+          explanation?: string | null;
+          breakdown?: Json | null;
+          scoring_profile_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'match_cache_vacancy_id_fkey';
+            columns: ['vacancy_id'];
+            isOneToOne: false;
+            referencedRelation: 'jobs';
+            referencedColumns: ['vacancy_id'];
+          },
+        ];
+      };
+      benchmark_jobs: {
+        Row: {
+          id: number;
+          job_id: string;
+          ground_truth_candidates: Json;
+          created_by_user_id: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          job_id: string;
+          ground_truth_candidates: Json;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          job_id?: string;
+          ground_truth_candidates?: Json;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'benchmark_jobs_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: false;
+            referencedRelation: 'jobs';
+            referencedColumns: ['vacancy_id'];
+          },
+        ];
+      };
+      matching_benchmark_results: {
+        Row: {
+          id: number;
+          job_id: string;
+          version: string;
+          precision_5: number | null;
+          precision_10: number | null;
+          recall_5: number | null;
+          recall_10: number | null;
+          ndcg_5: number | null;
+          ndcg_10: number | null;
+          mrr: number | null;
+          total_relevant_candidates: number | null;
+          total_retrieved_candidates: number | null;
+          metadata: Json | null;
+          timestamp: string | null;
+        };
+        Insert: {
+          id?: number;
+          job_id: string;
+          version: string;
+          precision_5?: number | null;
+          precision_10?: number | null;
+          recall_5?: number | null;
+          recall_10?: number | null;
+          ndcg_5?: number | null;
+          ndcg_10?: number | null;
+          mrr?: number | null;
+          total_relevant_candidates?: number | null;
+          total_retrieved_candidates?: number | null;
+          metadata?: Json | null;
+          timestamp?: string | null;
+        };
+        Update: {
+          id?: number;
+          job_id?: string;
+          version?: string;
+          precision_5?: number | null;
+          precision_10?: number | null;
+          recall_5?: number | null;
+          recall_10?: number | null;
+          ndcg_5?: number | null;
+          ndcg_10?: number | null;
+          mrr?: number | null;
+          total_relevant_candidates?: number | null;
+          total_retrieved_candidates?: number | null;
+          metadata?: Json | null;
+          timestamp?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'matching_benchmark_results_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: false;
+            referencedRelation: 'jobs';
+            referencedColumns: ['vacancy_id'];
+          },
+        ];
+      };
+      job_embeddings: {
+        Row: {
+          job_id: string;
+          title_vector: string | null;
+          description_vector: string | null;
+          combined_vector: string | null;
+          embedding_model: string | null;
+          embedding_dimensions: number | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          job_id: string;
+          title_vector?: string | null;
+          description_vector?: string | null;
+          combined_vector?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          job_id?: string;
+          title_vector?: string | null;
+          description_vector?: string | null;
+          combined_vector?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'job_embeddings_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: true;
+            referencedRelation: 'jobs';
+            referencedColumns: ['vacancy_id'];
+          },
+        ];
+      };
+      job_clusters: {
+        Row: {
+          cluster_id: number;
+          job_id: string;
+          created_at: string | null;
+        };
+        Insert: {
+          cluster_id: number;
+          job_id: string;
+          created_at?: string | null;
+        };
+        Update: {
+          cluster_id?: number;
+          job_id?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'job_clusters_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: false;
+            referencedRelation: 'jobs';
+            referencedColumns: ['vacancy_id'];
+          },
+        ];
+      };
+      cluster_properties: {
+        Row: {
+          cluster_id: number;
+          representative_titles: Json | null;
+          representative_skills: Json | null;
+          representative_industries: Json | null;
+          job_count: number | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          cluster_id: number;
+          representative_titles?: Json | null;
+          representative_skills?: Json | null;
+          representative_industries?: Json | null;
+          job_count?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          cluster_id?: number;
+          representative_titles?: Json | null;
+          representative_skills?: Json | null;
+          representative_industries?: Json | null;
+          job_count?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      scoring_profiles: {
+        Row: {
+          id: string;
+          version: string;
+          name: string;
+          description: string | null;
+          pre_score_weight: number;
+          neural_rank_weight: number;
+          llm_weight: number;
+          pre_score_limit: number;
+          neural_rank_limit: number;
+          soft_penalties: Json;
+          max_over_budget_pct: number | null;
+          is_default: boolean;
+          created_at: string | null;
+          created_by_user_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          version: string;
+          name: string;
+          description?: string | null;
+          pre_score_weight?: number;
+          neural_rank_weight?: number;
+          llm_weight?: number;
+          pre_score_limit?: number;
+          neural_rank_limit?: number;
+          soft_penalties?: Json;
+          max_over_budget_pct?: number | null;
+          is_default?: boolean;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          version?: string;
+          name?: string;
+          description?: string | null;
+          pre_score_weight?: number;
+          neural_rank_weight?: number;
+          llm_weight?: number;
+          pre_score_limit?: number;
+          neural_rank_limit?: number;
+          soft_penalties?: Json;
+          max_over_budget_pct?: number | null;
+          is_default?: boolean;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+        };
+        Relationships: [];
+      };
+      job_query_expanded: {
+        Row: {
+          job_id: string;
+          primary_title: string | null;
+          alternate_titles: string[] | null;
+          core_responsibilities: string[] | null;
+          skill_groups: string[] | null;
+          industry: string | null;
+          expanded_keywords: string[] | null;
+          job_vector_enhanced: string | null;
+          embedding_model: string | null;
+          embedding_dimensions: number | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          job_id: string;
+          primary_title?: string | null;
+          alternate_titles?: string[] | null;
+          core_responsibilities?: string[] | null;
+          skill_groups?: string[] | null;
+          industry?: string | null;
+          expanded_keywords?: string[] | null;
+          job_vector_enhanced?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          job_id?: string;
+          primary_title?: string | null;
+          alternate_titles?: string[] | null;
+          core_responsibilities?: string[] | null;
+          skill_groups?: string[] | null;
+          industry?: string | null;
+          expanded_keywords?: string[] | null;
+          job_vector_enhanced?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'job_query_expanded_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: true;
+            referencedRelation: 'jobs';
+            referencedColumns: ['vacancy_id'];
+          },
+        ];
+      };
+      background_jobs: {
+        Row: {
+          id: string;
+          type: string;
+          status: string;
+          params: Json;
+          total_items: number | null;
+          processed_items: number;
+          skipped_items: number;
+          failed_items: number;
+          cursor: string | null;
+          lease_expires_at: string | null;
+          attempts: number;
+          last_error: string | null;
+          retry_of: string | null;
+          created_by_user_id: string | null;
+          created_at: string | null;
+          started_at: string | null;
+          finished_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          type: string;
+          status?: string;
+          params?: Json;
+          total_items?: number | null;
+          processed_items?: number;
+          skipped_items?: number;
+          failed_items?: number;
+          cursor?: string | null;
+          lease_expires_at?: string | null;
+          attempts?: number;
+          last_error?: string | null;
+          retry_of?: string | null;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          started_at?: string | null;
+          finished_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          status?: string;
+          params?: Json;
+          total_items?: number | null;
+          processed_items?: number;
+          skipped_items?: number;
+          failed_items?: number;
+          cursor?: string | null;
+          lease_expires_at?: string | null;
+          attempts?: number;
+          last_error?: string | null;
+          retry_of?: string | null;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          started_at?: string | null;
+          finished_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'background_jobs_retry_of_fkey';
+            columns: ['retry_of'];
+            isOneToOne: false;
+            referencedRelation: 'background_jobs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      background_job_failures: {
+        Row: {
+          id: string;
+          job_id: string;
+          item_id: string;
+          error: string;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          job_id: string;
+          item_id: string;
+          error: string;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          job_id?: string;
+          item_id?: string;
+          error?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'background_job_failures_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: false;
+            referencedRelation: 'background_jobs';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      pipeline_stages: {
+        Row: {
+          id: string;
+          key: string;
+          label: string;
+          position: number;
+          is_closed: boolean;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          key: string;
+          label: string;
+          position: number;
+          is_closed?: boolean;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          key?: string;
+          label?: string;
+          position?: number;
+          is_closed?: boolean;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      applications: {
+        Row: {
+          id: string;
+          candidate_id: string;
+          job_id: number;
+          stage_id: string;
+          position: number;
+          source: string | null;
+          match_score: number | null;
+          created_by_user_id: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          candidate_id: string;
+          job_id: number;
+          stage_id: string;
+          position?: number;
+          source?: string | null;
+          match_score?: number | null;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          candidate_id?: string;
+          job_id?: number;
+          stage_id?: string;
+          position?: number;
+          source?: string | null;
+          match_score?: number | null;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'applications_candidate_id_fkey';
+            columns: ['candidate_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'applications_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: false;
+            referencedRelation: 'jobs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'applications_stage_id_fkey';
+            columns: ['stage_id'];
+            isOneToOne: false;
+            referencedRelation: 'pipeline_stages';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      application_stage_history: {
+        Row: {
+          id: string;
+          application_id: string;
+          from_stage_id: string | null;
+          to_stage_id: string;
+          moved_by_user_id: string | null;
+          moved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          application_id: string;
+          from_stage_id?: string | null;
+          to_stage_id: string;
+          moved_by_user_id?: string | null;
+          moved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          application_id?: string;
+          from_stage_id?: string | null;
+          to_stage_id?: string;
+          moved_by_user_id?: string | null;
+          moved_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'application_stage_history_application_id_fkey';
+            columns: ['application_id'];
+            isOneToOne: false;
+            referencedRelation: 'applications';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'application_stage_history_from_stage_id_fkey';
+            columns: ['from_stage_id'];
+            isOneToOne: false;
+            referencedRelation: 'pipeline_stages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'application_stage_history_to_stage_id_fkey';
+            columns: ['to_stage_id'];
+            isOneToOne: false;
+            referencedRelation: 'pipeline_stages';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      candidate_activities: {
+        Row: {
+          id: string;
+          candidate_id: string;
+          type: string;
+          body: string | null;
+          mentions: string[];
+          job_id: number | null;
+          vacancy_id: string | null;
+          metadata: Json;
+          created_by_user_id: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          candidate_id: string;
+          type: string;
+          body?: string | null;
+          mentions?: string[];
+          job_id?: number | null;
+          vacancy_id?: string | null;
+          metadata?: Json;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          candidate_id?: string;
+          type?: string;
+          body?: string | null;
+          mentions?: string[];
+          job_id?: number | null;
+          vacancy_id?: string | null;
+          metadata?: Json;
+          created_by_user_id?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'candidate_activities_candidate_id_fkey';
+            columns: ['candidate_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'candidate_activities_job_id_fkey';
+            columns: ['job_id'];
+            isOneToOne: false;
+            referencedRelation: 'jobs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'candidate_activities_vacancy_id_fkey';
+            columns: ['vacancy_id'];
+            isOneToOne: false;
+            referencedRelation: 'jobs';
+            referencedColumns: ['vacancy_id'];
+          },
+        ];
+      };
+      candidate_duplicate_pairs: {
+        Row: {
+          id: string;
+          candidate_a_id: string;
+          candidate_b_id: string;
+          score: number;
+          reasons: Json;
+          status: string;
+          reviewed_by_user_id: string | null;
+          reviewed_at: string | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          candidate_a_id: string;
+          candidate_b_id: string;
+          score: number;
+          reasons?: Json;
+          status?: string;
+          reviewed_by_user_id?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          candidate_a_id?: string;
+          candidate_b_id?: string;
+          score?: number;
+          reasons?: Json;
+          status?: string;
+          reviewed_by_user_id?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'candidate_duplicate_pairs_candidate_a_id_fkey';
+            columns: ['candidate_a_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'candidate_duplicate_pairs_candidate_b_id_fkey';
+            columns: ['candidate_b_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      candidate_merges: {
+        Row: {
+          id: string;
+          winner_id: string | null;
+          loser_id: string;
+          loser_snapshot: Json;
+          fields_from_loser: string[];
+          merged_by_user_id: string | null;
+          merged_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          winner_id?: string | null;
+          loser_id: string;
+          loser_snapshot: Json;
+          fields_from_loser?: string[];
+          merged_by_user_id?: string | null;
+          merged_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          winner_id?: string | null;
+          loser_id?: string;
+          loser_snapshot?: Json;
+          fields_from_loser?: string[];
+          merged_by_user_id?: string | null;
+          merged_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'candidate_merges_winner_id_fkey';
+            columns: ['winner_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      candidate_positions: {
+        Row: {
+          id: string;
+          candidate_id: string;
+          sort_order: number;
+          title: string;
+          company: string | null;
+          location: string | null;
+          start_date: string | null;
+          end_date: string | null;
+          is_current: boolean;
+          bullets: string[];
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          candidate_id: string;
+          sort_order?: number;
+          title: string;
+          company?: string | null;
+          location?: string | null;
+          start_date?: string | null;
+          end_date?: string | null;
+          is_current?: boolean;
+          bullets?: string[];
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          candidate_id?: string;
+          sort_order?: number;
+          title?: string;
+          company?: string | null;
+          location?: string | null;
+          start_date?: string | null;
+          end_date?: string | null;
+          is_current?: boolean;
+          bullets?: string[];
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'candidate_positions_candidate_id_fkey';
+            columns: ['candidate_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      candidate_education: {
+        Row: {
+          id: string;
+          candidate_id: string;
+          sort_order: number;
+          institution: string;
+          degree: string | null;
+          field_of_study: string | null;
+          start_date: string | null;
+          end_date: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          candidate_id: string;
+          sort_order?: number;
+          institution: string;
+          degree?: string | null;
+          field_of_study?: string | null;
+          start_date?: string | null;
+          end_date?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          candidate_id?: string;
+          sort_order?: number;
+          institution?: string;
+          degree?: string | null;
+          field_of_study?: string | null;
+          start_date?: string | null;
+          end_date?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'candidate_education_candidate_id_fkey';
+            columns: ['candidate_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      candidate_resume_versions: {
+        Row: {
+          id: string;
+          candidate_id: string;
+          version: number;
+          storage_path: string;
+          file_name: string;
+          mime_type: string | null;
+          file_size: number | null;
+          html_content: string;
+          contacts: Json;
+          parsed_data: Json | null;
+          uploaded_by_user_id: string | null;
+          uploaded_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          candidate_id: string;
+          version: number;
+          storage_path: string;
+          file_name: string;
+          mime_type?: string | null;
+          file_size?: number | null;
+          html_content?: string;
+          contacts?: Json;
+          parsed_data?: Json | null;
+          uploaded_by_user_id?: string | null;
+          uploaded_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          candidate_id?: string;
+          version?: number;
+          storage_path?: string;
+          file_name?: string;
+          mime_type?: string | null;
+          file_size?: number | null;
+          html_content?: string;
+          contacts?: Json;
+          parsed_data?: Json | null;
+          uploaded_by_user_id?: string | null;
+          uploaded_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'candidate_resume_versions_candidate_id_fkey';
+            columns: ['candidate_id'];
+            isOneToOne: false;
+            referencedRelation: 'candidates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_roles: {
+        Row: {
+          user_id: string;
+          role: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          role?: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          role?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      retention_policies: {
+        Row: {
+          legal_basis: string;
+          retention_days: number;
+          updated_by_user_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          legal_basis: string;
+          retention_days: number;
+          updated_by_user_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          legal_basis?: string;
+          retention_days?: number;
+          updated_by_user_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      candidate_catalogue: {
+        Row: {
+          id: string;
+          name: string | null;
+          full_name: string | null;
+          job_title: string | null;
+          general_title: string | null;
+          location: string | null;
+          experience: string | null;
+          experience_years: number | null;
+          seniority_level: string | null;
+          availability: string | null;
+          ready_to_relocate_to: string[] | null;
+          last_updated: string | null;
+          match_score: number | null;
+          status: string;
+          industries: string[] | null;
+          related_industries: string[] | null;
+          company_names: string[] | null;
+          skills: string[] | null;
+          summary: string | null;
+          social_links: Json | null;
+          calendly: string | null;
+          salary_min: string | null;
+          salary_max: string | null;
+          salary_unit: string | null;
+          resume_data: Json | null;
+          created_at: string | null;
+          unified_titles: string[];
+          display_name: string;
+          salary_expectation: number | null;
+          industry_keys: string[];
+          search_text: string;
+          title_text: string;
+          location_text: string;
+          industry_text: string;
+          company_text: string;
+          skills_text: string;
+        };
+        Relationships: [];
+      };
+      vacancies: {
+        Row: {
+          id: string;
+          job_id: number;
+          title: string;
+          location: string;
+          industry: string | null;
+          skills_required: string[] | null;
+          skill_requirements: Json | null;
+          job_text: string;
+          meta_embedding: string | null;
+          content_embedding: string | null;
+          embedding_model: string | null;
+          embedding_dimensions: number | null;
+          scoring_profile_id: string | null;
+          status: string;
+          salary_min: number | null;
+          salary_max: number | null;
+          salary_currency: string | null;
+          salary_unit: string | null;
+          seniority_level: string | null;
+          blind_review: boolean;
+          created_at: string | null;
+          general_title: string | null;
+        };
+        Insert: {
+          id?: string;
+          job_id?: number;
+          title?: string;
+          location?: string;
+          industry?: string | null;
+          skills_required?: string[] | null;
+          skill_requirements?: Json | null;
+          job_text?: string;
+          meta_embedding?: string | null;
+          content_embedding?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          scoring_profile_id?: string | null;
+          status?: string;
+          salary_min?: number | null;
+          salary_max?: number | null;
+          salary_currency?: string | null;
+          salary_unit?: string | null;
+          seniority_level?: string | null;
+          blind_review?: boolean;
+          created_at?: string | null;
+          general_title?: string | null;
+        };
+        Update: {
+          id?: string;
+          job_id?: number;
+          title?: string;
+          location?: string;
+          industry?: string | null;
+          skills_required?: string[] | null;
+          skill_requirements?: Json | null;
+          job_text?: string;
+          meta_embedding?: string | null;
+          content_embedding?: string | null;
+          embedding_model?: string | null;
+          embedding_dimensions?: number | null;
+          scoring_profile_id?: string | null;
+          status?: string;
+          salary_min?: number | null;
+          salary_max?: number | null;
+          salary_currency?: string | null;
+          salary_unit?: string | null;
+          seniority_level?: string | null;
+          blind_review?: boolean;
+          created_at?: string | null;
+          general_title?: string | null;
+        };
+        Relationships: [];
+      };
+      candidate_retention: {
+        Row: {
+          id: string | null;
+          expires_at: string | null;
+          reason: string | null;
+        };
+        Relationships: [];
+      };
+      candidates_due_for_purge: {
+        Row: {
+          id: string | null;
+          expires_at: string | null;
+          reason: string | null;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      annual_salary_amount: {
+        Args: { amount: string; unit: string };
+        Returns: number;
+      };
+      catalogue_field_values: {
+        Args: { p_field: string; p_prefix?: string; p_limit?: number };
+        Returns: { value: string; candidates: number }[];
+      };
+      list_teammates: {
+        Args: Record<PropertyKey, never>;
+        Returns: { id: string; email: string; name: string }[];
+      };
+      merge_candidates: {
+        Args: { p_winner_id: string; p_loser_id: string; p_fields_from_loser?: string[] };
+        Returns: string;
+      };
+      reveal_candidate_identity: {
+        Args: { p_candidate_id: string; p_job_id?: number; p_vacancy_id?: string; p_reason?: string };
+        Returns: undefined;
+      };
+      review_candidates: {
+        Args: { p_blind_review?: boolean };
+        Returns: Database['public']['Tables']['candidates']['Row'][];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof (PublicSchema['Tables'] & PublicSchema['Views'])> =
+  (PublicSchema['Tables'] & PublicSchema['Views'])[T]['Row'];
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
@@ -1,11 +1,29 @@
+import type {
+  SalaryFit,
+  SalaryUnit,
+  SeniorityBand,
+  SeniorityLevel,
+  SkillRequirement,
+} from '../../supabase/functions/_shared/matching/types.ts';
+
+export type {
+  SalaryUnit,
+  SeniorityBand,
+  SeniorityLevel,
+  SkillPriority,
+  SkillRequirement,
+} from '../../supabase/functions/_shared/matching/types.ts';
+
 export interface Job {
   id: number;
+  vacancyId: string; // Id of the job in the matching engine (match_cache, benchmarks, clustering)
   title: string;
   location: string; // Keep for backward compatibility, but locations is preferred
   locations?: string[]; // Array of standardized locations (e.g., "San Francisco, CA", "New York, NY")
   postedDate: string;
   matchCount: number;
   skills: string[];
+  skillRequirements?: SkillRequirement[]; // Skills with priority; skills holds the flat list of names
   status: 'active' | 'paused' | 'closed';
   companyName?: string;
   industry?: string[]; // Array of industries (as tags)
@@ -13,25 +31,14 @@ export interface Job {
   description?: string; // Job description
   workplaceType?: 'Remote' | 'On-site' | 'Hybrid'; // Workplace type
   employmentType?: 'Full-time' | 'Part-time' | 'Contract' | 'Temporary' | 'Internship'; // Employment type
-  seniorityLevel?: 'Internship' | 'Entry level' | 'Associate' | 'Mid-Senior level' | 'Director' | 'Executive' | 'Not Applicable'; // Seniority level
+  seniorityLevel?: SeniorityLevel; // Seniority level
   consideringRelocation?: boolean; // Whether the job considers candidates willing to relocate
   acceptsRemoteCandidates?: boolean; // Whether the job accepts remote candidates
-}
-
-export interface JobDescription {
-  id: number;
-  jobTitle: string;
-  location: string;
-  jobDescription: string;
-  companyName: string;
-  consideringRelocation: boolean;
-  industry: string[]; // Array of industries (as tags)
-  hardSkills: string[]; // Array of hard skills
-  createdAt: string;
-  postedDate: string; // Date when job was posted
-  status: 'active' | 'paused' | 'closed';
-  unifiedTitles?: string[]; // Array of standardized unified job titles
-  rawJson?: string; // Raw JSON from ChatGPT for debugging
+  salaryMin?: number; // Compensation range in salaryCurrency per salaryUnit
+  salaryMax?: number;
+  salaryCurrency?: string; // ISO code, e.g., "USD"
+  salaryUnit?: SalaryUnit;
+  blindReview?: boolean; // Show candidates anonymized until a reviewer reveals them
 }
 
 export interface JobFormData {
@@ -39,6 +46,7 @@ export interface JobFormData {
   location: string; // Keep for backward compatibility
   locations?: string[]; // Array of standardized locations
   skills: string[];
+  skillRequirements?: SkillRequirement[]; // Skills with priority; skills holds the flat list of names
   industry?: string | string[]; // Can be string or array of strings
   companyName?: string;
   description?: string;
@@ -47,7 +55,12 @@ export interface JobFormData {
   unifiedTitles?: string[]; // Array of standardized unified job titles
   workplaceType?: 'Remote' | 'On-site' | 'Hybrid';
   employmentType?: 'Full-time' | 'Part-time' | 'Contract' | 'Temporary' | 'Internship';
-  seniorityLevel?: 'Internship' | 'Entry level' | 'Associate' | 'Mid-Senior level' | 'Director' | 'Executive' | 'Not Applicable';
+  seniorityLevel?: SeniorityLevel;
+  salaryMin?: number;
+  salaryMax?: number;
+  salaryCurrency?: string;
+  salaryUnit?: SalaryUnit;
+  blindReview?: boolean;
 }
 
 export interface SocialLinks {
@@ -58,12 +71,37 @@ export interface SocialLinks {
   calendly?: string;
 }
 
+/**
+ * One position from the candidate's resume; dates are "YYYY-MM" or "YYYY"
+ */
+export interface WorkPosition {
+  id?: string;
+  title: string;
+  company?: string;
+  location?: string;
+  startDate?: string;
+  endDate?: string; // Empty for the current role
+  isCurrent: boolean;
+  bullets: string[];
+}
+
+export interface EducationEntry {
+  id?: string;
+  institution: string;
+  degree?: string;
+  fieldOfStudy?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 export interface Candidate {
-  id: number;
+  id: string;
   name: string;
   jobTitle: string;
   location: string;
   experience: string;
+  experienceYears?: number; // Numeric years parsed from experience
+  seniorityLevel?: SeniorityBand; // Normalized band from job title and experienceYears
   availability: string;
   readyToRelocateTo: string[];
   lastUpdated: string;
@@ -71,6 +109,7 @@ export interface Candidate {
   locationScore?: number; // Location matching score (0.0 to 1.0) - old format
   locationMatchScore?: number; // Location matching score (0.0 to 20.0) - new format
   titleScore?: number; // Title matching score (0.0 to 20.0)
+  salaryFit?: SalaryFit | null; // Salary expectation vs the job's budget (job matches only)
   status: 'actively_looking' | 'open_to_offers';
   industries: string[];
   relatedIndustries?: string[];
@@ -83,6 +122,8 @@ export interface Candidate {
   salaryMax?: string; // Maximum salary, e.g., "150000"
   salaryUnit?: 'year' | 'month' | 'hour'; // Salary unit: per year, per month, or per hour
   unifiedTitles?: string[]; // Array of standardized unified job titles
+  workHistory?: WorkPosition[]; // Most recent first; loaded on demand from candidate_positions
+  education?: EducationEntry[];
   // Summary from different GPT models
   summariesByModel?: {
     'gpt-4o'?: string;
@@ -102,3 +143,120 @@ export interface Candidate {
   };
 }
 
+/**
+ * One uploaded resume file; the original is in the 'resumes' storage bucket and the highest version is current
+ */
+export interface ResumeVersion {
+  id: string;
+  candidateId: string;
+  version: number;
+  storagePath: string;
+  fileName: string;
+  mimeType: string | null;
+  fileSize: number | null;
+  htmlContent: string;
+  contacts: {
+    email: string | null;
+    phone: string | null;
+    linkedin: string | null;
+  };
+  parsedData: Partial<Candidate> | null; // Parser output for this file
+  uploadedByUserId: string | null;
+  uploadedAt: string;
+}
+
+export type ConsentStatus = 'unknown' | 'granted' | 'withdrawn';
+
+export type LegalBasis = 'consent' | 'legitimate_interest';
+
+export type CandidateDataSource = 'manual' | 'bulk_import' | 'spreadsheet_import' | 'referral' | 'job_board' | 'sourcing' | 'other';
+
+/**
+ * Consent, provenance and retention of a candidate's data
+ */
+export interface CandidatePrivacy {
+  consentStatus: ConsentStatus;
+  consentUpdatedAt: string | null;
+  legalBasis: LegalBasis; // Picks the retention policy
+  dataSource: CandidateDataSource;
+  sourceDetails: string | null; // e.g. the referrer or the job board posting
+  retainUntil: string | null; // Manual hold; overrides the retention policy
+  expiresAt: string | null; // When the candidate is purged; null when no policy applies
+}
+
+export interface RetentionPolicy {
+  legalBasis: LegalBasis;
+  retentionDays: number; // Kept this long after the candidate's last activity
+  updatedAt: string;
+}
+
+
+export interface PipelineStage {
+  id: string;
+  key: string; // e.g., "sourced", "screened", "interview", "offer", "hired", "rejected"
+  label: string;
+  position: number; // Column order on the board
+  isClosed: boolean; // Final stages (hired, rejected)
+}
+
+export interface Application {
+  id: string;
+  candidateId: string;
+  jobId: number;
+  stageId: string;
+  position: number; // Order inside the stage column
+  source?: string; // Where the candidate was added from
+  matchScore?: number; // Score at the time the candidate was added
+  createdAt: string;
+  updatedAt: string;
+  candidate?: {
+    name: string;
+    jobTitle: string;
+    location: string;
+  };
+}
+
+export interface ApplicationStageChange {
+  id: string;
+  applicationId: string;
+  fromStageId: string | null; // null when the application was created
+  toStageId: string;
+  movedByUserId: string | null;
+  movedAt: string;
+}
+
+export type CandidateActivityType =
+  | 'note'
+  | 'resume_parsed'
+  | 'embeddings_generated'
+  | 'added_to_job'
+  | 'stage_changed'
+  | 'matched'
+  | 'merged'
+  | 'identity_revealed'
+  | 'consent_changed';
+
+export interface CandidateActivity {
+  id: string;
+  candidateId: string;
+  type: CandidateActivityType;
+  body?: string; // Note text
+  mentions: string[]; // User ids mentioned in a note
+  jobId?: number;
+  vacancyId?: string;
+  metadata: Record<string, unknown>; // Event details, e.g. { to_stage: "Interview" }
+  createdByUserId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Reviewer role; hiring managers always review candidates blind
+ */
+export type UserRole = 'recruiter' | 'hiring_manager';
+
+export interface Teammate {
+  id: string;
+  email: string;
+  name: string;
+}
@@ -0,0 +1,4 @@
+// Edge functions import supabase-js from esm.sh; the shared modules the app also compiles get the npm package's types
+declare module 'https://esm.sh/@supabase/supabase-js@2' {
+  export * from '@supabase/supabase-js';
+}
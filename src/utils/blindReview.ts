@@ -0,0 +1,171 @@
+/**
+ * Blind (anonymized) candidate review
+ * Names, photos, contacts, employer names, graduation years and locations are replaced with stable
+ * pseudonyms: the same candidate is always "Candidate K7Q2" and their employers "Company A", "Company B", …
+ * in companyNames order, so reviewers can still compare candidates and refer to them in notes.
+ * The database masks the same candidates (review_candidates, migration 024, and candidate_catalogue, 028):
+ * they arrive without name, contacts, employers and resume, and these helpers pseudonymize the rest.
+ */
+import { Candidate, EducationEntry, WorkPosition } from '../types';
+import { extractContacts, removeContactsFromHtml } from './resumeParser';
+
+export const HIDDEN_LOCATION = 'Location hidden';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// FNV-1a, so a pseudonym survives reloads without storing it
+const hashId = (id: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Stable pseudonym for a candidate, e.g. "Candidate K7Q2"
+ */
+export function candidatePseudonym(candidateId: string | number): string {
+  return `Candidate ${hashId(String(candidateId)).toString(36).toUpperCase().padStart(4, '0').slice(-4)}`;
+}
+
+/**
+ * "Company A" … "Company Z", then "Company AA", …
+ */
+export function companyPseudonym(index: number): string {
+  let label = '';
+  for (let n = index; n >= 0; n = Math.floor(n / 26) - 1) {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+  }
+  return `Company ${label}`;
+}
+
+export interface IdentitySource {
+  id: string | number;
+  name: string;
+  location: string;
+  companyNames?: string[];
+  workHistory?: WorkPosition[];
+}
+
+// Employers in a fixed order: companyNames first, then any other employer from the work history
+const employerNames = (candidate: IdentitySource): string[] => {
+  const names: string[] = [];
+  [...(candidate.companyNames || []), ...(candidate.workHistory || []).map(p => p.company || '')].forEach(name => {
+    const trimmed = name.trim();
+    if (trimmed && !names.some(n => n.toLowerCase() === trimmed.toLowerCase())) {
+      names.push(trimmed);
+    }
+  });
+  return names;
+};
+
+const companyPseudonymFor = (candidate: IdentitySource, company: string | undefined): string | undefined => {
+  if (!company) return company;
+  const index = employerNames(candidate).findIndex(name => name.toLowerCase() === company.trim().toLowerCase());
+  return companyPseudonym(index >= 0 ? index : employerNames(candidate).length);
+};
+
+const EDUCATION_LINE = /\b(university|college|school|institute|academy|bachelor|master|b\.?sc|m\.?sc|mba|ph\.?d|degree|graduat\w*|class of|diploma)\b/i;
+
+/**
+ * Replace a candidate's identifying details in plain text (summaries, explanations, resume text)
+ * Longer strings are replaced first so "Jane Doe" becomes one pseudonym rather than two.
+ */
+export function anonymizeText(text: string, candidate: IdentitySource): string {
+  if (!text) return text;
+  const pseudonym = candidatePseudonym(candidate.id);
+
+  const replacements: [string, string][] = [];
+  const name = (candidate.name || '').trim();
+  if (name) {
+    replacements.push([name, pseudonym]);
+    name.split(/\s+/).filter(part => part.length > 2).forEach(part => replacements.push([part, pseudonym]));
+  }
+  employerNames(candidate).forEach((company, index) => replacements.push([company, companyPseudonym(index)]));
+  (candidate.location || '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 2 && part !== 'Not specified')
+    .forEach(part => replacements.push([part, HIDDEN_LOCATION]));
+
+  // Contacts first, before a name inside an email address is replaced
+  let result = text
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, '[email hidden]')
+    .replace(/(?:https?:\/\/)?(?:www\.)?linkedin\.com\/[^\s<)]*/gi, '[profile hidden]')
+    // Nine or more digits, so date ranges like "2019 - 2021" are left alone
+    .replace(/\+?\d[\d\s().-]{7,}\d/g, match => (match.replace(/\D/g, '').length >= 9 ? '[phone hidden]' : match));
+
+  replacements
+    .sort((a, b) => b[0].length - a[0].length)
+    .forEach(([value, replacement]) => {
+      result = result.replace(new RegExp(`(?<![\\w])${escapeRegex(value)}(?![\\w])`, 'gi'), replacement);
+    });
+
+  // Graduation years give away the candidate's age
+  return result
+    .split('\n')
+    .map(line => (EDUCATION_LINE.test(line) ? line.replace(/\b(19|20)\d{2}\b/g, '····') : line))
+    .join('\n');
+}
+
+/**
+ * Resume HTML with images removed, contacts stripped and identifying text replaced
+ * Only text between tags is rewritten, so markup and attributes stay intact.
+ */
+export function anonymizeResumeHtml(html: string, candidate: IdentitySource): string {
+  if (!html) return html;
+  const withoutImages = html.replace(/<img\b[^>]*>/gi, '').replace(/<a\b[^>]*href=["']?(mailto:|tel:|[^"'>]*linkedin)[^>]*>/gi, '<a>');
+  const withoutContacts = removeContactsFromHtml(withoutImages, extractContacts(withoutImages));
+
+  // Each text run between tags is one resume line, so graduation years are only hidden on education lines
+  return withoutContacts
+    .split(/(<[^>]*>)/)
+    .map(segment => (segment.startsWith('<') ? segment : anonymizeText(segment, candidate)))
+    .join('');
+}
+
+/**
+ * Positions with employers and locations replaced by pseudonyms
+ */
+export function anonymizeWorkHistory(workHistory: WorkPosition[], candidate: IdentitySource): WorkPosition[] {
+  const source = { ...candidate, workHistory };
+  return workHistory.map(position => ({
+    ...position,
+    company: companyPseudonymFor(source, position.company),
+    location: position.location ? HIDDEN_LOCATION : undefined,
+    bullets: position.bullets.map(bullet => anonymizeText(bullet, source)),
+  }));
+}
+
+/**
+ * Education without dates, which give away the candidate's age
+ */
+export function anonymizeEducation(education: EducationEntry[]): EducationEntry[] {
+  return education.map(entry => ({ ...entry, startDate: undefined, endDate: undefined }));
+}
+
+/**
+ * Copy of a candidate that is safe to show in blind review
+ */
+export function anonymizeCandidate(candidate: Candidate): Candidate {
+  return {
+    ...candidate,
+    name: candidatePseudonym(candidate.id),
+    location: HIDDEN_LOCATION,
+    readyToRelocateTo: [],
+    companyNames: employerNames(candidate).map((_, index) => companyPseudonym(index)),
+    summary: anonymizeText(candidate.summary, candidate),
+    summariesByModel: undefined,
+    socialLinks: {},
+    calendly: undefined,
+    workHistory: candidate.workHistory && anonymizeWorkHistory(candidate.workHistory, candidate),
+    education: candidate.education && anonymizeEducation(candidate.education),
+    resume: candidate.resume && {
+      file: null,
+      htmlContent: anonymizeResumeHtml(candidate.resume.htmlContent, candidate),
+      contacts: { email: null, phone: null, linkedin: null },
+    },
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Duplicate candidate detection
+ * Scores candidate pairs on contact details, name similarity and shared companies. Only pairs that
+ * share a blocking key (email, phone, LinkedIn or a name token) are compared, so a scan stays far
+ * below comparing every candidate with every other one.
+ */
+
+import { calculateStringSimilarity } from './stringSimilarity';
+
+export interface DedupCandidate {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  linkedin: string | null;
+  companyNames: string[];
+}
+
+export type DuplicateSignal = 'email' | 'phone' | 'linkedin' | 'name' | 'company';
+
+export interface DuplicateReason {
+  signal: DuplicateSignal;
+  detail: string;
+  weight: number;
+}
+
+export interface DuplicatePair {
+  candidateAId: string; // Lower id of the two, so a pair has one stable key
+  candidateBId: string;
+  score: number; // 0-1
+  reasons: DuplicateReason[];
+}
+
+// Contact matches are strong on their own; name and company only add up together
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+  email: 0.6,
+  phone: 0.5,
+  linkedin: 0.6,
+  name: 0.3,
+  company: 0.2,
+};
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.5;
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export const normalizeEmail = (email: string | null | undefined): string | null =>
+  email ? email.trim().toLowerCase() || null : null;
+
+/**
+ * Last 10 digits, so "+1 (555) 123-4567" and "555.123.4567" compare equal
+ */
+export const normalizePhone = (phone: string | null | undefined): string | null => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+/**
+ * LinkedIn profile slug, e.g. "jane-doe" for https://www.linkedin.com/in/Jane-Doe/
+ */
+export const normalizeLinkedin = (url: string | null | undefined): string | null => {
+  const match = (url || '').match(/linkedin\.com\/(?:in|pub|profile)\/([\w-]+)/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+const normalizeName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s'-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ');
+
+const nameTokens = (name: string): string[] =>
+  normalizeName(name).split(' ').filter(token => token.length >= 2);
+
+const normalizeCompany = (company: string): string =>
+  company.toLowerCase().replace(/\b(inc|llc|ltd|corp|corporation|gmbh|co)\b\.?/g, '').replace(/[^a-z0-9]/g, '');
+
+/**
+ * Name similarity that ignores word order ("Doe Jane" vs "Jane Doe")
+ */
+const nameSimilarity = (a: string, b: string): number => {
+  const direct = calculateStringSimilarity(normalizeName(a), normalizeName(b));
+  const sortedA = nameTokens(a).sort().join(' ');
+  const sortedB = nameTokens(b).sort().join(' ');
+  if (!sortedA || !sortedB) return direct;
+  return Math.max(direct, calculateStringSimilarity(sortedA, sortedB));
+};
+
+/**
+ * Score how likely two candidates are the same person
+ */
+export function scoreDuplicatePair(a: DedupCandidate, b: DedupCandidate): { score: number; reasons: DuplicateReason[] } {
+  const reasons: DuplicateReason[] = [];
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    reasons.push({ signal: 'email', detail: emailA, weight: SIGNAL_WEIGHTS.email });
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    reasons.push({ signal: 'phone', detail: phoneA, weight: SIGNAL_WEIGHTS.phone });
+  }
+
+  const linkedinA = normalizeLinkedin(a.linkedin);
+  if (linkedinA && linkedinA === normalizeLinkedin(b.linkedin)) {
+    reasons.push({ signal: 'linkedin', detail: linkedinA, weight: SIGNAL_WEIGHTS.linkedin });
+  }
+
+  if (a.name && b.name) {
+    const similarity = nameSimilarity(a.name, b.name);
+    if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+      reasons.push({
+        signal: 'name',
+        detail: `${Math.round(similarity * 100)}% similar`,
+        weight: SIGNAL_WEIGHTS.name * similarity,
+      });
+    }
+  }
+
+  const companiesB = new Set(b.companyNames.map(normalizeCompany).filter(Boolean));
+  const sharedCompanies = a.companyNames.filter(company => companiesB.has(normalizeCompany(company)));
+  if (sharedCompanies.length > 0) {
+    const overlap = sharedCompanies.length / Math.min(a.companyNames.length, b.companyNames.length);
+    reasons.push({
+      signal: 'company',
+      detail: sharedCompanies.join(', '),
+      weight: SIGNAL_WEIGHTS.company * Math.min(1, overlap),
+    });
+  }
+
+  const score = Math.min(1, reasons.reduce((sum, reason) => sum + reason.weight, 0));
+  return { score: Math.round(score * 1000) / 1000, reasons };
+}
+
+/**
+ * Keys a candidate is compared under; two candidates are only scored if they share one
+ */
+const blockingKeys = (candidate: DedupCandidate): string[] => {
+  const keys: string[] = [];
+  const email = normalizeEmail(candidate.email);
+  const phone = normalizePhone(candidate.phone);
+  const linkedin = normalizeLinkedin(candidate.linkedin);
+  if (email) keys.push(`email:${email}`);
+  if (phone) keys.push(`phone:${phone}`);
+  if (linkedin) keys.push(`linkedin:${linkedin}`);
+  // First and last name tokens catch typos in the other part of the name
+  const tokens = nameTokens(candidate.name);
+  if (tokens.length > 0) {
+    keys.push(`name:${tokens[0]}`);
+    keys.push(`name:${tokens[tokens.length - 1]}`);
+  }
+  return keys;
+};
+
+// Very common first names would pull huge blocks; skip blocks larger than this
+const MAX_BLOCK_SIZE = 200;
+
+/**
+ * Find likely duplicate pairs, highest score first
+ */
+export function findDuplicatePairs(
+  candidates: DedupCandidate[],
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicatePair[] {
+  const blocks = new Map<string, DedupCandidate[]>();
+  for (const candidate of candidates) {
+    for (const key of blockingKeys(candidate)) {
+      const block = blocks.get(key) ?? [];
+      block.push(candidate);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+
+  for (const [key, block] of blocks) {
+    if (block.length < 2 || (key.startsWith('name:') && block.length > MAX_BLOCK_SIZE)) continue;
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        if (a.id === b.id) continue;
+        const pairKey = `${a.id}|${b.id}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const { score, reasons } = scoreDuplicatePair(a, b);
+        if (score >= threshold) {
+          pairs.push({ candidateAId: a.id, candidateBId: b.id, score, reasons });
+        }
+      }
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score);
+}
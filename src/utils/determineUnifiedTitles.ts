@@ -132,55 +132,39 @@ export function determineUnifiedTitlesSimple(jobTitle: string): string[] {
 }
 
 /**
- * Determines unified titles using ChatGPT API for more accurate results
+ * Determines unified titles using the configured LLM for more accurate results
  */
 export async function determineUnifiedTitlesWithAI(
   jobTitle: string,
   industries?: string[],
   companyNames?: string[]
 ): Promise<string[]> {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  if (!apiKey) {
-    console.warn('OpenAI API key not found, using simple matching');
+  const { getLLMClient, isLLMConfigured } = await import('../lib/llmClient');
+  if (!isLLMConfigured()) {
+    console.warn('LLM provider not configured, using simple matching');
     return determineUnifiedTitlesSimple(jobTitle);
   }
 
   try {
-    const openai = (await import('openai')).default;
-    const client = new openai({
-      apiKey: apiKey,
-      dangerouslyAllowBrowser: true,
-    });
-
     const context = [
       `Job Title: ${jobTitle}`,
       industries && industries.length > 0 ? `Industries: ${industries.join(', ')}` : '',
       companyNames && companyNames.length > 0 ? `Companies: ${companyNames.join(', ')}` : '',
     ].filter(Boolean).join('\n');
 
-    const response = await client.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a job title classifier. Given a job title and context, determine which standardized unified titles from this list apply:
+    const content = await getLLMClient().complete({
+      task: 'unified_titles.classify',
+      tier: 'fast',
+      system: `You are a job title classifier. Given a job title and context, determine which standardized unified titles from this list apply:
 
 CEO, COO, CTO, CPO, CMO, CFO, CHRO, Product Manager, Program Manager, Project Manager, Software Engineer, Backend Engineer, Frontend Engineer, Full-Stack Engineer, DevOps Engineer, Cloud Engineer, Cybersecurity Engineer, Data Engineer, Machine Learning Engineer, Analyst, BI Developer, Data Scientist, QA, UX/UI Designer, Product Designer, Graphic Designer, Motion Designer, Marketing Manager, Content Manager, Social Media Manager, Sales Manager, Business Development Manager, Account Manager, Customer Success Manager, Customer Support Manager, Operations Manager, Supply Chain Manager, Logistics Manager, Strategy Manager, Event Manager, Finance Manager, HR Manager, Mobile Engineer, Recruiter, Legal Counsel, SDET, Others
 
 Return ONLY a JSON array of matching unified titles. Example: ["Software Engineer", "Backend Engineer"]`,
-        },
-        {
-          role: 'user',
-          content: context,
-        },
-      ],
+      prompt: context,
       temperature: 0.3,
-      max_tokens: 200,
+      maxTokens: 200,
     });
 
-    const content = response.choices[0]?.message?.content?.trim();
-    if (!content) return determineUnifiedTitlesSimple(jobTitle);
-
     // Try to parse JSON array
     try {
       const titles = JSON.parse(content);
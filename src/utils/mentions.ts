@@ -0,0 +1,60 @@
+/**
+ * @mentions in candidate notes
+ * A teammate is mentioned as @handle, where the handle is the local part of their email.
+ */
+
+import { Teammate } from '../types';
+
+/**
+ * Handle used to mention a teammate, e.g. "anna" for anna@go-offer.us
+ */
+export const getMentionHandle = (teammate: Teammate): string =>
+  teammate.email.split('@')[0].toLowerCase();
+
+// Dots are allowed inside a handle but not at the end, so "@anna." ends a sentence
+const MENTION_PATTERN = /@([\w+-]+(?:\.[\w+-]+)*)/g;
+
+/**
+ * Ids of the teammates mentioned in a note
+ */
+export const extractMentions = (body: string, teammates: Teammate[]): string[] => {
+  const handles = new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[1].toLowerCase()));
+  return teammates
+    .filter(teammate => handles.has(getMentionHandle(teammate)))
+    .map(teammate => teammate.id);
+};
+
+/**
+ * Split a note into plain text and mention parts for rendering
+ */
+export const splitMentions = (
+  body: string,
+  teammates: Teammate[]
+): Array<{ text: string; teammate?: Teammate }> => {
+  const byHandle = new Map(teammates.map(teammate => [getMentionHandle(teammate), teammate]));
+  const parts: Array<{ text: string; teammate?: Teammate }> = [];
+  let lastIndex = 0;
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const teammate = byHandle.get(match[1].toLowerCase());
+    if (!teammate || match.index === undefined) continue;
+    if (match.index > lastIndex) {
+      parts.push({ text: body.slice(lastIndex, match.index) });
+    }
+    parts.push({ text: match[0], teammate });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < body.length) {
+    parts.push({ text: body.slice(lastIndex) });
+  }
+  return parts;
+};
+
+/**
+ * The partial @handle being typed at the cursor, or null
+ */
+export const getMentionQuery = (body: string, cursor: number): string | null => {
+  const match = body.slice(0, cursor).match(/(?:^|\s)@([\w.+-]*)$/);
+  return match ? match[1].toLowerCase() : null;
+};
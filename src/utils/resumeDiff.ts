@@ -0,0 +1,69 @@
+/**
+ * Line diff between two resume versions
+ * Both HTML renderings are reduced to text lines and compared with a longest-common-subsequence table,
+ * which is fine for resume-sized documents (a few hundred lines).
+ */
+
+export interface ResumeDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Resume HTML as trimmed, non-empty text lines (one per block element or <br>)
+ */
+export function resumeHtmlToLines(html: string): string[] {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Longest-common-subsequence diff of two line lists, in reading order of the newer version
+ */
+export function diffLines(oldLines: string[], newLines: string[]): ResumeDiffLine[] {
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: ResumeDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'same', text: newLines[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      result.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  oldLines.slice(i).forEach(text => result.push({ type: 'removed', text }));
+  newLines.slice(j).forEach(text => result.push({ type: 'added', text }));
+  return result;
+}
+
+/**
+ * Diff two resume HTML renderings line by line
+ */
+export function diffResumeHtml(oldHtml: string, newHtml: string): ResumeDiffLine[] {
+  return diffLines(resumeHtmlToLines(oldHtml), resumeHtmlToLines(newHtml));
+}
@@ -0,0 +1,465 @@
+/**
+ * JSON Resume (https://jsonresume.org/schema) and HR-Open candidate documents
+ * HR-Open documents are converted to the JSON Resume shape first, so both go through one candidate mapper.
+ * Only the parts with a home in Candidate are mapped; anything else is kept in the rendered resume HTML.
+ */
+
+import type { Candidate } from '../types';
+import { monthIndex, normalizeResumeDate } from '../../supabase/functions/_shared/matching/workHistory.ts';
+
+export type ResumeStandard = 'json-resume' | 'hr-open';
+
+export const RESUME_STANDARD_LABELS: Record<ResumeStandard, string> = {
+  'json-resume': 'JSON Resume',
+  'hr-open': 'HR-Open',
+};
+
+const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+  location?: string;
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: {
+      address?: string;
+      postalCode?: string;
+      city?: string;
+      countryCode?: string;
+      region?: string;
+    };
+    profiles?: JsonResumeProfile[];
+  };
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  skills?: { name?: string; level?: string; keywords?: string[] }[];
+  meta?: { canonical?: string; version?: string; lastModified?: string };
+}
+
+/**
+ * Subset of the HR-Open Candidate document (person, employment, education, qualifications)
+ */
+export interface HrOpenCandidate {
+  person?: {
+    name?: { formattedName?: string; given?: string; family?: string };
+    communication?: {
+      email?: { address?: string }[];
+      phone?: { formattedNumber?: string }[];
+      web?: { url?: string; name?: string }[];
+      address?: { formattedAddress?: string; city?: string; countrySubDivisions?: { value?: string }[]; countryCode?: string }[];
+    };
+  };
+  profiles?: {
+    profileName?: string;
+    executiveSummary?: string;
+    employment?: {
+      organization?: { name?: string };
+      positionTitles?: string[];
+      start?: string;
+      end?: string;
+      current?: boolean;
+      description?: string;
+    }[];
+    education?: {
+      institution?: { name?: string };
+      educationDegrees?: { name?: string }[];
+      start?: string;
+      end?: string;
+    }[];
+    qualifications?: { competencyName?: string }[];
+  }[];
+}
+
+const clean = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+/**
+ * Which standard a parsed JSON document follows, or null if neither
+ */
+export function detectResumeStandard(doc: unknown): ResumeStandard | null {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) return null;
+  const record = doc as Record<string, unknown>;
+  if (record.basics || record.work || (typeof record.$schema === 'string' && record.$schema.includes('jsonresume'))) {
+    return 'json-resume';
+  }
+  if (record.person && typeof record.person === 'object') {
+    return 'hr-open';
+  }
+  return null;
+}
+
+/**
+ * HR-Open candidate → JSON Resume; the first profile is used
+ */
+export function hrOpenToJsonResume(doc: HrOpenCandidate): JsonResume {
+  const person = doc.person || {};
+  const communication = person.communication || {};
+  const profile = doc.profiles?.[0] || {};
+  const address = communication.address?.[0];
+  const web = communication.web || [];
+  const name = clean(person.name?.formattedName)
+    || [clean(person.name?.given), clean(person.name?.family)].filter(Boolean).join(' ');
+
+  return {
+    basics: {
+      name,
+      label: clean(profile.profileName) || undefined,
+      email: clean(communication.email?.[0]?.address) || undefined,
+      phone: clean(communication.phone?.[0]?.formattedNumber) || undefined,
+      summary: clean(profile.executiveSummary) || undefined,
+      // A formatted address is the full location; the structured parts are only used without one
+      location: address && clean(address.formattedAddress)
+        ? { address: clean(address.formattedAddress) }
+        : address
+        ? {
+            city: clean(address.city) || undefined,
+            region: clean(address.countrySubDivisions?.[0]?.value) || undefined,
+            countryCode: clean(address.countryCode) || undefined,
+          }
+        : undefined,
+      profiles: web.map(link => ({ network: clean(link.name) || undefined, url: clean(link.url) })),
+    },
+    work: (profile.employment || []).map(employment => ({
+      name: clean(employment.organization?.name) || undefined,
+      position: clean(employment.positionTitles?.[0]) || undefined,
+      startDate: clean(employment.start) || undefined,
+      endDate: employment.current ? undefined : clean(employment.end) || undefined,
+      // Our export writes one line per bullet
+      highlights: clean(employment.description).split(/\n+/).map(clean).filter(Boolean),
+    })),
+    education: (profile.education || []).map(education => ({
+      institution: clean(education.institution?.name) || undefined,
+      studyType: clean(education.educationDegrees?.[0]?.name) || undefined,
+      startDate: clean(education.start) || undefined,
+      endDate: clean(education.end) || undefined,
+    })),
+    skills: (profile.qualifications || []).map(q => ({ name: clean(q.competencyName) })),
+  };
+}
+
+/**
+ * Years covered by the work entries; overlapping positions are counted once, open-ended ones run to today
+ */
+export function workExperienceYears(work: JsonResumeWork[], today = new Date()): number {
+  const now = today.getFullYear() * 12 + today.getMonth();
+  const ranges = work
+    .map(entry => {
+      const start = monthIndex(entry.startDate);
+      if (start === null) return null;
+      const end = entry.endDate ? monthIndex(entry.endDate) ?? now : now;
+      return [start, Math.max(start, end) + 1] as [number, number];
+    })
+    .filter((range): range is [number, number] => range !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  let months = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) months += end - from;
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+  return Math.round(months / 12);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const dateRange = (start?: string, end?: string) =>
+  start || end ? `${clean(start) || '?'} – ${clean(end) || 'Present'}` : '';
+
+/**
+ * Resume HTML for the card and viewer, in the same layout as the AI-reformatted resumes
+ */
+export function renderJsonResumeHtml(doc: JsonResume): string {
+  const heading = (title: string) =>
+    `<h3 style="font-weight: bold; font-size: 1.2em; margin-top: 2em; margin-bottom: 1em; color: #1f2937; text-transform: uppercase; border-bottom: 2px solid #e5e7eb; padding-bottom: 0.5em;">${title}</h3>`;
+  const paragraph = (text: string) =>
+    `<p style="margin-bottom: 0.6em; line-height: 1.7; color: #374151;">${escapeHtml(text)}</p>`;
+  const entryTitle = (text: string) =>
+    `<p style="font-weight: 600; margin-top: 1.5em; margin-bottom: 0.5em; color: #4b5563; font-size: 1.05em;">${escapeHtml(text)}</p>`;
+  const bullet = (text: string) =>
+    `<p style="margin-left: 2em; margin-bottom: 0.6em; line-height: 1.7; text-indent: -1em; padding-left: 1em;">• ${escapeHtml(text)}</p>`;
+
+  const parts: string[] = [];
+  if (clean(doc.basics?.summary)) {
+    parts.push(heading('Summary'), paragraph(clean(doc.basics?.summary)));
+  }
+
+  const work = (doc.work || []).filter(entry => clean(entry.name) || clean(entry.position));
+  if (work.length > 0) {
+    parts.push(heading('Experience'));
+    for (const entry of work) {
+      const title = [clean(entry.position), clean(entry.name)].filter(Boolean).join(' — ');
+      const dates = dateRange(entry.startDate, entry.endDate);
+      parts.push(entryTitle(dates ? `${title} | ${dates}` : title));
+      if (clean(entry.summary)) parts.push(paragraph(clean(entry.summary)));
+      (entry.highlights || []).map(clean).filter(Boolean).forEach(highlight => parts.push(bullet(highlight)));
+    }
+  }
+
+  const education = (doc.education || []).filter(entry => clean(entry.institution));
+  if (education.length > 0) {
+    parts.push(heading('Education'));
+    for (const entry of education) {
+      const degree = [clean(entry.studyType), clean(entry.area)].filter(Boolean).join(', ');
+      const dates = dateRange(entry.startDate, entry.endDate);
+      parts.push(entryTitle([clean(entry.institution), degree, dates].filter(Boolean).join(' | ')));
+    }
+  }
+
+  const skills = unique((doc.skills || []).flatMap(skill => [clean(skill.name), ...(skill.keywords || []).map(clean)]));
+  if (skills.length > 0) {
+    parts.push(heading('Skills'), paragraph(skills.join(', ')));
+  }
+
+  return `<div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #1f2937; padding: 30px; max-width: 900px; margin: 0 auto; background: #ffffff;">${parts.join('\n')}</div>`;
+}
+
+const withProtocol = (url: string) => (url && !/^https?:\/\//i.test(url) ? `https://${url}` : url);
+
+/**
+ * JSON Resume → candidate fields, in the same shape parseResumeFile returns
+ */
+export function jsonResumeToCandidate(doc: JsonResume): Partial<Candidate> {
+  const basics = doc.basics || {};
+  // Most recent position first; entries without a start date keep their order at the end
+  const work = [...(doc.work || [])].sort((a, b) => (monthIndex(b.startDate) ?? -1) - (monthIndex(a.startDate) ?? -1));
+  const years = workExperienceYears(work);
+
+  const location = basics.location;
+  const locationText = location
+    ? [clean(location.city), clean(location.region), clean(location.countryCode)].filter(Boolean).join(', ')
+      || clean(location.address)
+    : '';
+
+  const profiles = (basics.profiles || []).map(profile => ({
+    network: clean(profile.network).toLowerCase(),
+    url: withProtocol(clean(profile.url)),
+  }));
+  const profileUrl = (network: string) => profiles.find(p => p.network === network || p.url.includes(`${network}.com`))?.url;
+  const linkedin = profileUrl('linkedin');
+  const github = profileUrl('github');
+  const otherSocialMedia = profiles.find(p => p.url && p.url !== linkedin && p.url !== github)?.url;
+
+  const skills = unique(
+    (doc.skills || []).flatMap(skill => [clean(skill.name), ...(skill.keywords || []).map(clean)]).map(s => s.toLowerCase())
+  );
+  const lastModified = clean(doc.meta?.lastModified).slice(0, 10);
+
+  return {
+    name: clean(basics.name),
+    jobTitle: clean(basics.label) || clean(work[0]?.position),
+    location: locationText || 'Not specified',
+    experience: `${years} years`,
+    availability: 'Available',
+    readyToRelocateTo: [],
+    lastUpdated: /^\d{4}-\d{2}-\d{2}$/.test(lastModified) ? lastModified : new Date().toISOString().split('T')[0],
+    matchScore: 0,
+    status: 'actively_looking',
+    industries: [],
+    relatedIndustries: [],
+    companyNames: unique(work.map(entry => clean(entry.name))),
+    workHistory: work
+      .filter(entry => clean(entry.position))
+      .map(entry => ({
+        title: clean(entry.position),
+        company: clean(entry.name) || undefined,
+        location: clean(entry.location) || undefined,
+        startDate: normalizeResumeDate(entry.startDate) ?? undefined,
+        endDate: normalizeResumeDate(entry.endDate) ?? undefined,
+        // JSON Resume leaves endDate out for the current role
+        isCurrent: !clean(entry.endDate) && !!clean(entry.startDate),
+        bullets: [clean(entry.summary), ...(entry.highlights || []).map(clean)].filter(Boolean),
+      })),
+    education: (doc.education || [])
+      .filter(entry => clean(entry.institution))
+      .map(entry => ({
+        institution: clean(entry.institution),
+        degree: clean(entry.studyType) || undefined,
+        fieldOfStudy: clean(entry.area) || undefined,
+        startDate: normalizeResumeDate(entry.startDate) ?? undefined,
+        endDate: normalizeResumeDate(entry.endDate) ?? undefined,
+      })),
+    skills,
+    summary: clean(basics.summary),
+    unifiedTitles: [],
+    socialLinks: {
+      linkedin,
+      github,
+      portfolio: withProtocol(clean(basics.url)) || undefined,
+      otherSocialMedia,
+    },
+    resume: {
+      file: null,
+      htmlContent: renderJsonResumeHtml(doc),
+      contacts: {
+        email: clean(basics.email) || null,
+        phone: clean(basics.phone) || null,
+        linkedin: linkedin || null,
+      },
+    },
+  };
+}
+
+/**
+ * Candidate fields from a JSON Resume or HR-Open document
+ */
+export function standardResumeToCandidate(doc: unknown): Partial<Candidate> {
+  const standard = detectResumeStandard(doc);
+  if (!standard) {
+    throw new Error('Not a JSON Resume or HR-Open candidate document');
+  }
+  return jsonResumeToCandidate(standard === 'hr-open' ? hrOpenToJsonResume(doc as HrOpenCandidate) : (doc as JsonResume));
+}
+
+// "San Francisco, CA, USA" → city and the rest as region
+const splitLocation = (location: string) => {
+  const [city, ...rest] = location.split(',').map(part => part.trim()).filter(Boolean);
+  return { city, region: rest.join(', ') || undefined };
+};
+
+const hasLocation = (candidate: Candidate) => Boolean(candidate.location) && candidate.location !== 'Not specified';
+
+/**
+ * Candidate → JSON Resume
+ * Without extracted work history, company names are exported as work entries without dates or positions.
+ */
+export function candidateToJsonResume(candidate: Candidate): JsonResume {
+  const contacts = candidate.resume?.contacts;
+  const links = candidate.socialLinks || {};
+  const linkedin = links.linkedin || contacts?.linkedin || undefined;
+
+  const profiles: JsonResumeProfile[] = [];
+  if (linkedin) profiles.push({ network: 'LinkedIn', url: linkedin });
+  if (links.github) profiles.push({ network: 'GitHub', url: links.github });
+  if (links.otherSocialMedia) profiles.push({ url: links.otherSocialMedia });
+
+  return {
+    $schema: JSON_RESUME_SCHEMA,
+    basics: {
+      name: candidate.name,
+      label: candidate.jobTitle || undefined,
+      email: contacts?.email || undefined,
+      phone: contacts?.phone || undefined,
+      url: links.portfolio || undefined,
+      summary: candidate.summary || undefined,
+      location: hasLocation(candidate) ? splitLocation(candidate.location) : undefined,
+      profiles,
+    },
+    work: candidate.workHistory?.length
+      ? candidate.workHistory.map(position => ({
+          name: position.company,
+          position: position.title,
+          location: position.location,
+          startDate: position.startDate,
+          endDate: position.isCurrent ? undefined : position.endDate,
+          highlights: position.bullets.length > 0 ? position.bullets : undefined,
+        }))
+      : (candidate.companyNames || []).map(name => ({ name })),
+    education: (candidate.education || []).map(entry => ({
+      institution: entry.institution,
+      studyType: entry.degree,
+      area: entry.fieldOfStudy,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+    })),
+    skills: (candidate.skills || []).map(name => ({ name })),
+    meta: {
+      version: 'v1.0.0',
+      lastModified: candidate.lastUpdated || undefined,
+    },
+  };
+}
+
+/**
+ * Candidate → HR-Open candidate document
+ */
+export function candidateToHrOpen(candidate: Candidate): HrOpenCandidate {
+  const resume = candidateToJsonResume(candidate);
+  const basics = resume.basics || {};
+
+  return {
+    person: {
+      name: { formattedName: candidate.name },
+      communication: {
+        email: basics.email ? [{ address: basics.email }] : [],
+        phone: basics.phone ? [{ formattedNumber: basics.phone }] : [],
+        web: [
+          ...(basics.profiles || []).map(profile => ({ url: profile.url, name: profile.network })),
+          ...(basics.url ? [{ url: basics.url, name: 'Portfolio' }] : []),
+        ],
+        address: hasLocation(candidate) ? [{ formattedAddress: candidate.location, city: basics.location?.city }] : [],
+      },
+    },
+    profiles: [
+      {
+        profileName: basics.label,
+        executiveSummary: basics.summary,
+        employment: (resume.work || []).map(work => ({
+          organization: { name: work.name },
+          positionTitles: work.position ? [work.position] : undefined,
+          start: work.startDate,
+          end: work.endDate,
+          current: work.position && work.startDate ? !work.endDate : undefined,
+          description: work.highlights?.join('\n'),
+        })),
+        education: (resume.education || []).map(entry => ({
+          institution: { name: entry.institution },
+          educationDegrees: entry.studyType ? [{ name: entry.studyType }] : undefined,
+          start: entry.startDate,
+          end: entry.endDate,
+        })),
+        qualifications: (candidate.skills || []).map(skill => ({ competencyName: skill })),
+      },
+    ],
+  };
+}
+
+/**
+ * Download a candidate as a JSON Resume or HR-Open .json file
+ */
+export function downloadCandidateDocument(candidate: Candidate, standard: ResumeStandard): void {
+  const doc = standard === 'hr-open' ? candidateToHrOpen(candidate) : candidateToJsonResume(candidate);
+  const slug = candidate.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `candidate-${candidate.id}`;
+  const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${slug}.${standard}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
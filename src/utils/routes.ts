@@ -0,0 +1,79 @@
+/**
+ * URL routes of the app
+ * Every page and entity has a path, so views can be bookmarked and shared and the browser's
+ * back/forward buttons work. Filter state lives in the query string (see useSearchParams).
+ */
+
+export type Page = 'Star Catalogue' | 'My Jobs' | 'Analytics' | 'Benchmark' | 'Search Results' | 'Match';
+
+export type Route =
+  | { page: 'Star Catalogue'; candidateId?: string }
+  | { page: 'My Jobs'; jobId?: number; jobView?: 'matches' | 'pipeline' }
+  | { page: 'Match'; vacancyId?: string }
+  | { page: 'Benchmark'; jobId?: string }
+  | { page: 'Analytics' }
+  | { page: 'Search Results' }
+  | { page: 'Not Found' };
+
+/**
+ * Path builders; components link with these instead of writing paths by hand
+ */
+export const paths = {
+  catalogue: () => '/',
+  candidate: (candidateId: string | number) => `/candidates/${encodeURIComponent(candidateId)}`,
+  jobs: () => '/jobs',
+  jobMatches: (jobId: number) => `/jobs/${jobId}/matches`,
+  jobPipeline: (jobId: number) => `/jobs/${jobId}/pipeline`,
+  match: (vacancyId?: string) => (vacancyId ? `/match/${encodeURIComponent(vacancyId)}` : '/match'),
+  benchmark: (jobId?: string) => (jobId ? `/benchmark/${encodeURIComponent(jobId)}` : '/benchmark'),
+  analytics: () => '/analytics',
+  searchResults: () => '/search-results',
+};
+
+// Landing path of each top-level page (header navigation)
+export const PAGE_PATHS: Record<Page, string> = {
+  'Star Catalogue': paths.catalogue(),
+  'My Jobs': paths.jobs(),
+  Analytics: paths.analytics(),
+  Benchmark: paths.benchmark(),
+  'Search Results': paths.searchResults(),
+  Match: paths.match(),
+};
+
+const ROUTE_PATTERNS: Array<{ pattern: RegExp; toRoute: (params: string[]) => Route }> = [
+  { pattern: /^\/$/, toRoute: () => ({ page: 'Star Catalogue' }) },
+  { pattern: /^\/candidates\/([^/]+)$/, toRoute: ([id]) => ({ page: 'Star Catalogue', candidateId: id }) },
+  { pattern: /^\/jobs$/, toRoute: () => ({ page: 'My Jobs' }) },
+  {
+    pattern: /^\/jobs\/(\d+)\/(matches|pipeline)$/,
+    toRoute: ([id, view]) => ({ page: 'My Jobs', jobId: Number(id), jobView: view as 'matches' | 'pipeline' }),
+  },
+  { pattern: /^\/match$/, toRoute: () => ({ page: 'Match' }) },
+  { pattern: /^\/match\/([^/]+)$/, toRoute: ([id]) => ({ page: 'Match', vacancyId: id }) },
+  { pattern: /^\/benchmark$/, toRoute: () => ({ page: 'Benchmark' }) },
+  { pattern: /^\/benchmark\/([^/]+)$/, toRoute: ([id]) => ({ page: 'Benchmark', jobId: id }) },
+  { pattern: /^\/analytics$/, toRoute: () => ({ page: 'Analytics' }) },
+  { pattern: /^\/search-results$/, toRoute: () => ({ page: 'Search Results' }) },
+];
+
+/**
+ * Resolve a pathname to its route
+ */
+export function parseRoute(pathname: string): Route {
+  // Trailing slashes are ignored
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+  for (const { pattern, toRoute } of ROUTE_PATTERNS) {
+    const match = path.match(pattern);
+    if (!match) continue;
+
+    try {
+      return toRoute(match.slice(1).map(decodeURIComponent));
+    } catch {
+      // Malformed percent-encoding
+      break;
+    }
+  }
+
+  return { page: 'Not Found' };
+}
@@ -0,0 +1,2 @@
+// Salary normalization lives with the shared matching core so the edge functions can use it too
+export * from '../../supabase/functions/_shared/matching/salary.ts';
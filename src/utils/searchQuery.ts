@@ -0,0 +1,439 @@
+/**
+ * Star Catalogue search language
+ *
+ *   title:"Backend Engineer" AND skills:(go OR rust) AND location:Berlin NOT company:Acme salary:<120000
+ *
+ * - Terms are ANDed unless joined by OR; AND, OR and NOT are uppercase, parentheses group
+ * - field:value searches one field; a bare word or "quoted phrase" searches name, titles, location,
+ *   industries and skills
+ * - field:(a OR b) applies the field to every term in the group
+ * - salary and experience take a comparison: salary:<120000, salary:>=90k, experience:>5
+ */
+
+export type TextSearchField = 'title' | 'skills' | 'location' | 'industry' | 'company' | 'name' | 'status';
+export type NumericSearchField = 'salary' | 'experience';
+export type SearchField = TextSearchField | NumericSearchField;
+export type SearchComparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchNode =
+  | { type: 'and'; children: SearchNode[] }
+  | { type: 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode }
+  | { type: 'text'; field: TextSearchField | null; value: string } // field null: any text field
+  | { type: 'compare'; field: NumericSearchField; comparison: SearchComparison; value: number };
+
+export const SEARCH_FIELDS: Array<{ field: SearchField; description: string }> = [
+  { field: 'title', description: 'Job title or unified title' },
+  { field: 'skills', description: 'Has this skill' },
+  { field: 'location', description: 'Location' },
+  { field: 'industry', description: 'Industry' },
+  { field: 'company', description: 'Worked at' },
+  { field: 'name', description: 'Candidate name' },
+  { field: 'status', description: 'actively_looking or open_to_offers' },
+  { field: 'salary', description: 'Yearly salary expectation, e.g. salary:<120000' },
+  { field: 'experience', description: 'Years of experience, e.g. experience:>=5' },
+];
+
+export const SEARCH_STATUSES = ['actively_looking', 'open_to_offers'];
+
+const FIELD_ALIASES = new Map<string, SearchField>([
+  ['skill', 'skills'],
+  ['industries', 'industry'],
+  ['companies', 'company'],
+  ['years', 'experience'],
+]);
+
+const NUMERIC_FIELDS: SearchField[] = ['salary', 'experience'];
+
+// Fields that would identify a candidate, so they cannot be searched in blind review
+export const BLIND_REVIEW_HIDDEN_FIELDS: SearchField[] = ['name', 'company'];
+
+export const isNumericSearchField = (field: SearchField): field is NumericSearchField =>
+  NUMERIC_FIELDS.includes(field);
+
+/**
+ * Field a name refers to (case-insensitive, aliases allowed), or null when there is none
+ */
+export const resolveSearchField = (name: string): SearchField | null => {
+  const key = name.toLowerCase();
+  if (SEARCH_FIELDS.some(({ field }) => field === key)) return key as SearchField;
+  return FIELD_ALIASES.get(key) || null;
+};
+
+/**
+ * A query that does not parse; position is the offset in the query the problem is at
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+export type SearchTokenKind = 'and' | 'or' | 'not' | 'lparen' | 'rparen' | 'field' | 'comparison' | 'word' | 'phrase';
+
+export interface SearchToken {
+  kind: SearchTokenKind;
+  value: string; // Field name without the colon, phrase without the quotes
+  start: number;
+  end: number;
+  unterminated?: boolean; // Phrase without its closing quote
+}
+
+const OPERATORS = new Map<string, SearchTokenKind>([['AND', 'and'], ['OR', 'or'], ['NOT', 'not']]);
+
+// A comma followed by a space separates terms ("Manager, Remote"); inside a word it is kept ("120,000")
+const isSeparator = (query: string, i: number): boolean =>
+  /\s/.test(query[i]) || (query[i] === ',' && (i + 1 === query.length || /\s/.test(query[i + 1])));
+
+/**
+ * Split a query into tokens; never fails, so half-typed queries can still be highlighted
+ */
+export const tokenizeSearchQuery = (query: string): SearchToken[] => {
+  const tokens: SearchToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (isSeparator(query, i)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const close = query.indexOf('"', i + 1);
+      const end = close === -1 ? query.length : close + 1;
+      tokens.push({
+        kind: 'phrase',
+        value: query.slice(i + 1, close === -1 ? query.length : close),
+        start: i,
+        end,
+        ...(close === -1 ? { unterminated: true } : {}),
+      });
+      i = end;
+      continue;
+    }
+
+    // Comparisons only come right after a field, e.g. salary:<120000
+    const previous = tokens[tokens.length - 1];
+    if (previous?.kind === 'field' && previous.end === i) {
+      const comparison = /^(<=|>=|<|>|=)/.exec(query.slice(i));
+      if (comparison) {
+        tokens.push({ kind: 'comparison', value: comparison[1], start: i, end: i + comparison[1].length });
+        i += comparison[1].length;
+        continue;
+      }
+    }
+
+    let end = i;
+    while (end < query.length && !/[()"]/.test(query[end]) && !isSeparator(query, end)) {
+      end++;
+    }
+    const word = query.slice(i, end);
+
+    const field = /^([a-z_]+):/i.exec(word);
+    if (field) {
+      const fieldEnd = i + field[0].length;
+      tokens.push({ kind: 'field', value: field[1], start: i, end: fieldEnd });
+      i = fieldEnd;
+      continue;
+    }
+
+    tokens.push({ kind: OPERATORS.get(word) || 'word', value: word, start: i, end });
+    i = end;
+  }
+
+  return tokens;
+};
+
+// "90k" = 90000, "120,000" = 120000
+const parseNumber = (text: string): number | null => {
+  const match = /^(\d+(?:\.\d+)?)(k)?$/i.exec(text.replace(/,/g, ''));
+  if (!match) return null;
+  return Number(match[1]) * (match[2] ? 1000 : 1);
+};
+
+const describeToken = (token: SearchToken | undefined): string => {
+  if (!token) return 'end of query';
+  if (token.kind === 'field') return `"${token.value}:"`;
+  return `"${token.value}"`;
+};
+
+/**
+ * Parse a query into its syntax tree; null for an empty query
+ * In blind review the BLIND_REVIEW_HIDDEN_FIELDS are rejected.
+ * @throws SearchQueryError
+ */
+export const parseSearchQuery = (query: string, options: { blindReview?: boolean } = {}): SearchNode | null => {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) return null;
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const endOffset = query.length;
+
+  const startsTerm = (token: SearchToken | undefined) =>
+    !!token && ['not', 'lparen', 'field', 'word', 'phrase'].includes(token.kind);
+
+  const parseOr = (field: SearchField | null): SearchNode => {
+    const children = [parseAnd(field)];
+    while (peek()?.kind === 'or') {
+      const operator = tokens[position++];
+      if (!startsTerm(peek())) {
+        throw new SearchQueryError(`Expected a term after OR, found ${describeToken(peek())}`, peek()?.start ?? operator.end);
+      }
+      children.push(parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (field: SearchField | null): SearchNode => {
+    const children = [parseUnary(field)];
+    for (;;) {
+      const token = peek();
+      if (token?.kind === 'and') {
+        position++;
+        if (!startsTerm(peek())) {
+          throw new SearchQueryError(`Expected a term after AND, found ${describeToken(peek())}`, peek()?.start ?? token.end);
+        }
+        children.push(parseUnary(field));
+      } else if (startsTerm(token)) {
+        children.push(parseUnary(field));
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (field: SearchField | null): SearchNode => {
+    const token = peek();
+    if (token?.kind === 'not') {
+      position++;
+      if (!startsTerm(peek())) {
+        throw new SearchQueryError(`Expected a term after NOT, found ${describeToken(peek())}`, peek()?.start ?? token.end);
+      }
+      return { type: 'not', child: parseUnary(field) };
+    }
+    return parsePrimary(field);
+  };
+
+  const parseGroup = (field: SearchField | null): SearchNode => {
+    const open = tokens[position++];
+    if (peek()?.kind === 'rparen') {
+      throw new SearchQueryError('Empty parentheses', open.start);
+    }
+    const node = parseOr(field);
+    if (peek()?.kind !== 'rparen') {
+      throw new SearchQueryError('Missing closing parenthesis', open.start);
+    }
+    position++;
+    return node;
+  };
+
+  const parsePrimary = (field: SearchField | null): SearchNode => {
+    const token = peek();
+
+    if (!token) {
+      throw new SearchQueryError('Expected a term, found end of query', endOffset);
+    }
+
+    if (token.kind === 'lparen') {
+      return parseGroup(field);
+    }
+
+    if (token.kind === 'field') {
+      if (field) {
+        throw new SearchQueryError(`"${token.value}:" cannot be used inside ${field}:(...)`, token.start);
+      }
+      const resolved = resolveSearchField(token.value);
+      if (!resolved) {
+        throw new SearchQueryError(
+          `Unknown field "${token.value}". Fields: ${SEARCH_FIELDS.map(f => f.field).join(', ')}`,
+          token.start
+        );
+      }
+      if (options.blindReview && BLIND_REVIEW_HIDDEN_FIELDS.includes(resolved)) {
+        throw new SearchQueryError(`"${token.value}:" cannot be searched in blind review`, token.start);
+      }
+      position++;
+      const value = peek();
+      if (!value || value.start !== token.end || !['lparen', 'word', 'phrase', 'comparison'].includes(value.kind)) {
+        throw new SearchQueryError(`Missing value after "${token.value}:"`, token.end);
+      }
+      return value.kind === 'lparen' ? parseGroup(resolved) : parseValue(resolved);
+    }
+
+    if (token.kind === 'word' || token.kind === 'phrase' || token.kind === 'comparison') {
+      return parseValue(field);
+    }
+
+    if (token.kind === 'rparen') {
+      throw new SearchQueryError('Unexpected closing parenthesis', token.start);
+    }
+    throw new SearchQueryError(`Expected a term, found ${describeToken(token)}`, token.start);
+  };
+
+  const parseValue = (field: SearchField | null): SearchNode => {
+    let token = tokens[position++];
+
+    if (field && isNumericSearchField(field)) {
+      let comparison: SearchComparison = '=';
+      if (token.kind === 'comparison') {
+        comparison = token.value as SearchComparison;
+        const next = peek();
+        if (!next || next.start !== token.end || next.kind !== 'word') {
+          throw new SearchQueryError(`Expected a number after "${token.value}"`, token.end);
+        }
+        token = tokens[position++];
+      }
+      const value = parseNumber(token.value);
+      if (value === null) {
+        throw new SearchQueryError(`${field} takes a number, e.g. ${field}:>=${field === 'salary' ? '90000' : '5'}`, token.start);
+      }
+      return { type: 'compare', field, comparison, value };
+    }
+
+    if (token.kind === 'comparison') {
+      throw new SearchQueryError('Only salary and experience can be compared with < or >', token.start);
+    }
+    if (token.unterminated) {
+      throw new SearchQueryError('Missing closing quote', token.start);
+    }
+
+    const value = token.value.trim();
+    if (!value) {
+      throw new SearchQueryError('Empty phrase', token.start);
+    }
+
+    if (field === 'status') {
+      const status = value.toLowerCase().replace(/[\s-]+/g, '_');
+      if (!SEARCH_STATUSES.includes(status)) {
+        throw new SearchQueryError(`status is one of ${SEARCH_STATUSES.join(', ')}`, token.start);
+      }
+      return { type: 'text', field, value: status };
+    }
+
+    return { type: 'text', field, value };
+  };
+
+  const root = parseOr(null);
+  const rest = peek();
+  if (rest) {
+    throw new SearchQueryError(
+      rest.kind === 'rparen' ? 'Unexpected closing parenthesis' : `Unexpected ${describeToken(rest)}`,
+      rest.start
+    );
+  }
+  return root;
+};
+
+export type SearchHighlightKind = 'operator' | 'paren' | 'field' | 'unknownField' | 'comparison' | 'phrase' | 'word' | 'plain';
+
+/**
+ * A query split into parts for syntax highlighting; the parts' text adds up to the query
+ */
+export const highlightSearchQuery = (query: string): Array<{ text: string; kind: SearchHighlightKind }> => {
+  const parts: Array<{ text: string; kind: SearchHighlightKind }> = [];
+  let offset = 0;
+
+  for (const token of tokenizeSearchQuery(query)) {
+    if (token.start > offset) {
+      parts.push({ text: query.slice(offset, token.start), kind: 'plain' });
+    }
+
+    let kind: SearchHighlightKind;
+    switch (token.kind) {
+      case 'and':
+      case 'or':
+      case 'not':
+        kind = 'operator';
+        break;
+      case 'lparen':
+      case 'rparen':
+        kind = 'paren';
+        break;
+      case 'field':
+        kind = resolveSearchField(token.value) ? 'field' : 'unknownField';
+        break;
+      default:
+        kind = token.kind;
+    }
+
+    parts.push({ text: query.slice(token.start, token.end), kind });
+    offset = token.end;
+  }
+
+  if (offset < query.length) {
+    parts.push({ text: query.slice(offset), kind: 'plain' });
+  }
+  return parts;
+};
+
+/**
+ * What is being typed at the cursor: a field name or a field's value
+ * start/end is the part of the query a suggestion replaces.
+ */
+export type SearchCompletion =
+  | { kind: 'field'; prefix: string; start: number; end: number }
+  | { kind: 'value'; field: SearchField; prefix: string; start: number; end: number };
+
+export const getSearchCompletion = (query: string, cursor: number): SearchCompletion | null => {
+  const tokens = tokenizeSearchQuery(query);
+  // Field of each open field:( group
+  const groupFields: Array<SearchField | null> = [];
+  let previous: SearchToken | undefined;
+
+  for (const token of tokens) {
+    if (token.start >= cursor) break;
+
+    if (token.end >= cursor) {
+      if (token.kind === 'field') {
+        const field = resolveSearchField(token.value);
+        // Cursor right after "field:"
+        if (cursor === token.end) {
+          return field ? { kind: 'value', field, prefix: '', start: cursor, end: cursor } : null;
+        }
+        return { kind: 'field', prefix: query.slice(token.start, cursor), start: token.start, end: token.end };
+      }
+
+      if (token.kind === 'word' || token.kind === 'phrase') {
+        // Cursor after a closed phrase: the value is complete
+        if (token.kind === 'phrase' && !token.unterminated && cursor === token.end) return null;
+
+        const field = previous?.kind === 'field' && previous.end === token.start
+          ? resolveSearchField(previous.value)
+          : groupFields[groupFields.length - 1] ?? null;
+        const prefixStart = token.kind === 'phrase' ? token.start + 1 : token.start;
+        const prefix = query.slice(prefixStart, Math.max(cursor, prefixStart));
+
+        if (field) return { kind: 'value', field, prefix, start: token.start, end: token.end };
+        if (token.kind === 'word' && /^[a-z_]+$/i.test(prefix)) {
+          return { kind: 'field', prefix, start: token.start, end: token.end };
+        }
+        return null;
+      }
+
+      return null;
+    }
+
+    if (token.kind === 'lparen') {
+      const field = previous?.kind === 'field' && previous.end === token.start ? resolveSearchField(previous.value) : null;
+      groupFields.push(field ?? groupFields[groupFields.length - 1] ?? null);
+    } else if (token.kind === 'rparen') {
+      groupFields.pop();
+    }
+    previous = token;
+  }
+
+  // Cursor after a space inside a field:( group
+  const groupField = groupFields[groupFields.length - 1];
+  return groupField ? { kind: 'value', field: groupField, prefix: '', start: cursor, end: cursor } : null;
+};
@@ -0,0 +1,2 @@
+// Seniority bands live with the shared matching core so the edge functions can use them too
+export * from '../../supabase/functions/_shared/matching/seniority.ts';
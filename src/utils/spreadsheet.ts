@@ -0,0 +1,284 @@
+/**
+ * CSV and XLSX reading and writing
+ * Rows are plain string[][] with the header row first. XLSX support covers the first worksheet's
+ * values (shared, inline and numeric cells); styles, formulas and dates are not interpreted.
+ */
+
+import { createZipArchive, readZipEntries } from './zipArchive';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const SPREADSHEET_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+/**
+ * Parse CSV/TSV text; the delimiter (comma, semicolon or tab) is detected from the header line
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const headerLine = input.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+const cellText = (value: SpreadsheetCell): string =>
+  value === null || value === undefined ? '' : String(value);
+
+/**
+ * Serialize rows as CSV
+ * Text starting with =, +, - or @ is prefixed with ' so spreadsheet apps do not run it as a formula.
+ */
+export function toCsv(rows: SpreadsheetCell[][]): string {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          let text = cellText(value);
+          if (typeof value === 'string' && /^[=+\-@]/.test(text) && isNaN(Number(text))) {
+            text = `'${text}`;
+          }
+          return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Spreadsheet column name for a 0-based index: 0 → A, 26 → AA
+ */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (ref: string): number =>
+  ref.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Build a single-sheet XLSX workbook; numbers are written as numeric cells, everything else as text
+ */
+export function toXlsx(rows: SpreadsheetCell[][], sheetName = 'Sheet1'): Blob {
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (typeof value === 'number' && isFinite(value)) {
+            return `<c r="${ref}"><v>${value}</v></c>`;
+          }
+          const text = cellText(value);
+          return text ? `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>` : '';
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const mainNs = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const safeSheetName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  return createZipArchive([
+    {
+      path: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>',
+    },
+    {
+      path: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/>`
+        + '</Relationships>',
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="${mainNs}" xmlns:r="${relNs}">`
+        + `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>`
+        + `<Relationship Id="rId2" Type="${relNs}/styles" Target="styles.xml"/>`
+        + '</Relationships>',
+    },
+    {
+      path: 'xl/styles.xml',
+      content: `${xmlHeader}<styleSheet xmlns="${mainNs}">`
+        + '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="1"><fill><patternFill patternType="none"/></fill></fills>'
+        + '<borders count="1"><border/></borders>'
+        + '<cellStyleXfs count="1"><xf/></cellStyleXfs>'
+        + '<cellXfs count="1"><xf xfId="0"/></cellXfs>'
+        + '</styleSheet>',
+    },
+    {
+      path: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="${mainNs}"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ], XLSX_MIME);
+}
+
+// Elements by local name, whatever prefix the producing app used
+const elements = (parent: Document | Element, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+/**
+ * Read the first worksheet of an XLSX workbook
+ */
+export async function readXlsx(file: Blob): Promise<string[][]> {
+  const entries = await readZipEntries(file);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const entry = entries.find(e => e.path === path);
+    return entry ? parser.parseFromString(await entry.file.text(), 'application/xml') : null;
+  };
+
+  const sharedStringsXml = await readXml('xl/sharedStrings.xml');
+  // Rich text splits a string into runs; phonetic hints (rPh) are not part of the value
+  const sharedStrings = sharedStringsXml
+    ? elements(sharedStringsXml, 'si').map(si =>
+        elements(si, 't')
+          .filter(t => (t.parentNode as Element | null)?.localName !== 'rPh')
+          .map(t => t.textContent || '')
+          .join('')
+      )
+    : [];
+
+  const workbook = await readXml('xl/workbook.xml');
+  const rels = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+    || firstSheet?.getAttribute('r:id');
+  const target = rels && relId
+    ? elements(rels, 'Relationship').find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target')
+    : null;
+  const sheetPath = target
+    ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+    : 'xl/worksheets/sheet1.xml';
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const rows: string[][] = [];
+  for (const rowElement of elements(sheet, 'row')) {
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const rawValue = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let value = rawValue;
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = elements(cell, 't').map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (type === 'e') {
+        value = '';
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    });
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Read a CSV/TSV or XLSX file into rows
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsx(file);
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Legacy .xls files are not supported; save the sheet as .xlsx or .csv');
+  }
+  return parseCsv(await file.text());
+}
+
+/**
+ * Download rows as a .csv or .xlsx file
+ */
+export function downloadSpreadsheet(fileName: string, rows: SpreadsheetCell[][], format: SpreadsheetFormat): void {
+  // The BOM makes Excel open UTF-8 CSV with the right encoding
+  const blob = format === 'xlsx'
+    ? toXlsx(rows)
+    : new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${fileName}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,173 @@
+/**
+ * Minimal ZIP reader and writer (resume archives, XLSX workbooks)
+ * Reads the central directory and inflates entries with the browser's DecompressionStream, so no zip
+ * library is needed. Stored and deflated entries are supported; encrypted entries and ZIP64 archives are not.
+ * Archives are written uncompressed.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// End-of-central-directory record is 22 bytes plus an optional comment of up to 64 KB
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+export const isZipFile = (file: File): boolean =>
+  /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+export interface ZipEntry {
+  path: string; // Path inside the archive, e.g. "resumes/jane-doe.pdf"
+  file: File; // Named after the last path segment
+}
+
+async function inflateRaw(data: Blob): Promise<ArrayBuffer> {
+  const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * Extract every file in a ZIP archive; directories are skipped
+ */
+export async function readZipEntries(archive: Blob): Promise<ZipEntry[]> {
+  const buffer = await archive.arrayBuffer();
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - MAX_EOCD_SEARCH); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid ZIP archive');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const utf8 = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = utf8.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) {
+      throw new Error(`"${name}" is encrypted; password-protected archives are not supported`);
+    }
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry "${name}"`);
+    }
+
+    // Local header name/extra lengths can differ from the central directory copy
+    const dataStart = localHeaderOffset + 30
+      + view.getUint16(localHeaderOffset + 26, true)
+      + view.getUint16(localHeaderOffset + 28, true);
+    const data = archive.slice(dataStart, dataStart + compressedSize);
+
+    let content: Blob | ArrayBuffer;
+    if (method === 0) {
+      content = data;
+    } else if (method === 8) {
+      content = await inflateRaw(data);
+    } else {
+      throw new Error(`"${name}" uses an unsupported compression method (${method})`);
+    }
+
+    entries.push({ path: name, file: new File([content], name.split('/').pop() || name) });
+  }
+
+  return entries;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Build an uncompressed ZIP archive; string contents are written as UTF-8
+ */
+export function createZipArchive(files: { path: string; content: string | Uint8Array }[], type = 'application/zip'): Blob {
+  const utf8 = new TextEncoder();
+  const entries = files.map(file => {
+    const data = typeof file.content === 'string' ? utf8.encode(file.content) : file.content;
+    return { name: utf8.encode(file.path), data, crc: crc32(data) };
+  });
+
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  for (const entry of entries) {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    view.setUint16(offset + 4, 20, true); // Version needed to extract
+    view.setUint16(offset + 6, 0x0800, true); // UTF-8 names
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    output.set(entry.name, offset + 30);
+    output.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  }
+
+  const centralStart = offset;
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_ENTRY, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    view.setUint32(offset + 42, localOffsets[i], true);
+    output.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return new Blob([output], { type });
+}
@@ -0,0 +1,56 @@
+/**
+ * Candidate erasure shared by the app and the purge background job
+ * Runtime-neutral: the caller passes its own Supabase client.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Private bucket created in migrations/023_create_resume_versions.sql
+const RESUME_BUCKET = 'resumes';
+
+// Objects per storage remove request
+const REMOVE_BATCH_SIZE = 1000;
+
+export type ErasureReason = 'erasure_request' | 'retention_expired' | 'consent_withdrawn' | 'deleted';
+
+/**
+ * Rows left per table after an erasure (all 0), as returned by erase_candidate (migrations 025, 030)
+ */
+export type ErasureVerification = Record<string, number>;
+
+/**
+ * Remove a candidate's resume files, then every row that refers to the candidate
+ * erase_candidate refuses while files remain and fails unless nothing is left afterwards.
+ */
+export async function eraseCandidate(
+  supabase: SupabaseClient,
+  candidateId: string,
+  reason: ErasureReason
+): Promise<ErasureVerification> {
+  // Every object holding one of their resumes (migration 030): their own prefix, each version's storage_path
+  // (merged versions keep the other candidate's prefix) and the prefixes of candidates merged into them
+  const { data: objects, error: listError } = await supabase.rpc('candidate_resume_objects', {
+    p_candidate_id: candidateId,
+  });
+  if (listError) {
+    throw new Error(`Failed to list resume files of candidate ${candidateId}: ${listError.message}`);
+  }
+
+  const paths: string[] = objects || [];
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error: removeError } = await supabase.storage.from(RESUME_BUCKET).remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+    if (removeError) {
+      throw new Error(`Failed to remove resume files of candidate ${candidateId}: ${removeError.message}`);
+    }
+  }
+
+  const { data, error } = await supabase.rpc('erase_candidate', {
+    p_candidate_id: candidateId,
+    p_reason: reason,
+  });
+  if (error) {
+    throw new Error(`Failed to erase candidate ${candidateId}: ${error.message}`);
+  }
+
+  return data as ErasureVerification;
+}
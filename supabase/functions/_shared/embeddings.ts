@@ -0,0 +1,163 @@
+// Provider-neutral text embeddings shared by the Vite app and the Deno edge functions.
+// Like llm.ts, SDK instances are passed in; this module reads no environment variables.
+//
+// Every stored vector is written together with the provider's model and dimensions
+// (embedding_model / embedding_dimensions columns) so vectors from different models
+// are never compared.
+
+export type EmbeddingProviderName = 'openai' | 'local';
+
+/**
+ * Dimension of the pgvector embedding columns (vector(1536))
+ */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashing-tf-v1';
+
+export interface EmbeddingProvider {
+  readonly provider: EmbeddingProviderName;
+  readonly model: string; // Recorded alongside each vector
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Model metadata written next to a stored vector
+ */
+export interface EmbeddingMetadata {
+  embedding_model: string;
+  embedding_dimensions: number;
+}
+
+export function embeddingMetadata(provider: EmbeddingProvider): EmbeddingMetadata {
+  return {
+    embedding_model: provider.model,
+    embedding_dimensions: provider.dimensions,
+  };
+}
+
+/**
+ * The part of the OpenAI SDK used by the adapter.
+ */
+export interface OpenAIEmbeddingsLike {
+  embeddings: {
+    create(params: any): Promise<{ data: Array<{ embedding: number[] }> }>;
+  };
+}
+
+/**
+ * Wrap an OpenAI SDK instance as an EmbeddingProvider
+ * text-embedding-3 models are asked for `dimensions` directly so vectors fit the pgvector columns.
+ */
+export function createOpenAIEmbeddingProvider(
+  openai: OpenAIEmbeddingsLike,
+  model: string = OPENAI_EMBEDDING_MODEL,
+  dimensions: number = EMBEDDING_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    provider: 'openai',
+    model,
+    dimensions,
+    async embed(text: string): Promise<number[]> {
+      const response = await openai.embeddings.create({
+        model,
+        input: text.trim(),
+        dimensions,
+      });
+
+      if (!response.data || response.data.length === 0) {
+        throw new Error('No embedding data returned from OpenAI API');
+      }
+
+      const embedding = response.data[0].embedding;
+      if (embedding.length !== dimensions) {
+        throw new Error(`Embedding model ${model} returned ${embedding.length} dimensions, expected ${dimensions}`);
+      }
+
+      return embedding;
+    },
+  };
+}
+
+// Frequent words carry little meaning; they get a reduced weight instead of an IDF
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'will', 'with', 'we', 'you', 'our',
+  'your', 'this', 'their', 'they', 'i', 'my', 'me',
+]);
+
+const STOP_WORD_WEIGHT = 0.1;
+const BIGRAM_WEIGHT = 0.5;
+
+function hashToken(token: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9+#.]+/)
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Compute a hashed term-frequency vector (pure, deterministic)
+ *
+ * Unigrams and bigrams are feature-hashed into `dimensions` buckets with a sign hash,
+ * weighted by 1 + log(tf) and L2-normalized, so cosine similarity reflects word overlap.
+ */
+export function hashingEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const tokens = tokenize(text);
+  const counts = new Map<string, { count: number; weight: number }>();
+
+  const add = (feature: string, weight: number) => {
+    const entry = counts.get(feature);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(feature, { count: 1, weight });
+    }
+  };
+
+  tokens.forEach((token, index) => {
+    add(token, STOP_WORDS.has(token) ? STOP_WORD_WEIGHT : 1);
+    if (index > 0) {
+      add(`${tokens[index - 1]} ${token}`, BIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach(({ count, weight }, feature) => {
+    const bucket = hashToken(feature, 0x811c9dc5) % dimensions;
+    const sign = hashToken(feature, 0x9747b28c) & 1 ? 1 : -1;
+    vector[bucket] += sign * weight * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Local CPU embedding provider (no network, no model download)
+ * Lower quality than a neural model but deterministic and always available.
+ */
+export function createHashingEmbeddingProvider(dimensions: number = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  return {
+    provider: 'local',
+    model: LOCAL_EMBEDDING_MODEL,
+    dimensions,
+    async embed(text: string): Promise<number[]> {
+      return hashingEmbedding(text, dimensions);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// Deno-only: builds the EmbeddingProvider for an edge function from its environment.
+// Must select the same model as the app (VITE_EMBEDDING_*), otherwise stored vectors won't be compared.
+
+import OpenAI from 'https://deno.land/x/openai@v4.20.1/mod.ts';
+import {
+  OPENAI_EMBEDDING_MODEL,
+  createHashingEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embeddings.ts';
+
+/**
+ * Create the EmbeddingProvider selected by EMBEDDING_PROVIDER (openai | local)
+ * Defaults to openai when OPENAI_API_KEY is set, otherwise the local hashing model.
+ */
+export function createEmbeddingProviderFromEnv(): EmbeddingProvider {
+  const apiKey = Deno.env.get('OPENAI_API_KEY') ?? '';
+  const provider = (Deno.env.get('EMBEDDING_PROVIDER') || (apiKey ? 'openai' : 'local')).toLowerCase();
+
+  switch (provider) {
+    case 'local':
+      return createHashingEmbeddingProvider();
+
+    case 'openai':
+      if (!apiKey) {
+        throw new Error('Missing OPENAI_API_KEY environment variable');
+      }
+      return createOpenAIEmbeddingProvider(
+        new OpenAI({ apiKey }),
+        Deno.env.get('EMBEDDING_MODEL') || OPENAI_EMBEDDING_MODEL
+      );
+
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}". Expected openai or local.`);
+  }
+}
@@ -0,0 +1,6 @@
+// Persisted background jobs for bulk normalization and embedding work.
+// The job-worker edge function runs them; the app only enqueues and watches background_jobs.
+
+export * from './types.ts';
+export * from './jobTypes.ts';
+export * from './worker.ts';
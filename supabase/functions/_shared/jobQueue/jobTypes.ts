@@ -0,0 +1,289 @@
+import type {
+  BackgroundJobDefinition,
+  BackgroundJobDependencies,
+  BackgroundJobItemResult,
+  BackgroundJobType,
+} from './types.ts';
+import {
+  addRelatedTitles,
+  extractCandidateSkills,
+  generateCandidateEmbeddings,
+  generateJobEmbeddings,
+  normalizeJobTitle,
+  normalizeLocation,
+  parseResume,
+} from '../normalization/index.ts';
+import { eraseCandidate } from '../dataProtection.ts';
+
+/**
+ * Plain text of a candidate's stored resume (resume_data.html_content), or '' when missing
+ */
+export function resumeTextFromResumeData(resumeData: unknown): string {
+  let data: any = resumeData;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return '';
+    }
+  }
+  if (!data || typeof data.html_content !== 'string') {
+    return '';
+  }
+  return data.html_content
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+async function updateRow(
+  deps: BackgroundJobDependencies,
+  table: string,
+  id: string,
+  values: Record<string, unknown>
+): Promise<void> {
+  const { error } = await deps.supabase.from(table).update(values).eq('id', id);
+  if (error) {
+    throw new Error(`Failed to update ${table} ${id}: ${error.message}`);
+  }
+}
+
+async function embedOrThrow(deps: BackgroundJobDependencies, text: string): Promise<number[]> {
+  const embedding = await deps.embeddings.embed(text);
+  if (!embedding || embedding.length === 0) {
+    throw new Error(`Empty embedding for "${text}"`);
+  }
+  return embedding;
+}
+
+// A title or location vector with the model that produced it (<column>_model / <column>_dimensions, migration 012)
+function vectorColumns(deps: BackgroundJobDependencies, column: string, embedding: number[]): Record<string, unknown> {
+  return {
+    [column]: embedding,
+    [`${column}_model`]: deps.embeddings.model,
+    [`${column}_dimensions`]: deps.embeddings.dimensions,
+  };
+}
+
+/**
+ * Normalize a title, embed it and store both
+ * @param skipUnchanged - Leave rows whose stored normalized title is already the same
+ */
+async function normalizeTitleRow(
+  deps: BackgroundJobDependencies,
+  table: 'candidates' | 'jobs',
+  id: string,
+  title: string | null,
+  current: string | null,
+  columns: { normalized: string; embedding: string },
+  skipUnchanged: boolean
+): Promise<BackgroundJobItemResult> {
+  if (!title || title.trim().length === 0) {
+    return 'skipped';
+  }
+
+  const normalizedTitle = await normalizeJobTitle(deps.llm, title);
+  if (skipUnchanged && normalizedTitle === (current || '').toLowerCase().trim()) {
+    return 'skipped';
+  }
+
+  const embedding = await embedOrThrow(deps, normalizedTitle);
+  await updateRow(deps, table, id, {
+    [columns.normalized]: normalizedTitle,
+    ...vectorColumns(deps, columns.embedding, embedding),
+  });
+  return 'processed';
+}
+
+async function normalizeLocationRow(
+  deps: BackgroundJobDependencies,
+  table: 'candidates' | 'jobs',
+  id: string,
+  location: string | null
+): Promise<BackgroundJobItemResult> {
+  if (!location || location.trim().length === 0) {
+    return 'skipped';
+  }
+
+  const normalizedLocation = await normalizeLocation(deps.llm, location);
+  const embedding = await embedOrThrow(deps, normalizedLocation);
+  await updateRow(deps, table, id, {
+    normalized_location: normalizedLocation,
+    ...vectorColumns(deps, 'location_embedding', embedding),
+  });
+  return 'processed';
+}
+
+/**
+ * One definition per job type; the worker pages through `table` by id with `filter` applied
+ * Filters that exclude finished rows (e.g. normalized_location IS NULL) keep resumed jobs cheap.
+ */
+export const BACKGROUND_JOB_TYPES: Record<BackgroundJobType, BackgroundJobDefinition> = {
+  normalize_candidate_job_titles: {
+    label: 'Normalize candidate job titles',
+    table: 'candidates',
+    columns: 'id, job_title, normalized_job_title',
+    batchSize: 5,
+    delayMs: 2000,
+    filter: query => query.not('job_title', 'is', null).neq('job_title', '').is('normalized_job_title', null),
+    processItem: (deps, item) => normalizeTitleRow(
+      deps, 'candidates', item.id, item.job_title, item.normalized_job_title,
+      { normalized: 'normalized_job_title', embedding: 'job_title_embedding' }, false
+    ),
+  },
+
+  renormalize_candidate_job_titles: {
+    label: 'Re-normalize all candidate job titles',
+    table: 'candidates',
+    columns: 'id, job_title, normalized_job_title',
+    batchSize: 5,
+    delayMs: 2000,
+    filter: query => query.not('job_title', 'is', null).neq('job_title', ''),
+    processItem: (deps, item) => normalizeTitleRow(
+      deps, 'candidates', item.id, item.job_title, item.normalized_job_title,
+      { normalized: 'normalized_job_title', embedding: 'job_title_embedding' }, true
+    ),
+  },
+
+  normalize_job_titles: {
+    label: 'Normalize job titles',
+    table: 'jobs',
+    columns: 'id, title, normalized_title',
+    batchSize: 5,
+    delayMs: 2000,
+    filter: query => query.not('title', 'is', null).neq('title', '').is('normalized_title', null),
+    processItem: (deps, item) => normalizeTitleRow(
+      deps, 'jobs', item.id, item.title, item.normalized_title,
+      { normalized: 'normalized_title', embedding: 'title_embedding' }, false
+    ),
+  },
+
+  normalize_candidate_locations: {
+    label: 'Normalize candidate locations',
+    table: 'candidates',
+    columns: 'id, location',
+    batchSize: 5,
+    delayMs: 2000,
+    filter: query => query.not('location', 'is', null).neq('location', '').is('normalized_location', null),
+    processItem: (deps, item) => normalizeLocationRow(deps, 'candidates', item.id, item.location),
+  },
+
+  normalize_job_locations: {
+    label: 'Normalize job locations',
+    table: 'jobs',
+    columns: 'id, location',
+    batchSize: 5,
+    delayMs: 2000,
+    filter: query => query.not('location', 'is', null).neq('location', '').is('normalized_location', null),
+    processItem: (deps, item) => normalizeLocationRow(deps, 'jobs', item.id, item.location),
+  },
+
+  update_candidate_skills: {
+    label: 'Extract candidate skills from resumes',
+    table: 'candidates',
+    columns: 'id, resume_data',
+    batchSize: 3,
+    delayMs: 3000,
+    filter: query => query.not('resume_data', 'is', null),
+    async processItem(deps, item) {
+      const resumeText = resumeTextFromResumeData(item.resume_data);
+      if (!resumeText) {
+        return 'skipped';
+      }
+
+      const skills = await extractCandidateSkills(deps.llm, item.id, resumeText);
+      if (skills.length === 0) {
+        throw new Error('No skills extracted from resume');
+      }
+
+      await updateRow(deps, 'candidates', item.id, { skills });
+      return 'processed';
+    },
+  },
+
+  update_candidate_unified_titles: {
+    label: 'Update candidate unified titles',
+    table: 'candidates',
+    columns: 'id, resume_data',
+    batchSize: 1,
+    delayMs: 1000,
+    filter: query => query.not('resume_data', 'is', null),
+    async processItem(deps, item) {
+      const resumeText = resumeTextFromResumeData(item.resume_data);
+      if (!resumeText) {
+        return 'skipped';
+      }
+
+      const { data } = await parseResume(deps.llm, resumeText);
+      const parsedTitles = (data.unified_titles || []).filter(title => title && title.trim() !== '');
+      if (parsedTitles.length === 0) {
+        return 'skipped';
+      }
+      // Add related titles (e.g., CMO → Marketing Manager)
+      const unifiedTitles = addRelatedTitles(parsedTitles);
+
+      const { error: deleteError } = await deps.supabase
+        .from('candidate_unified_titles')
+        .delete()
+        .eq('candidate_id', item.id);
+      if (deleteError) {
+        throw new Error(`Failed to clear unified titles: ${deleteError.message}`);
+      }
+
+      const { error: insertError } = await deps.supabase
+        .from('candidate_unified_titles')
+        .insert(unifiedTitles.map(title => ({ candidate_id: item.id, unified_title: title })));
+      if (insertError) {
+        throw new Error(`Failed to insert unified titles: ${insertError.message}`);
+      }
+
+      await updateRow(deps, 'candidates', item.id, { unified_titles: unifiedTitles });
+      return 'processed';
+    },
+  },
+
+  generate_candidate_embeddings: {
+    label: 'Generate candidate embeddings',
+    table: 'candidates',
+    columns: 'id',
+    batchSize: 5,
+    delayMs: 1000,
+    filter: query => query,
+    async processItem(deps, item) {
+      await generateCandidateEmbeddings(deps.supabase, deps.embeddings, item.id);
+      return 'processed';
+    },
+  },
+
+  // Jobs that are new or whose embedded fields changed (migration 026 clears their embeddings)
+  generate_job_embeddings: {
+    label: 'Generate job embeddings',
+    table: 'jobs',
+    columns: 'id',
+    batchSize: 5,
+    delayMs: 1000,
+    filter: query => query.is('meta_embedding', null),
+    async processItem(deps, item) {
+      await generateJobEmbeddings(deps.supabase, deps.embeddings, item.id);
+      return 'processed';
+    },
+  },
+
+  // Candidates past their retention window or who withdrew consent (view from migration 025)
+  purge_expired_candidates: {
+    label: 'Purge candidates past retention',
+    table: 'candidates_due_for_purge',
+    columns: 'id, reason',
+    batchSize: 5,
+    delayMs: 0,
+    filter: query => query,
+    async processItem(deps, item) {
+      await eraseCandidate(deps.supabase, item.id, item.reason);
+      return 'processed';
+    },
+  },
+};
+
+export function isBackgroundJobType(value: unknown): value is BackgroundJobType {
+  return typeof value === 'string' && value in BACKGROUND_JOB_TYPES;
+}
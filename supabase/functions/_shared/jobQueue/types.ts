@@ -0,0 +1,80 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { LLMClient } from '../llm.ts';
+import type { EmbeddingProvider } from '../embeddings.ts';
+
+export type BackgroundJobType =
+  | 'normalize_candidate_job_titles'
+  | 'renormalize_candidate_job_titles'
+  | 'normalize_job_titles'
+  | 'normalize_candidate_locations'
+  | 'normalize_job_locations'
+  | 'update_candidate_skills'
+  | 'update_candidate_unified_titles'
+  | 'generate_candidate_embeddings'
+  | 'generate_job_embeddings'
+  | 'purge_expired_candidates';
+
+export type BackgroundJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BackgroundJobParams {
+  item_ids?: string[]; // Only process these rows (used by retries)
+}
+
+/**
+ * A row of background_jobs (migration 018)
+ */
+export interface BackgroundJob {
+  id: string;
+  type: BackgroundJobType;
+  status: BackgroundJobStatus;
+  params: BackgroundJobParams;
+  total_items: number | null;
+  processed_items: number;
+  skipped_items: number;
+  failed_items: number;
+  cursor: string | null; // Last processed row id; work resumes after it
+  lease_expires_at: string | null;
+  attempts: number;
+  last_error: string | null;
+  retry_of: string | null;
+  created_by_user_id: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * A row of background_job_failures: one item that threw while its job ran
+ */
+export interface BackgroundJobFailure {
+  id: string;
+  job_id: string;
+  item_id: string;
+  error: string;
+  created_at: string;
+}
+
+/**
+ * Injected clients; the worker reads no environment variables
+ */
+export interface BackgroundJobDependencies {
+  supabase: SupabaseClient; // Service role: jobs update and erase rows of every user
+  llm: LLMClient;
+  embeddings: EmbeddingProvider;
+}
+
+/**
+ * Outcome of one item: 'skipped' when there was nothing to do (e.g. an empty resume)
+ */
+export type BackgroundJobItemResult = 'processed' | 'skipped';
+
+export interface BackgroundJobDefinition {
+  label: string;
+  table: 'candidates' | 'jobs' | 'candidates_due_for_purge';
+  columns: string; // Must include id
+  batchSize: number; // Items processed in parallel
+  delayMs: number; // Pause between batches to stay under provider rate limits
+  filter(query: any): any; // Narrows the table to the rows this job should process
+  processItem(deps: BackgroundJobDependencies, item: any): Promise<BackgroundJobItemResult>;
+}
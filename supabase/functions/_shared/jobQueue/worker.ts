@@ -0,0 +1,193 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type {
+  BackgroundJob,
+  BackgroundJobDefinition,
+  BackgroundJobDependencies,
+  BackgroundJobStatus,
+} from './types.ts';
+import { BACKGROUND_JOB_TYPES } from './jobTypes.ts';
+
+export const DEFAULT_LEASE_SECONDS = 300;
+
+export interface RunBackgroundJobOptions {
+  timeBudgetMs?: number; // Re-queue the job (keeping its cursor) once this much time has passed
+  leaseSeconds?: number;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Claim a queued job (or a running one whose worker died) via claim_background_job
+ * @param jobId - Claim this job only; otherwise the oldest claimable job
+ * @returns null when there is nothing to run
+ */
+export async function claimBackgroundJob(
+  supabase: SupabaseClient,
+  jobId?: string | null,
+  leaseSeconds: number = DEFAULT_LEASE_SECONDS
+): Promise<BackgroundJob | null> {
+  const { data, error } = await supabase.rpc('claim_background_job', {
+    p_job_id: jobId ?? null,
+    p_lease_seconds: leaseSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim background job: ${error.message}`);
+  }
+
+  return (data && data[0]) || null;
+}
+
+function scopedQuery(supabase: SupabaseClient, definition: BackgroundJobDefinition, job: BackgroundJob, select: string, options?: { count?: 'exact'; head?: boolean }) {
+  let query = definition.filter(supabase.from(definition.table).select(select, options));
+  if (job.params?.item_ids) {
+    query = query.in('id', job.params.item_ids);
+  }
+  return query;
+}
+
+async function countItems(supabase: SupabaseClient, definition: BackgroundJobDefinition, job: BackgroundJob): Promise<number> {
+  const { count, error } = await scopedQuery(supabase, definition, job, 'id', { count: 'exact', head: true });
+  if (error) {
+    throw new Error(`Failed to count ${definition.table}: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+async function fetchBatch(supabase: SupabaseClient, definition: BackgroundJobDefinition, job: BackgroundJob): Promise<any[]> {
+  let query = scopedQuery(supabase, definition, job, definition.columns);
+  if (job.cursor) {
+    query = query.gt('id', job.cursor);
+  }
+
+  const { data, error } = await query.order('id', { ascending: true }).limit(definition.batchSize);
+  if (error) {
+    throw new Error(`Failed to fetch ${definition.table}: ${error.message}`);
+  }
+  return data || [];
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, values: Partial<BackgroundJob>): Promise<void> {
+  const { error } = await supabase
+    .from('background_jobs')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) {
+    throw new Error(`Failed to update background job ${jobId}: ${error.message}`);
+  }
+}
+
+async function getJobStatus(supabase: SupabaseClient, jobId: string): Promise<BackgroundJobStatus | null> {
+  const { data, error } = await supabase
+    .from('background_jobs')
+    .select('status')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read background job ${jobId}: ${error.message}`);
+  }
+  return data?.status ?? null;
+}
+
+/**
+ * Run a claimed job batch by batch from its cursor
+ *
+ * After every batch the counters, cursor and lease are saved, so a job that is cancelled,
+ * runs out of time or loses its worker resumes after the last finished batch.
+ * Items that throw are recorded in background_job_failures and do not stop the job.
+ *
+ * @returns The job's status when this run stopped ('queued' = time budget used up, more to do)
+ */
+export async function runBackgroundJob(
+  deps: BackgroundJobDependencies,
+  job: BackgroundJob,
+  options: RunBackgroundJobOptions = {}
+): Promise<BackgroundJobStatus> {
+  const { supabase } = deps;
+  const definition = BACKGROUND_JOB_TYPES[job.type];
+  const leaseSeconds = options.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+  const deadline = options.timeBudgetMs ? Date.now() + options.timeBudgetMs : Infinity;
+  const current: BackgroundJob = { ...job };
+
+  try {
+    if (!definition) {
+      throw new Error(`Unknown background job type: ${job.type}`);
+    }
+
+    if (current.total_items === null) {
+      current.total_items = await countItems(supabase, definition, current);
+      await updateJob(supabase, current.id, { total_items: current.total_items });
+    }
+
+    console.log(`Running background job ${current.id} (${current.type}) from cursor ${current.cursor ?? 'start'}...`);
+
+    while (true) {
+      if (await getJobStatus(supabase, current.id) === 'cancelled') {
+        console.log(`Background job ${current.id} was cancelled`);
+        return 'cancelled';
+      }
+
+      if (Date.now() >= deadline) {
+        await updateJob(supabase, current.id, { status: 'queued', lease_expires_at: null });
+        return 'queued';
+      }
+
+      const batch = await fetchBatch(supabase, definition, current);
+      if (batch.length === 0) {
+        await updateJob(supabase, current.id, {
+          status: 'completed',
+          finished_at: new Date().toISOString(),
+          lease_expires_at: null,
+        });
+        console.log(`Background job ${current.id} completed: ${current.processed_items} processed, ${current.skipped_items} skipped, ${current.failed_items} failed`);
+        return 'completed';
+      }
+
+      const results = await Promise.allSettled(batch.map(item => definition.processItem(deps, item)));
+
+      const failures = results.flatMap((result, index) => (
+        result.status === 'rejected'
+          ? [{ job_id: current.id, item_id: String(batch[index].id), error: errorMessage(result.reason) }]
+          : []
+      ));
+      if (failures.length > 0) {
+        const { error } = await supabase
+          .from('background_job_failures')
+          .upsert(failures, { onConflict: 'job_id,item_id' });
+        if (error) {
+          console.error(`Failed to record failures for background job ${current.id}:`, error);
+        }
+      }
+
+      current.processed_items += results.filter(r => r.status === 'fulfilled' && r.value === 'processed').length;
+      current.skipped_items += results.filter(r => r.status === 'fulfilled' && r.value === 'skipped').length;
+      current.failed_items += failures.length;
+      current.cursor = String(batch[batch.length - 1].id);
+
+      await updateJob(supabase, current.id, {
+        processed_items: current.processed_items,
+        skipped_items: current.skipped_items,
+        failed_items: current.failed_items,
+        cursor: current.cursor,
+        lease_expires_at: new Date(Date.now() + leaseSeconds * 1000).toISOString(),
+      });
+
+      if (batch.length === definition.batchSize && definition.delayMs > 0) {
+        await sleep(definition.delayMs);
+      }
+    }
+  } catch (error) {
+    console.error(`Background job ${current.id} failed:`, error);
+    await updateJob(supabase, current.id, {
+      status: 'failed',
+      last_error: errorMessage(error),
+      finished_at: new Date().toISOString(),
+      lease_expires_at: null,
+    }).catch(updateError => console.error('Failed to mark background job as failed:', updateError));
+    return 'failed';
+  }
+}
@@ -0,0 +1,206 @@
+// Provider-neutral chat-completion layer shared by the Vite app and the Deno edge functions.
+// Callers depend on LLMClient only; provider SDK instances are passed to the adapters below,
+// so this module never imports an SDK or reads environment variables itself.
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'stub';
+
+/**
+ * Model tiers used by call sites instead of hard-coded model names.
+ * Each provider maps a tier to a concrete model (see OPENAI_MODELS / ANTHROPIC_MODELS).
+ */
+export type LLMModelTier = 'fast' | 'standard' | 'advanced';
+
+export type LLMModelMap = Record<LLMModelTier, string>;
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: string; // Stable name of the call site (e.g. 'resume.parse'), used for logging and stub fixtures
+  tier?: LLMModelTier; // Defaults to 'standard'
+  model?: string; // Explicit provider model, overrides tier
+  system?: string;
+  history?: LLMMessage[]; // Earlier conversation turns, sent before prompt
+  prompt: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens: number;
+  json?: boolean; // Ask the provider for a JSON object response
+}
+
+export interface LLMClient {
+  readonly provider: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+export const OPENAI_MODELS: LLMModelMap = {
+  fast: 'gpt-3.5-turbo',
+  standard: 'gpt-4o-mini',
+  advanced: 'gpt-4o',
+};
+
+export const ANTHROPIC_MODELS: LLMModelMap = {
+  fast: 'claude-3-5-haiku-latest',
+  standard: 'claude-3-5-haiku-latest',
+  advanced: 'claude-sonnet-4-20250514',
+};
+
+function resolveModel(request: LLMCompletionRequest, models: LLMModelMap): string {
+  return request.model || models[request.tier || 'standard'];
+}
+
+/**
+ * The part of the OpenAI SDK used by the adapter.
+ * Both the npm package and the Deno module expose this shape.
+ */
+export interface OpenAIChatCompletionsLike {
+  chat: {
+    completions: {
+      create(params: any): Promise<{ choices: Array<{ message?: { content?: string | null } }> }>;
+    };
+  };
+}
+
+/**
+ * Wrap an OpenAI SDK instance as an LLMClient
+ */
+export function createOpenAIChatClient(
+  openai: OpenAIChatCompletionsLike,
+  models: LLMModelMap = OPENAI_MODELS
+): LLMClient {
+  return {
+    provider: 'openai',
+    async complete(request: LLMCompletionRequest): Promise<string> {
+      const model = resolveModel(request, models);
+      // o1 models don't support system messages, temperature or top_p
+      const isO1Model = model.startsWith('o1-');
+
+      const messages = [
+        ...(request.system && !isO1Model ? [{ role: 'system', content: request.system }] : []),
+        ...(request.history || []),
+        {
+          role: 'user',
+          content: request.system && isO1Model ? `${request.system}\n\n${request.prompt}` : request.prompt,
+        },
+      ];
+
+      const response = await openai.chat.completions.create({
+        model,
+        messages,
+        max_tokens: request.maxTokens,
+        ...(!isO1Model && request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(!isO1Model && request.topP !== undefined ? { top_p: request.topP } : {}),
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      });
+
+      const content = response.choices[0]?.message?.content?.trim();
+      if (!content) {
+        throw new Error('No response content from OpenAI');
+      }
+
+      return content;
+    },
+  };
+}
+
+/**
+ * The part of the Anthropic SDK used by the adapter.
+ */
+export interface AnthropicMessagesLike {
+  messages: {
+    create(params: any): Promise<{ content: Array<{ type: string; text?: string }> }>;
+  };
+}
+
+/**
+ * Wrap an Anthropic SDK instance as an LLMClient
+ *
+ * Anthropic has no JSON response mode; prompts that set json already ask for JSON only,
+ * and callers strip markdown fences before parsing.
+ */
+export function createAnthropicChatClient(
+  anthropic: AnthropicMessagesLike,
+  models: LLMModelMap = ANTHROPIC_MODELS
+): LLMClient {
+  return {
+    provider: 'anthropic',
+    async complete(request: LLMCompletionRequest): Promise<string> {
+      const response = await anthropic.messages.create({
+        model: resolveModel(request, models),
+        max_tokens: request.maxTokens,
+        ...(request.system ? { system: request.system } : {}),
+        messages: [
+          ...(request.history || []),
+          { role: 'user', content: request.prompt },
+        ],
+        ...(request.temperature !== undefined ? { temperature: Math.min(1, request.temperature) } : {}),
+        ...(request.topP !== undefined && request.temperature === undefined ? { top_p: request.topP } : {}),
+      });
+
+      const content = response.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('')
+        .trim();
+
+      if (!content) {
+        throw new Error('No response content from Anthropic');
+      }
+
+      return content;
+    },
+  };
+}
+
+/**
+ * A stub response: fixed text, or a function of the request for prompt-dependent output
+ */
+export type LLMStubFixture = string | ((request: LLMCompletionRequest) => string);
+
+/**
+ * Deterministic offline LLMClient
+ *
+ * Looks up the fixture registered for request.task; when a task has no fixture, the
+ * longest registered prefix ending in '.' is used (e.g. 'matching.' covers 'matching.neural_rank').
+ * Makes no network calls, so the app runs with no API keys.
+ */
+export function createStubLLMClient(fixtures: Record<string, LLMStubFixture>): LLMClient {
+  const findFixture = (task: string): LLMStubFixture | undefined => {
+    if (fixtures[task] !== undefined) {
+      return fixtures[task];
+    }
+
+    const prefixes = Object.keys(fixtures)
+      .filter(key => key.endsWith('.') && task.startsWith(key))
+      .sort((a, b) => b.length - a.length);
+
+    return prefixes.length > 0 ? fixtures[prefixes[0]] : undefined;
+  };
+
+  return {
+    provider: 'stub',
+    async complete(request: LLMCompletionRequest): Promise<string> {
+      const fixture = findFixture(request.task);
+      if (fixture === undefined) {
+        throw new Error(`No stub LLM fixture registered for task "${request.task}"`);
+      }
+
+      return typeof fixture === 'function' ? fixture(request) : fixture;
+    },
+  };
+}
+
+/**
+ * Stable score in [0, 1) derived from a string (FNV-1a hash)
+ * Used by stub fixtures so that the same input always yields the same score.
+ */
+export function deterministicScore(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
@@ -0,0 +1,55 @@
+// Deno-only: builds the LLMClient for an edge function from its environment.
+// Kept apart from llm.ts so the Vite app never pulls in Deno globals or esm.sh imports.
+
+import OpenAI from 'https://deno.land/x/openai@v4.20.1/mod.ts';
+import Anthropic from 'https://esm.sh/@anthropic-ai/sdk@0.70.1';
+import {
+  ANTHROPIC_MODELS,
+  OPENAI_MODELS,
+  createAnthropicChatClient,
+  createOpenAIChatClient,
+  createStubLLMClient,
+  type LLMClient,
+  type LLMModelMap,
+} from './llm.ts';
+import { DEFAULT_STUB_FIXTURES } from './llmFixtures.ts';
+
+function withOverrides(models: LLMModelMap): LLMModelMap {
+  return {
+    fast: Deno.env.get('LLM_MODEL_FAST') || models.fast,
+    standard: Deno.env.get('LLM_MODEL_STANDARD') || models.standard,
+    advanced: Deno.env.get('LLM_MODEL_ADVANCED') || models.advanced,
+  };
+}
+
+/**
+ * Create the LLMClient selected by LLM_PROVIDER (openai by default, anthropic or stub)
+ * Throws when the selected provider's API key is missing.
+ */
+export function createLLMClientFromEnv(): LLMClient {
+  const provider = (Deno.env.get('LLM_PROVIDER') || 'openai').toLowerCase();
+
+  switch (provider) {
+    case 'stub':
+      return createStubLLMClient(DEFAULT_STUB_FIXTURES);
+
+    case 'anthropic': {
+      const apiKey = Deno.env.get('ANTHROPIC_API_KEY') ?? '';
+      if (!apiKey) {
+        throw new Error('Missing ANTHROPIC_API_KEY environment variable');
+      }
+      return createAnthropicChatClient(new Anthropic({ apiKey }), withOverrides(ANTHROPIC_MODELS));
+    }
+
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY') ?? '';
+      if (!apiKey) {
+        throw new Error('Missing OPENAI_API_KEY environment variable');
+      }
+      return createOpenAIChatClient(new OpenAI({ apiKey }), withOverrides(OPENAI_MODELS));
+    }
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected openai, anthropic or stub.`);
+  }
+}
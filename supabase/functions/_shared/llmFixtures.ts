@@ -0,0 +1,141 @@
+// Default fixtures for the stub LLM provider (LLM_PROVIDER / VITE_LLM_PROVIDER = stub).
+// Responses are derived from the prompt so that the same input always gives the same output,
+// and follow the format each call site parses. Keyed by LLMCompletionRequest.task.
+
+import { deterministicScore, type LLMCompletionRequest, type LLMStubFixture } from './llm.ts';
+
+/**
+ * Text between the first pair of double quotes, or the text after the first colon
+ */
+function extractQuotedInput(prompt: string): string {
+  const quoted = prompt.match(/"([^"]*)"/);
+  if (quoted) {
+    return quoted[1].trim();
+  }
+  const colon = prompt.indexOf(':');
+  return (colon === -1 ? prompt : prompt.slice(colon + 1)).trim();
+}
+
+/**
+ * Text following the last occurrence of a marker line (e.g. 'Resume content:')
+ */
+function textAfter(prompt: string, marker: string): string {
+  const index = prompt.lastIndexOf(marker);
+  return index === -1 ? prompt.trim() : prompt.slice(index + marker.length).trim();
+}
+
+function firstLine(text: string): string {
+  return text.split('\n').map(line => line.trim()).find(line => line.length > 0) || '';
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function parseStubResume(request: LLMCompletionRequest): string {
+  const resumeText = textAfter(request.prompt, 'Resume content:');
+  const email = resumeText.match(/[\w.+-]+@[\w-]+\.[\w.-]+/)?.[0];
+  const phone = resumeText.match(/\+?\d[\d\s()-]{7,}\d/)?.[0];
+
+  const data = {
+    full_name: firstLine(resumeText).slice(0, 80),
+    main_job_title: '',
+    unified_titles: [],
+    main_industries: [],
+    other_related_industries: [],
+    location: '',
+    linkedin: 'Not found',
+    github: 'Not found',
+    portfolio: 'Not found',
+    total_work_experience_years: 0,
+    last_updated_date: new Date().toISOString().split('T')[0],
+    phone_number: phone || 'Not found',
+    email: email || 'Not found',
+    other_social_media: 'Not found',
+    company_names: [],
+    skills: [],
+    work_history: [],
+    education: [],
+  };
+
+  return `FORMATTED_RESUME:\n${resumeText}\n\nJSON_DATA:\n${JSON.stringify(data, null, 2)}`;
+}
+
+function rankBatch(idField: 'candidate_id' | 'vacancy_id'): LLMStubFixture {
+  return (request: LLMCompletionRequest) => {
+    const ids = Array.from(request.prompt.matchAll(/\(ID: ([^)]+)\)/g), match => match[1]);
+
+    return JSON.stringify({
+      results: ids.map(id => ({
+        [idField]: id,
+        llm_score: Number(deterministicScore(`${id}:${request.prompt.length}`).toFixed(2)),
+        explanation: 'Stub explanation: relevant functional experience for this role.',
+      })),
+    });
+  };
+}
+
+function splitSkills(request: LLMCompletionRequest): string {
+  const skills = textAfter(request.prompt, 'Normalize these skills:')
+    .split(',')
+    .map(skill => skill.trim().toLowerCase())
+    .filter(skill => skill.length > 0);
+
+  return JSON.stringify(Array.from(new Set(skills)));
+}
+
+export const DEFAULT_STUB_FIXTURES: Record<string, LLMStubFixture> = {
+  // Matching pipeline
+  'matching.neural_rank': request => deterministicScore(request.prompt).toFixed(2),
+  'matching.batch_explanations': rankBatch('candidate_id'),
+  'matching.reverse_batch_explanations': rankBatch('vacancy_id'),
+
+  // Chat assistant
+  'chat.message': 'This is a stub response. Set VITE_LLM_PROVIDER to openai or anthropic for real answers.',
+  'candidate.analyze': 'Stub analysis: the candidate profile was received and looks complete.',
+
+  // Resumes
+  'resume.parse': parseStubResume,
+  'resume.summary': request => `Stub summary. ${firstLine(textAfter(request.prompt, 'Resume content:')).slice(0, 200)}`,
+  'resume.reformat': request => textAfter(request.prompt, 'Here is the resume to convert:').split('\n---\n')[0].trim(),
+
+  // Skills
+  'skills.normalize': splitSkills,
+  'skills.extract': '[]',
+
+  // Job descriptions
+  'job.parse_basic': request => JSON.stringify({
+    job_title: firstLine(textAfter(request.prompt, 'Job description content:')).slice(0, 120),
+    company_name: '',
+    location: '',
+  }),
+  'job.parse_industry_skills': JSON.stringify({
+    company_industry: 'Unknown',
+    hard_skills_mentioned_in_job_description: '',
+    skill_requirements: [],
+  }),
+  'job.validate': JSON.stringify({
+    company_industry: 'Unknown',
+    hard_skills_mentioned_in_job_description: '',
+    unified_titles: [],
+    employment_type: 'Full-time',
+    seniority_level: 'Not Applicable',
+  }),
+  'query.rewrite': request => {
+    const title = titleCase(firstLine(textAfter(request.prompt, 'Job Description:')).slice(0, 80)) || 'Other';
+    return JSON.stringify({
+      primary_title: title,
+      alternate_titles: [],
+      core_responsibilities: [],
+      skill_groups: [],
+      industry: 'Other',
+      expanded_keywords: title.toLowerCase().split(/\s+/).filter(Boolean),
+    });
+  },
+
+  // Normalization
+  'job_title.normalize': request => extractQuotedInput(request.prompt).toLowerCase(),
+  'location.normalize': request => titleCase(extractQuotedInput(request.prompt).toLowerCase()),
+  'location.standardize': request => extractQuotedInput(request.prompt),
+  'unified_titles.classify': '[]',
+};
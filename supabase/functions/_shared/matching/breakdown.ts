@@ -0,0 +1,197 @@
+import type {
+  BreakdownCandidate,
+  MatchBreakdown,
+  MatchingDependencies,
+  MatchingVacancy,
+  PenalizedPreScoreMatchResult,
+  PenalizedVacancyPreScoreMatchResult,
+} from './types.ts';
+import {
+  areIndustriesRelated,
+  areTitlesSimilar,
+  calculateSkillMatchPercentage,
+  calculateSkillOverlap,
+} from './stringSimilarity.ts';
+import { calculateTitleScore } from './vectorSimilarity.ts';
+import { calculateLocationMatchingScore } from './locationMatchingScore.ts';
+import { getVacancySkillRequirements, skillsWithPriority } from './skillRequirements.ts';
+import { calculateSalaryFit } from './salary.ts';
+import { calculateSeniorityDistance, getCandidateSeniority } from './seniority.ts';
+import { calculateWorkHistorySignals } from './workHistory.ts';
+
+// The pre-score fields a breakdown reads; forward and reverse pre-score rows both have them
+type BreakdownPreScore = Pick<PenalizedPreScoreMatchResult, 'meta_similarity' | 'content_similarity' | 'soft_penalty' | 'fired_penalties'>;
+
+/**
+ * Build the factor breakdown for one candidate (pure)
+ *
+ * @param vacancyTitleEmbedding - Vacancy title embedded with the candidate's embedding model, or null
+ */
+export function buildMatchBreakdown(
+  vacancy: MatchingVacancy,
+  candidate: BreakdownCandidate,
+  preScore: BreakdownPreScore,
+  vacancyTitleEmbedding: number[] | null
+): MatchBreakdown {
+  const vacancyTitle = vacancy.title || null;
+  const candidateTitle = candidate.general_title || null;
+  const vacancyLocation = vacancy.location || '';
+  const candidateLocation = candidate.location || '';
+  const skillRequirements = getVacancySkillRequirements(vacancy);
+  const vacancySkills = skillRequirements.map(r => r.skill);
+  const requiredSkills = skillsWithPriority(skillRequirements, 'required');
+  const candidateSkills = candidate.skills || [];
+  const vacancyIndustry = vacancy.industry || '';
+  const candidateIndustry = candidate.industry || '';
+
+  // Vacancies have no relocation/remote flags yet: remote comes from the location text and
+  // relocation is assumed to be accepted (same defaults as JobMatchesPage)
+  const relocationLocations = candidate.ready_to_relocate_to || [];
+  const location = calculateLocationMatchingScore(
+    candidateLocation,
+    relocationLocations.length > 0,
+    relocationLocations,
+    vacancyLocation,
+    vacancyLocation.toLowerCase().includes('remote'),
+    true
+  );
+
+  const skillOverlap = calculateSkillOverlap(vacancySkills, candidateSkills);
+  const titleExact = !!vacancyTitle && !!candidateTitle && vacancyTitle.toLowerCase() === candidateTitle.toLowerCase();
+  const candidateSeniority = getCandidateSeniority(candidate);
+  const industryExact = !!vacancyIndustry && !!candidateIndustry && vacancyIndustry.toLowerCase() === candidateIndustry.toLowerCase();
+
+  return {
+    meta_similarity: preScore.meta_similarity,
+    content_similarity: preScore.content_similarity,
+    title: {
+      candidate_title: candidateTitle,
+      vacancy_title: vacancyTitle,
+      score: vacancyTitleEmbedding && candidate.job_title_embedding
+        ? calculateTitleScore(candidate.job_title_embedding, vacancyTitleEmbedding)
+        : null,
+      exact_match: titleExact,
+      similar: titleExact || (!!vacancyTitle && !!candidateTitle && areTitlesSimilar(candidateTitle.toLowerCase(), vacancyTitle.toLowerCase())),
+    },
+    location: {
+      candidate_location: candidate.location,
+      vacancy_location: vacancy.location,
+      score: location.score,
+      factors: location.factors,
+    },
+    skills: {
+      ...skillOverlap,
+      missing_required: skillOverlap.missing.filter(skill => requiredSkills.includes(skill)),
+      match_percentage: calculateSkillMatchPercentage(requiredSkills, candidateSkills),
+    },
+    industry: {
+      candidate_industry: candidate.industry,
+      vacancy_industry: vacancy.industry,
+      exact_match: industryExact,
+      related: industryExact || (!!vacancyIndustry && !!candidateIndustry && areIndustriesRelated(candidateIndustry, vacancyIndustry)),
+    },
+    soft_penalties: {
+      fired: preScore.fired_penalties,
+      applied: preScore.soft_penalty,
+    },
+    salary: calculateSalaryFit(
+      { min: candidate.salary_min, max: candidate.salary_max, unit: candidate.salary_unit },
+      { min: vacancy.salary_min, max: vacancy.salary_max, unit: vacancy.salary_unit, currency: vacancy.salary_currency }
+    ),
+    seniority: {
+      candidate_level: candidateSeniority,
+      vacancy_level: vacancy.seniority_level,
+      candidate_years: candidate.experience_years,
+      distance: calculateSeniorityDistance(vacancy.seniority_level, candidateSeniority),
+    },
+    work_history: calculateWorkHistorySignals(candidate.work_history || [], vacancyTitle),
+  };
+}
+
+/**
+ * Build breakdowns for the ranked candidates
+ * The title score needs deps.embeddings and is left null when the candidate's title was embedded with another model.
+ * A failure here never blocks matching; affected candidates get no breakdown.
+ */
+export async function buildMatchBreakdowns(
+  deps: MatchingDependencies,
+  vacancy: MatchingVacancy,
+  preScoreResults: PenalizedPreScoreMatchResult[]
+): Promise<Map<string, MatchBreakdown>> {
+  const breakdowns = new Map<string, MatchBreakdown>();
+  if (preScoreResults.length === 0) {
+    return breakdowns;
+  }
+
+  try {
+    const candidates = await deps.data.getBreakdownCandidates(preScoreResults.map(r => r.candidate_id));
+    const candidateMap = new Map(candidates.map(c => [c.id, c]));
+
+    let vacancyTitleEmbedding: number[] | null = null;
+    if (deps.embeddings && vacancy.title) {
+      try {
+        vacancyTitleEmbedding = await deps.embeddings.embed(vacancy.title.toLowerCase());
+      } catch (error) {
+        console.warn('Failed to embed vacancy title for breakdown:', error);
+      }
+    }
+
+    for (const preScore of preScoreResults) {
+      const candidate = candidateMap.get(preScore.candidate_id);
+      if (!candidate) {
+        continue;
+      }
+
+      const sameModel = candidate.job_title_embedding_model === deps.embeddings?.model;
+      breakdowns.set(
+        candidate.id,
+        buildMatchBreakdown(vacancy, candidate, preScore, sameModel ? vacancyTitleEmbedding : null)
+      );
+    }
+  } catch (error) {
+    console.error('Failed to build match breakdowns:', error);
+  }
+
+  return breakdowns;
+}
+
+/**
+ * Build breakdowns for the vacancies ranked for one candidate (reverse matching)
+ * Same factors as buildMatchBreakdowns, so a pair's match_cache breakdown reads the same from either side.
+ */
+export async function buildVacancyMatchBreakdowns(
+  deps: MatchingDependencies,
+  candidateId: string,
+  ranked: { vacancy: MatchingVacancy; preScore: PenalizedVacancyPreScoreMatchResult }[]
+): Promise<Map<string, MatchBreakdown>> {
+  const breakdowns = new Map<string, MatchBreakdown>();
+  if (ranked.length === 0) {
+    return breakdowns;
+  }
+
+  try {
+    const [candidate] = await deps.data.getBreakdownCandidates([candidateId]);
+    if (!candidate) {
+      return breakdowns;
+    }
+
+    const sameModel = candidate.job_title_embedding_model === deps.embeddings?.model;
+
+    for (const { vacancy, preScore } of ranked) {
+      let vacancyTitleEmbedding: number[] | null = null;
+      if (sameModel && deps.embeddings && vacancy.title) {
+        try {
+          vacancyTitleEmbedding = await deps.embeddings.embed(vacancy.title.toLowerCase());
+        } catch (error) {
+          console.warn(`Failed to embed title of vacancy ${vacancy.id} for breakdown:`, error);
+        }
+      }
+
+      breakdowns.set(vacancy.id, buildMatchBreakdown(vacancy, candidate, preScore, vacancyTitleEmbedding));
+    }
+  } catch (error) {
+    console.error('Failed to build vacancy match breakdowns:', error);
+  }
+
+  return breakdowns;
+}
@@ -0,0 +1,18 @@
+// Platform-neutral matching core shared by the Vite app and the match edge function.
+// Storage and LLM access are injected (MatchingDataAccess, LLMClient); nothing here
+// reads environment variables or imports a runtime-specific SDK.
+
+export * from './types.ts';
+export * from './scoringProfiles.ts';
+export * from './pipeline.ts';
+export * from './reverseMatching.ts';
+export * from './breakdown.ts';
+export * from './skillRequirements.ts';
+export * from './salary.ts';
+export * from './seniority.ts';
+export * from './workHistory.ts';
+export * from './supabaseDataAccess.ts';
+export * from './stringSimilarity.ts';
+export * from './vectorSimilarity.ts';
+export * from './locationMatchingScore.ts';
+export type { LLMClient, LLMCompletionRequest } from '../llm.ts';
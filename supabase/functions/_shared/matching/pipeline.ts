@@ -0,0 +1,753 @@
+import type { LLMClient, LLMModelTier } from '../llm.ts';
+import type {
+  BatchLLMResult,
+  CandidateBlock,
+  CandidateMatchResult,
+  FilteredCandidate,
+  FinalScoredCandidate,
+  LLMPostRankedCandidate,
+  MatchingCandidate,
+  MatchingDependencies,
+  MatchingRunOptions,
+  MatchingRunResult,
+  MatchingVacancy,
+  NeuralRankedCandidate,
+  PenalizedPreScoreMatchResult,
+  PreScoreMatchResult,
+  ScoringProfile,
+  SoftPenaltyName,
+} from './types.ts';
+import {
+  calculateStringSimilarity,
+  areLocationsSameContinent,
+  calculateSkillMatchPercentage,
+  areIndustriesRelated,
+  areTitlesSimilar,
+} from './stringSimilarity.ts';
+import { DEFAULT_SCORING_PROFILE, computeFusionScore } from './scoringProfiles.ts';
+import { buildMatchBreakdowns } from './breakdown.ts';
+import { buildVacancyPromptText, getVacancySkillRequirements, skillsWithPriority } from './skillRequirements.ts';
+import { calculateSalaryFit, exceedsSalaryBudget } from './salary.ts';
+import { calculateSeniorityDistance, getCandidateSeniority } from './seniority.ts';
+import { calculateWorkHistorySignals, isRelevantExperienceStale } from './workHistory.ts';
+
+export const MATCHING_MODEL_TIERS: Record<'neuralRank' | 'postRank', LLMModelTier> = {
+  neuralRank: 'standard',
+  postRank: 'advanced',
+};
+
+export const SEVEN_DAYS_IN_MS = 7 * 24 * 60 * 60 * 1000;
+export const THIRTY_DAYS_IN_MS = 30 * 24 * 60 * 60 * 1000;
+export const LLM_BATCH_SIZE = 20;
+
+export function isFresh(updatedAt: string, maxAgeMs: number): boolean {
+  return Date.now() - new Date(updatedAt).getTime() < maxAgeMs;
+}
+
+/**
+ * Load a vacancy and make sure it has job text to rank against
+ */
+export async function loadVacancy(deps: MatchingDependencies, vacancyId: string): Promise<MatchingVacancy> {
+  const vacancy = await deps.data.getVacancy(vacancyId);
+  if (!vacancy) {
+    throw new Error(`Failed to fetch vacancy: Vacancy ${vacancyId} not found`);
+  }
+  return vacancy;
+}
+
+/**
+ * Resolve the scoring profile for a match run
+ * Priority: explicit profile id > vacancy's profile > default profile > built-in profile
+ * (reverse matching passes no vacancy and skips the vacancy's profile)
+ */
+export async function resolveScoringProfile(
+  deps: MatchingDependencies,
+  vacancy: MatchingVacancy | null,
+  requestedProfileId?: string | null
+): Promise<ScoringProfile> {
+  if (requestedProfileId) {
+    const requested = await deps.data.getScoringProfile(requestedProfileId);
+    if (!requested) {
+      throw new Error(`Scoring profile ${requestedProfileId} not found`);
+    }
+    return requested;
+  }
+
+  if (vacancy?.scoring_profile_id) {
+    const selected = await deps.data.getScoringProfile(vacancy.scoring_profile_id);
+    if (selected) {
+      return selected;
+    }
+  }
+
+  return (await deps.data.getDefaultScoringProfile()) ?? DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * Filter candidates before matching using hard and soft filters
+ *
+ * Hard filters (exclude):
+ * - Missing required skills (match < 60%; skills without priorities count as required)
+ * - Industry mismatch (exact)
+ * - General title not in allowed list
+ * - Location mismatch for non-remote roles (similarity < 0.3)
+ * - Seniority two or more bands below the job's (e.g., Entry level for a Director role)
+ * - Over budget by more than the profile's max_over_budget_pct (only when set)
+ * - Empty resume_text
+ *
+ * Soft filters (add penalty):
+ * - Industry subtype mismatch
+ * - Title partial mismatch
+ * - Partial required skill match (60-80%)
+ * - Fewer than half of the preferred skills (bonus skills never filter)
+ * - Location partial mismatch (same continent, different timezone)
+ * - Salary expectation above the job's budget
+ * - Seniority one band below, or two or more bands above, the job's
+ * - Last position with a similar title ended more than three years ago (needs extracted work history)
+ *
+ * Seniority checks are skipped when the job is 'Not Applicable' or the candidate's band is unknown.
+ * Salary checks are skipped when either side has no salary or the currencies differ.
+ *
+ * Soft penalty values come from the scoring profile (0.15 each in the default profile).
+ *
+ * @returns Array of filtered candidate IDs with soft_penalty values and the soft filters that fired
+ */
+export function filterCandidates(
+  vacancy: MatchingVacancy,
+  candidates: MatchingCandidate[],
+  profile: ScoringProfile
+): FilteredCandidate[] {
+  const penalties = profile.soft_penalties;
+  const vacancyTitle = (vacancy.title || '').toLowerCase();
+  const vacancyLocation = vacancy.location || '';
+  const vacancyIndustry = vacancy.industry || '';
+  const skillRequirements = getVacancySkillRequirements(vacancy);
+  const requiredSkills = skillsWithPriority(skillRequirements, 'required');
+  const preferredSkills = skillsWithPriority(skillRequirements, 'preferred');
+  const isRemote = vacancyLocation.toLowerCase().includes('remote');
+  const jobSalary = {
+    min: vacancy.salary_min,
+    max: vacancy.salary_max,
+    unit: vacancy.salary_unit,
+    currency: vacancy.salary_currency,
+  };
+
+  const filteredCandidates: FilteredCandidate[] = [];
+
+  for (const candidate of candidates) {
+    let softPenalty = 0;
+    const firedPenalties: SoftPenaltyName[] = [];
+
+    // HARD FILTER 1: Missing required skills
+    const candidateSkills = candidate.skills || [];
+    if (requiredSkills.length > 0) {
+      const skillMatch = calculateSkillMatchPercentage(requiredSkills, candidateSkills);
+      if (skillMatch < 1.0) {
+        // Check if it's a partial match (soft filter) or complete miss (hard filter)
+        if (skillMatch < 0.6) {
+          continue; // Hard filter: exclude
+        }
+        // Soft filter: partial match (60-80%)
+        if (skillMatch >= 0.6 && skillMatch < 0.8) {
+          softPenalty = Math.max(softPenalty, penalties.skills);
+          firedPenalties.push('skills');
+        }
+      }
+    }
+
+    // SOFT FILTER: Fewer than half of the preferred skills
+    if (preferredSkills.length > 0 && !firedPenalties.includes('skills')) {
+      if (calculateSkillMatchPercentage(preferredSkills, candidateSkills) < 0.5) {
+        softPenalty = Math.max(softPenalty, penalties.skills);
+        firedPenalties.push('skills');
+      }
+    }
+
+    // HARD FILTER 2: Industry mismatch (exact)
+    const candidateIndustry = candidate.industry || '';
+    if (vacancyIndustry && candidateIndustry) {
+      if (candidateIndustry.toLowerCase() !== vacancyIndustry.toLowerCase()) {
+        // Check if it's a related industry (soft filter)
+        if (areIndustriesRelated(candidateIndustry, vacancyIndustry)) {
+          softPenalty = Math.max(softPenalty, penalties.industry);
+          firedPenalties.push('industry');
+        } else {
+          continue; // Hard filter: exclude
+        }
+      }
+    }
+
+    // HARD FILTER 3: General title not in allowed list
+    const candidateTitle = (candidate.general_title || '').toLowerCase();
+    if (vacancyTitle && candidateTitle) {
+      if (candidateTitle !== vacancyTitle) {
+        // Check if titles are similar (soft filter)
+        if (areTitlesSimilar(candidateTitle, vacancyTitle)) {
+          softPenalty = Math.max(softPenalty, penalties.title);
+          firedPenalties.push('title');
+        } else {
+          continue; // Hard filter: exclude
+        }
+      }
+    }
+
+    // HARD FILTER 4: Location mismatch for non-remote roles
+    if (!isRemote && vacancyLocation && candidate.location) {
+      const locationSimilarity = calculateStringSimilarity(vacancyLocation, candidate.location);
+      if (locationSimilarity < 0.3) {
+        // Check if same continent (soft filter)
+        if (areLocationsSameContinent(vacancyLocation, candidate.location)) {
+          softPenalty = Math.max(softPenalty, penalties.location);
+          firedPenalties.push('location');
+        } else {
+          continue; // Hard filter: exclude
+        }
+      }
+    }
+
+    // HARD FILTER 5: Seniority too far below the job
+    const seniorityDistance = calculateSeniorityDistance(
+      vacancy.seniority_level,
+      getCandidateSeniority(candidate)
+    );
+    if (seniorityDistance !== null) {
+      if (seniorityDistance <= -2) {
+        continue; // Hard filter: exclude
+      }
+      // Soft filter: one band junior or clearly overqualified
+      if (seniorityDistance === -1 || seniorityDistance >= 2) {
+        softPenalty = Math.max(softPenalty, penalties.seniority);
+        firedPenalties.push('seniority');
+      }
+    }
+
+    // SOFT FILTER: Relevant experience is not recent
+    const workHistory = calculateWorkHistorySignals(candidate.work_history || [], vacancy.title);
+    if (isRelevantExperienceStale(workHistory)) {
+      softPenalty = Math.max(softPenalty, penalties.recency);
+      firedPenalties.push('recency');
+    }
+
+    // HARD FILTER 6: Over budget by more than the profile allows
+    const salaryFit = calculateSalaryFit(
+      { min: candidate.salary_min, max: candidate.salary_max, unit: candidate.salary_unit },
+      jobSalary
+    );
+    if (exceedsSalaryBudget(salaryFit, profile.max_over_budget_pct)) {
+      continue; // Hard filter: exclude
+    }
+    // Soft filter: over budget within the allowed margin
+    if (salaryFit && salaryFit.over_budget_pct > 0) {
+      softPenalty = Math.max(softPenalty, penalties.salary);
+      firedPenalties.push('salary');
+    }
+
+    // HARD FILTER 7: Empty resume_text
+    if (!candidate.resume_text || candidate.resume_text.trim().length === 0) {
+      continue; // Hard filter: exclude
+    }
+
+    // Candidate passed all filters
+    filteredCandidates.push({
+      candidate_id: candidate.id,
+      soft_penalty: softPenalty,
+      fired_penalties: firedPenalties,
+    });
+  }
+
+  return filteredCandidates;
+}
+
+/**
+ * Get top candidates by pre-score for a given vacancy
+ *
+ * This function:
+ * 1. Filters candidates using hard/soft filters
+ * 2. Calls the SQL function match_candidates_pre_score with the candidates that passed
+ * 3. Applies soft penalties to pre_score
+ *
+ * Returns the top candidates sorted by pre_score DESC. The cutoff is the profile's
+ * pre_score_limit (50 in the default profile), applied in SQL after the filters and penalties.
+ */
+export async function getTopCandidatesByPreScore(
+  deps: MatchingDependencies,
+  vacancy: MatchingVacancy,
+  profile: ScoringProfile
+): Promise<PenalizedPreScoreMatchResult[]> {
+  // Step 1: Filter candidates before matching
+  const candidates = await deps.data.listCandidatesForFiltering();
+  const filteredCandidates = filterCandidates(vacancy, candidates, profile);
+  const filteredMap = new Map<string, FilteredCandidate>(
+    filteredCandidates.map(fc => [fc.candidate_id, fc])
+  );
+
+  if (filteredCandidates.length === 0) {
+    return [];
+  }
+
+  // Step 2: Get pre-score matches of the allowed candidates, ranked and cut to the limit in SQL
+  const softPenalties = new Map(filteredCandidates.map(fc => [fc.candidate_id, fc.soft_penalty]));
+  const preScores = await deps.data.getPreScores(vacancy.id, softPenalties, profile.pre_score_limit);
+
+  // Step 3: Apply soft penalties
+  const results: PenalizedPreScoreMatchResult[] = [];
+
+  for (const result of preScores) {
+    const filtered = filteredMap.get(result.candidate_id);
+    if (!filtered) {
+      continue;
+    }
+
+    // Apply soft penalty: pre_score = pre_score * (1 - soft_penalty)
+    results.push({
+      ...result,
+      pre_score: result.pre_score * (1 - filtered.soft_penalty),
+      soft_penalty: filtered.soft_penalty,
+      fired_penalties: filtered.fired_penalties,
+    });
+  }
+
+  // Step 4: Sort by adjusted pre_score DESC (the SQL order, kept explicit)
+  results.sort((a, b) => b.pre_score - a.pre_score);
+  return results;
+}
+
+/**
+ * Get neural rank score by comparing job text and resume text with an LLM
+ *
+ * This function implements a cross-encoder behavior by directly comparing
+ * the job description and candidate resume.
+ *
+ * Checks cache first: if neural_rank_score exists and is < 7 days old, returns cached value.
+ * Otherwise computes new value and updates cache.
+ *
+ * @returns Numeric score between 0 and 1 representing functional similarity
+ */
+export async function getNeuralRankScore(
+  deps: MatchingDependencies,
+  vacancyId: string,
+  candidateId: string,
+  vacancyText: string,
+  resumeText: string
+): Promise<number> {
+  // Check cache first
+  const [cacheEntry] = await deps.data.getCacheEntries(vacancyId, [candidateId]);
+
+  if (cacheEntry && cacheEntry.neural_rank_score !== null && isFresh(cacheEntry.updated_at, SEVEN_DAYS_IN_MS)) {
+    console.log(`Using cached neural_rank_score for candidate ${candidateId}`);
+    return cacheEntry.neural_rank_score;
+  }
+
+  // Cache miss or expired - compute new value
+  if (!vacancyText || !vacancyText.trim()) {
+    throw new Error('Vacancy text cannot be empty');
+  }
+
+  if (!resumeText || !resumeText.trim()) {
+    throw new Error('Resume text cannot be empty');
+  }
+
+  const prompt = `You are a semantic ranking model.
+Compare the following job description and candidate resume.
+Return a single float number between 0 and 1 based on functional similarity.
+
+Job:
+
+${vacancyText.trim()}
+
+Resume:
+
+${resumeText.trim()}
+
+Return ONLY the number.`;
+
+  const content = await deps.llm.complete({
+    task: 'matching.neural_rank',
+    tier: MATCHING_MODEL_TIERS.neuralRank,
+    system: 'You are a semantic ranking model. Return only a numeric score between 0 and 1.',
+    prompt,
+    temperature: 0.3,
+    maxTokens: 10,
+  });
+
+  const score = parseFloat(content);
+  if (isNaN(score)) {
+    throw new Error(`Failed to parse neural rank score: "${content}" is not a valid number`);
+  }
+
+  // Ensure score is between 0 and 1
+  const finalScore = Math.max(0, Math.min(1, score));
+
+  await deps.data.upsertCacheEntry({
+    vacancy_id: vacancyId,
+    candidate_id: candidateId,
+    neural_rank_score: finalScore,
+  });
+
+  return finalScore;
+}
+
+/**
+ * Get top candidates ranked by neural rank score
+ *
+ * This function:
+ * 1. Gets top candidates from the pre-score layer
+ * 2. For each candidate, computes neural_rank_score
+ * 3. Sorts candidates by neural_rank_score DESC
+ * 4. Returns the profile's neural_rank_limit candidates (10 by default)
+ */
+export async function getTopNeuralRankedCandidates(
+  deps: MatchingDependencies,
+  vacancy: MatchingVacancy,
+  profile: ScoringProfile,
+  preScoreResults?: PreScoreMatchResult[]
+): Promise<NeuralRankedCandidate[]> {
+  // Step 1: Get top candidates from pre-score layer (unless the caller already has them)
+  preScoreResults ??= await getTopCandidatesByPreScore(deps, vacancy, profile);
+
+  if (preScoreResults.length === 0) {
+    return [];
+  }
+
+  const vacancyText = buildVacancyPromptText(vacancy);
+  if (!vacancyText.trim()) {
+    throw new Error('Vacancy job_text is empty');
+  }
+
+  // Step 2: Fetch resume texts and compute neural rank scores
+  const resumeTexts = await deps.data.getResumeTexts(preScoreResults.map(r => r.candidate_id));
+  const neuralRankedCandidates: NeuralRankedCandidate[] = [];
+
+  for (const preScoreResult of preScoreResults) {
+    const resumeText = resumeTexts.get(preScoreResult.candidate_id) || '';
+    if (!resumeText.trim()) {
+      console.warn(`Candidate ${preScoreResult.candidate_id} has empty resume_text`);
+      continue;
+    }
+
+    try {
+      const neuralRankScore = await getNeuralRankScore(
+        deps,
+        vacancy.id,
+        preScoreResult.candidate_id,
+        vacancyText,
+        resumeText
+      );
+
+      neuralRankedCandidates.push({
+        candidate_id: preScoreResult.candidate_id,
+        pre_score: preScoreResult.pre_score,
+        neural_rank_score: neuralRankScore,
+      });
+    } catch (error) {
+      console.error(`Error processing candidate ${preScoreResult.candidate_id} for neural ranking:`, error);
+      // Continue with next candidate
+    }
+  }
+
+  // Step 3: Sort by neural_rank_score DESC and return top N
+  neuralRankedCandidates.sort((a, b) => b.neural_rank_score - a.neural_rank_score);
+  return neuralRankedCandidates.slice(0, profile.neural_rank_limit);
+}
+
+/**
+ * Batch LLM calls for explanations and llm_score
+ *
+ * Sends 1 vacancy description + up to 20 candidates in ONE request.
+ * Returns both llm_score and explanation for each candidate.
+ */
+export async function batchLLMExplanations(
+  llm: LLMClient,
+  vacancyText: string,
+  candidateBlocks: CandidateBlock[]
+): Promise<BatchLLMResult[]> {
+  if (candidateBlocks.length === 0) {
+    return [];
+  }
+
+  if (candidateBlocks.length > LLM_BATCH_SIZE) {
+    throw new Error(`Batch size cannot exceed ${LLM_BATCH_SIZE} candidates`);
+  }
+
+  // Build candidate list for prompt
+  const candidateList = candidateBlocks.map((block, index) => {
+    return `Candidate ${index + 1} (ID: ${block.candidate_id}):
+${block.resume_text}`;
+  }).join('\n\n---\n\n');
+
+  const prompt = `You are an AI recruiting assistant.
+Evaluate the match between the following job description and multiple candidate resumes.
+
+For each candidate, provide:
+1. llm_score: A float number from 0 to 1 based on:
+   - functional responsibility overlap
+   - relevant experience depth
+   - industry/domain match
+   - growth/leadership indicators
+   - seniority alignment
+   - similarity of metrics and achievements
+
+2. explanation: A short 1-2 sentence explanation focusing on:
+   - functional experience
+   - relevant achievements
+   - industry match
+   - role seniority
+   Do NOT include weaknesses.
+   Do NOT mention the candidate's name, contact details, age or location (explanations are shown in blind review).
+
+Job Description:
+
+${vacancyText.trim()}
+
+Candidates:
+
+${candidateList}
+
+Return ONLY valid JSON in this exact format:
+{
+  "results": [
+    {
+      "candidate_id": "uuid",
+      "llm_score": 0.85,
+      "explanation": "1-2 sentence text"
+    }
+  ]
+}`;
+
+  const content = await llm.complete({
+    task: 'matching.batch_explanations',
+    tier: MATCHING_MODEL_TIERS.postRank,
+    system: 'You are an AI recruiting assistant. Return ONLY valid JSON. Do not include any text before or after the JSON.',
+    prompt,
+    temperature: 0.3,
+    maxTokens: 2000,
+    json: true,
+  });
+
+  // Parse JSON response
+  let parsedResponse: { results: BatchLLMResult[] };
+  try {
+    parsedResponse = JSON.parse(content);
+  } catch (parseError) {
+    // Try to extract JSON from markdown code blocks if present
+    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    if (jsonMatch) {
+      parsedResponse = JSON.parse(jsonMatch[1]);
+    } else {
+      throw new Error(`Failed to parse JSON response: ${content}`);
+    }
+  }
+
+  if (!parsedResponse.results || !Array.isArray(parsedResponse.results)) {
+    throw new Error('Invalid response format: missing results array');
+  }
+
+  // Validate and normalize results
+  return parsedResponse.results.map((result: any) => {
+    const llmScore = typeof result.llm_score === 'number'
+      ? Math.max(0, Math.min(1, result.llm_score))
+      : parseFloat(result.llm_score || '0');
+
+    if (isNaN(llmScore)) {
+      throw new Error(`Invalid llm_score for candidate ${result.candidate_id}: ${result.llm_score}`);
+    }
+
+    return {
+      candidate_id: result.candidate_id,
+      llm_score: llmScore,
+      explanation: result.explanation || 'Explanation unavailable',
+    };
+  });
+}
+
+/**
+ * Get LLM post-ranking for the neural-ranked candidates using batch processing
+ *
+ * This function:
+ * 1. Collects candidates with missing or expired llm cache (7 days)
+ * 2. Processes them in batches of 20 using batchLLMExplanations()
+ * 3. Saves llm_score and explanation into match_cache
+ * 4. Returns candidates with pre_score, neural_rank_score, and llm_score
+ */
+export async function getLLMPostRanking(
+  deps: MatchingDependencies,
+  vacancy: MatchingVacancy,
+  neuralRankedCandidates: NeuralRankedCandidate[]
+): Promise<LLMPostRankedCandidate[]> {
+  if (neuralRankedCandidates.length === 0) {
+    return [];
+  }
+
+  const vacancyText = buildVacancyPromptText(vacancy);
+  if (!vacancyText.trim()) {
+    throw new Error('Vacancy job_text is empty');
+  }
+
+  // Step 1: Check cache for all candidates
+  const candidateIds = neuralRankedCandidates.map(c => c.candidate_id);
+  const cacheEntries = await deps.data.getCacheEntries(vacancy.id, candidateIds);
+
+  const cachedMap = new Map<string, number>();
+  for (const entry of cacheEntries) {
+    if (entry.llm_score !== null && isFresh(entry.updated_at, SEVEN_DAYS_IN_MS)) {
+      cachedMap.set(entry.candidate_id, entry.llm_score);
+    }
+  }
+
+  // Separate candidates into cached and uncached
+  const resumeTexts = await deps.data.getResumeTexts(candidateIds);
+  const neuralMap = new Map(neuralRankedCandidates.map(c => [c.candidate_id, c]));
+  const candidatesNeedingLLM: CandidateBlock[] = [];
+  const llmRankedCandidates: LLMPostRankedCandidate[] = [];
+
+  for (const candidate of neuralRankedCandidates) {
+    const cachedScore = cachedMap.get(candidate.candidate_id);
+    const resumeText = resumeTexts.get(candidate.candidate_id);
+
+    if (cachedScore !== undefined) {
+      llmRankedCandidates.push({ ...candidate, llm_score: cachedScore });
+    } else if (resumeText?.trim()) {
+      candidatesNeedingLLM.push({
+        candidate_id: candidate.candidate_id,
+        resume_text: resumeText,
+      });
+    }
+  }
+
+  // Step 2: Process candidates in batches of 20
+  for (let i = 0; i < candidatesNeedingLLM.length; i += LLM_BATCH_SIZE) {
+    const batch = candidatesNeedingLLM.slice(i, i + LLM_BATCH_SIZE);
+    console.log(`Processing LLM batch ${Math.floor(i / LLM_BATCH_SIZE) + 1} with ${batch.length} candidates...`);
+
+    try {
+      const batchResults = await batchLLMExplanations(deps.llm, vacancyText, batch);
+
+      for (const result of batchResults) {
+        const neuralCandidate = neuralMap.get(result.candidate_id);
+        if (!neuralCandidate) {
+          continue; // LLM returned an id that was not in the batch
+        }
+
+        await deps.data.upsertCacheEntry({
+          vacancy_id: vacancy.id,
+          candidate_id: result.candidate_id,
+          llm_score: result.llm_score,
+          explanation: result.explanation,
+        });
+
+        llmRankedCandidates.push({ ...neuralCandidate, llm_score: result.llm_score });
+      }
+    } catch (error) {
+      console.error(`Error processing LLM batch:`, error);
+      // Continue with next batch even if one fails
+    }
+  }
+
+  return llmRankedCandidates;
+}
+
+/**
+ * Compute final scores by combining pre_score, neural_rank_score, and llm_score
+ *
+ * final_score uses the scoring profile weights
+ * (default profile: 0.20 * pre_score + 0.50 * neural_rank_score + 0.30 * llm_score).
+ * The profile id and the factor breakdown are written into match_cache so results stay reproducible.
+ *
+ * @returns Candidates with all scores including final_score, sorted by final_score DESC
+ */
+export async function computeFinalScores(
+  deps: MatchingDependencies,
+  vacancy: MatchingVacancy,
+  profile: ScoringProfile
+): Promise<FinalScoredCandidate[]> {
+  const preScoreResults = await getTopCandidatesByPreScore(deps, vacancy, profile);
+  const neuralRankedCandidates = await getTopNeuralRankedCandidates(deps, vacancy, profile, preScoreResults);
+  const llmPostRankedCandidates = await getLLMPostRanking(deps, vacancy, neuralRankedCandidates);
+
+  if (llmPostRankedCandidates.length === 0) {
+    return [];
+  }
+
+  const rankedIds = new Set(llmPostRankedCandidates.map(c => c.candidate_id));
+  const breakdowns = await buildMatchBreakdowns(
+    deps,
+    vacancy,
+    preScoreResults.filter(result => rankedIds.has(result.candidate_id))
+  );
+
+  const finalScoredCandidates: FinalScoredCandidate[] = llmPostRankedCandidates.map((candidate) => ({
+    candidate_id: candidate.candidate_id,
+    pre_score: candidate.pre_score,
+    neural_rank_score: candidate.neural_rank_score,
+    llm_score: candidate.llm_score,
+    final_score: computeFusionScore(profile, candidate),
+    scoring_profile_id: profile.id,
+    breakdown: breakdowns.get(candidate.candidate_id) ?? null,
+  }));
+
+  // Sort by final_score DESC
+  finalScoredCandidates.sort((a, b) => b.final_score - a.final_score);
+
+  // Update cache with final scores
+  for (const candidate of finalScoredCandidates) {
+    try {
+      await deps.data.upsertCacheEntry({
+        vacancy_id: vacancy.id,
+        ...candidate,
+        breakdown: candidate.breakdown ?? undefined,
+      });
+    } catch (error) {
+      console.error(`Failed to update cache for candidate ${candidate.candidate_id}:`, error);
+      // Continue even if cache update fails
+    }
+  }
+
+  return finalScoredCandidates;
+}
+
+/**
+ * Attach explanations to ranked candidates using the cache
+ *
+ * Explanations are already generated in getLLMPostRanking() via batchLLMExplanations(),
+ * so this function retrieves them from cache (30 days validity).
+ */
+export async function attachExplanations(
+  deps: MatchingDependencies,
+  vacancyId: string,
+  rankedCandidates: FinalScoredCandidate[]
+): Promise<CandidateMatchResult[]> {
+  if (rankedCandidates.length === 0) {
+    return [];
+  }
+
+  const cacheEntries = await deps.data.getCacheEntries(vacancyId, rankedCandidates.map(c => c.candidate_id));
+  const explanationMap = new Map<string, string>();
+
+  for (const entry of cacheEntries) {
+    if (entry.explanation && isFresh(entry.updated_at, THIRTY_DAYS_IN_MS)) {
+      explanationMap.set(entry.candidate_id, entry.explanation);
+    }
+  }
+
+  return rankedCandidates.map(candidate => ({
+    ...candidate,
+    explanation: explanationMap.get(candidate.candidate_id) || 'Explanation unavailable',
+  }));
+}
+
+/**
+ * Run the full 3-layer pipeline (pre-score -> neural rank -> LLM post-rank) with explanations
+ */
+export async function runMatchingPipeline(
+  deps: MatchingDependencies,
+  vacancyId: string,
+  options: MatchingRunOptions = {}
+): Promise<MatchingRunResult> {
+  const vacancy = await loadVacancy(deps, vacancyId);
+  const profile = await resolveScoringProfile(deps, vacancy, options.scoringProfileId);
+
+  const rankedCandidates = await computeFinalScores(deps, vacancy, profile);
+  const results = await attachExplanations(deps, vacancyId, rankedCandidates);
+
+  return { profile, results };
+}
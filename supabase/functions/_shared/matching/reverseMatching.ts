@@ -0,0 +1,473 @@
+import type { LLMClient } from '../llm.ts';
+import type {
+  BatchVacancyLLMResult,
+  FilteredCandidate,
+  FinalScoredVacancy,
+  LLMPostRankedVacancy,
+  MatchingCandidate,
+  MatchingDependencies,
+  MatchingRunOptions,
+  MatchingVacancy,
+  NeuralRankedVacancy,
+  PenalizedVacancyPreScoreMatchResult,
+  ReverseMatchingRunResult,
+  ScoringProfile,
+  VacancyBlock,
+  VacancyMatchResult,
+} from './types.ts';
+import {
+  LLM_BATCH_SIZE,
+  MATCHING_MODEL_TIERS,
+  SEVEN_DAYS_IN_MS,
+  THIRTY_DAYS_IN_MS,
+  filterCandidates,
+  getNeuralRankScore,
+  isFresh,
+  resolveScoringProfile,
+} from './pipeline.ts';
+import { computeFusionScore } from './scoringProfiles.ts';
+import { buildVacancyPromptText } from './skillRequirements.ts';
+import { buildVacancyMatchBreakdowns } from './breakdown.ts';
+
+// Reverse matching: rank active vacancies for one candidate.
+// Uses the same stages, filters, prompts and match_cache rows (keyed by vacancy_id, candidate_id)
+// as the vacancy -> candidates pipeline, so scores computed in either direction are shared.
+// Each vacancy is filtered and scored with the profile a forward run for it would use, so both
+// directions write the same final_score, scoring_profile_id and breakdown to a pair's row.
+
+/**
+ * Load a candidate and make sure it has resume text to rank against
+ */
+export async function loadCandidate(deps: MatchingDependencies, candidateId: string): Promise<MatchingCandidate> {
+  const candidate = await deps.data.getCandidate(candidateId);
+  if (!candidate) {
+    throw new Error(`Failed to fetch candidate: Candidate ${candidateId} not found`);
+  }
+  return candidate;
+}
+
+/**
+ * Scoring profile of each vacancy, as resolveScoringProfile picks it for a forward run:
+ * the requested profile for all, otherwise the vacancy's own profile, otherwise the run's (default) profile
+ */
+export async function resolveVacancyProfiles(
+  deps: MatchingDependencies,
+  vacancies: MatchingVacancy[],
+  runProfile: ScoringProfile,
+  requestedProfileId?: string | null
+): Promise<Map<string, ScoringProfile>> {
+  const byProfileId = new Map<string, ScoringProfile>();
+
+  if (!requestedProfileId) {
+    const profileIds = new Set(vacancies.map(v => v.scoring_profile_id).filter((id): id is string => !!id));
+    for (const profileId of profileIds) {
+      const selected = await deps.data.getScoringProfile(profileId);
+      if (selected) {
+        byProfileId.set(profileId, selected);
+      }
+    }
+  }
+
+  return new Map(vacancies.map(vacancy => [
+    vacancy.id,
+    (vacancy.scoring_profile_id && byProfileId.get(vacancy.scoring_profile_id)) || runProfile,
+  ]));
+}
+
+/**
+ * Get top active vacancies by pre-score for a given candidate
+ *
+ * Applies the same hard/soft filters as getTopCandidatesByPreScore, evaluated per vacancy with its
+ * own profile, then calls the SQL function match_vacancies_pre_score with the vacancies that passed.
+ * The run profile's pre_score_limit is applied in SQL after the filters and penalties.
+ */
+export async function getTopVacanciesByPreScore(
+  deps: MatchingDependencies,
+  candidate: MatchingCandidate,
+  vacancies: MatchingVacancy[],
+  vacancyProfiles: Map<string, ScoringProfile>,
+  profile: ScoringProfile
+): Promise<PenalizedVacancyPreScoreMatchResult[]> {
+  // Step 1: Filter vacancies (a vacancy passes when the candidate passes its filters)
+  const filteredMap = new Map<string, FilteredCandidate>();
+
+  for (const vacancy of vacancies) {
+    const [passed] = filterCandidates(vacancy, [candidate], vacancyProfiles.get(vacancy.id) ?? profile);
+    if (passed) {
+      filteredMap.set(vacancy.id, passed);
+    }
+  }
+
+  if (filteredMap.size === 0) {
+    return [];
+  }
+
+  // Step 2: Get pre-score matches of the allowed vacancies and apply soft penalties
+  const softPenalties = new Map(Array.from(filteredMap, ([vacancyId, passed]) => [vacancyId, passed.soft_penalty]));
+  const preScores = await deps.data.getVacancyPreScores(candidate.id, softPenalties, profile.pre_score_limit);
+  const results: PenalizedVacancyPreScoreMatchResult[] = [];
+
+  for (const result of preScores) {
+    const passed = filteredMap.get(result.vacancy_id);
+    if (!passed) {
+      continue;
+    }
+
+    results.push({
+      ...result,
+      pre_score: result.pre_score * (1 - passed.soft_penalty),
+      soft_penalty: passed.soft_penalty,
+      fired_penalties: passed.fired_penalties,
+    });
+  }
+
+  // Step 3: Sort by adjusted pre_score DESC (the SQL order, kept explicit)
+  results.sort((a, b) => b.pre_score - a.pre_score);
+  return results;
+}
+
+/**
+ * Get top vacancies ranked by neural rank score (cached per vacancy/candidate pair)
+ */
+export async function getTopNeuralRankedVacancies(
+  deps: MatchingDependencies,
+  candidate: MatchingCandidate,
+  vacancyMap: Map<string, MatchingVacancy>,
+  profile: ScoringProfile,
+  preScoreResults: PenalizedVacancyPreScoreMatchResult[]
+): Promise<NeuralRankedVacancy[]> {
+  if (preScoreResults.length === 0) {
+    return [];
+  }
+
+  const resumeText = candidate.resume_text || '';
+  if (!resumeText.trim()) {
+    throw new Error('Candidate resume_text is empty');
+  }
+
+  const neuralRankedVacancies: NeuralRankedVacancy[] = [];
+
+  for (const preScoreResult of preScoreResults) {
+    const vacancyText = getVacancyText(vacancyMap, preScoreResult.vacancy_id);
+    if (!vacancyText.trim()) {
+      console.warn(`Vacancy ${preScoreResult.vacancy_id} has empty job_text`);
+      continue;
+    }
+
+    try {
+      const neuralRankScore = await getNeuralRankScore(
+        deps,
+        preScoreResult.vacancy_id,
+        candidate.id,
+        vacancyText,
+        resumeText
+      );
+
+      neuralRankedVacancies.push({
+        vacancy_id: preScoreResult.vacancy_id,
+        pre_score: preScoreResult.pre_score,
+        neural_rank_score: neuralRankScore,
+      });
+    } catch (error) {
+      console.error(`Error processing vacancy ${preScoreResult.vacancy_id} for neural ranking:`, error);
+    }
+  }
+
+  neuralRankedVacancies.sort((a, b) => b.neural_rank_score - a.neural_rank_score);
+  return neuralRankedVacancies.slice(0, profile.neural_rank_limit);
+}
+
+// Prompt text of a vacancy from the rows listActiveVacancies loaded
+function getVacancyText(vacancyMap: Map<string, MatchingVacancy>, vacancyId: string): string {
+  const vacancy = vacancyMap.get(vacancyId);
+  return vacancy ? buildVacancyPromptText(vacancy) : '';
+}
+
+/**
+ * Batch LLM calls for explanations and llm_score (reverse direction)
+ *
+ * Sends 1 candidate resume + up to 20 vacancies in ONE request.
+ */
+export async function batchVacancyLLMExplanations(
+  llm: LLMClient,
+  resumeText: string,
+  vacancyBlocks: VacancyBlock[]
+): Promise<BatchVacancyLLMResult[]> {
+  if (vacancyBlocks.length === 0) {
+    return [];
+  }
+
+  if (vacancyBlocks.length > LLM_BATCH_SIZE) {
+    throw new Error(`Batch size cannot exceed ${LLM_BATCH_SIZE} vacancies`);
+  }
+
+  const vacancyList = vacancyBlocks.map((block, index) => {
+    return `Job ${index + 1} (ID: ${block.vacancy_id}):
+${block.job_text}`;
+  }).join('\n\n---\n\n');
+
+  const prompt = `You are an AI recruiting assistant.
+Evaluate the match between the following candidate resume and multiple job descriptions.
+
+For each job, provide:
+1. llm_score: A float number from 0 to 1 based on:
+   - functional responsibility overlap
+   - relevant experience depth
+   - industry/domain match
+   - growth/leadership indicators
+   - seniority alignment
+   - similarity of metrics and achievements
+
+2. explanation: A short 1-2 sentence explanation of why the candidate fits this job, focusing on:
+   - functional experience
+   - relevant achievements
+   - industry match
+   - role seniority
+   Do NOT include weaknesses.
+
+Candidate Resume:
+
+${resumeText.trim()}
+
+Jobs:
+
+${vacancyList}
+
+Return ONLY valid JSON in this exact format:
+{
+  "results": [
+    {
+      "vacancy_id": "uuid",
+      "llm_score": 0.85,
+      "explanation": "1-2 sentence text"
+    }
+  ]
+}`;
+
+  const content = await llm.complete({
+    task: 'matching.reverse_batch_explanations',
+    tier: MATCHING_MODEL_TIERS.postRank,
+    system: 'You are an AI recruiting assistant. Return ONLY valid JSON. Do not include any text before or after the JSON.',
+    prompt,
+    temperature: 0.3,
+    maxTokens: 2000,
+    json: true,
+  });
+
+  let parsedResponse: { results: BatchVacancyLLMResult[] };
+  try {
+    parsedResponse = JSON.parse(content);
+  } catch (parseError) {
+    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    if (jsonMatch) {
+      parsedResponse = JSON.parse(jsonMatch[1]);
+    } else {
+      throw new Error(`Failed to parse JSON response: ${content}`);
+    }
+  }
+
+  if (!parsedResponse.results || !Array.isArray(parsedResponse.results)) {
+    throw new Error('Invalid response format: missing results array');
+  }
+
+  return parsedResponse.results.map((result: any) => {
+    const llmScore = typeof result.llm_score === 'number'
+      ? Math.max(0, Math.min(1, result.llm_score))
+      : parseFloat(result.llm_score || '0');
+
+    if (isNaN(llmScore)) {
+      throw new Error(`Invalid llm_score for vacancy ${result.vacancy_id}: ${result.llm_score}`);
+    }
+
+    return {
+      vacancy_id: result.vacancy_id,
+      llm_score: llmScore,
+      explanation: result.explanation || 'Explanation unavailable',
+    };
+  });
+}
+
+/**
+ * Get LLM post-ranking for the neural-ranked vacancies (cache first, then batches of 20)
+ */
+export async function getVacancyLLMPostRanking(
+  deps: MatchingDependencies,
+  candidate: MatchingCandidate,
+  vacancyMap: Map<string, MatchingVacancy>,
+  neuralRankedVacancies: NeuralRankedVacancy[]
+): Promise<LLMPostRankedVacancy[]> {
+  if (neuralRankedVacancies.length === 0) {
+    return [];
+  }
+
+  const resumeText = candidate.resume_text || '';
+  if (!resumeText.trim()) {
+    throw new Error('Candidate resume_text is empty');
+  }
+
+  const vacancyIds = neuralRankedVacancies.map(v => v.vacancy_id);
+  const cacheEntries = await deps.data.getCandidateCacheEntries(candidate.id, vacancyIds);
+
+  const cachedMap = new Map<string, number>();
+  for (const entry of cacheEntries) {
+    if (entry.llm_score !== null && isFresh(entry.updated_at, SEVEN_DAYS_IN_MS)) {
+      cachedMap.set(entry.vacancy_id, entry.llm_score);
+    }
+  }
+
+  const neuralMap = new Map(neuralRankedVacancies.map(v => [v.vacancy_id, v]));
+  const vacanciesNeedingLLM: VacancyBlock[] = [];
+  const llmRankedVacancies: LLMPostRankedVacancy[] = [];
+
+  for (const vacancy of neuralRankedVacancies) {
+    const cachedScore = cachedMap.get(vacancy.vacancy_id);
+
+    if (cachedScore !== undefined) {
+      llmRankedVacancies.push({ ...vacancy, llm_score: cachedScore });
+      continue;
+    }
+
+    const jobText = getVacancyText(vacancyMap, vacancy.vacancy_id);
+    if (jobText.trim()) {
+      vacanciesNeedingLLM.push({ vacancy_id: vacancy.vacancy_id, job_text: jobText });
+    }
+  }
+
+  for (let i = 0; i < vacanciesNeedingLLM.length; i += LLM_BATCH_SIZE) {
+    const batch = vacanciesNeedingLLM.slice(i, i + LLM_BATCH_SIZE);
+    console.log(`Processing reverse LLM batch ${Math.floor(i / LLM_BATCH_SIZE) + 1} with ${batch.length} vacancies...`);
+
+    try {
+      const batchResults = await batchVacancyLLMExplanations(deps.llm, resumeText, batch);
+
+      for (const result of batchResults) {
+        const neuralVacancy = neuralMap.get(result.vacancy_id);
+        if (!neuralVacancy) {
+          continue; // LLM returned an id that was not in the batch
+        }
+
+        await deps.data.upsertCacheEntry({
+          vacancy_id: result.vacancy_id,
+          candidate_id: candidate.id,
+          llm_score: result.llm_score,
+          explanation: result.explanation,
+        });
+
+        llmRankedVacancies.push({ ...neuralVacancy, llm_score: result.llm_score });
+      }
+    } catch (error) {
+      console.error(`Error processing reverse LLM batch:`, error);
+    }
+  }
+
+  return llmRankedVacancies;
+}
+
+/**
+ * Compute final scores for vacancies, each with its own scoring profile, and store them in match_cache
+ * together with the factor breakdown, as computeFinalScores does for a forward run.
+ *
+ * @param profile - Run profile: sets pre_score_limit and neural_rank_limit
+ */
+export async function computeFinalVacancyScores(
+  deps: MatchingDependencies,
+  candidate: MatchingCandidate,
+  profile: ScoringProfile,
+  requestedProfileId?: string | null
+): Promise<FinalScoredVacancy[]> {
+  const vacancies = await deps.data.listActiveVacancies();
+  const vacancyMap = new Map(vacancies.map(vacancy => [vacancy.id, vacancy]));
+  const vacancyProfiles = await resolveVacancyProfiles(deps, vacancies, profile, requestedProfileId);
+
+  const preScoreResults = await getTopVacanciesByPreScore(deps, candidate, vacancies, vacancyProfiles, profile);
+  const neuralRankedVacancies = await getTopNeuralRankedVacancies(deps, candidate, vacancyMap, profile, preScoreResults);
+  const llmPostRankedVacancies = await getVacancyLLMPostRanking(deps, candidate, vacancyMap, neuralRankedVacancies);
+
+  if (llmPostRankedVacancies.length === 0) {
+    return [];
+  }
+
+  const rankedIds = new Set(llmPostRankedVacancies.map(v => v.vacancy_id));
+  const breakdowns = await buildVacancyMatchBreakdowns(
+    deps,
+    candidate.id,
+    preScoreResults
+      .filter(result => rankedIds.has(result.vacancy_id))
+      .map(result => ({ vacancy: vacancyMap.get(result.vacancy_id)!, preScore: result }))
+  );
+
+  const finalScoredVacancies: FinalScoredVacancy[] = llmPostRankedVacancies.map((vacancy) => {
+    const vacancyProfile = vacancyProfiles.get(vacancy.vacancy_id) ?? profile;
+    return {
+      vacancy_id: vacancy.vacancy_id,
+      pre_score: vacancy.pre_score,
+      neural_rank_score: vacancy.neural_rank_score,
+      llm_score: vacancy.llm_score,
+      final_score: computeFusionScore(vacancyProfile, vacancy),
+      scoring_profile_id: vacancyProfile.id,
+      breakdown: breakdowns.get(vacancy.vacancy_id) ?? null,
+    };
+  });
+
+  finalScoredVacancies.sort((a, b) => b.final_score - a.final_score);
+
+  for (const vacancy of finalScoredVacancies) {
+    try {
+      await deps.data.upsertCacheEntry({
+        candidate_id: candidate.id,
+        ...vacancy,
+        breakdown: vacancy.breakdown ?? undefined,
+      });
+    } catch (error) {
+      console.error(`Failed to update cache for vacancy ${vacancy.vacancy_id}:`, error);
+    }
+  }
+
+  return finalScoredVacancies;
+}
+
+/**
+ * Attach cached explanations (30 days validity) to ranked vacancies
+ */
+export async function attachVacancyExplanations(
+  deps: MatchingDependencies,
+  candidateId: string,
+  rankedVacancies: FinalScoredVacancy[]
+): Promise<VacancyMatchResult[]> {
+  if (rankedVacancies.length === 0) {
+    return [];
+  }
+
+  const cacheEntries = await deps.data.getCandidateCacheEntries(candidateId, rankedVacancies.map(v => v.vacancy_id));
+  const explanationMap = new Map<string, string>();
+
+  for (const entry of cacheEntries) {
+    if (entry.explanation && isFresh(entry.updated_at, THIRTY_DAYS_IN_MS)) {
+      explanationMap.set(entry.vacancy_id, entry.explanation);
+    }
+  }
+
+  return rankedVacancies.map(vacancy => ({
+    ...vacancy,
+    explanation: explanationMap.get(vacancy.vacancy_id) || 'Explanation unavailable',
+  }));
+}
+
+/**
+ * Run the 3-layer pipeline in reverse: rank active vacancies for a candidate
+ * Cutoffs come from the requested scoring profile, otherwise the default profile; each vacancy is
+ * scored with the requested profile, otherwise its own.
+ */
+export async function runReverseMatchingPipeline(
+  deps: MatchingDependencies,
+  candidateId: string,
+  options: MatchingRunOptions = {}
+): Promise<ReverseMatchingRunResult> {
+  const candidate = await loadCandidate(deps, candidateId);
+  const profile = await resolveScoringProfile(deps, null, options.scoringProfileId);
+
+  const rankedVacancies = await computeFinalVacancyScores(deps, candidate, profile, options.scoringProfileId);
+  const results = await attachVacancyExplanations(deps, candidateId, rankedVacancies);
+
+  return { profile, results };
+}
@@ -0,0 +1,121 @@
+import type { SalaryFit, SalaryRange, SalaryUnit } from './types.ts';
+
+export const SALARY_UNITS: SalaryUnit[] = ['year', 'month', 'hour'];
+
+export const SALARY_UNIT_LABELS: Record<SalaryUnit, string> = {
+  year: 'per year',
+  month: 'per month',
+  hour: 'per hour',
+};
+
+export const SALARY_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'PLN', 'UAH', 'INR'];
+
+// Full-time hours per year (40 h x 52 weeks)
+export const HOURS_PER_YEAR = 2080;
+export const MONTHS_PER_YEAR = 12;
+
+/**
+ * Parse a salary amount stored as text (e.g., "100000", "100,000", "$95k")
+ * @returns The amount, or null when it is empty or not a positive number
+ */
+export function parseSalaryAmount(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+
+  const cleaned = value.trim().toLowerCase().replace(/[\s,$€£]/g, '');
+  const multiplier = cleaned.endsWith('k') ? 1000 : 1;
+  const amount = parseFloat(cleaned.replace(/k$/, '')) * multiplier;
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Convert an hourly/monthly/yearly amount to a yearly figure (unknown units count as yearly)
+ */
+export function annualizeSalary(amount: number, unit: SalaryUnit | string | null | undefined): number {
+  if (unit === 'hour') {
+    return amount * HOURS_PER_YEAR;
+  }
+  if (unit === 'month') {
+    return amount * MONTHS_PER_YEAR;
+  }
+  return amount;
+}
+
+/**
+ * Annual [min, max] of a range; a missing bound takes the other one
+ * @returns null when neither bound is set
+ */
+function annualBounds(range: SalaryRange): [number, number] | null {
+  const min = parseSalaryAmount(range.min);
+  const max = parseSalaryAmount(range.max);
+  if (min === null && max === null) {
+    return null;
+  }
+
+  const low = annualizeSalary(min ?? max!, range.unit);
+  const high = annualizeSalary(max ?? min!, range.unit);
+  return low <= high ? [low, high] : [high, low];
+}
+
+/**
+ * Compare a candidate's expectation with a job's budget
+ *
+ * - overlap: the annualized ranges intersect
+ * - over_budget_pct: how far the candidate's minimum exceeds the job's maximum (0.2 = 20% over)
+ * - under_budget_pct: how far the candidate's maximum is below the job's minimum
+ * - score: 1 on overlap, minus the over-budget share (or half the under-budget share), floored at 0
+ *
+ * Candidates have no currency of their own and are assumed to quote in the job's currency.
+ *
+ * @returns null when either side has no amounts or the currencies differ
+ */
+export function calculateSalaryFit(candidate: SalaryRange, job: SalaryRange): SalaryFit | null {
+  if (candidate.currency && job.currency && candidate.currency.toUpperCase() !== job.currency.toUpperCase()) {
+    return null;
+  }
+
+  const candidateBounds = annualBounds(candidate);
+  const jobBounds = annualBounds(job);
+  if (!candidateBounds || !jobBounds) {
+    return null;
+  }
+
+  const [candidateMin, candidateMax] = candidateBounds;
+  const [jobMin, jobMax] = jobBounds;
+  const overBudgetPct = candidateMin > jobMax ? (candidateMin - jobMax) / jobMax : 0;
+  const underBudgetPct = candidateMax < jobMin ? (jobMin - candidateMax) / jobMin : 0;
+
+  return {
+    candidate_annual_min: Math.round(candidateMin),
+    candidate_annual_max: Math.round(candidateMax),
+    job_annual_min: Math.round(jobMin),
+    job_annual_max: Math.round(jobMax),
+    currency: (job.currency || candidate.currency || null)?.toUpperCase() ?? null,
+    overlap: overBudgetPct === 0 && underBudgetPct === 0,
+    over_budget_pct: overBudgetPct,
+    under_budget_pct: underBudgetPct,
+    score: Math.max(0, 1 - overBudgetPct - underBudgetPct / 2),
+  };
+}
+
+/**
+ * Whether the candidate is over budget by more than maxOverBudgetPct (null disables the check)
+ */
+export function exceedsSalaryBudget(fit: SalaryFit | null, maxOverBudgetPct: number | null | undefined): boolean {
+  if (!fit || maxOverBudgetPct === null || maxOverBudgetPct === undefined) {
+    return false;
+  }
+  return fit.over_budget_pct > maxOverBudgetPct;
+}
+
+/**
+ * Format an annual amount for display, e.g. "USD 120,000"
+ */
+export function formatAnnualSalary(amount: number, currency: string | null): string {
+  const formatted = Math.round(amount).toLocaleString('en-US');
+  return currency ? `${currency} ${formatted}` : formatted;
+}
@@ -0,0 +1,67 @@
+import type { FusionScores, ScoringProfile } from './types.ts';
+
+/**
+ * Built-in profile reproducing the original fusion formula.
+ * Used when the scoring_profiles table has no default row (e.g., migration 011 not applied yet).
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: null,
+  version: 'v1',
+  name: 'Default',
+  description: 'final_score = 0.20 * pre_score + 0.50 * neural_rank_score + 0.30 * llm_score',
+  pre_score_weight: 0.20,
+  neural_rank_weight: 0.50,
+  llm_weight: 0.30,
+  pre_score_limit: 50,
+  neural_rank_limit: 10,
+  soft_penalties: {
+    skills: 0.15,
+    industry: 0.15,
+    title: 0.15,
+    location: 0.15,
+    salary: 0.15,
+    seniority: 0.15,
+    recency: 0.15,
+  },
+  max_over_budget_pct: null,
+  is_default: true,
+};
+
+export const SCORING_PROFILE_COLUMNS =
+  'id, version, name, description, pre_score_weight, neural_rank_weight, llm_weight, pre_score_limit, neural_rank_limit, soft_penalties, max_over_budget_pct, is_default';
+
+/**
+ * Convert a scoring_profiles row into a ScoringProfile, filling gaps from the default profile
+ */
+export function mapScoringProfileRow(row: any): ScoringProfile {
+  return {
+    id: row.id,
+    version: row.version,
+    name: row.name || row.version,
+    description: row.description,
+    pre_score_weight: row.pre_score_weight ?? DEFAULT_SCORING_PROFILE.pre_score_weight,
+    neural_rank_weight: row.neural_rank_weight ?? DEFAULT_SCORING_PROFILE.neural_rank_weight,
+    llm_weight: row.llm_weight ?? DEFAULT_SCORING_PROFILE.llm_weight,
+    pre_score_limit: row.pre_score_limit ?? DEFAULT_SCORING_PROFILE.pre_score_limit,
+    neural_rank_limit: row.neural_rank_limit ?? DEFAULT_SCORING_PROFILE.neural_rank_limit,
+    soft_penalties: {
+      ...DEFAULT_SCORING_PROFILE.soft_penalties,
+      ...(row.soft_penalties || {}),
+    },
+    max_over_budget_pct: row.max_over_budget_pct ?? null,
+    is_default: !!row.is_default,
+  };
+}
+
+/**
+ * Combine the three pipeline scores using the profile weights
+ *
+ * final_score = pre_score_weight * pre_score + neural_rank_weight * neural_rank_score + llm_weight * llm_score
+ */
+export function computeFusionScore(profile: ScoringProfile, scores: FusionScores): number {
+  return (
+    profile.pre_score_weight * scores.pre_score +
+    profile.neural_rank_weight * scores.neural_rank_score +
+    profile.llm_weight * scores.llm_score
+  );
+}
@@ -0,0 +1,115 @@
+import type { MatchingCandidate, SeniorityBand, SeniorityLevel } from './types.ts';
+
+/**
+ * Seniority bands from junior to senior (LinkedIn levels, same values as jobs.seniority_level)
+ */
+export const SENIORITY_BANDS: SeniorityBand[] = [
+  'Internship',
+  'Entry level',
+  'Associate',
+  'Mid-Senior level',
+  'Director',
+  'Executive',
+];
+
+/**
+ * Typical years of experience per band; max is exclusive (null = no upper bound)
+ */
+export const SENIORITY_YEARS: Record<SeniorityBand, { min: number; max: number | null }> = {
+  'Internship': { min: 0, max: 1 },
+  'Entry level': { min: 1, max: 3 },
+  'Associate': { min: 3, max: 5 },
+  'Mid-Senior level': { min: 5, max: 10 },
+  'Director': { min: 10, max: 15 },
+  'Executive': { min: 15, max: null },
+};
+
+// Title keywords checked from most to least senior; the first band with a match wins
+const TITLE_KEYWORDS: Array<[SeniorityBand, RegExp]> = [
+  ['Executive', /\b(chief|c[etfmoi]o|cxo|vp|vice president|president|founder|co-founder)\b/],
+  ['Director', /\b(director|head of)\b/],
+  ['Mid-Senior level', /\b(senior|sr\.?|lead|principal|staff|manager|architect)\b/],
+  ['Associate', /\b(middle|mid-level|associate)\b/],
+  ['Entry level', /\b(junior|jr\.?|entry[- ]level|graduate|trainee)\b/],
+  ['Internship', /\b(intern|internship)\b/],
+];
+
+export function isSeniorityBand(value: unknown): value is SeniorityBand {
+  return typeof value === 'string' && (SENIORITY_BANDS as string[]).includes(value);
+}
+
+/**
+ * Numeric years from the free-text experience field (e.g., "5 years", "7+ yrs", "3.5")
+ * @returns null when the text has no number
+ */
+export function parseExperienceYears(experience: string | number | null | undefined): number | null {
+  if (experience === null || experience === undefined) {
+    return null;
+  }
+  if (typeof experience === 'number') {
+    return Number.isFinite(experience) && experience >= 0 ? experience : null;
+  }
+
+  const match = experience.replace(',', '.').match(/\d+(\.\d+)?/);
+  if (!match) {
+    return null;
+  }
+  const years = parseFloat(match[0]);
+  return Number.isFinite(years) ? years : null;
+}
+
+export function seniorityFromYears(years: number): SeniorityBand {
+  return SENIORITY_BANDS.find(band => {
+    const range = SENIORITY_YEARS[band];
+    return years >= range.min && (range.max === null || years < range.max);
+  }) ?? 'Executive';
+}
+
+export function seniorityFromTitle(title: string | null | undefined): SeniorityBand | null {
+  const normalized = (title || '').toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  const match = TITLE_KEYWORDS.find(([, pattern]) => pattern.test(normalized));
+  return match ? match[0] : null;
+}
+
+/**
+ * Seniority band of a candidate
+ * Director/Executive title keywords win (a "Head of Sales" is a Director whatever the years);
+ * otherwise years decide, with the title as fallback when years are unknown.
+ */
+export function resolveCandidateSeniority(
+  title: string | null | undefined,
+  years: number | null | undefined
+): SeniorityBand | null {
+  const fromTitle = seniorityFromTitle(title);
+  if (fromTitle === 'Executive' || fromTitle === 'Director') {
+    return fromTitle;
+  }
+  if (years !== null && years !== undefined) {
+    return seniorityFromYears(years);
+  }
+  return fromTitle;
+}
+
+/**
+ * Candidate's stored band, derived from title and years for rows saved before it existed
+ */
+export function getCandidateSeniority(candidate: MatchingCandidate): SeniorityBand | null {
+  return candidate.seniority_level ?? resolveCandidateSeniority(candidate.general_title, candidate.experience_years);
+}
+
+/**
+ * Signed band distance: candidate band minus job band (-2 = two bands too junior)
+ * @returns null when either side is unknown or 'Not Applicable'
+ */
+export function calculateSeniorityDistance(
+  jobLevel: SeniorityLevel | string | null | undefined,
+  candidateLevel: SeniorityLevel | string | null | undefined
+): number | null {
+  if (!isSeniorityBand(jobLevel) || !isSeniorityBand(candidateLevel)) {
+    return null;
+  }
+  return SENIORITY_BANDS.indexOf(candidateLevel) - SENIORITY_BANDS.indexOf(jobLevel);
+}
@@ -0,0 +1,100 @@
+import type { MatchingVacancy, SkillPriority, SkillRequirement } from './types.ts';
+
+export const SKILL_PRIORITIES: SkillPriority[] = ['required', 'preferred', 'bonus'];
+
+export const SKILL_PRIORITY_LABELS: Record<SkillPriority, string> = {
+  required: 'Required',
+  preferred: 'Preferred',
+  bonus: 'Bonus',
+};
+
+function isSkillPriority(value: unknown): value is SkillPriority {
+  return typeof value === 'string' && (SKILL_PRIORITIES as string[]).includes(value);
+}
+
+/**
+ * Sanitize skill requirements from an LLM response or a jsonb column
+ * Accepts objects ({ skill, priority, min_years }) or plain strings (treated as required).
+ * Drops empty skills and keeps the first entry of case-insensitive duplicates.
+ */
+export function normalizeSkillRequirements(raw: unknown): SkillRequirement[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const requirements: SkillRequirement[] = [];
+
+  for (const item of raw) {
+    const entry: any = typeof item === 'string' ? { skill: item } : (item ?? {});
+    const skill = String(entry.skill ?? entry.name ?? '').trim();
+    if (!skill || seen.has(skill.toLowerCase())) {
+      continue;
+    }
+    seen.add(skill.toLowerCase());
+
+    const priority = typeof entry.priority === 'string' ? entry.priority.toLowerCase().trim() : '';
+    const minYears = Number(entry.min_years ?? entry.minYears);
+
+    requirements.push({
+      skill,
+      priority: isSkillPriority(priority) ? priority : 'required',
+      min_years: Number.isFinite(minYears) && minYears > 0 ? minYears : null,
+    });
+  }
+
+  return requirements;
+}
+
+/**
+ * Skill requirements of a job, falling back to the flat skill list (every skill required)
+ */
+export function resolveSkillRequirements(
+  requirements: SkillRequirement[] | null | undefined,
+  flatSkills: string[] | null | undefined
+): SkillRequirement[] {
+  if (requirements && requirements.length > 0) {
+    return requirements;
+  }
+  return normalizeSkillRequirements(flatSkills || []);
+}
+
+export function getVacancySkillRequirements(vacancy: MatchingVacancy): SkillRequirement[] {
+  return resolveSkillRequirements(vacancy.skill_requirements, vacancy.skills_required);
+}
+
+export function skillsWithPriority(requirements: SkillRequirement[], priority: SkillPriority): string[] {
+  return requirements.filter(r => r.priority === priority).map(r => r.skill);
+}
+
+/**
+ * Describe skill requirements for LLM prompts, e.g. "Required: React (3+ years), SQL"
+ */
+export function formatSkillRequirements(requirements: SkillRequirement[]): string {
+  return SKILL_PRIORITIES
+    .map(priority => {
+      const skills = requirements
+        .filter(r => r.priority === priority)
+        .map(r => (r.min_years ? `${r.skill} (${r.min_years}+ years)` : r.skill));
+      return skills.length > 0 ? `${SKILL_PRIORITY_LABELS[priority]}: ${skills.join(', ')}` : '';
+    })
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Job text sent to the neural rank and LLM post-rank stages
+ * Appends the skill priorities so the models weigh must-haves over nice-to-haves.
+ * Vacancies without explicit priorities are sent unchanged.
+ */
+export function buildVacancyPromptText(vacancy: MatchingVacancy): string {
+  const jobText = vacancy.job_text || '';
+  if (!vacancy.skill_requirements || vacancy.skill_requirements.length === 0 || !jobText.trim()) {
+    return jobText;
+  }
+
+  return `${jobText.trim()}
+
+Skill requirements:
+${formatSkillRequirements(vacancy.skill_requirements)}`;
+}
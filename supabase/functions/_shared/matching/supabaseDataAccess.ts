@@ -0,0 +1,253 @@
+import type {
+  BreakdownCandidate,
+  MatchCacheEntry,
+  MatchCacheUpdate,
+  MatchingCandidate,
+  MatchingDataAccess,
+  MatchingVacancy,
+  PreScoreMatchResult,
+  ScoringProfile,
+  VacancyPreScoreMatchResult,
+} from './types.ts';
+import { SCORING_PROFILE_COLUMNS, mapScoringProfileRow } from './scoringProfiles.ts';
+import { normalizeSkillRequirements } from './skillRequirements.ts';
+
+// Positions are embedded from candidate_positions (foreign key candidate_id)
+const CANDIDATE_COLUMNS = 'id, general_title, location, industry, skills, resume_text, salary_min, salary_max, salary_unit, seniority_level, experience_years, candidate_positions(title, company, start_date, end_date, is_current)';
+
+const VACANCY_COLUMNS = 'id, title, location, industry, skills_required, skill_requirements, job_text, scoring_profile_id, salary_min, salary_max, salary_currency, salary_unit, seniority_level';
+
+function mapVacancyRow(row: any): MatchingVacancy {
+  return {
+    ...row,
+    skill_requirements: row.skill_requirements ? normalizeSkillRequirements(row.skill_requirements) : null,
+    salary_min: row.salary_min ?? null,
+    salary_max: row.salary_max ?? null,
+    salary_currency: row.salary_currency ?? null,
+    salary_unit: row.salary_unit ?? null,
+    seniority_level: row.seniority_level ?? null,
+  };
+}
+
+function mapCandidateRow(row: any): MatchingCandidate {
+  const { candidate_positions, ...candidate } = row;
+  return {
+    ...candidate,
+    work_history: candidate_positions || [],
+  };
+}
+
+/**
+ * MatchingDataAccess backed by a Supabase client.
+ * The client is passed in (npm package in the browser, esm.sh build in Deno).
+ * Candidates and the pre-score functions go through candidateClient (the same client by default): the match
+ * function passes a service-role client there, since hiring managers match candidates they may not read
+ * (blind review, migration 024). Only scores and explanations leave the pipeline.
+ */
+export function createSupabaseMatchingDataAccess(supabase: any, candidateClient: any = supabase): MatchingDataAccess {
+  return {
+    async getVacancy(vacancyId: string): Promise<MatchingVacancy | null> {
+      const { data, error } = await supabase
+        .from('vacancies')
+        .select(VACANCY_COLUMNS)
+        .eq('id', vacancyId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch vacancy: ${error.message}`);
+      }
+
+      return data ? mapVacancyRow(data) : null;
+    },
+
+    async listCandidatesForFiltering(): Promise<MatchingCandidate[]> {
+      const { data, error } = await candidateClient
+        .from('candidates')
+        .select(CANDIDATE_COLUMNS);
+
+      if (error) {
+        throw new Error(`Failed to fetch candidates: ${error.message}`);
+      }
+
+      return (data || []).map(mapCandidateRow);
+    },
+
+    async getPreScores(vacancyId: string, softPenalties: Map<string, number>, limit: number): Promise<PreScoreMatchResult[]> {
+      const { data, error } = await candidateClient.rpc('match_candidates_pre_score', {
+        vacancy_uuid: vacancyId,
+        p_soft_penalties: Object.fromEntries(softPenalties),
+        p_limit: limit,
+      });
+
+      if (error) {
+        throw new Error(`Failed to get pre-score matches: ${error.message}`);
+      }
+
+      return (data || []) as PreScoreMatchResult[];
+    },
+
+    async getResumeTexts(candidateIds: string[]): Promise<Map<string, string>> {
+      if (candidateIds.length === 0) {
+        return new Map();
+      }
+
+      const { data, error } = await candidateClient
+        .from('candidates')
+        .select('id, resume_text')
+        .in('id', candidateIds);
+
+      if (error) {
+        throw new Error(`Failed to fetch candidates: ${error.message}`);
+      }
+
+      return new Map((data || []).map((c: any) => [c.id, c.resume_text || '']));
+    },
+
+    async getBreakdownCandidates(candidateIds: string[]): Promise<BreakdownCandidate[]> {
+      if (candidateIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await candidateClient
+        .from('candidates')
+        .select(`${CANDIDATE_COLUMNS}, ready_to_relocate_to, job_title_embedding, job_title_embedding_model`)
+        .in('id', candidateIds);
+
+      if (error) {
+        throw new Error(`Failed to fetch candidates: ${error.message}`);
+      }
+
+      // pgvector columns come back as a string like "[0.1,0.2,...]"
+      return (data || []).map((c: any) => ({
+        ...mapCandidateRow(c),
+        job_title_embedding: typeof c.job_title_embedding === 'string'
+          ? JSON.parse(c.job_title_embedding)
+          : c.job_title_embedding ?? null,
+      }));
+    },
+
+    async getCacheEntries(vacancyId: string, candidateIds: string[]): Promise<MatchCacheEntry[]> {
+      if (candidateIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('match_cache')
+        .select('vacancy_id, candidate_id, neural_rank_score, llm_score, explanation, updated_at')
+        .eq('vacancy_id', vacancyId)
+        .in('candidate_id', candidateIds);
+
+      if (error) {
+        // A cache read failure should never block matching
+        console.warn('Failed to read match_cache:', error.message);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async getCandidate(candidateId: string): Promise<MatchingCandidate | null> {
+      const { data, error } = await candidateClient
+        .from('candidates')
+        .select(CANDIDATE_COLUMNS)
+        .eq('id', candidateId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch candidate: ${error.message}`);
+      }
+
+      return data ? mapCandidateRow(data) : null;
+    },
+
+    async listActiveVacancies(): Promise<MatchingVacancy[]> {
+      const { data, error } = await supabase
+        .from('vacancies')
+        .select(VACANCY_COLUMNS)
+        .eq('status', 'active');
+
+      if (error) {
+        throw new Error(`Failed to fetch vacancies: ${error.message}`);
+      }
+
+      return (data || []).map(mapVacancyRow);
+    },
+
+    async getVacancyPreScores(candidateId: string, softPenalties: Map<string, number>, limit: number): Promise<VacancyPreScoreMatchResult[]> {
+      const { data, error } = await candidateClient.rpc('match_vacancies_pre_score', {
+        candidate_uuid: candidateId,
+        p_soft_penalties: Object.fromEntries(softPenalties),
+        p_limit: limit,
+      });
+
+      if (error) {
+        throw new Error(`Failed to get vacancy pre-score matches: ${error.message}`);
+      }
+
+      return (data || []) as VacancyPreScoreMatchResult[];
+    },
+
+    async getCandidateCacheEntries(candidateId: string, vacancyIds: string[]): Promise<MatchCacheEntry[]> {
+      if (vacancyIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('match_cache')
+        .select('vacancy_id, candidate_id, neural_rank_score, llm_score, explanation, updated_at')
+        .eq('candidate_id', candidateId)
+        .in('vacancy_id', vacancyIds);
+
+      if (error) {
+        // A cache read failure should never block matching
+        console.warn('Failed to read match_cache:', error.message);
+        return [];
+      }
+
+      return data || [];
+    },
+
+    async upsertCacheEntry(entry: MatchCacheUpdate): Promise<void> {
+      const { error } = await supabase
+        .from('match_cache')
+        .upsert({
+          ...entry,
+          updated_at: new Date().toISOString(),
+        }, {
+          onConflict: 'vacancy_id,candidate_id',
+        });
+
+      if (error) {
+        console.error(`Failed to update match_cache for candidate ${entry.candidate_id}:`, error.message);
+      }
+    },
+
+    async getScoringProfile(profileId: string): Promise<ScoringProfile | null> {
+      const { data, error } = await supabase
+        .from('scoring_profiles')
+        .select(SCORING_PROFILE_COLUMNS)
+        .eq('id', profileId)
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return mapScoringProfileRow(data);
+    },
+
+    async getDefaultScoringProfile(): Promise<ScoringProfile | null> {
+      const { data, error } = await supabase
+        .from('scoring_profiles')
+        .select(SCORING_PROFILE_COLUMNS)
+        .eq('is_default', true)
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return mapScoringProfileRow(data);
+    },
+  };
+}
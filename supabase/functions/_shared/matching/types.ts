@@ -0,0 +1,397 @@
+// Shared types for the matching engine.
+// This module is imported by both the Vite app and the Deno edge functions,
+// so it must not depend on any runtime-specific package or global.
+
+import type { LLMClient } from '../llm.ts';
+import type { EmbeddingProvider } from '../embeddings.ts';
+import type { LocationMatchFactors } from './locationMatchingScore.ts';
+
+export interface SoftPenalties {
+  skills: number;
+  industry: number;
+  title: number;
+  location: number;
+  salary: number;
+  seniority: number;
+  recency: number;
+}
+
+export type SoftPenaltyName = keyof SoftPenalties;
+
+export type SkillPriority = 'required' | 'preferred' | 'bonus';
+
+export type SeniorityBand = 'Internship' | 'Entry level' | 'Associate' | 'Mid-Senior level' | 'Director' | 'Executive';
+
+export type SeniorityLevel = SeniorityBand | 'Not Applicable';
+
+export type SalaryUnit = 'year' | 'month' | 'hour';
+
+/**
+ * Pay range as stored on jobs, vacancies and candidates (amounts may be text columns)
+ */
+export interface SalaryRange {
+  min: number | string | null;
+  max: number | string | null;
+  unit: SalaryUnit | null; // null counts as yearly
+  currency?: string | null;
+}
+
+/**
+ * Candidate expectation vs job budget, both annualized
+ */
+export interface SalaryFit {
+  candidate_annual_min: number;
+  candidate_annual_max: number;
+  job_annual_min: number;
+  job_annual_max: number;
+  currency: string | null;
+  overlap: boolean;
+  over_budget_pct: number; // Candidate minimum above job maximum, as a share of the job maximum
+  under_budget_pct: number; // Candidate maximum below job minimum, as a share of the job minimum
+  score: number; // 0-1, 1 when the ranges overlap
+}
+
+/**
+ * One position from a candidate's work history (row of candidate_positions)
+ */
+export interface WorkHistoryPosition {
+  title: string;
+  company: string | null;
+  start_date: string | null; // ISO date with month precision
+  end_date: string | null; // null for the current role or when unknown
+  is_current: boolean;
+}
+
+/**
+ * Period without any position, as "YYYY-MM" months (inclusive)
+ */
+export interface EmploymentGap {
+  from: string;
+  to: string | null; // null = still without a position
+  months: number;
+}
+
+/**
+ * Work history read against one vacancy, see calculateWorkHistorySignals
+ */
+export interface WorkHistorySignals {
+  relevant_years: number; // Years in positions with a title similar to the vacancy's
+  months_since_relevant: number | null; // 0 = relevant role is current, null = no dated relevant position
+  average_tenure_months: number;
+  gaps: EmploymentGap[]; // At least MIN_GAP_MONTHS long, oldest first
+}
+
+/**
+ * One skill of a job with its priority (stored as jsonb in jobs/vacancies.skill_requirements)
+ */
+export interface SkillRequirement {
+  skill: string;
+  priority: SkillPriority;
+  min_years: number | null;
+}
+
+export interface ScoringProfile {
+  id: string | null; // null only for the built-in fallback profile
+  version: string;
+  name: string;
+  description?: string | null;
+  pre_score_weight: number;
+  neural_rank_weight: number;
+  llm_weight: number;
+  pre_score_limit: number;
+  neural_rank_limit: number;
+  soft_penalties: SoftPenalties;
+  max_over_budget_pct: number | null; // Hard filter: exclude candidates over budget by more than this share (null = off)
+  is_default: boolean;
+}
+
+export interface FusionScores {
+  pre_score: number;
+  neural_rank_score: number;
+  llm_score: number;
+}
+
+export interface PreScoreMatchResult {
+  candidate_id: string;
+  meta_similarity: number;
+  content_similarity: number;
+  pre_score: number;
+}
+
+/**
+ * Pre-score row after the filters: pre_score already includes the soft penalty
+ */
+export interface PenalizedPreScoreMatchResult extends PreScoreMatchResult {
+  soft_penalty: number;
+  fired_penalties: SoftPenaltyName[];
+}
+
+export interface NeuralRankedCandidate {
+  candidate_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+}
+
+export interface LLMPostRankedCandidate {
+  candidate_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+  llm_score: number;
+}
+
+export interface FinalScoredCandidate {
+  candidate_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+  llm_score: number;
+  final_score: number;
+  scoring_profile_id: string | null;
+  breakdown?: MatchBreakdown | null;
+}
+
+export interface CandidateMatchResult {
+  candidate_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+  llm_score: number;
+  final_score: number;
+  scoring_profile_id: string | null;
+  explanation?: string;
+  breakdown?: MatchBreakdown | null;
+}
+
+export interface FilteredCandidate {
+  candidate_id: string;
+  soft_penalty: number; // 0 or the largest soft penalty of the scoring profile that fired
+  fired_penalties: SoftPenaltyName[];
+}
+
+export interface SkillOverlap {
+  matched: string[]; // Vacancy skills the candidate has
+  missing: string[]; // Vacancy skills the candidate lacks
+  missing_required: string[]; // Subset of missing with priority 'required'
+  extra: string[]; // Candidate skills the vacancy does not ask for
+  match_percentage: number; // matched / required skills (1 when the vacancy requires none)
+}
+
+/**
+ * Factor-level explanation of one candidate's rank, stored in match_cache.breakdown
+ */
+export interface MatchBreakdown {
+  meta_similarity: number;
+  content_similarity: number;
+  title: {
+    candidate_title: string | null;
+    vacancy_title: string | null;
+    score: number | null; // calculateTitleScore (0-20), null when a title embedding is unavailable
+    exact_match: boolean;
+    similar: boolean;
+  };
+  location: {
+    candidate_location: string | null;
+    vacancy_location: string | null;
+    score: number; // calculateLocationMatchingScore (0-20)
+    factors: LocationMatchFactors;
+  };
+  skills: SkillOverlap;
+  industry: {
+    candidate_industry: string | null;
+    vacancy_industry: string | null;
+    exact_match: boolean;
+    related: boolean;
+  };
+  soft_penalties: {
+    fired: SoftPenaltyName[];
+    applied: number; // Multiplier taken off pre_score: pre_score * (1 - applied)
+  };
+  salary?: SalaryFit | null; // null when either side has no salary; absent in breakdowns stored before salary fit
+  seniority?: {
+    candidate_level: SeniorityBand | null;
+    vacancy_level: SeniorityLevel | null;
+    candidate_years: number | null;
+    distance: number | null; // Candidate band minus vacancy band, null when either is unknown
+  };
+  work_history?: WorkHistorySignals | null; // null when the candidate has no dated positions
+}
+
+export interface CandidateBlock {
+  candidate_id: string;
+  resume_text: string;
+}
+
+export interface BatchLLMResult {
+  candidate_id: string;
+  llm_score: number;
+  explanation: string;
+}
+
+// Reverse matching (candidate -> vacancies) mirrors the types above with vacancy_id
+
+export interface VacancyPreScoreMatchResult {
+  vacancy_id: string;
+  meta_similarity: number;
+  content_similarity: number;
+  pre_score: number;
+}
+
+/**
+ * Vacancy pre-score row after the vacancy's filters: pre_score already includes the soft penalty
+ */
+export interface PenalizedVacancyPreScoreMatchResult extends VacancyPreScoreMatchResult {
+  soft_penalty: number;
+  fired_penalties: SoftPenaltyName[];
+}
+
+export interface NeuralRankedVacancy {
+  vacancy_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+}
+
+export interface LLMPostRankedVacancy {
+  vacancy_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+  llm_score: number;
+}
+
+export interface FinalScoredVacancy {
+  vacancy_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+  llm_score: number;
+  final_score: number;
+  scoring_profile_id: string | null;
+  breakdown?: MatchBreakdown | null;
+}
+
+export interface VacancyMatchResult {
+  vacancy_id: string;
+  pre_score: number;
+  neural_rank_score: number;
+  llm_score: number;
+  final_score: number;
+  scoring_profile_id: string | null;
+  explanation?: string;
+  breakdown?: MatchBreakdown | null;
+}
+
+export interface VacancyBlock {
+  vacancy_id: string;
+  job_text: string;
+}
+
+export interface BatchVacancyLLMResult {
+  vacancy_id: string;
+  llm_score: number;
+  explanation: string;
+}
+
+/**
+ * Vacancy fields used by the pipeline (row of the vacancies table)
+ */
+export interface MatchingVacancy {
+  id: string;
+  title: string | null;
+  location: string | null;
+  industry: string | null;
+  skills_required: string[] | null; // Flat list of all skill names
+  skill_requirements: SkillRequirement[] | null; // null for vacancies created before priorities (all required)
+  job_text: string | null;
+  scoring_profile_id: string | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_unit: SalaryUnit | null;
+  seniority_level: SeniorityLevel | null;
+}
+
+/**
+ * Candidate fields used by the hard/soft filters (row of the candidates table)
+ */
+export interface MatchingCandidate {
+  id: string;
+  general_title: string | null;
+  location: string | null;
+  industry: string | null;
+  skills: string[] | null;
+  resume_text: string | null;
+  salary_min: string | null; // Text column, see parseSalaryAmount
+  salary_max: string | null;
+  salary_unit: SalaryUnit | null;
+  seniority_level: SeniorityBand | null; // Normalized band, see resolveCandidateSeniority
+  experience_years: number | null;
+  work_history?: WorkHistoryPosition[] | null; // From candidate_positions; empty for resumes parsed before extraction
+}
+
+/**
+ * Candidate fields additionally needed for the score breakdown
+ */
+export interface BreakdownCandidate extends MatchingCandidate {
+  ready_to_relocate_to: string[] | null;
+  job_title_embedding: number[] | null;
+  job_title_embedding_model: string | null; // Model of job_title_embedding (migration 012)
+}
+
+export interface MatchCacheEntry {
+  vacancy_id: string;
+  candidate_id: string;
+  neural_rank_score: number | null;
+  llm_score: number | null;
+  explanation: string | null;
+  updated_at: string;
+}
+
+export interface MatchCacheUpdate {
+  vacancy_id: string;
+  candidate_id: string;
+  pre_score?: number;
+  neural_rank_score?: number;
+  llm_score?: number;
+  final_score?: number;
+  explanation?: string;
+  scoring_profile_id?: string | null;
+  breakdown?: MatchBreakdown;
+}
+
+/**
+ * Storage operations the pipeline needs.
+ * Implemented over a Supabase client in supabaseDataAccess.ts; any other store works as well.
+ */
+export interface MatchingDataAccess {
+  getVacancy(vacancyId: string): Promise<MatchingVacancy | null>;
+  listCandidatesForFiltering(): Promise<MatchingCandidate[]>;
+  // Top `limit` of the candidates in softPenalties (id -> soft penalty), ranked by penalized pre-score
+  getPreScores(vacancyId: string, softPenalties: Map<string, number>, limit: number): Promise<PreScoreMatchResult[]>;
+  getResumeTexts(candidateIds: string[]): Promise<Map<string, string>>;
+  getCacheEntries(vacancyId: string, candidateIds: string[]): Promise<MatchCacheEntry[]>;
+  getBreakdownCandidates(candidateIds: string[]): Promise<BreakdownCandidate[]>;
+  // Reverse matching
+  getCandidate(candidateId: string): Promise<MatchingCandidate | null>;
+  listActiveVacancies(): Promise<MatchingVacancy[]>;
+  getVacancyPreScores(candidateId: string, softPenalties: Map<string, number>, limit: number): Promise<VacancyPreScoreMatchResult[]>;
+  getCandidateCacheEntries(candidateId: string, vacancyIds: string[]): Promise<MatchCacheEntry[]>;
+  upsertCacheEntry(entry: MatchCacheUpdate): Promise<void>;
+  getScoringProfile(profileId: string): Promise<ScoringProfile | null>;
+  getDefaultScoringProfile(): Promise<ScoringProfile | null>;
+}
+
+export interface MatchingDependencies {
+  data: MatchingDataAccess;
+  llm: LLMClient;
+  embeddings?: EmbeddingProvider; // Enables the title score in breakdowns
+}
+
+export interface MatchingRunOptions {
+  scoringProfileId?: string | null;
+}
+
+export interface MatchingRunResult {
+  profile: ScoringProfile;
+  results: CandidateMatchResult[];
+}
+
+export interface ReverseMatchingRunResult {
+  profile: ScoringProfile; // Sets the cutoffs; each vacancy is scored with its own profile (scoring_profile_id)
+  results: VacancyMatchResult[];
+}
@@ -0,0 +1,133 @@
+import type { EmploymentGap, WorkHistoryPosition, WorkHistorySignals } from './types.ts';
+import { areTitlesSimilar } from './stringSimilarity.ts';
+
+/**
+ * Relevant experience that ended longer ago than this fires the 'recency' soft penalty
+ */
+export const STALE_EXPERIENCE_MONTHS = 36;
+
+/**
+ * Shorter breaks between positions are not reported as gaps (notice periods, job searches)
+ */
+export const MIN_GAP_MONTHS = 6;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toMonth = (year: number, month: number) =>
+  month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : String(year);
+
+/**
+ * Resume date as "YYYY-MM" or "YYYY"
+ * Accepts "2019-03-15", "2019-03", "03/2019", "Mar 2019", "March 2019" and "2019".
+ * @returns null for empty or unparseable values and for "Present"/"Current"
+ */
+export function normalizeResumeDate(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const text = value.trim().toLowerCase();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?/);
+  if (match) {
+    return toMonth(Number(match[1]), Number(match[2]));
+  }
+  match = text.match(/^(\d{1,2})[/.](\d{4})$/);
+  if (match) {
+    return toMonth(Number(match[2]), Number(match[1]));
+  }
+  match = text.match(/^([a-z]{3})[a-z]*\.?,?\s+(\d{4})$/);
+  if (match && MONTH_NAMES.includes(match[1])) {
+    return toMonth(Number(match[2]), MONTH_NAMES.indexOf(match[1]) + 1);
+  }
+  match = text.match(/^(\d{4})$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Months since year 0 for an ISO-like date ("YYYY", "YYYY-MM", "YYYY-MM-DD"); year-only counts as January
+ */
+export function monthIndex(date: string | null | undefined): number | null {
+  const match = (date || '').match(/^(\d{4})(?:-(\d{2}))?/);
+  return match ? Number(match[1]) * 12 + (match[2] ? Number(match[2]) - 1 : 0) : null;
+}
+
+const formatMonth = (index: number) => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+// [start, end) month ranges sorted by start, overlapping ranges merged
+const mergeRanges = (ranges: Array<[number, number]>): Array<[number, number]> => {
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+};
+
+const totalMonths = (ranges: Array<[number, number]>) =>
+  mergeRanges(ranges).reduce((sum, [start, end]) => sum + (end - start), 0);
+
+/**
+ * Recency of relevant experience, tenure and employment gaps for one vacancy (pure)
+ *
+ * A position is relevant when its title is similar to the vacancy title (areTitlesSimilar).
+ * Positions without a start date are ignored; a missing end date counts as today for the
+ * current role and as the start month otherwise.
+ *
+ * @returns null when no position has a start date
+ */
+export function calculateWorkHistorySignals(
+  positions: WorkHistoryPosition[],
+  vacancyTitle: string | null,
+  today: Date = new Date()
+): WorkHistorySignals | null {
+  const now = today.getFullYear() * 12 + today.getMonth();
+
+  const dated = positions
+    .map(position => {
+      const start = monthIndex(position.start_date);
+      if (start === null) return null;
+      const end = position.is_current ? now : monthIndex(position.end_date) ?? start;
+      return { position, range: [start, Math.max(start, end) + 1] as [number, number] };
+    })
+    .filter((entry): entry is { position: WorkHistoryPosition; range: [number, number] } => entry !== null);
+
+  if (dated.length === 0) {
+    return null;
+  }
+
+  const relevantRanges = vacancyTitle
+    ? dated.filter(({ position }) => areTitlesSimilar(position.title, vacancyTitle)).map(({ range }) => range)
+    : [];
+  const lastRelevantEnd = relevantRanges.length > 0 ? Math.max(...relevantRanges.map(([, end]) => end)) : null;
+
+  const gaps: EmploymentGap[] = [];
+  const worked = mergeRanges(dated.map(({ range }) => range));
+  worked.forEach(([, end], i) => {
+    const nextStart = i + 1 < worked.length ? worked[i + 1][0] : now + 1;
+    if (nextStart - end >= MIN_GAP_MONTHS) {
+      gaps.push({
+        from: formatMonth(end),
+        to: i + 1 < worked.length ? formatMonth(nextStart - 1) : null,
+        months: nextStart - end,
+      });
+    }
+  });
+
+  return {
+    relevant_years: Math.round((totalMonths(relevantRanges) / 12) * 10) / 10,
+    months_since_relevant: lastRelevantEnd === null ? null : Math.max(0, now + 1 - lastRelevantEnd),
+    average_tenure_months: Math.round(dated.reduce((sum, { range }) => sum + (range[1] - range[0]), 0) / dated.length),
+    gaps,
+  };
+}
+
+/**
+ * Whether the candidate last worked in a relevant role more than STALE_EXPERIENCE_MONTHS ago
+ */
+export function isRelevantExperienceStale(signals: WorkHistorySignals | null): boolean {
+  return signals?.months_since_relevant != null && signals.months_since_relevant > STALE_EXPERIENCE_MONTHS;
+}
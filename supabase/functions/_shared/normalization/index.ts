@@ -0,0 +1,12 @@
+// Platform-neutral normalization core shared by the Vite app and the job-worker edge function.
+// The LLM client, embedding provider and Supabase client are passed in; nothing here
+// reads environment variables or touches the DOM.
+
+export * from './jobTitle.ts';
+export * from './jobTitleStandardization.ts';
+export * from './unifiedTitlesMapping.ts';
+export * from './location.ts';
+export * from './skills.ts';
+export * from './resumeParsing.ts';
+export * from './candidateEmbeddings.ts';
+export * from './jobEmbeddings.ts';
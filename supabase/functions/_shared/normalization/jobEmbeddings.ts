@@ -0,0 +1,118 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { embeddingMetadata, type EmbeddingMetadata, type EmbeddingProvider } from '../embeddings.ts';
+
+/**
+ * Build meta text for a job record
+ */
+export function buildJobMetaText(job: {
+  title: string | null;
+  location: string | null;
+  industry: string[] | null;
+  skills: string[] | null;
+}): string {
+  const title = job.title || '';
+  const location = job.location || '';
+  const industry = (job.industry || []).join(', ');
+  const skills = job.skills || [];
+
+  return `
+Title: ${title}.
+Location: ${location}.
+Industry: ${industry}.
+Skills Required: ${skills.join(", ")}.
+`;
+}
+
+/**
+ * Generate the matching embeddings of a job and its clustering vectors, and store them
+ * meta_embedding/content_embedding go on the job row; title, description and combined vectors
+ * go to job_embeddings under the job's vacancy_id (migration 026).
+ *
+ * @param supabase - Supabase client (npm package in the browser, esm.sh build in Deno)
+ * @param embeddings - Provider whose model and dimensions are stored with the vectors
+ * @param jobId - Id of the job
+ */
+export async function generateJobEmbeddings(
+  supabase: SupabaseClient,
+  embeddings: EmbeddingProvider,
+  jobId: string | number
+): Promise<void> {
+  try {
+    const { data: job, error: fetchError } = await supabase
+      .from('jobs')
+      .select('vacancy_id, title, location, industry, skills, description')
+      .eq('id', jobId)
+      .single();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch job: ${fetchError.message}`);
+    }
+
+    if (!job) {
+      throw new Error(`Job with id ${jobId} not found`);
+    }
+
+    const metaText = buildJobMetaText(job);
+    // Same text the vacancies view exposes as job_text
+    const contentText = job.description || job.title || '';
+
+    console.log(`Generating embeddings for job ${jobId}...`);
+    const [metaEmbedding, contentEmbedding, titleEmbedding] = await Promise.all([
+      embeddings.embed(metaText),
+      contentText ? embeddings.embed(contentText) : null,
+      job.title ? embeddings.embed(job.title) : null,
+    ]);
+
+    // pgvector expects arrays, Supabase will handle the conversion to vector type
+    const updateData: {
+      meta_embedding?: number[];
+      content_embedding?: number[];
+    } & EmbeddingMetadata = embeddingMetadata(embeddings);
+
+    if (metaEmbedding) {
+      updateData.meta_embedding = metaEmbedding;
+    }
+
+    if (contentEmbedding) {
+      updateData.content_embedding = contentEmbedding;
+    }
+
+    const { error: updateError } = await supabase
+      .from('jobs')
+      .update(updateData)
+      .eq('id', jobId);
+
+    if (updateError) {
+      throw new Error(`Failed to update job embeddings: ${updateError.message}`);
+    }
+
+    // Combined vector is the average of title and description
+    const combinedVector = titleEmbedding && contentEmbedding
+      ? titleEmbedding.map((value, idx) => (value + contentEmbedding[idx]) / 2)
+      : titleEmbedding || contentEmbedding;
+
+    if (combinedVector) {
+      const { error: upsertError } = await supabase
+        .from('job_embeddings')
+        .upsert({
+          job_id: job.vacancy_id,
+          title_vector: titleEmbedding,
+          description_vector: contentEmbedding,
+          combined_vector: combinedVector,
+          ...embeddingMetadata(embeddings),
+          updated_at: new Date().toISOString(),
+        }, {
+          onConflict: 'job_id',
+        });
+
+      if (upsertError) {
+        throw new Error(`Failed to store job clustering vectors: ${upsertError.message}`);
+      }
+    }
+
+    console.log(`Successfully generated and stored embeddings for job ${jobId}`);
+  } catch (error) {
+    console.error(`Error generating job embeddings for ${jobId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,461 @@
+import type { LLMClient } from '../llm.ts';
+import { normalizeResumeDate } from '../matching/workHistory.ts';
+
+/**
+ * One role from PROFESSIONAL EXPERIENCE
+ */
+export interface ParsedWorkPosition {
+  title: string;
+  company: string;
+  location: string;
+  start_date: string | null; // "YYYY-MM" or "YYYY"
+  end_date: string | null; // null for the current role or when the resume gives none
+  is_current: boolean;
+  bullets: string[];
+}
+
+export interface ParsedEducation {
+  institution: string;
+  degree: string;
+  field_of_study: string;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+export interface ParsedResumeData {
+  full_name: string;
+  main_job_title: string;
+  unified_titles?: string[]; // Array of standardized unified titles
+  main_industries: string[];
+  other_related_industries: string[];
+  location: string;
+  linkedin: string;
+  github: string;
+  portfolio: string;
+  total_work_experience_years: number;
+  last_updated_date: string;
+  phone_number: string;
+  email: string;
+  other_social_media: string;
+  company_names: string[];
+  skills?: string[]; // Array of normalized skills (hard skills, soft skills, tools, products, teams, levels, and semantically similar ones)
+  work_history?: ParsedWorkPosition[]; // Most recent first
+  education?: ParsedEducation[];
+}
+
+export const RESUME_PARSING_PROMPT = `You are given a fixed resume template.
+
+Your task is to take the candidate's resume and distribute its content into the correct template sections without rewriting, expanding, or mixing with template examples.
+
+The template defines structure only, not content.
+
+STRICT GLOBAL RULES (NO EXCEPTIONS)
+
+1. You MUST:
+
+Use only content from the candidate's resume.
+
+Preserve role/company descriptions.
+
+Preserve bullet points.
+
+Preserve original meaning and order.
+
+Use neutral plain English (if resume uses another language).
+
+Present everything in clean text with no bold, no italics, unless it existed in resume.
+
+2. You MUST NOT:
+
+Copy any sample text from the template.
+
+Mix template examples with candidate's content.
+
+Invent or infer information.
+
+Rephrase, shorten, or expand text.
+
+Convert bullets into paragraphs (or vice versa), except where specified.
+
+Output "insert content here" or any placeholder text.
+
+Output explanations — only the final formatted resume.
+
+3. Removing empty sections
+
+If a section has no content extracted from the resume,
+
+→ remove that entire section from the final output.
+
+FORMATTING RULES
+
+A) PROFESSIONAL EXPERIENCE (THIS IS THE MOST IMPORTANT PART)
+
+For each separate role, follow this exact structure and order:
+
+1. Dates (exactly as in resume)
+
+2. Company Name
+
+3. Job Title
+
+4. Location (if present)
+
+5. Role/Company Description (plain text — NOT a bullet)
+
+• bullet point
+
+• bullet point
+
+• bullet point
+
+Special Rules
+
+If the candidate has multiple roles in the same company → output each role separately with its own dates/title/description.
+
+If original text mixes description + bullets → separate them:
+
+non-bullet text → Role/Company Description
+
+bullet text → bullets
+
+If original text has no bullets → convert responsibilities into bullets.
+
+Always use real bullet points: •
+
+Never bold or italicize titles unless resume already did.
+
+B) ALL OTHER SECTIONS
+
+Follow the template structure, preserving original formatting:
+
+If content is list-like → bullets are allowed.
+
+If content is paragraph-like → keep as paragraphs.
+
+No bolding unless original resume used bold.
+
+No merging or renaming sections.
+
+C) EXTRA CONTENT
+
+If the resume includes relevant info that does not fit any template section, place it into:
+
+ADDITIONAL INFORMATION
+
+TEMPLATE STRUCTURE TO FOLLOW
+
+(Only include sections where you actually have content)
+
+SUMMARY
+
+[content]
+
+KEY ACHIEVEMENTS
+
+[content]
+
+PROFESSIONAL EXPERIENCE
+
+[structured roles]
+
+PROJECTS
+
+[content]
+
+EDUCATION
+
+[content]
+
+RELATED PROJECTS
+
+[content]
+
+PROFESSIONAL DEVELOPMENT
+
+[content]
+
+EXECUTIVE STRENGTHS
+
+[content]
+
+TECHNICAL SKILLS
+
+[content]
+
+ADDITIONAL INFORMATION
+
+[content]
+
+FINAL OUTPUT REQUIREMENTS
+
+Only output the filled template sections.
+
+Remove empty sections completely.
+
+No commentary, no explanations, no extra text.
+
+Use clean spacing and readable formatting.
+
+IMPORTANT: After filling the template, also extract the following information and return it as JSON:
+- full_name
+- main_job_title
+- unified_titles (array) - Extract ALL job titles mentioned in the resume (from Professional Experience section and any other sections). For EACH job title found in the resume, match it to one or more standardized unified categories from this list: CEO, COO, CTO, CPO, CMO, CFO, CHRO, Product Manager, Program Manager, Project Manager, Software Engineer, Backend Engineer, Frontend Engineer, Full-Stack Engineer, DevOps Engineer, Cloud Engineer, Cybersecurity Engineer, Data Engineer, Machine Learning Engineer, Analyst, BI Developer, Data Scientist, QA, UX/UI Designer, Product Designer, Graphic Designer, Motion Designer, Marketing Manager, Content Manager, Social Media Manager, Sales Manager, Business Development Manager, Account Manager, Customer Success Manager, Customer Support Manager, Operations Manager, Supply Chain Manager, Logistics Manager, Strategy Manager, Event Manager, Finance Manager, HR Manager, Mobile Engineer, Recruiter, Legal Counsel, SDET, Others. IMPORTANT: A candidate can have multiple unified titles if they worked in different roles. Return ALL matching unified titles for ALL job titles found in the resume. Also note: CMO automatically includes Marketing Manager, CPO includes Product Manager, CFO includes Finance Manager, CHRO includes HR Manager, COO includes Operations Manager.
+- main_industries (array)
+- other_related_industries (array)
+- location
+- linkedin
+- github
+- portfolio
+- total_work_experience_years (number)
+- last_updated_date (YYYY-MM-DD format, use today's date)
+- phone_number
+- email
+- other_social_media
+- company_names (array)
+- skills (array) - Extract ALL skills, tools, technologies, and related information from the resume. This includes:
+  * Hard skills (programming languages, frameworks, technologies, methodologies)
+  * Soft skills (communication, leadership, teamwork, etc.)
+  * Tools and software (development tools, design tools, project management tools, etc.)
+  * Products and platforms (specific products worked with, platforms, services)
+  * Teams and methodologies (agile, scrum, team sizes, collaboration tools)
+  * Levels and certifications (seniority levels, certifications, qualifications)
+  * Also include semantically similar skills that are commonly used together with the found skills (e.g., if "React" is found, also include "JavaScript", "TypeScript", "Node.js" if they make sense in context)
+  Return as an array of strings, with each skill as a separate item. Be comprehensive and include everything relevant.
+- work_history (array) - One object per role in PROFESSIONAL EXPERIENCE, most recent first, with:
+  * title - job title exactly as in the resume
+  * company - company name
+  * location - location of the role, or "" if not given
+  * start_date - "YYYY-MM" (or "YYYY" if the resume only gives the year), null if not given
+  * end_date - "YYYY-MM" or "YYYY", null if the role is current
+  * is_current (boolean) - true if the resume says Present/Current/Now for this role
+  * bullets (array) - the role's bullet points, verbatim
+  Roles in the same company are separate objects. Do not guess dates that are not in the resume.
+- education (array) - One object per degree or program, most recent first, with institution, degree, field_of_study, start_date and end_date (same date format as work_history, null if not given)
+
+Format your response as:
+
+FORMATTED_RESUME:
+[the filled template with resume content, only sections with content]
+
+JSON_DATA:
+[valid JSON with the extracted information]`;
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const isCurrentDate = (value: unknown) => /^(present|current|now|today)$/i.test(text(value));
+
+/**
+ * Clean up the model's work_history: dates to "YYYY-MM"/"YYYY", entries without a title dropped
+ */
+export function normalizeWorkHistory(raw: unknown): ParsedWorkPosition[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter(entry => entry && typeof entry === 'object')
+    .map((entry: any) => ({
+      title: text(entry.title || entry.job_title || entry.position),
+      company: text(entry.company || entry.company_name),
+      location: text(entry.location),
+      start_date: normalizeResumeDate(entry.start_date),
+      end_date: isCurrentDate(entry.end_date) ? null : normalizeResumeDate(entry.end_date),
+      is_current: entry.is_current === true || isCurrentDate(entry.end_date),
+      bullets: Array.isArray(entry.bullets) ? entry.bullets.map(text).filter(Boolean) : [],
+    }))
+    .filter(position => position.title);
+}
+
+export function normalizeEducation(raw: unknown): ParsedEducation[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter(entry => entry && typeof entry === 'object')
+    .map((entry: any) => ({
+      institution: text(entry.institution || entry.school || entry.university),
+      degree: text(entry.degree),
+      field_of_study: text(entry.field_of_study || entry.field || entry.major),
+      start_date: normalizeResumeDate(entry.start_date),
+      end_date: normalizeResumeDate(entry.end_date),
+    }))
+    .filter(education => education.institution);
+}
+
+/**
+ * Parse resume text into structured candidate data with the advanced LLM tier
+ * Returns the normalized data and the formatted resume text.
+ */
+export async function parseResume(llm: LLMClient, resumeText: string): Promise<{ data: ParsedResumeData; rawJson: string }> {
+  try {
+    console.log('=== STEP 1: Preparing request to ChatGPT ===');
+    console.log('System prompt:', 'You are a resume formatter. Place the candidate\'s resume content into the correct sections of the template without rewriting, improving, or mixing in template text. Use only content from the resume. Also extract candidate information and return it in JSON format.');
+    console.log('Resume text length:', resumeText.length);
+    console.log('Resume text preview (first 500 chars):', resumeText.substring(0, 500));
+    
+    // Construct the full user message with prompt and resume
+    const fullUserMessage = `${RESUME_PARSING_PROMPT}\n\nResume content:\n${resumeText}`;
+    
+    console.log('=== STEP 2: Sending request to ChatGPT ===');
+    console.log('Full user message length:', fullUserMessage.length);
+    console.log('User message preview (first 1000 chars):', fullUserMessage.substring(0, 1000));
+    
+    const content = await llm.complete({
+      task: 'resume.parse',
+      tier: 'advanced',
+      system: 'You are a resume formatter. Place the candidate\'s resume content into the correct sections of the template without rewriting, improving, or mixing in template text. Use only content from the resume. Also extract candidate information and return it in JSON format.',
+      prompt: fullUserMessage,
+      temperature: 0.3,
+      maxTokens: 6000, // Formatted resume + JSON with work history bullets
+    });
+    
+    console.log('=== STEP 3: Received response from ChatGPT ===');
+    console.log('Raw response content length:', content.length);
+    console.log('Raw response content preview:', content.substring(0, 500));
+    
+    // Parse the response - it should contain both formatted resume and JSON
+    let formattedResume = '';
+    let rawParsed: any = {};
+    
+    // Try to extract JSON_DATA section
+    const jsonMatch = content.match(/JSON_DATA:\s*(\{[\s\S]*\})/i) || content.match(/(\{[\s\S]*\})/);
+    if (jsonMatch) {
+      try {
+        rawParsed = JSON.parse(jsonMatch[1]);
+        console.log('Successfully extracted JSON data');
+        // Extract formatted resume (everything before JSON_DATA)
+        const resumeMatch = content.match(/FORMATTED_RESUME:\s*([\s\S]*?)(?:JSON_DATA|$)/i);
+        if (resumeMatch) {
+          formattedResume = resumeMatch[1].trim();
+        } else {
+          // If no FORMATTED_RESUME section, take everything before JSON
+          formattedResume = content.substring(0, jsonMatch.index || 0).replace(/FORMATTED_RESUME:\s*/i, '').trim();
+        }
+      } catch (error) {
+        console.error('Error parsing JSON from response:', error);
+        // Fallback: try to extract JSON from the end of the response
+        const jsonAtEnd = content.match(/(\{[\s\S]*\})$/);
+        if (jsonAtEnd) {
+          try {
+            rawParsed = JSON.parse(jsonAtEnd[1]);
+            formattedResume = content.substring(0, jsonAtEnd.index || 0).trim();
+          } catch (e) {
+            console.error('Failed to parse JSON even from end:', e);
+          }
+        }
+      }
+    } else {
+      // If no JSON found, the entire response might be the formatted resume
+      formattedResume = content;
+      console.warn('No JSON data found in response, will try to extract data from formatted resume');
+    }
+    
+    console.log('=== EXTRACTED DATA ===');
+    console.log('Formatted resume length:', formattedResume.length);
+    console.log('Raw parsed object:', rawParsed);
+    console.log('Raw parsed keys:', Object.keys(rawParsed));
+    
+    // Normalize keys - handle different formats from ChatGPT
+    const normalizeKey = (key: string): string => {
+      const lowerKey = key.toLowerCase().trim();
+      const keyMap: { [key: string]: string } = {
+        'full name': 'full_name',
+        'fullname': 'full_name',
+        'main job title': 'main_job_title',
+        'mainjobtitle': 'main_job_title',
+        'job title': 'main_job_title',
+        'industries': 'main_industries',
+        'main industries': 'main_industries',
+        'other related industries': 'other_related_industries',
+        'otherrelatedindustries': 'other_related_industries',
+        'related industries': 'other_related_industries',
+        'linkedin link': 'linkedin',
+        'linkedin': 'linkedin',
+        'github link': 'github',
+        'github': 'github',
+        'portfolio link': 'portfolio',
+        'portfolio': 'portfolio',
+        'total work experience in years': 'total_work_experience_years',
+        'totalworkexperienceinyears': 'total_work_experience_years',
+        'work experience': 'total_work_experience_years',
+        'experience': 'total_work_experience_years',
+        'last updated date': 'last_updated_date',
+        'lastupdateddate': 'last_updated_date',
+        'phone number': 'phone_number',
+        'phonenumber': 'phone_number',
+        'phone': 'phone_number',
+        'email': 'email',
+        'other social media': 'other_social_media',
+        'othersocialmedia': 'other_social_media',
+        'all companies names where the candidate worked': 'company_names',
+        'company names': 'company_names',
+        'companies': 'company_names',
+        'companies names': 'company_names',
+        'location': 'location',
+        'skills': 'skills',
+      };
+      return keyMap[lowerKey] || lowerKey.replace(/\s+/g, '_');
+    };
+    
+    // Normalize the parsed object
+    const normalized: any = {};
+    for (const key in rawParsed) {
+      const normalizedKey = normalizeKey(key);
+      normalized[normalizedKey] = rawParsed[key];
+    }
+    
+    console.log('=== NORMALIZED DATA ===');
+    console.log('Normalized object:', normalized);
+    console.log('Normalized keys:', Object.keys(normalized));
+    
+    // Ensure all required fields have default values
+    const result: ParsedResumeData = {
+      full_name: normalized.full_name || normalized.fullname || '',
+      main_job_title: normalized.main_job_title || normalized.job_title || '',
+      unified_titles: Array.isArray(normalized.unified_titles) 
+        ? normalized.unified_titles 
+        : (Array.isArray(normalized.unifiedTitles) ? normalized.unifiedTitles : []),
+      main_industries: Array.isArray(normalized.main_industries) 
+        ? normalized.main_industries 
+        : (Array.isArray(normalized.industries) ? normalized.industries : []),
+      other_related_industries: Array.isArray(normalized.other_related_industries) 
+        ? normalized.other_related_industries 
+        : [],
+      location: normalized.location || '',
+      linkedin: normalized.linkedin || normalized.linkedin_link || 'Not found',
+      github: normalized.github || normalized.github_link || 'Not found',
+      portfolio: normalized.portfolio || normalized.portfolio_link || 'Not found',
+      total_work_experience_years: normalized.total_work_experience_years || normalized.work_experience || normalized.experience || 0,
+      last_updated_date: normalized.last_updated_date || normalized.last_updated || new Date().toISOString().split('T')[0],
+      phone_number: normalized.phone_number || normalized.phone || 'Not found',
+      email: normalized.email || 'Not found',
+      other_social_media: normalized.other_social_media || 'Not found',
+      company_names: Array.isArray(normalized.company_names) 
+        ? normalized.company_names 
+        : (Array.isArray(normalized.companies) ? normalized.companies : []),
+      skills: Array.isArray(normalized.skills) 
+        ? normalized.skills 
+        : [],
+      work_history: normalizeWorkHistory(normalized.work_history),
+      education: normalizeEducation(normalized.education),
+    };
+    
+    console.log('=== FINAL NORMALIZED RESULT ===');
+    console.log('Final result:', result);
+    console.log('Full name:', result.full_name);
+    console.log('Main job title:', result.main_job_title);
+    console.log('Main industries:', result.main_industries);
+    console.log('Related industries:', result.other_related_industries);
+    console.log('Location:', result.location);
+    console.log('Company names:', result.company_names);
+    
+    // Return both normalized data and raw response (which contains formatted resume)
+    return {
+      data: result,
+      rawJson: formattedResume || content, // Return the formatted resume text
+    };
+  } catch (error) {
+    console.error('Error parsing resume with AI:', error);
+    throw error;
+  }
+}
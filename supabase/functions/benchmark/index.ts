@@ -129,6 +129,17 @@ async function runBenchmark(
     throw new Error('Ground truth candidates must be a non-empty array');
   }
 
+  // Resolve the scoring profile behind this version
+  const { data: profile, error: profileError } = await supabase
+    .from('scoring_profiles')
+    .select('id')
+    .eq('version', version)
+    .maybeSingle();
+
+  if (profileError || !profile) {
+    throw new Error(`Scoring profile not found for version ${version}`);
+  }
+
   // Step 2: Get system rankings by calling the match function
   const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
   // Try service role key first, fallback to anon key
@@ -145,7 +156,7 @@ async function runBenchmark(
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${supabaseServiceKey}`,
     },
-    body: JSON.stringify({ vacancy_id: jobId }),
+    body: JSON.stringify({ vacancy_id: jobId, scoring_profile_id: profile.id }),
   });
 
   if (!matchResponse.ok) {
@@ -201,6 +212,7 @@ async function runBenchmark(
     metadata: {
       system_ranking_count: systemRanking.length,
       ground_truth_count: groundTruth.length,
+      scoring_profile_id: profile.id,
     },
   });
 
@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createEmbeddingProviderFromEnv } from '../_shared/embeddingsEnv.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -178,10 +179,12 @@ async function runClustering(
   minClusterSize: number = 5,
   minSamples: number = 2
 ): Promise<{ clusterCount: number; noiseCount: number }> {
-  // Load job vectors
+  // Load job vectors produced by the configured embedding model
+  const { model } = createEmbeddingProviderFromEnv();
   const { data, error } = await supabase
     .from('job_embeddings')
     .select('job_id, combined_vector')
+    .eq('embedding_model', model)
     .not('combined_vector', 'is', null);
 
   if (error) {
@@ -1,6 +1,9 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import OpenAI from 'https://deno.land/x/openai@v4.20.1/mod.ts';
+import type { LLMClient } from '../_shared/llm.ts';
+import { createLLMClientFromEnv } from '../_shared/llmEnv.ts';
+import { embeddingMetadata, type EmbeddingProvider } from '../_shared/embeddings.ts';
+import { createEmbeddingProviderFromEnv } from '../_shared/embeddingsEnv.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,7 +23,7 @@ interface ExpandedJobQuery {
  * Rewrite job description into expanded semantic query using LLM
  */
 async function rewriteJobQuery(
-  openai: OpenAI,
+  llm: LLMClient,
   jobDescription: string
 ): Promise<ExpandedJobQuery> {
   const prompt = `You are a job query expansion system. Analyze the following job description and extract structured information to improve candidate matching.
@@ -59,28 +62,16 @@ Rules:
 
 Return ONLY valid JSON, no additional text.`;
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      {
-        role: 'system',
-        content: 'You are a job query expansion system. Return only valid JSON with the exact structure specified.',
-      },
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
+  const content = await llm.complete({
+    task: 'query.rewrite',
+    tier: 'advanced',
+    system: 'You are a job query expansion system. Return only valid JSON with the exact structure specified.',
+    prompt,
     temperature: 0.3,
-    max_tokens: 1500,
-    response_format: { type: 'json_object' },
+    maxTokens: 1500,
+    json: true,
   });
 
-  const content = response.choices[0]?.message?.content?.trim();
-  if (!content) {
-    throw new Error('No response content from OpenAI');
-  }
-
   let expandedQuery: ExpandedJobQuery;
   try {
     expandedQuery = JSON.parse(content);
@@ -109,7 +100,7 @@ Return ONLY valid JSON, no additional text.`;
  * Generate embedding for enhanced query
  */
 async function generateEnhancedEmbedding(
-  openai: OpenAI,
+  embeddings: EmbeddingProvider,
   expandedQuery: ExpandedJobQuery
 ): Promise<number[]> {
   const enhancedText = [
@@ -120,16 +111,7 @@ async function generateEnhancedEmbedding(
     ...expandedQuery.expanded_keywords,
   ].join(' ');
 
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-large',
-    input: enhancedText.trim(),
-  });
-
-  if (!response.data || response.data.length === 0) {
-    throw new Error('No embedding data returned from OpenAI API');
-  }
-
-  return response.data[0].embedding;
+  return embeddings.embed(enhancedText);
 }
 
 serve(async (req) => {
@@ -142,18 +124,14 @@ serve(async (req) => {
     // Initialize clients
     const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY') ?? '';
 
     if (!supabaseUrl || !supabaseAnonKey) {
       throw new Error('Missing Supabase environment variables');
     }
 
-    if (!openaiApiKey) {
-      throw new Error('Missing OPENAI_API_KEY environment variable');
-    }
-
     const supabase = createClient(supabaseUrl, supabaseAnonKey);
-    const openai = new OpenAI({ apiKey: openaiApiKey });
+    const llm = createLLMClientFromEnv();
+    const embeddings = createEmbeddingProviderFromEnv();
 
     // Extract job ID from URL path
     const url = new URL(req.url);
@@ -212,10 +190,10 @@ serve(async (req) => {
 
     // Rewrite job query
     console.log(`Expanding query for job ${jobId}...`);
-    const expandedQuery = await rewriteJobQuery(openai, jobDescription);
+    const expandedQuery = await rewriteJobQuery(llm, jobDescription);
 
     // Generate enhanced embedding
-    const enhancedEmbedding = await generateEnhancedEmbedding(openai, expandedQuery);
+    const enhancedEmbedding = await generateEnhancedEmbedding(embeddings, expandedQuery);
 
     // Save to database
     const { error: saveError } = await supabase
@@ -229,6 +207,7 @@ serve(async (req) => {
         industry: expandedQuery.industry,
         expanded_keywords: expandedQuery.expanded_keywords,
         job_vector_enhanced: enhancedEmbedding,
+        ...embeddingMetadata(embeddings),
         updated_at: new Date().toISOString(),
       }, {
         onConflict: 'job_id',
@@ -0,0 +1,129 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createLLMClientFromEnv } from '../_shared/llmEnv.ts';
+import { createEmbeddingProviderFromEnv } from '../_shared/embeddingsEnv.ts';
+import { claimBackgroundJob, runBackgroundJob } from '../_shared/jobQueue/index.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Stay well under the edge function wall-clock limit; the job is re-queued and picked up by the next run
+const TIME_BUDGET_MS = 100_000;
+
+/**
+ * A run may be started with the service role key (the schedule and chained runs) or by a signed-in user.
+ * Which jobs a user may queue is up to the background_jobs policies (migrations 018, 032).
+ */
+async function isAllowedCaller(
+  supabaseUrl: string,
+  anonKey: string,
+  serviceRoleKey: string,
+  authorization: string
+): Promise<boolean> {
+  const token = authorization.replace(/^Bearer\s+/i, '');
+  if (token === serviceRoleKey) {
+    return true;
+  }
+
+  // Separate client: the data client must not carry the caller's token
+  const authClient = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error } = await authClient.auth.getUser(token);
+  return !error && !!user;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Jobs run with the service role: bulk jobs update every candidate and the purge job erases them.
+    // The caller's token only decides whether a run may start.
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+    if (!supabaseUrl || !serviceRoleKey || !anonKey) {
+      throw new Error('Missing Supabase environment variables (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and SUPABASE_ANON_KEY)');
+    }
+
+    const authorization = req.headers.get('Authorization');
+    if (!authorization || !(await isAllowedCaller(supabaseUrl, anonKey, serviceRoleKey, authorization))) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const jobId: string | null = body?.job_id ?? null;
+
+    const job = await claimBackgroundJob(supabase, jobId);
+    if (!job) {
+      return new Response(
+        JSON.stringify({ status: 'idle' }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const deps = {
+      supabase,
+      llm: createLLMClientFromEnv(),
+      embeddings: createEmbeddingProviderFromEnv(),
+    };
+
+    const status = await runBackgroundJob(deps, job, { timeBudgetMs: TIME_BUDGET_MS });
+
+    // Chain the next run: continues a re-queued job, or picks up the next queued one (no-op when idle)
+    const nextRun = fetch(`${supabaseUrl}/functions/v1/job-worker`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // The service role key, not the caller's token: a user's token can expire before the queue drains
+        'Authorization': `Bearer ${serviceRoleKey}`,
+      },
+      body: JSON.stringify(status === 'queued' ? { job_id: job.id } : {}),
+    }).catch(error => console.error('Failed to chain job-worker run:', error));
+
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(nextRun);
+    }
+
+    return new Response(
+      JSON.stringify({ job_id: job.id, status }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in /job-worker endpoint:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
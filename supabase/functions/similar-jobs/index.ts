@@ -81,7 +81,7 @@ async function getSimilarJobs(
   // Compute similarity scores using combined vectors
   const { data: jobEmbedding, error: embeddingError } = await supabase
     .from('job_embeddings')
-    .select('combined_vector')
+    .select('combined_vector, embedding_model')
     .eq('job_id', jobId)
     .single();
 
@@ -90,10 +90,11 @@ async function getSimilarJobs(
       ? jobEmbedding.combined_vector
       : JSON.parse(jobEmbedding.combined_vector || '[]');
 
-    // Get embeddings for similar jobs
+    // Get embeddings for similar jobs (same model only - other vectors are not comparable)
     const { data: similarEmbeddings, error: similarEmbeddingsError } = await supabase
       .from('job_embeddings')
       .select('job_id, combined_vector')
+      .eq('embedding_model', jobEmbedding.embedding_model)
       .in('job_id', similarJobIds);
 
     if (!similarEmbeddingsError && similarEmbeddings) {